@@ -1,9 +1,10 @@
-import { renderUnfoldedCanvas } from '../rendering/CanvasMirror';
+import { createUnfoldedCell, renderUnfoldedCanvas } from '../rendering/CanvasMirror';
 import type { CanvasContext, FoldState } from '../services/CanvasService';
 
 interface ContextRecorder {
   transforms: Array<[number, number, number, number, number, number]>;
   drawImageCalls: number;
+  drawImageAlphas: number[];
   context: CanvasRenderingContext2D;
 }
 
@@ -94,6 +95,162 @@ describe('CanvasMirror', () => {
     )).toBe(true);
   });
 
+  test('folds both diagonals with reflected and half-turn quarter copies', () => {
+    const foldedCanvas = document.createElement('canvas');
+    const unfoldedCanvas = document.createElement('canvas');
+    foldedCanvas.width = unfoldedCanvas.width = 128;
+    foldedCanvas.height = unfoldedCanvas.height = 128;
+    const context: CanvasContext = {
+      foldedCanvas,
+      unfoldedCanvas,
+      foldedCtx: contextFor(foldedCanvas),
+      unfoldedCtx: contextFor(unfoldedCanvas),
+    };
+
+    renderUnfoldedCanvas(context, {
+      vertical: 0,
+      horizontal: 0,
+      diagonal: {
+        enabled: true,
+        count: 2,
+        direction: 'topRightToBottomLeft',
+      },
+    });
+
+    const cellTransforms = allRecorders.flatMap((recorder) =>
+      recorder.transforms.map((transform) => transform.join(','))
+    );
+    expect(cellTransforms).toContain([0, 1, 1, 0, 0, 0].join(','));
+    expect(cellTransforms).toContain([0, -1, -1, 0, 128, 128].join(','));
+    expect(cellTransforms).toContain([-1, 0, 0, -1, 128, 128].join(','));
+  });
+
+  test('alternates flips across accordion panels that do not divide the canvas', () => {
+    const foldedCanvas = document.createElement('canvas');
+    const unfoldedCanvas = document.createElement('canvas');
+    foldedCanvas.width = unfoldedCanvas.width = 100;
+    foldedCanvas.height = unfoldedCanvas.height = 60;
+    const context: CanvasContext = {
+      foldedCanvas,
+      unfoldedCanvas,
+      foldedCtx: contextFor(foldedCanvas),
+      unfoldedCtx: contextFor(unfoldedCanvas),
+    };
+
+    renderUnfoldedCanvas(context, {
+      vertical: 0,
+      horizontal: 0,
+      diagonal: {
+        enabled: false,
+        count: 0,
+        direction: 'topRightToBottomLeft',
+      },
+      accordion: { columns: 3, rows: 1 },
+    });
+
+    const targetTransforms = recorderFor(unfoldedCanvas).transforms;
+    expect(targetTransforms).toContainEqual([1, 0, 0, 1, 0, 0]);
+    expect(targetTransforms).toContainEqual([-1, 0, 0, 1, 67, 0]);
+    expect(targetTransforms).toContainEqual([1, 0, 0, 1, 67, 0]);
+  });
+
+  test('lays out panels against the full cloth when rendering one viewport tile', () => {
+    const foldedCanvas = document.createElement('canvas');
+    const unfoldedCanvas = document.createElement('canvas');
+    foldedCanvas.width = foldedCanvas.height = 128;
+    unfoldedCanvas.width = unfoldedCanvas.height = 64;
+    const context: CanvasContext = {
+      foldedCanvas,
+      unfoldedCanvas,
+      foldedCtx: contextFor(foldedCanvas),
+      unfoldedCtx: contextFor(unfoldedCanvas),
+    };
+
+    renderUnfoldedCanvas(context, {
+      vertical: 2,
+      horizontal: 0,
+      diagonal: {
+        enabled: false,
+        count: 0,
+        direction: 'topRightToBottomLeft',
+      },
+    }, undefined, { x: 64, y: 0, width: 128, height: 128 });
+
+    const recorder = recorderFor(unfoldedCanvas);
+    expect(recorder.transforms).toEqual([
+      [1, 0, 0, 1, 0, 0],
+      [1, 0, 0, 1, 0, 0],
+      [-1, 0, 0, 1, 64, 0],
+    ]);
+    expect(recorder.drawImageCalls).toBe(2);
+  });
+
+  test('tiles a prebuilt cell without downsampling the folded canvas again', () => {
+    const foldedCanvas = document.createElement('canvas');
+    const unfoldedCanvas = document.createElement('canvas');
+    foldedCanvas.width = foldedCanvas.height = 128;
+    unfoldedCanvas.width = unfoldedCanvas.height = 64;
+    const context: CanvasContext = {
+      foldedCanvas,
+      unfoldedCanvas,
+      foldedCtx: contextFor(foldedCanvas),
+      unfoldedCtx: contextFor(unfoldedCanvas),
+    };
+    const folds: FoldState = {
+      vertical: 1,
+      horizontal: 1,
+      diagonal: {
+        enabled: true,
+        count: 1,
+        direction: 'topRightToBottomLeft',
+      },
+    };
+    const viewport = { x: 0, y: 0, width: 128, height: 128 };
+
+    const cell = createUnfoldedCell(foldedCanvas, folds, viewport);
+    const canvasesBuilt = allRecorders.length;
+    renderUnfoldedCanvas(context, folds, undefined, viewport, { cell });
+    renderUnfoldedCanvas(context, folds, undefined, { ...viewport, x: 64 }, { cell });
+
+    expect([cell.width, cell.height]).toEqual([64, 64]);
+    expect(allRecorders).toHaveLength(canvasesBuilt);
+    expect(recorderFor(unfoldedCanvas).drawImageCalls).toBe(2);
+  });
+
+  test('fades each panel by its depth in the folded stack when asked', () => {
+    const foldedCanvas = document.createElement('canvas');
+    const unfoldedCanvas = document.createElement('canvas');
+    foldedCanvas.width = foldedCanvas.height = 64;
+    unfoldedCanvas.width = 256;
+    unfoldedCanvas.height = 64;
+    const context: CanvasContext = {
+      foldedCanvas,
+      unfoldedCanvas,
+      foldedCtx: contextFor(foldedCanvas),
+      unfoldedCtx: contextFor(unfoldedCanvas),
+    };
+    const folds: FoldState = {
+      vertical: 2,
+      horizontal: 0,
+      diagonal: {
+        enabled: false,
+        count: 0,
+        direction: 'topRightToBottomLeft',
+      },
+    };
+
+    renderUnfoldedCanvas(context, folds);
+    expect(recorderFor(unfoldedCanvas).drawImageAlphas).toEqual([1, 1, 1, 1]);
+
+    recorderFor(unfoldedCanvas).drawImageAlphas.length = 0;
+    renderUnfoldedCanvas(context, folds, undefined, undefined, { foldDepthFade: true });
+    const [top, fourth, third, second] = recorderFor(unfoldedCanvas).drawImageAlphas;
+    expect(top).toBe(1);
+    expect(second).toBeCloseTo(0.8);
+    expect(third).toBeCloseTo(0.6);
+    expect(fourth).toBeCloseTo(0.4);
+  });
+
   function contextFor(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
     return canvas.getContext('2d') as CanvasRenderingContext2D;
   }
@@ -109,6 +266,7 @@ function createRecorder(canvas: HTMLCanvasElement): ContextRecorder {
   const recorder = {
     transforms: [] as Array<[number, number, number, number, number, number]>,
     drawImageCalls: 0,
+    drawImageAlphas: [] as number[],
     context: null as unknown as CanvasRenderingContext2D,
   };
 
@@ -123,13 +281,17 @@ function createRecorder(canvas: HTMLCanvasElement): ContextRecorder {
     lineTo: jest.fn(),
     closePath: jest.fn(),
     clip: jest.fn(),
-    drawImage: jest.fn(() => { recorder.drawImageCalls++; }),
+    drawImage: jest.fn(() => {
+      recorder.drawImageCalls++;
+      recorder.drawImageAlphas.push(recorder.context.globalAlpha);
+    }),
     setTransform: jest.fn((...transform: [number, number, number, number, number, number]) => {
       recorder.transforms.push(transform);
     }),
     imageSmoothingEnabled: false,
     imageSmoothingQuality: 'low',
     fillStyle: '',
+    globalAlpha: 1,
   } as unknown as CanvasRenderingContext2D;
 
   return recorder;
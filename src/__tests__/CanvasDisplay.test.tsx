@@ -122,4 +122,83 @@ describe('CanvasDisplay Component', () => {
         expect(dispatch).toHaveBeenCalledTimes(1);
         expect(dispatch).toHaveBeenCalledWith({ type: ActionType.UNDO });
     });
-}); 
+
+    test('Redo is enabled only while there are undone commands', () => {
+        const store = createAppStore({
+            shibori: {
+                ...initialState,
+                history: [{
+                    id: 'line-1',
+                    action: DrawingTool.Line,
+                    points: [{ x: 1, y: 1 }, { x: 5, y: 5 }],
+                }],
+            },
+        });
+        render(<Provider store={store}><CanvasDisplay /></Provider>);
+
+        expect(screen.getByTitle('Redo')).toBeDisabled();
+        fireEvent.click(screen.getByTitle('Undo'));
+        expect(screen.getByTitle('Undo')).toBeDisabled();
+
+        fireEvent.click(screen.getByTitle('Redo'));
+        expect(store.getState().shibori.history.map((item) => item.id)).toEqual(['line-1']);
+        expect(screen.getByTitle('Redo')).toBeDisabled();
+    });
+
+    test('shows the history preview step with a way back to the latest', () => {
+        const points = [{ x: 1, y: 1 }, { x: 5, y: 5 }];
+        const store = createAppStore({
+            shibori: {
+                ...initialState,
+                history: [
+                    { id: 'line-1', action: DrawingTool.Line, points },
+                    { id: 'line-2', action: DrawingTool.Line, points },
+                ],
+                historyPreviewLength: 1,
+            },
+        });
+        render(<Provider store={store}><CanvasDisplay /></Provider>);
+
+        expect(screen.getByRole('status')).toHaveTextContent('Previewing step 1 of 2');
+        fireEvent.click(screen.getByRole('button', { name: 'Back to latest' }));
+
+        expect(store.getState().shibori.historyPreviewLength).toBeNull();
+        expect(screen.queryByText('Previewing step 1 of 2')).not.toBeInTheDocument();
+    });
+
+    test('swaps the unfolded view for a tiled repeat preview', () => {
+        const { container } = renderWithRedux(<CanvasDisplay />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Show tiled preview' }));
+
+        expect(container.textContent).toContain('Tiled Preview');
+        expect(screen.getByTestId('repeat-tile-size')).toHaveTextContent('Tile 1600 × 1600 px');
+        expect(screen.getByLabelText('Repeat tile preview, 4 across by 4 down')).toHaveAttribute('width', '2048');
+        expect(container.querySelector('.unfolded-canvas-frame')).toHaveClass('is-hidden');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Fewer repeats across' }));
+        expect(screen.getByLabelText('Repeat tile preview, 3 across by 4 down')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Hide tiled preview' }));
+        expect(container.textContent).toContain('Unfolded Version');
+    });
+
+    test('swaps the unfolded view for a scrubbable unfold animation', () => {
+        const { container } = renderWithRedux(<CanvasDisplay />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Show unfold animation' }));
+
+        expect(container.textContent).toContain('Unfold Animation');
+        expect(container.querySelector('.unfolded-canvas-frame')).toHaveClass('is-hidden');
+        expect(screen.getByLabelText('Unfold animation')).toHaveAttribute('width', '1024');
+        expect(screen.getByTestId('unfold-step')).toHaveTextContent('Folded');
+
+        fireEvent.change(screen.getByRole('slider', { name: 'Unfold progress' }), { target: { value: '1000' } });
+        expect(screen.getByTestId('unfold-step')).toHaveTextContent('Unfolded');
+        expect(screen.getByRole('button', { name: 'Replay' })).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Show tiled preview' }));
+        expect(container.textContent).toContain('Tiled Preview');
+        expect(screen.queryByLabelText('Unfold animation')).not.toBeInTheDocument();
+    });
+});
@@ -5,7 +5,8 @@ import { DimensionControls } from '../components/shibori/DimensionControls';
 import { renderWithRedux } from '../testUtils';
 import * as reduxHooks from '../hooks/useReduxHooks';
 import { State } from '../store/shiboriCanvasState';
-import { DrawingTool, ShapeFillMode, DiagonalDirection } from '../types';
+import { DrawingTool, ShapeFillMode, DiagonalDirection, ResistBlockShape } from '../types';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
 
 describe('DimensionControls Component', () => {
     const mockState: State = {
@@ -28,15 +29,33 @@ describe('DimensionControls Component', () => {
         circleRadius: 20,
         lineThickness: 2,
         shapeFillMode: ShapeFillMode.Filled,
+        polygonSides: 6,
+        starPoints: 5,
+        starInnerRadiusRatio: 0.5,
+        resistBlockShape: ResistBlockShape.Rectangle,
+        drawingColor: '#ffffff',
+        recentColors: [],
+        colorPalette: ['#ffffff', '#1d2a5b'],
+        backgroundColor: '#000080',
+        dyedPreview: false,
+        foldDepthFade: false,
         currentTool: DrawingTool.Circle,
         canvasDimensions: {
             width: 400,
             height: 400
         },
         history: [],
+        redoStack: [],
+        historyPreviewLength: null,
+        activeHistoryBranchId: 'branch-1',
+        historyBranches: [],
         selectedHistoryItemId: null,
+        selectedHistoryItemIds: [],
+        selectionMarquee: null,
         selectionDragDelta: null,
-        selectionRotationPreview: null
+        selectionRotationPreview: null,
+        selectionScalePreview: null,
+        activeLayerId: DEFAULT_LAYER_ID
     };
 
     const mockDispatch = jest.fn();
@@ -7,11 +7,16 @@ describe('DrawingModeFactory', () => {
 
   test.each([
     [DrawingTool.Paintbrush, 'PaintbrushMode'],
+    [DrawingTool.Eraser, 'EraserMode'],
     [DrawingTool.Line, 'LineMode'],
     [DrawingTool.Rectangle, 'RectangleMode'],
     [DrawingTool.Square, 'SquareMode'],
     [DrawingTool.Circle, 'CircleMode'],
+    [DrawingTool.Ellipse, 'EllipseMode'],
+    [DrawingTool.Polygon, 'PolygonMode'],
+    [DrawingTool.Star, 'StarMode'],
     [DrawingTool.Bezier, 'BezierMode'],
+    [DrawingTool.ResistBlock, 'ResistBlockMode'],
   ] satisfies Array<[DrawableDrawingTool, string]>)('creates %s with %s', (tool, expectedModeName) => {
     expect(DrawingModeFactory.getTool(tool).constructor.name).toBe(expectedModeName);
   });
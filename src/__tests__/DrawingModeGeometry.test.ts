@@ -1,5 +1,5 @@
 import { DrawingModeFactory } from '../drawingModes/DrawingModeFactory';
-import { DrawingTool, ShapeFillMode } from '../types';
+import { DrawingTool, ResistBlockShape, ShapeFillMode } from '../types';
 import { DrawableDrawingTool, DrawableHistoryItem, UndoableHistoryItem } from '../types/DrawingMode';
 
 const options = { lineThickness: 10, hitTolerance: 2 };
@@ -8,15 +8,21 @@ describe('drawing mode geometry', () => {
   test.each([
     DrawingTool.Line,
     DrawingTool.Paintbrush,
+    DrawingTool.Eraser,
     DrawingTool.Rectangle,
     DrawingTool.Square,
     DrawingTool.Circle,
+    DrawingTool.Ellipse,
+    DrawingTool.Polygon,
+    DrawingTool.Star,
     DrawingTool.Bezier,
+    DrawingTool.ResistBlock,
   ] satisfies DrawableDrawingTool[])('%s exposes geometry', (tool) => {
     expect(DrawingModeFactory.getGeometry(tool)).toEqual({
       hitTest: expect.any(Function),
       getBounds: expect.any(Function),
       translate: expect.any(Function),
+      scale: expect.any(Function),
     });
   });
 
@@ -146,6 +152,107 @@ describe('drawing mode geometry', () => {
     expect(geometry.hitTest(outline, { x: 150, y: 100 }, options)).toBe(true);
   });
 
+  test('ellipse geometry hit tests and bounds a rotated ellipse along its own axes', () => {
+    const filled: UndoableHistoryItem = {
+      id: 'ellipse',
+      action: DrawingTool.Ellipse,
+      points: [{ x: 100, y: 100 }, { x: 140, y: 120 }],
+      rotation: Math.PI / 2,
+      rotationCenter: { x: 100, y: 100 },
+      style: { lineThickness: 10, color: 'white', shapeFillMode: ShapeFillMode.Filled },
+    };
+    const outline = { ...filled, style: { ...filled.style!, shapeFillMode: ShapeFillMode.Outline } };
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.Ellipse);
+
+    // A quarter turn stands the 80 × 40 ellipse upright
+    expect(geometry.hitTest(filled, { x: 100, y: 135 }, options)).toBe(true);
+    expect(geometry.hitTest(filled, { x: 135, y: 100 }, options)).toBe(false);
+    expect(geometry.hitTest(outline, { x: 100, y: 100 }, options)).toBe(false);
+    expect(geometry.hitTest(outline, { x: 100, y: 141 }, options)).toBe(true);
+
+    const bounds = geometry.getBounds(filled, options)!;
+    expect(bounds.minX).toBeCloseTo(75);
+    expect(bounds.maxX).toBeCloseTo(125);
+    expect(bounds.minY).toBeCloseTo(55);
+    expect(bounds.maxY).toBeCloseTo(145);
+  });
+
+  test('polygon geometry hit tests the drawn corners and bounds them', () => {
+    const diamond: UndoableHistoryItem = {
+      id: 'polygon',
+      action: DrawingTool.Polygon,
+      points: [{ x: 100, y: 100 }, { x: 150, y: 100 }],
+      sides: 4,
+      style: { lineThickness: 10, color: 'white', shapeFillMode: ShapeFillMode.Filled },
+    };
+    const outline = { ...diamond, style: { ...diamond.style!, shapeFillMode: ShapeFillMode.Outline } };
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.Polygon);
+
+    expect(geometry.hitTest(diamond, { x: 100, y: 100 }, options)).toBe(true);
+    expect(geometry.hitTest(diamond, { x: 140, y: 140 }, options)).toBe(false);
+    expect(geometry.hitTest(outline, { x: 100, y: 100 }, options)).toBe(false);
+    expect(geometry.hitTest(outline, { x: 125, y: 125 }, options)).toBe(true);
+    expect(geometry.getBounds(diamond, options)).toEqual({ minX: 45, minY: 45, maxX: 155, maxY: 155 });
+  });
+
+  test('star geometry leaves the notches between its points empty', () => {
+    const item: UndoableHistoryItem = {
+      id: 'star',
+      action: DrawingTool.Star,
+      points: [{ x: 100, y: 100 }, { x: 100, y: 40 }],
+      sides: 5,
+      innerRadiusRatio: 0.4,
+      style: { lineThickness: 10, color: 'white', shapeFillMode: ShapeFillMode.Filled },
+    };
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.Star);
+
+    expect(geometry.hitTest(item, { x: 100, y: 45 }, options)).toBe(true);
+    expect(geometry.hitTest(item, { x: 100, y: 100 }, options)).toBe(true);
+    // Straight down from the center is the notch between the two lower points
+    expect(geometry.hitTest(item, { x: 100, y: 140 }, options)).toBe(false);
+    expect(geometry.translate(item, { x: 5, y: 5 }).points).toEqual([{ x: 105, y: 105 }, { x: 105, y: 45 }]);
+  });
+
+  test('resist block geometry is solid across its whole outline', () => {
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.ResistBlock);
+    const rectangle: UndoableHistoryItem = {
+      id: 'block-rect',
+      action: DrawingTool.ResistBlock,
+      points: [{ x: 100, y: 100 }, { x: 130, y: 120 }],
+      blockShape: ResistBlockShape.Rectangle,
+    };
+    const triangle: UndoableHistoryItem = {
+      ...rectangle,
+      id: 'block-triangle',
+      points: [{ x: 100, y: 100 }, { x: 100, y: 40 }],
+      blockShape: ResistBlockShape.Triangle,
+    };
+
+    expect(geometry.hitTest(rectangle, { x: 75, y: 85 }, options)).toBe(true);
+    expect(geometry.hitTest(rectangle, { x: 135, y: 100 }, options)).toBe(false);
+    expect(geometry.getBounds(rectangle, options)).toEqual({ minX: 70, minY: 80, maxX: 130, maxY: 120 });
+    expect(geometry.hitTest(triangle, { x: 100, y: 100 }, options)).toBe(true);
+    expect(geometry.hitTest(triangle, { x: 140, y: 60 }, options)).toBe(false);
+  });
+
+  test('resist block geometry stretches rectangles but keeps other blocks regular', () => {
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.ResistBlock);
+    const rectangle: UndoableHistoryItem = {
+      id: 'block-rect',
+      action: DrawingTool.ResistBlock,
+      points: [{ x: 100, y: 100 }, { x: 120, y: 80 }],
+      blockShape: ResistBlockShape.Rectangle,
+    };
+    const hexagon: UndoableHistoryItem = { ...rectangle, id: 'block-hexagon', blockShape: ResistBlockShape.Hexagon };
+
+    expect(geometry.scale(rectangle, { x: 50, y: 50 }, { x: 2, y: 1 }).points)
+      .toEqual([{ x: 150, y: 100 }, { x: 190, y: 80 }]);
+    expect(geometry.scale(hexagon, { x: 50, y: 50 }, { x: 2, y: 1 }).points)
+      .toEqual([{ x: 150, y: 100 }, { x: 190, y: 60 }]);
+    expect(geometry.scale({ ...hexagon, rotation: 0.5 }, { x: 100, y: 100 }, { x: -1, y: 1 }).rotation)
+      .toBeCloseTo(-0.5);
+  });
+
   test('bezier geometry hit tests the curve, computes tight bounds, and translates all points', () => {
     const item: UndoableHistoryItem = {
       id: 'bezier',
@@ -174,4 +281,83 @@ describe('drawing mode geometry', () => {
         expect.objectContaining({ point: { x: 110, y: -5 }, inHandle: { x: 110, y: 95 } }),
       ]));
   });
+
+  test('point geometry scales about an origin and mirrors on negative factors', () => {
+    const item: UndoableHistoryItem = {
+      id: 'line',
+      action: DrawingTool.Line,
+      points: [{ x: 10, y: 10 }, { x: 110, y: 30 }],
+    };
+
+    expect(DrawingModeFactory.getGeometry(DrawingTool.Line).scale(item, { x: 10, y: 10 }, { x: 2, y: 0.5 }).points)
+      .toEqual([{ x: 10, y: 10 }, { x: 210, y: 20 }]);
+    expect(DrawingModeFactory.getGeometry(DrawingTool.Paintbrush).scale(
+      { ...item, action: DrawingTool.Paintbrush },
+      { x: 60, y: 0 },
+      { x: -1, y: 1 }
+    ).points).toEqual([{ x: 110, y: 10 }, { x: 10, y: 30 }]);
+  });
+
+  test('circle geometry keeps circles round and scales the radius by the larger stretch', () => {
+    const item: UndoableHistoryItem = {
+      id: 'circle',
+      action: DrawingTool.Circle,
+      points: [{ x: 100, y: 100 }, { x: 150, y: 100 }],
+    };
+    const scaled = DrawingModeFactory.getGeometry(DrawingTool.Circle).scale(item, { x: 50, y: 50 }, { x: 2, y: 1 });
+
+    expect(scaled.points).toEqual([{ x: 150, y: 100 }, { x: 250, y: 100 }]);
+  });
+
+  test('polygon geometry stays regular and mirrors its corner on negative factors', () => {
+    const item: UndoableHistoryItem = {
+      id: 'polygon',
+      action: DrawingTool.Polygon,
+      points: [{ x: 100, y: 100 }, { x: 120, y: 80 }],
+      sides: 3,
+    };
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.Polygon);
+
+    expect(geometry.scale(item, { x: 50, y: 50 }, { x: 2, y: 1 }).points)
+      .toEqual([{ x: 150, y: 100 }, { x: 190, y: 60 }]);
+    expect(geometry.scale(item, { x: 100, y: 100 }, { x: -1, y: 1 }).points)
+      .toEqual([{ x: 100, y: 100 }, { x: 80, y: 80 }]);
+  });
+
+  test('rectangle geometry mirrors a rotated rectangle by reversing its rotation', () => {
+    const item: UndoableHistoryItem = {
+      id: 'rect-rotated',
+      action: DrawingTool.Rectangle,
+      points: [{ x: 0, y: 0 }, { x: 100, y: 20 }],
+      rotation: Math.PI / 6,
+      rotationCenter: { x: 50, y: 10 },
+    };
+    const geometry = DrawingModeFactory.getGeometry(DrawingTool.Rectangle);
+    const flipped = geometry.scale(item, { x: 200, y: 0 }, { x: -1, y: 1 });
+
+    expect(flipped.rotation).toBeCloseTo(-Math.PI / 6);
+    expect(flipped.rotationCenter).toEqual({ x: 350, y: 10 });
+    expect(flipped.points).toEqual([{ x: 400, y: 0 }, { x: 300, y: 20 }]);
+    expect(geometry.getBounds(flipped, options)?.minX).toBeCloseTo(400 - geometry.getBounds(item, options)!.maxX);
+  });
+
+  test('bezier geometry scales anchors and handles', () => {
+    const item: UndoableHistoryItem = {
+      id: 'bezier',
+      action: DrawingTool.Bezier,
+      points: [
+        { x: 0, y: 0 },
+        { x: 0, y: 100 },
+        { x: 100, y: 100 },
+        { x: 100, y: 0 },
+      ],
+    };
+    const scaled = DrawingModeFactory.getGeometry(DrawingTool.Bezier).scale(item, { x: 0, y: 0 }, { x: 0.5, y: 2 });
+
+    expect(scaled.action === DrawingTool.Bezier ? scaled.path?.anchors : null)
+      .toEqual(expect.arrayContaining([
+        expect.objectContaining({ point: { x: 0, y: 0 }, outHandle: { x: 0, y: 200 } }),
+        expect.objectContaining({ point: { x: 50, y: 0 }, inHandle: { x: 50, y: 200 } }),
+      ]));
+  });
 });
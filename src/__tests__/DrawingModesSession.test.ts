@@ -2,8 +2,12 @@ import { LineMode } from "../drawingModes/LineMode";
 import { PaintbrushMode } from "../drawingModes/PaintbrushMode";
 import { RectangleMode } from "../drawingModes/RectangleMode";
 import { BezierMode } from "../drawingModes/BezierMode";
+import { StarMode } from "../drawingModes/StarMode";
+import { EllipseMode } from "../drawingModes/EllipseMode";
+import { EraserMode } from "../drawingModes/EraserMode";
+import { ResistBlockMode } from "../drawingModes/ResistBlockMode";
 import { initialState } from "../store/shiboriCanvasState";
-import { DrawingTool, ShapeFillMode } from "../types";
+import { DrawingTool, ResistBlockShape, ShapeFillMode } from "../types";
 import { DrawingModeContext } from "../types/DrawingMode";
 
 function modeContext() {
@@ -13,16 +17,17 @@ function modeContext() {
     putImageData: jest.fn(),
     save: jest.fn(), restore: jest.fn(), beginPath: jest.fn(), closePath: jest.fn(),
     moveTo: jest.fn(), lineTo: jest.fn(), fill: jest.fn(), stroke: jest.fn(),
-    rect: jest.fn(), arc: jest.fn(), bezierCurveTo: jest.fn(), strokeRect: jest.fn(), fillRect: jest.fn(),
+    rect: jest.fn(), arc: jest.fn(), ellipse: jest.fn(), bezierCurveTo: jest.fn(), strokeRect: jest.fn(), fillRect: jest.fn(),
     fillStyle: "", strokeStyle: "", lineWidth: 0, globalAlpha: 1,
-    lineCap: "butt", lineJoin: "miter",
+    lineCap: "butt", lineJoin: "miter", globalCompositeOperation: "source-over",
+    canvas: { width: 200, height: 100 },
   } as unknown as CanvasRenderingContext2D;
   const context: DrawingModeContext = {
     getState: () => ({
       ...initialState,
       lineThickness: 12,
       shapeFillMode: ShapeFillMode.Outline,
-      config: { ...initialState.config, lineColor: "magenta" },
+      drawingColor: "magenta",
     }),
     foldedCtx,
     getFoldedCanvasDimensions: () => ({ width: 200, height: 100 }),
@@ -54,6 +59,69 @@ describe("local drawing mode sessions", () => {
     expect(mode.end(null, second.context)).toEqual({ status: 'discard' });
   });
 
+  test("paintbrush keeps pen samples only when every point came from a pen", () => {
+    const mode = new PaintbrushMode();
+    const { context } = modeContext();
+    const light = { pressure: 0.2, tiltX: 0, tiltY: 0 };
+    const heavy = { pressure: 0.9, tiltX: 40, tiltY: 10 };
+
+    mode.start({ x: 1, y: 2 }, context, { pen: light });
+    mode.continue({ x: 3, y: 4 }, context, { pen: heavy });
+    const result = mode.end({ x: 3, y: 4 }, context);
+    expect(result.status === "commit" && result.item).toMatchObject({ penSamples: [light, heavy] });
+
+    mode.start({ x: 1, y: 2 }, context, { pen: light });
+    mode.continue({ x: 3, y: 4 }, context);
+    const mixed = mode.end({ x: 3, y: 4 }, context);
+    expect(mixed.status === "commit" && mixed.item).not.toHaveProperty("penSamples");
+  });
+
+  test("eraser previews a knockout over the cloth and commits an eraser stroke", () => {
+    const mode = new EraserMode();
+    const { context, foldedCtx } = modeContext();
+    const operations: string[] = [];
+    (foldedCtx.fill as jest.Mock).mockImplementation(() => operations.push(foldedCtx.globalCompositeOperation));
+    (foldedCtx.fillRect as jest.Mock).mockImplementation(() => operations.push(foldedCtx.globalCompositeOperation));
+
+    mode.start({ x: 1, y: 2 }, context);
+    mode.continue({ x: 5, y: 6 }, context);
+
+    expect(operations).toEqual(["destination-out", "destination-over"]);
+    expect(foldedCtx.fillRect).toHaveBeenCalledWith(0, 0, 200, 100);
+    expect(mode.end({ x: 5, y: 6 }, context)).toEqual({
+      status: "commit",
+      item: {
+        action: DrawingTool.Eraser,
+        points: [{ x: 1, y: 2 }, { x: 5, y: 6 }],
+        style: { lineThickness: 12, color: "magenta" },
+      },
+    });
+  });
+
+  test("resist block previews in the cloth color and commits its shape without a fill mode", () => {
+    const mode = new ResistBlockMode();
+    const { context, foldedCtx } = modeContext();
+    const state = { ...context.getState(), backgroundColor: "#f5f0e6", resistBlockShape: ResistBlockShape.Circle };
+    context.getState = () => state;
+    const fills: string[] = [];
+    (foldedCtx.fill as jest.Mock).mockImplementation(() => fills.push(`${foldedCtx.globalCompositeOperation}:${String(foldedCtx.fillStyle)}`));
+
+    mode.start({ x: 50, y: 50 }, context);
+    mode.continue({ x: 60, y: 50 }, context);
+
+    expect(foldedCtx.arc).toHaveBeenCalledWith(50, 50, 10, 0, Math.PI * 2);
+    expect(fills).toEqual(["source-over:#f5f0e6"]);
+    expect(mode.end({ x: 60, y: 50 }, context)).toEqual({
+      status: "commit",
+      item: {
+        action: DrawingTool.ResistBlock,
+        points: [{ x: 50, y: 50 }, { x: 60, y: 50 }],
+        blockShape: ResistBlockShape.Circle,
+        style: { lineThickness: 12, color: "magenta" },
+      },
+    });
+  });
+
   test("line captures start locally and cancel resets", () => {
     const mode = new LineMode();
     const first = modeContext();
@@ -94,6 +162,44 @@ describe("local drawing mode sessions", () => {
     });
   });
 
+  test("ellipse drags from its center and shift keeps it round", () => {
+    const mode = new EllipseMode();
+    const { context, foldedCtx } = modeContext();
+    mode.start({ x: 50, y: 50 }, context);
+    mode.continue({ x: 90, y: 70 }, context);
+    expect(foldedCtx.ellipse).toHaveBeenLastCalledWith(50, 50, 40, 20, 0, 0, Math.PI * 2);
+
+    mode.continue({ x: 90, y: 70 }, context, { shiftKey: true });
+    expect(foldedCtx.ellipse).toHaveBeenLastCalledWith(50, 50, 40, 40, 0, 0, Math.PI * 2);
+    expect(mode.end({ x: 20, y: 40 }, context, { shiftKey: true })).toEqual({
+      status: 'commit',
+      item: expect.objectContaining({
+        action: DrawingTool.Ellipse,
+        points: [{ x: 50, y: 50 }, { x: 20, y: 20 }],
+      }),
+    });
+  });
+
+  test("star records the point count and inner radius set when the drag starts", () => {
+    const mode = new StarMode();
+    const { context, foldedCtx } = modeContext();
+    context.getState = () => ({ ...initialState, starPoints: 6, starInnerRadiusRatio: 0.3 });
+    mode.start({ x: 50, y: 50 }, context);
+    mode.continue({ x: 50, y: 20 }, context);
+    expect(foldedCtx.lineTo).toHaveBeenCalledTimes(11);
+
+    context.getState = () => ({ ...initialState, starPoints: 8 });
+    expect(mode.end({ x: 50, y: 10 }, context)).toEqual({
+      status: 'commit',
+      item: expect.objectContaining({
+        action: DrawingTool.Star,
+        points: [{ x: 50, y: 50 }, { x: 50, y: 10 }],
+        sides: 6,
+        innerRadiusRatio: 0.3,
+      }),
+    });
+  });
+
   test("bezier continues after the first tangent and commits after the second", () => {
     const mode = new BezierMode();
     const { context, foldedCtx } = modeContext();
@@ -5,7 +5,8 @@ import { renderWithRedux } from '../testUtils';
 import * as reduxHooks from '../hooks/useReduxHooks';
 import { FoldControls } from '../components/shibori/FoldControls';
 import { State } from '../store/shiboriCanvasState';
-import { DrawingTool, ShapeFillMode, DiagonalDirection } from '../types';
+import { DrawingTool, ShapeFillMode, DiagonalDirection, ResistBlockShape } from '../types';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
 
 describe('FoldControls Component', () => {
     const mockState: State = {
@@ -28,15 +29,33 @@ describe('FoldControls Component', () => {
         circleRadius: 20,
         lineThickness: 2,
         shapeFillMode: ShapeFillMode.Filled,
+        polygonSides: 6,
+        starPoints: 5,
+        starInnerRadiusRatio: 0.5,
+        resistBlockShape: ResistBlockShape.Rectangle,
+        drawingColor: '#ffffff',
+        recentColors: [],
+        colorPalette: ['#ffffff', '#1d2a5b'],
+        backgroundColor: '#000080',
+        dyedPreview: false,
+        foldDepthFade: false,
         currentTool: DrawingTool.Circle,
         canvasDimensions: {
             width: 400,
             height: 400
         },
         history: [],
+        redoStack: [],
+        historyPreviewLength: null,
+        activeHistoryBranchId: 'branch-1',
+        historyBranches: [],
         selectedHistoryItemId: null,
+        selectedHistoryItemIds: [],
+        selectionMarquee: null,
         selectionDragDelta: null,
-        selectionRotationPreview: null
+        selectionRotationPreview: null,
+        selectionScalePreview: null,
+        activeLayerId: DEFAULT_LAYER_ID
     };
 
     const mockDispatch = jest.fn();
@@ -109,4 +128,85 @@ describe('FoldControls Component', () => {
         const foldButton = within(verticalRow as HTMLElement).getByRole('button', { name: 'Fold +' });
         expect(foldButton).toBeDisabled();
     });
-}); 
+
+    test('diagonal folds can fold both diagonals and choose a single-fold direction', () => {
+        const diagonalState = {
+            ...mockState,
+            folds: {
+                vertical: 1,
+                horizontal: 1,
+                diagonal: { enabled: true, count: 1, direction: DiagonalDirection.TopRightToBottomLeft }
+            }
+        };
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => diagonalState);
+
+        renderWithRedux(<FoldControls />);
+
+        const diagonalRow = screen.getByText('Diagonal Folds: 1').closest('.fold-control-row');
+        fireEvent.click(within(diagonalRow as HTMLElement).getByRole('button', { name: 'Fold +' }));
+        fireEvent.change(screen.getByLabelText('Diagonal direction'), {
+            target: { value: DiagonalDirection.TopLeftToBottomRight }
+        });
+
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'UPDATE_DIAGONAL_FOLD_COUNT', payload: 2 });
+        expect(mockDispatch).toHaveBeenCalledWith({
+            type: 'UPDATE_DIAGONAL_FOLD_DIRECTION',
+            payload: DiagonalDirection.TopLeftToBottomRight
+        });
+    });
+
+    test('dual diagonal folds disable further diagonal folds and the direction choice', () => {
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
+            ...mockState,
+            folds: {
+                vertical: 1,
+                horizontal: 1,
+                diagonal: { enabled: true, count: 2, direction: DiagonalDirection.TopRightToBottomLeft }
+            }
+        }));
+
+        renderWithRedux(<FoldControls />);
+
+        const diagonalRow = screen.getByText('Diagonal Folds: 2').closest('.fold-control-row');
+        expect(within(diagonalRow as HTMLElement).getByRole('button', { name: 'Fold +' })).toBeDisabled();
+        expect(screen.getByLabelText('Diagonal direction')).toBeDisabled();
+    });
+
+    test('accordion mode swaps fold steppers for panel counts', () => {
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
+            ...mockState,
+            folds: { ...mockState.folds, accordion: { columns: 3, rows: 12 } }
+        }));
+
+        renderWithRedux(<FoldControls />);
+
+        expect(screen.getByLabelText('Accordion panels')).toBeChecked();
+        expect(screen.queryByText('Vertical Folds: 2')).not.toBeInTheDocument();
+
+        const columnsRow = screen.getByText('Vertical Panels: 3').closest('.fold-control-row');
+        fireEvent.click(within(columnsRow as HTMLElement).getByRole('button', { name: 'Add panel' }));
+        const rowsRow = screen.getByText('Horizontal Panels: 12').closest('.fold-control-row');
+        expect(within(rowsRow as HTMLElement).getByRole('button', { name: 'Add panel' })).toBeDisabled();
+
+        expect(mockDispatch).toHaveBeenCalledWith({
+            type: 'UPDATE_ACCORDION_PANELS',
+            payload: { axis: 'columns', value: 4 }
+        });
+    });
+
+    test('accordion toggle dispatches the mode change', () => {
+        renderWithRedux(<FoldControls />);
+
+        fireEvent.click(screen.getByLabelText('Accordion panels'));
+
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_ACCORDION_MODE', payload: true });
+    });
+
+    test('fade through layers toggle dispatches the view setting', () => {
+        renderWithRedux(<FoldControls />);
+
+        fireEvent.click(screen.getByLabelText('Fade through layers'));
+
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_FOLD_DEPTH_FADE', payload: true });
+    });
+});
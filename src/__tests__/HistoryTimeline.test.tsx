@@ -0,0 +1,93 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { HistoryTimeline } from '../components/shibori/HistoryTimeline';
+import { createAppStore } from '../store';
+import { initialState } from '../store/shiboriCanvasState';
+import { DrawingTool, HistoryAction } from '../types';
+import { UndoableHistoryItem } from '../types/DrawingMode';
+import { createMoveHistoryItem } from '../utils/historyOperations';
+
+function renderTimeline() {
+    const points = [{ x: 1, y: 1 }, { x: 5, y: 5 }];
+    const store = createAppStore({
+        shibori: {
+            ...initialState,
+            history: [
+                { id: 'line-1', action: DrawingTool.Line, points },
+                createMoveHistoryItem('line-1', points, points.map(({ x, y }) => ({ x: x + 3, y }))),
+                { action: HistoryAction.Clear, points: [] },
+            ],
+        },
+    });
+    render(<Provider store={store}><HistoryTimeline /></Provider>);
+    return store;
+}
+
+describe('HistoryTimeline', () => {
+    test('lists every command after the blank canvas with the latest step current', () => {
+        renderTimeline();
+
+        expect(screen.getAllByRole('listitem')).toHaveLength(4);
+        expect(screen.getByRole('button', { name: 'Step 1: Line' })).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Step 2: Move' })).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Step 3: Clear canvas' })).toHaveAttribute('aria-current', 'step');
+        expect(screen.queryByRole('button', { name: 'Revert to here' })).not.toBeInTheDocument();
+    });
+
+    test('previews an earlier step and reverts to it', () => {
+        const store = renderTimeline();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Step 1: Line' }));
+
+        expect(store.getState().shibori.historyPreviewLength).toBe(1);
+        expect(screen.getByRole('button', { name: 'Step 1: Line' })).toHaveAttribute('aria-current', 'step');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Revert to here' }));
+
+        expect(store.getState().shibori.history.map((item) => item.action)).toEqual([DrawingTool.Line]);
+        expect(store.getState().shibori.redoStack).toEqual([]);
+        expect(store.getState().shibori.historyBranches).toHaveLength(1);
+        expect(store.getState().shibori.historyBranches[0].commands).toHaveLength(3);
+        expect(store.getState().shibori.historyPreviewLength).toBeNull();
+    });
+
+    test('selecting the latest step ends the preview', () => {
+        const store = renderTimeline();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Step 0: Blank canvas' }));
+        expect(store.getState().shibori.historyPreviewLength).toBe(0);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Step 3: Clear canvas' }));
+        expect(store.getState().shibori.historyPreviewLength).toBeNull();
+    });
+
+    test('switches between branches of the undo tree', () => {
+        const points = [{ x: 1, y: 1 }, { x: 5, y: 5 }];
+        const first: UndoableHistoryItem = { id: 'line-1', action: DrawingTool.Line, points };
+        const store = createAppStore({
+            shibori: {
+                ...initialState,
+                history: [first, { id: 'line-3', action: DrawingTool.Line, points }],
+                activeHistoryBranchId: 'branch-2',
+                historyBranches: [{
+                    id: 'branch-1',
+                    commands: [first, { id: 'line-2', action: DrawingTool.Line, points }, { action: HistoryAction.Clear, points: [] }],
+                    folds: initialState.folds,
+                    canvasDimensions: initialState.canvasDimensions,
+                }],
+            },
+        });
+        render(<Provider store={store}><HistoryTimeline /></Provider>);
+
+        const switcher = screen.getByRole('combobox', { name: 'Branch' });
+        expect(switcher).toHaveValue('branch-2');
+        expect(screen.getByRole('option', { name: 'Branch 1 · 3 steps · splits after step 1' })).toBeInTheDocument();
+        expect(screen.getByRole('option', { name: 'Branch 2 · 2 steps · current' })).toBeInTheDocument();
+
+        fireEvent.change(switcher, { target: { value: 'branch-1' } });
+
+        expect(store.getState().shibori.activeHistoryBranchId).toBe('branch-1');
+        expect(screen.getByRole('button', { name: 'Step 3: Clear canvas' })).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,72 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { LayersPanel } from '../components/shibori/LayersPanel';
+import { createAppStore } from '../store';
+import { ActionType, initialState } from '../store/shiboriCanvasState';
+import { DrawingTool } from '../types';
+import { resolveScene } from '../utils/historyOperations';
+import { resolveLayers } from '../utils/layers';
+
+function renderPanel() {
+    const store = createAppStore({
+        shibori: {
+            ...initialState,
+            history: [{ id: 'line-1', action: DrawingTool.Line, points: [{ x: 1, y: 1 }, { x: 5, y: 5 }] }],
+        },
+    });
+    render(<Provider store={store}><LayersPanel /></Provider>);
+    return store;
+}
+
+describe('LayersPanel', () => {
+    test('adds a layer on top and makes it the one new marks are drawn on', () => {
+        const store = renderPanel();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Add layer' }));
+
+        expect(store.getState().shibori.activeLayerId).toBe('layer-2');
+        expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+            expect.stringContaining('Layer 2'),
+            expect.stringContaining('Layer 1'),
+        ]);
+
+        store.dispatch({
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: { action: DrawingTool.Line, points: [{ x: 2, y: 2 }, { x: 6, y: 6 }] },
+        });
+        expect(resolveScene(store.getState().shibori.history)[1].layerId).toBe('layer-2');
+    });
+
+    test('hides, locks and deletes layers as undoable commands', () => {
+        const store = renderPanel();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Hide Layer 1' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Lock Layer 1' }));
+        expect(resolveLayers(store.getState().shibori.history)).toEqual([
+            { id: 'layer-1', name: 'Layer 1', visible: false, locked: true, opacity: 1 },
+        ]);
+        expect(screen.getByText('Show and unlock Layer 1 to draw on it.')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Delete Layer 1' })).toBeDisabled();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Add layer' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Delete Layer 1' }));
+        expect(resolveScene(store.getState().shibori.history)).toEqual([]);
+
+        store.dispatch({ type: ActionType.UNDO });
+        expect(resolveScene(store.getState().shibori.history).map((item) => item.id)).toEqual(['line-1']);
+    });
+
+    test('commits an opacity change once the slider is released', () => {
+        const store = renderPanel();
+        const slider = screen.getByRole('slider', { name: 'Layer 1 opacity' });
+
+        fireEvent.change(slider, { target: { value: '60' } });
+        fireEvent.change(slider, { target: { value: '40' } });
+        expect(store.getState().shibori.history).toHaveLength(1);
+
+        fireEvent.pointerUp(slider);
+        expect(store.getState().shibori.history).toHaveLength(2);
+        expect(resolveLayers(store.getState().shibori.history)[0].opacity).toBe(0.4);
+    });
+});
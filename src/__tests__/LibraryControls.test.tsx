@@ -0,0 +1,82 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { LibraryControls } from '../components/shibori/LibraryControls';
+import type { DocumentLibraryControls } from '../hooks/useDocumentLibrary';
+
+function createControls(overrides: Partial<DocumentLibraryControls> = {}): DocumentLibraryControls {
+  return {
+    documents: [
+      { id: 'doc-1', name: 'Kumo', createdAt: 1, updatedAt: 2, thumbnail: 'data:image/png;base64,AA==' },
+      { id: 'doc-2', name: 'Arashi', createdAt: 1, updatedAt: 1, thumbnail: null },
+    ],
+    currentDocumentId: 'doc-1',
+    status: 'saved',
+    error: null,
+    newDocument: jest.fn().mockResolvedValue(undefined),
+    openDocument: jest.fn().mockResolvedValue(undefined),
+    duplicateDocument: jest.fn().mockResolvedValue(undefined),
+    renameDocument: jest.fn().mockResolvedValue(undefined),
+    deleteDocument: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe('LibraryControls', () => {
+  test('lists saved designs and marks the open one', () => {
+    const library = createControls();
+    render(<LibraryControls library={library} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('All changes saved');
+    expect(screen.getByText('Current')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Open Kumo' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open Arashi' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate Kumo' }));
+    fireEvent.click(screen.getByRole('button', { name: 'New design' }));
+
+    expect(library.openDocument).toHaveBeenCalledWith('doc-2');
+    expect(library.duplicateDocument).toHaveBeenCalledWith('doc-1');
+    expect(library.newDocument).toHaveBeenCalled();
+  });
+
+  test('renames a design inline', () => {
+    const library = createControls();
+    render(<LibraryControls library={library} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename Arashi' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Design name' }), { target: { value: 'Arashi II' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(library.renameDocument).toHaveBeenCalledWith('doc-2', 'Arashi II');
+    expect(screen.queryByRole('textbox', { name: 'Design name' })).not.toBeInTheDocument();
+  });
+
+  test('asks before deleting a design', () => {
+    const library = createControls();
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    render(<LibraryControls library={library} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Kumo' }));
+    expect(library.deleteDocument).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Kumo' }));
+    expect(library.deleteDocument).toHaveBeenCalledWith('doc-1');
+    confirm.mockRestore();
+  });
+
+  test('shows why the library failed', () => {
+    render(<LibraryControls library={createControls({
+      status: 'error',
+      error: 'Browser storage is full; delete designs to keep saving',
+    })} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Browser storage is full; delete designs to keep saving');
+  });
+
+  test('explains when the browser has no library storage', () => {
+    render(<LibraryControls library={createControls({ documents: [], currentDocumentId: null, status: 'unavailable' })} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Library unavailable in this browser');
+    expect(screen.getByRole('button', { name: 'New design' })).toBeDisabled();
+  });
+});
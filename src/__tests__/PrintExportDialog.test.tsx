@@ -0,0 +1,53 @@
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { PrintExportDialog } from '../components/shibori/PrintExportDialog';
+import { createAppStore } from '../store';
+import { initialState } from '../store/shiboriCanvasState';
+
+function renderDialog(folds = initialState.folds) {
+  const store = createAppStore({
+    shibori: { ...initialState, canvasDimensions: { width: 800, height: 400 }, folds },
+  });
+  const onClose = jest.fn();
+  render(<Provider store={store}><PrintExportDialog onClose={onClose} /></Provider>);
+  return { onClose };
+}
+
+describe('PrintExportDialog', () => {
+  test('summarizes the physical and pixel size of the default print', () => {
+    renderDialog();
+
+    expect(screen.getByTestId('print-export-summary')).toHaveTextContent('140 × 70 cm · 8268 × 4134 px');
+    expect(screen.getByRole('button', { name: 'Export PNG' })).toBeEnabled();
+  });
+
+  test('converts the width when switching units', () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Unit' }), { target: { value: 'in' } });
+
+    expect(screen.getByLabelText('Width')).toHaveValue(55.12);
+    expect(screen.getByTestId('print-export-summary')).toHaveTextContent('8268 × 4134 px');
+  });
+
+  test('blocks sizes whose mirror cells exceed the canvas limit', () => {
+    renderDialog({
+      ...initialState.folds,
+      vertical: 0,
+      horizontal: 0,
+      diagonal: { ...initialState.folds.diagonal, enabled: false, count: 0 },
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('These folds export up to 138.7 cm wide at 150 dpi.');
+    expect(screen.getByRole('button', { name: 'Export PNG' })).toBeDisabled();
+  });
+
+  test('closes on Escape', () => {
+    const { onClose } = renderDialog();
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,13 @@
 import React from 'react';
-import { screen, fireEvent } from '@testing-library/react';
+import { screen, fireEvent, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { renderWithRedux } from '../testUtils';
 import * as reduxHooks from '../hooks/useReduxHooks';
 import { ToolControls } from '../components/shibori/ToolControls';
 import { ToolSelector } from '../components/shibori/ToolSelector';
 import { State } from '../store/shiboriCanvasState';
-import { DrawingTool, ShapeFillMode, DiagonalDirection } from '../types';
+import { DrawingTool, ShapeFillMode, DiagonalDirection, ResistBlockShape } from '../types';
+import { DEFAULT_LAYER_ID } from '../utils/layers';
 
 describe('ToolControls Component', () => {
     const mockState: State = {
@@ -29,15 +30,33 @@ describe('ToolControls Component', () => {
         circleRadius: 20,
         lineThickness: 2,
         shapeFillMode: ShapeFillMode.Filled,
+        polygonSides: 6,
+        starPoints: 5,
+        starInnerRadiusRatio: 0.5,
+        resistBlockShape: ResistBlockShape.Rectangle,
+        drawingColor: '#ffffff',
+        recentColors: [],
+        colorPalette: ['#ffffff', '#1d2a5b'],
+        backgroundColor: '#000080',
+        dyedPreview: false,
+        foldDepthFade: false,
         currentTool: DrawingTool.Paintbrush,
         canvasDimensions: {
             width: 400,
             height: 400
         },
         history: [],
+        redoStack: [],
+        historyPreviewLength: null,
+        activeHistoryBranchId: 'branch-1',
+        historyBranches: [],
         selectedHistoryItemId: null,
+        selectedHistoryItemIds: [],
+        selectionMarquee: null,
         selectionDragDelta: null,
-        selectionRotationPreview: null
+        selectionRotationPreview: null,
+        selectionScalePreview: null,
+        activeLayerId: DEFAULT_LAYER_ID
     };
 
     const mockDispatch = jest.fn();
@@ -161,6 +180,49 @@ describe('ToolControls Component', () => {
         });
     });
 
+    test('color control dispatches picker, swatch, and palette actions', () => {
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
+            ...mockState,
+            recentColors: ['#c8642d'],
+        }));
+
+        renderWithRedux(<ToolControls />);
+
+        fireEvent.change(screen.getByLabelText('Color:'), { target: { value: '#336699' } });
+        expect(mockDispatch).toHaveBeenCalledWith({
+            type: 'SET_DRAWING_COLOR',
+            payload: '#336699'
+        });
+
+        fireEvent.click(within(screen.getByRole('group', { name: 'Recent colors' }))
+            .getByLabelText('Use color #c8642d'));
+        expect(mockDispatch).toHaveBeenCalledWith({
+            type: 'SET_DRAWING_COLOR',
+            payload: '#c8642d'
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Remove from palette' }));
+        expect(mockDispatch).toHaveBeenCalledWith({
+            type: 'REMOVE_PALETTE_COLOR',
+            payload: '#ffffff'
+        });
+    });
+
+    test('star shows point count and inner radius controls', () => {
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
+            ...mockState,
+            currentTool: DrawingTool.Star
+        }));
+
+        renderWithRedux(<ToolControls />);
+
+        expect(screen.getByText('Shape Fill:')).toBeInTheDocument();
+        fireEvent.change(screen.getByLabelText('Points:'), { target: { value: '7' } });
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_STAR_POINTS', payload: 7 });
+        fireEvent.change(screen.getByLabelText('Inner Radius:'), { target: { value: '30' } });
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_STAR_INNER_RADIUS_RATIO', payload: 0.3 });
+    });
+
     test('bezier shows line thickness and closed-path fill controls', () => {
         jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
             ...mockState,
@@ -173,4 +235,18 @@ describe('ToolControls Component', () => {
         expect(screen.getByText('Shape Fill:')).toBeInTheDocument();
     });
 
+    test('resist block shows only the block shape control', () => {
+        jest.spyOn(reduxHooks, 'useAppSelector').mockImplementation(() => ({
+            ...mockState,
+            currentTool: DrawingTool.ResistBlock
+        }));
+
+        renderWithRedux(<ToolControls />);
+
+        expect(screen.queryByText('Shape Fill:')).not.toBeInTheDocument();
+        expect(screen.queryByText('This tool has no additional options.')).not.toBeInTheDocument();
+        fireEvent.change(screen.getByLabelText('Block Shape:'), { target: { value: ResistBlockShape.Hexagon } });
+        expect(mockDispatch).toHaveBeenCalledWith({ type: 'SET_RESIST_BLOCK_SHAPE', payload: ResistBlockShape.Hexagon });
+    });
+
 }); 
@@ -1,6 +1,6 @@
 import { CanvasContext } from '../services/CanvasService';
 import { initialState, reducer, ActionType } from '../store/shiboriCanvasState';
-import { DrawingTool, HistoryAction } from '../types';
+import { DrawingTool, HistoryAction, ResistBlockShape } from '../types';
 import { DrawableHistoryItem } from '../types/DrawingMode';
 import {
   CanvasTransactionServices,
@@ -8,7 +8,8 @@ import {
 } from '../rendering/canvasRuntime';
 import { selectCanvasRuntimeState } from '../hooks/useCanvasRuntime';
 import { createAppStore } from '../store';
-import { createMoveHistoryItem } from '../utils/historyOperations';
+import { buildDrawableHistory, createMoveHistoryItem } from '../utils/historyOperations';
+import { renderDrawableHistoryItems } from '../utils/historyRenderer';
 
 function makeContext(): CanvasContext {
   return {
@@ -61,6 +62,52 @@ describe('canvas runtime transaction', () => {
     expect(services.mirror).toHaveBeenCalledTimes(1);
   });
 
+  test('document background color reaches both the clear and mirror passes', () => {
+    const services = makeServices([]);
+    const context = makeContext();
+
+    renderCanvasTransaction(context, {
+      ...initialState,
+      backgroundColor: 'transparent',
+      history: [makeDrawable()],
+    }, services);
+
+    expect(services.clear).toHaveBeenCalledWith(context, 'transparent');
+    expect(services.renderHistory).toHaveBeenCalledWith(
+      context.foldedCtx,
+      context.foldedCanvas,
+      expect.any(Array),
+      expect.objectContaining({ backgroundColor: 'transparent' })
+    );
+    expect(services.mirror).toHaveBeenCalledWith(context, initialState.folds, 'transparent', {
+      dyedPreview: false,
+      foldDepthFade: false,
+    });
+  });
+
+  test('preview effects reach only the mirror pass', () => {
+    const services = makeServices([]);
+    const context = makeContext();
+
+    renderCanvasTransaction(context, {
+      ...initialState,
+      dyedPreview: true,
+      foldDepthFade: true,
+      history: [makeDrawable()],
+    }, services);
+
+    expect(services.mirror).toHaveBeenCalledWith(context, initialState.folds, initialState.backgroundColor, {
+      dyedPreview: true,
+      foldDepthFade: true,
+    });
+    expect(services.renderHistory).toHaveBeenCalledWith(
+      context.foldedCtx,
+      context.foldedCanvas,
+      expect.any(Array),
+      expect.not.objectContaining({ dyedPreview: expect.anything(), foldDepthFade: expect.anything() })
+    );
+  });
+
   test('a scene ending in Clear leaves the unfolded canvas cleared', () => {
     const order: string[] = [];
     const services = makeServices(order);
@@ -118,7 +165,7 @@ describe('canvas runtime transaction', () => {
       ...initialState,
       history: [selected, other],
       preview: {
-        selectedHistoryItemId: 'selected',
+        selectedHistoryItemIds: ['selected'],
         selectionDragDelta: { x: 5, y: 7 },
         selectionRotationPreview: null,
       },
@@ -128,4 +175,79 @@ describe('canvas runtime transaction', () => {
     expect(rendered.find((item) => item.id === 'selected')?.points).toEqual(move.toPoints);
     expect(rendered.find((item) => item.id === 'other')?.points).toEqual(other.points);
   });
+
+  test('eraser strokes knock out earlier marks and show the cloth through the cut', () => {
+    const fills: string[] = [];
+    const ctx = {
+      globalCompositeOperation: 'source-over',
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      closePath: jest.fn(),
+      rect: jest.fn(),
+      clip: jest.fn(),
+      stroke: jest.fn(function (this: CanvasRenderingContext2D) { fills.push(`stroke:${this.globalCompositeOperation}`); }),
+      fill: jest.fn(function (this: CanvasRenderingContext2D) { fills.push(`fill:${this.globalCompositeOperation}`); }),
+      fillRect: jest.fn(function (this: CanvasRenderingContext2D) {
+        fills.push(`fillRect:${this.globalCompositeOperation}:${String(this.fillStyle)}`);
+      }),
+    } as unknown as CanvasRenderingContext2D;
+    const eraser: DrawableHistoryItem = {
+      id: 'erase-1',
+      action: DrawingTool.Eraser,
+      points: [{ x: 2, y: 2 }, { x: 4, y: 3 }],
+      style: { lineThickness: 6, color: 'white' },
+    };
+
+    renderDrawableHistoryItems(ctx, { width: 100, height: 100 }, buildDrawableHistory([makeDrawable(), eraser]), {
+      config: initialState.config,
+      folds: initialState.folds,
+      lineThickness: initialState.lineThickness,
+      shapeFillMode: initialState.shapeFillMode,
+      backgroundColor: '#000080',
+    });
+
+    expect(fills).toEqual(['stroke:source-over', 'fill:destination-out', 'fillRect:destination-over:#000080']);
+  });
+
+  test('resist blocks knock out to the cloth above marks drawn after them', () => {
+    const fills: string[] = [];
+    const ctx = {
+      globalCompositeOperation: 'source-over',
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      arc: jest.fn(),
+      closePath: jest.fn(),
+      rect: jest.fn(),
+      clip: jest.fn(),
+      stroke: jest.fn(function (this: CanvasRenderingContext2D) { fills.push(`stroke:${this.globalCompositeOperation}`); }),
+      fill: jest.fn(function (this: CanvasRenderingContext2D) { fills.push(`fill:${this.globalCompositeOperation}`); }),
+      fillRect: jest.fn(function (this: CanvasRenderingContext2D) {
+        fills.push(`fillRect:${this.globalCompositeOperation}:${String(this.fillStyle)}`);
+      }),
+    } as unknown as CanvasRenderingContext2D;
+    const block: DrawableHistoryItem = {
+      id: 'block-1',
+      action: DrawingTool.ResistBlock,
+      points: [{ x: 50, y: 50 }, { x: 60, y: 50 }],
+      blockShape: ResistBlockShape.Circle,
+      style: { lineThickness: 6, color: 'white' },
+    };
+
+    renderDrawableHistoryItems(ctx, { width: 100, height: 100 }, buildDrawableHistory([block, makeDrawable()]), {
+      config: initialState.config,
+      folds: initialState.folds,
+      lineThickness: initialState.lineThickness,
+      shapeFillMode: initialState.shapeFillMode,
+      backgroundColor: '#000080',
+    });
+
+    expect(ctx.arc).toHaveBeenCalledWith(50, 50, 10, 0, Math.PI * 2);
+    expect(fills).toEqual(['stroke:source-over', 'fill:destination-out', 'fillRect:destination-over:#000080']);
+  });
 });
@@ -0,0 +1,138 @@
+import {
+  DEFAULT_DOCUMENT_NAME,
+  DocumentStore,
+  LibraryDocument,
+  MAX_DOCUMENT_NAME_LENGTH,
+  createDocumentLibrary,
+} from '../services/documentLibrary';
+import { initialState } from '../store/shiboriCanvasState';
+import { DrawingTool } from '../types';
+import { MAX_SHARE_HISTORY_ITEMS, SHARE_SCHEMA_VERSION, extractSerializableState } from '../utils/urlStateUtils';
+
+function createMemoryStore(): DocumentStore & { records: Map<string, unknown> } {
+  const records = new Map<string, unknown>();
+  return {
+    records,
+    getAll: async () => [...records.values()],
+    get: async (id) => records.get(id),
+    put: async (document: LibraryDocument) => {
+      records.set(document.id, JSON.parse(JSON.stringify(document)));
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+function createClock(start = 1000) {
+  let time = start;
+  return () => time++;
+}
+
+const blankState = extractSerializableState(initialState);
+const drawnState = extractSerializableState({
+  ...initialState,
+  history: [{
+    id: 'history-item-1',
+    action: DrawingTool.Paintbrush,
+    points: [{ x: 10, y: 10 }, { x: 40, y: 30 }],
+  }],
+});
+
+describe('document library', () => {
+  test('saves new documents with the default name and keeps their creation time', async () => {
+    const store = createMemoryStore();
+    const library = createDocumentLibrary(store, createClock());
+
+    const created = await library.save('doc-1', blankState, null);
+    const updated = await library.save('doc-1', drawnState, 'data:image/png;base64,AA==');
+    const opened = await library.open('doc-1');
+
+    expect(created).toEqual({
+      id: 'doc-1',
+      name: DEFAULT_DOCUMENT_NAME,
+      createdAt: 1000,
+      updatedAt: 1000,
+      thumbnail: null,
+    });
+    expect(updated).toMatchObject({ createdAt: 1000, updatedAt: 1001, thumbnail: 'data:image/png;base64,AA==' });
+    expect(opened?.state.history).toHaveLength(1);
+    expect(opened?.state.version).toBe(SHARE_SCHEMA_VERSION);
+  });
+
+  test('lists the most recently updated documents first', async () => {
+    const library = createDocumentLibrary(createMemoryStore(), createClock());
+
+    await library.save('older', blankState, null);
+    await library.save('newer', blankState, null);
+    await library.rename('older', 'Indigo itajime');
+
+    expect((await library.list()).map((document) => document.name)).toEqual([
+      'Indigo itajime',
+      DEFAULT_DOCUMENT_NAME,
+    ]);
+  });
+
+  test('normalizes names and duplicates documents under a fresh id', async () => {
+    const library = createDocumentLibrary(createMemoryStore(), createClock(), () => 'doc-2');
+
+    await library.save('doc-1', drawnState, null);
+    expect((await library.rename('doc-1', '   '))?.name).toBe(DEFAULT_DOCUMENT_NAME);
+    expect((await library.rename('doc-1', 'x'.repeat(200)))?.name).toHaveLength(MAX_DOCUMENT_NAME_LENGTH);
+
+    await library.rename('doc-1', '  Arashi  ');
+    const copy = await library.duplicate('doc-1');
+
+    expect(copy).toMatchObject({ id: 'doc-2', name: 'Arashi copy' });
+    expect((await library.open('doc-2'))?.state).toEqual((await library.open('doc-1'))?.state);
+    expect(await library.rename('missing', 'Name')).toBeNull();
+    expect(await library.duplicate('missing')).toBeNull();
+  });
+
+  test('skips stored records that fail share-state validation', async () => {
+    const store = createMemoryStore();
+    const library = createDocumentLibrary(store, createClock());
+    await library.save('valid', blankState, null);
+    store.records.set('tampered', {
+      id: 'tampered',
+      name: 'Tampered',
+      createdAt: 1,
+      updatedAt: 5000,
+      thumbnail: null,
+      state: { ...blankState, version: 99 },
+    });
+    store.records.set('garbage', 'not a document');
+
+    expect((await library.list()).map((document) => document.id)).toEqual(['valid']);
+    expect(await library.open('tampered')).toBeNull();
+  });
+
+  test('refuses to save invalid states and removes documents', async () => {
+    const library = createDocumentLibrary(createMemoryStore(), createClock());
+    const invalid = {
+      ...blankState,
+      canvasDimensions: { width: Number.NaN, height: 100 },
+    };
+
+    await expect(library.save('doc-1', invalid, null))
+      .rejects.toThrow('The design contains data the library cannot store');
+
+    await library.save('doc-1', blankState, null);
+    await library.remove('doc-1');
+    expect(await library.list()).toEqual([]);
+  });
+
+  test('keeps designs larger than a share link allows', async () => {
+    const library = createDocumentLibrary(createMemoryStore(), createClock());
+    const history = Array.from({ length: MAX_SHARE_HISTORY_ITEMS + 1 }, (_, index) => ({
+      id: `history-item-${index + 1}`,
+      action: DrawingTool.Paintbrush as const,
+      points: Array.from({ length: 120 }, (_, step) => ({ x: step, y: index % 100 })),
+    }));
+    const large = extractSerializableState({ ...initialState, history });
+
+    await library.save('doc-1', large, null);
+
+    expect((await library.open('doc-1'))?.state.history).toHaveLength(MAX_SHARE_HISTORY_ITEMS + 1);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  createSeededRandom,
+  getBleedLayout,
+  renderDyedPreview,
+} from '../rendering/dyedPreview';
+import { initialState } from '../store/shiboriCanvasState';
+import { FoldSystem } from '../types';
+
+const flatFolds = {
+  ...initialState.folds,
+  vertical: 0,
+  horizontal: 0,
+  diagonal: { ...initialState.folds.diagonal, enabled: false, count: 0 },
+};
+const canvas = { width: 400, height: 200 };
+
+describe('dyed preview', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('bleeds along the creases between panels', () => {
+    const edges = (folds: typeof flatFolds) => getBleedLayout(canvas, folds).panels.map((panel) => [panel.x, panel.y]);
+
+    expect(getBleedLayout(canvas, flatFolds).panels).toMatchObject([{
+      x: 0, y: 0, width: 400, height: 200,
+      creases: { left: false, right: false, top: false, bottom: false },
+    }]);
+    expect(edges({ ...flatFolds, vertical: 1, horizontal: 1 })).toEqual([[0, 0], [200, 0], [0, 100], [200, 100]]);
+    expect(getBleedLayout(canvas, { ...flatFolds, accordion: { columns: 3, rows: 2 } }).panels[1]).toMatchObject({
+      x: 133,
+      width: 134,
+      creases: { left: true, right: true, top: false, bottom: true },
+    });
+    expect(getBleedLayout(canvas, { ...flatFolds, system: FoldSystem.P4 })).toMatchObject({
+      panels: [{ creases: { left: false, right: false, top: false, bottom: false } }],
+      reach: 0,
+    });
+  });
+
+  test('bleeds less into panels folded deeper in the stack', () => {
+    const factors = (folds: typeof flatFolds) => getBleedLayout(canvas, folds).panels.map((panel) => panel.depthFactor);
+    const accordion = factors({ ...flatFolds, accordion: { columns: 3, rows: 2 } });
+    const diagonal = factors({
+      ...flatFolds,
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { ...flatFolds.diagonal, enabled: true, count: 1 },
+    });
+
+    expect(factors(flatFolds)).toEqual([1]);
+    expect(accordion[0]).toBe(1);
+    expect(accordion[1]).toBeLessThan(accordion[0]);
+    expect(accordion[2]).toBeLessThan(accordion[1]);
+    expect(Math.min(...accordion)).toBe(accordion[3]);
+    expect(diagonal[0]).toBeLessThan(1);
+    expect(factors({ ...flatFolds, system: FoldSystem.P4 })[0]).toBeLessThan(1);
+  });
+
+  test('builds the bleed weights once per size and fold and reuses its canvases', () => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      return createContextStub(this);
+    });
+    const unfoldedCanvas = document.createElement('canvas');
+    unfoldedCanvas.width = 400;
+    unfoldedCanvas.height = 200;
+    const context = {
+      foldedCanvas: document.createElement('canvas'),
+      unfoldedCanvas,
+      foldedCtx: createContextStub(document.createElement('canvas')),
+      unfoldedCtx: createContextStub(unfoldedCanvas),
+    };
+    const folds = { ...flatFolds, vertical: 1 };
+
+    renderDyedPreview(context, folds);
+    const createElement = jest.spyOn(document, 'createElement');
+    renderDyedPreview(context, folds);
+    expect(createElement).not.toHaveBeenCalled();
+
+    renderDyedPreview(context, { ...folds, horizontal: 1 });
+    expect(createElement).toHaveBeenCalledTimes(1);
+  });
+
+  test('mottles the bleed with the same noise for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, first);
+
+    expect(Array.from({ length: 5 }, second)).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+function createContextStub(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const gradient = { addColorStop: jest.fn() };
+  const methods = ['save', 'restore', 'setTransform', 'clearRect', 'drawImage', 'fillRect', 'putImageData'];
+  return Object.fromEntries([
+    ['canvas', canvas],
+    ['createLinearGradient', jest.fn(() => gradient)],
+    ['createImageData', jest.fn((width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4) }))],
+    ...methods.map((method) => [method, jest.fn()]),
+  ]) as unknown as CanvasRenderingContext2D;
+}
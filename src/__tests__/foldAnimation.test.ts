@@ -0,0 +1,117 @@
+import {
+  createUnfoldFrameBuffers,
+  getFlapTransform,
+  getStepProgress,
+  getUnfoldSequence,
+  renderUnfoldFrame,
+} from '../rendering/foldAnimation';
+import { initialState } from '../store/shiboriCanvasState';
+import { FoldSystem } from '../types';
+
+const flatFolds = {
+  ...initialState.folds,
+  vertical: 0,
+  horizontal: 0,
+  diagonal: { ...initialState.folds.diagonal, enabled: false, count: 0 },
+};
+const cloth = { width: 400, height: 200 };
+
+describe('fold animation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('opens horizontal creases, then vertical, then diagonal', () => {
+    const sequence = getUnfoldSequence({
+      ...flatFolds,
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { ...flatFolds.diagonal, enabled: true, count: 1 },
+    }, cloth);
+
+    expect(sequence?.panel).toEqual({ width: 200, height: 100 });
+    expect(sequence?.steps.map((step) => step.axis)).toEqual(['horizontal', 'vertical', 'diagonal']);
+    expect(sequence?.steps[0].reflection).toEqual([1, 0, 0, -1, 0, 200]);
+    expect(sequence?.steps[1].reflection).toEqual([-1, 0, 0, 1, 400, 0]);
+  });
+
+  test('doubles the opened cloth for half folds and adds one panel for accordions', () => {
+    const halves = getUnfoldSequence({ ...flatFolds, vertical: 2 }, cloth);
+    expect(halves?.steps.map((step) => step.flap[0].x)).toEqual([0, 0]);
+    expect(halves?.steps.map((step) => step.reflection[4])).toEqual([200, 400]);
+
+    const accordion = getUnfoldSequence({ ...flatFolds, accordion: { columns: 4, rows: 1 } }, cloth);
+    expect(accordion?.steps.map((step) => step.flap[0].x)).toEqual([0, 100, 200]);
+    expect(accordion?.steps.map((step) => step.reflection[4])).toEqual([200, 400, 600]);
+  });
+
+  test('opens both diagonals of a double diagonal fold', () => {
+    const sequence = getUnfoldSequence({
+      ...flatFolds,
+      diagonal: { ...flatFolds.diagonal, enabled: true, count: 2 },
+    }, { width: 100, height: 100 });
+
+    expect(sequence?.steps).toHaveLength(2);
+    expect(sequence?.steps[0].reflection).toEqual([0, 1, 1, 0, 0, 0]);
+    expect(sequence?.steps[1].reflection).toEqual([0, -1, -1, 0, 100, 100]);
+  });
+
+  test('has no sequence for kaleidoscope systems', () => {
+    expect(getUnfoldSequence({ ...flatFolds, system: FoldSystem.P4 }, cloth)).toBeNull();
+    expect(getUnfoldSequence(flatFolds, cloth)?.steps).toEqual([]);
+  });
+
+  test('swings a flap from the stack, edge-on at the crease, to its mirror', () => {
+    const reflection: [number, number, number, number, number, number] = [-1, 0, 0, 1, 200, 0];
+
+    expect(getFlapTransform(reflection, 0)).toEqual([1, 0, 0, 1, 0, 0]);
+    getFlapTransform(reflection, 0.5).forEach((value, index) => {
+      expect(value).toBeCloseTo([0, 0, 0, 1, 100, 0][index]);
+    });
+    getFlapTransform(reflection, 1).forEach((value, index) => {
+      expect(value).toBeCloseTo(reflection[index]);
+    });
+  });
+
+  test('opens each step in turn across the whole animation', () => {
+    expect([0, 0.25, 0.5, 1].map((progress) => getStepProgress(progress, 2, 0))).toEqual([0, 0.5, 1, 1]);
+    expect([0, 0.25, 0.75, 1].map((progress) => getStepProgress(progress, 2, 1))).toEqual([0, 0, 0.5, 1]);
+  });
+
+  test('reuses its buffers across frames instead of creating canvases', () => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+      return createContextStub(this);
+    });
+    const foldedCanvas = document.createElement('canvas');
+    const canvas = document.createElement('canvas');
+    canvas.width = 400;
+    canvas.height = 200;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    const folds = {
+      ...flatFolds,
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { ...flatFolds.diagonal, enabled: true, count: 2 },
+    };
+    const buffers = createUnfoldFrameBuffers();
+    const createElement = jest.spyOn(document, 'createElement');
+
+    renderUnfoldFrame(ctx, foldedCanvas, folds, 0.9, buffers);
+    renderUnfoldFrame(ctx, foldedCanvas, folds, 0.95, buffers);
+
+    expect(createElement).not.toHaveBeenCalled();
+    expect(buffers.cell).toMatchObject({ width: 200, height: 100 });
+    expect(buffers.scratch).toMatchObject({ width: 400, height: 200 });
+  });
+});
+
+function createContextStub(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const methods = [
+    'save', 'restore', 'setTransform', 'clearRect', 'drawImage', 'beginPath', 'moveTo',
+    'lineTo', 'closePath', 'rect', 'clip', 'fillRect',
+  ];
+  return Object.fromEntries([
+    ['canvas', canvas],
+    ...methods.map((method) => [method, jest.fn()]),
+  ]) as unknown as CanvasRenderingContext2D;
+}
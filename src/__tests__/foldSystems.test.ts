@@ -0,0 +1,101 @@
+import { FoldSystem } from '../types';
+import { Point } from '../types/DrawingMode';
+import {
+  applyLinearTransform,
+  getFoldedWedgePolygon,
+  getKaleidoscopeCellCenters,
+  getKaleidoscopeSystem,
+  getPanelFoldDepths,
+} from '../utils/foldSystems';
+import { isPointInPolygon } from '../utils/geometryMath';
+
+const KALEIDOSCOPE_SYSTEMS = [FoldSystem.P3, FoldSystem.P3m1, FoldSystem.P4, FoldSystem.P6, FoldSystem.P6m];
+
+describe('fold systems', () => {
+  test('rectangular folds have no kaleidoscope geometry', () => {
+    expect(getKaleidoscopeSystem({})).toBeNull();
+    expect(getKaleidoscopeSystem({ system: FoldSystem.Rectangular })).toBeNull();
+  });
+
+  test.each(KALEIDOSCOPE_SYSTEMS)('%s wedge copies exactly fill one lattice cell', (foldSystem) => {
+    const system = getKaleidoscopeSystem({ system: foldSystem })!;
+    const [first, second] = system.lattice;
+    const latticeCellArea = Math.abs(first.x * second.y - first.y * second.x);
+
+    expect(system.transforms.length * polygonArea(system.wedge)).toBeCloseTo(latticeCellArea, 10);
+  });
+
+  test.each(KALEIDOSCOPE_SYSTEMS)('%s wedge copies do not overlap', (foldSystem) => {
+    const system = getKaleidoscopeSystem({ system: foldSystem })!;
+    const centroids = system.transforms.map((transform) => centroid(
+      system.wedge.map((point) => applyLinearTransform(transform, point))
+    ));
+
+    system.transforms.forEach((transform, index) => {
+      const copy = system.wedge.map((point) => applyLinearTransform(transform, point));
+      centroids.forEach((point, other) => {
+        expect(isPointInPolygon(point, copy)).toBe(other === index);
+      });
+    });
+  });
+
+  test('p3m1 reflects neighbouring triangles across their shared edge', () => {
+    const system = getKaleidoscopeSystem({ system: FoldSystem.P3m1 })!;
+    const [source, reflected] = system.transforms;
+    const vertex = { x: 0.5, y: Math.sqrt(3) / 2 };
+
+    expect(applyLinearTransform(source, vertex).x).toBeCloseTo(vertex.x, 10);
+    expect(applyLinearTransform(reflected, vertex).x).toBeCloseTo(vertex.x, 10);
+    expect(applyLinearTransform(reflected, vertex).y).toBeCloseTo(vertex.y, 10);
+    expect(applyLinearTransform(reflected, { x: 1, y: 0 }).x).toBeCloseTo(-0.5, 10);
+  });
+
+  test('folded wedge polygons fill the folded canvas bounds', () => {
+    const system = getKaleidoscopeSystem({ system: FoldSystem.P6m })!;
+
+    expect(getFoldedWedgePolygon(system, { width: 400, height: 200 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 400, y: 0 },
+      { x: 300, y: 200 },
+    ]);
+  });
+
+  test('accordion panels stack in order and half folds tuck the far half under', () => {
+    expect(getPanelFoldDepths({ vertical: 0, horizontal: 0, accordion: { columns: 3, rows: 1 } }))
+      .toEqual([[0, 1, 2]]);
+    expect(getPanelFoldDepths({ vertical: 2, horizontal: 0 })).toEqual([[0, 3, 2, 1]]);
+    expect(getPanelFoldDepths({ vertical: 3, horizontal: 0 })[0]).toEqual([0, 7, 4, 3, 2, 5, 6, 1]);
+  });
+
+  test('a mirrored row carries its column stack upside down', () => {
+    const depths = getPanelFoldDepths({ vertical: 1, horizontal: 1 });
+
+    expect(depths).toEqual([[0, 1], [3, 2]]);
+    expect(depths.flat().sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  test('cell centres cover the canvas with one cell at its centre', () => {
+    const system = getKaleidoscopeSystem({ system: FoldSystem.P6 })!;
+    const centers = getKaleidoscopeCellCenters({ width: 400, height: 400 }, system, 100);
+
+    expect(centers).toContainEqual({ x: 200, y: 200 });
+    expect(centers.every((center) => center.x >= -100 && center.x <= 500)).toBe(true);
+    for (const corner of [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 0, y: 400 }, { x: 400, y: 400 }]) {
+      expect(centers.some((center) => Math.hypot(center.x - corner.x, center.y - corner.y) <= 100)).toBe(true);
+    }
+  });
+});
+
+function polygonArea(points: Point[]): number {
+  return Math.abs(points.reduce((sum, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+}
+
+function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
@@ -1,3 +1,4 @@
+import { FoldSystem } from '../types';
 import { getFoldedCanvasDimensions } from '../utils/foldedCanvasDimensions';
 
 describe('getFoldedCanvasDimensions', () => {
@@ -24,4 +25,30 @@ describe('getFoldedCanvasDimensions', () => {
       { vertical: 1, horizontal: 3 }
     )).toEqual({ width: 1200, height: 200 });
   });
+
+  test('sizes accordion folds to one panel of the unmatched axis', () => {
+    expect(getFoldedCanvasDimensions(dimensions, {
+      vertical: 0,
+      horizontal: 0,
+      accordion: { columns: 3, rows: 5 },
+    })).toEqual({ width: 1600, height: 960 });
+  });
+
+  test('keeps matching accordion panel counts at full backing resolution', () => {
+    expect(getFoldedCanvasDimensions(dimensions, {
+      vertical: 3,
+      horizontal: 0,
+      accordion: { columns: 7, rows: 7 },
+    })).toEqual({ width: 1600, height: 1600 });
+  });
+
+  test.each([
+    [FoldSystem.P3m1, { width: 1600, height: 1386 }],
+    [FoldSystem.P6m, { width: 1600, height: 693 }],
+    [FoldSystem.P3, { width: 1600, height: 924 }],
+    [FoldSystem.P4, { width: 1600, height: 1600 }],
+  ])('sizes the %s folded canvas to its wedge bounding box', (system, expected) => {
+    expect(getFoldedCanvasDimensions(dimensions, { vertical: 3, horizontal: 0, system }))
+      .toEqual(expected);
+  });
 });
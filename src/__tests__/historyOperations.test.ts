@@ -1,4 +1,4 @@
-import { DrawingTool, HistoryAction, ShapeFillMode } from '../types';
+import { DiagonalDirection, DrawingTool, HistoryAction, ShapeFillMode } from '../types';
 import {
   DrawableHistoryItem as DrawableCommand,
   PointDrawingTool,
@@ -8,8 +8,24 @@ import {
   ensureHistoryItemIds,
   materializeDrawableStyles,
   resolveScene,
+  createArrangeHistoryItems,
+  createBatchHistoryItem,
+  createDeleteHistoryItem,
+  createFlipHistoryItem,
+  createGroupHistoryItem,
+  createPasteHistoryItem,
+  createReprojectHistoryItem,
+  createRotateHistoryItem,
+  createScaleHistoryItem,
+  createSetLayerHistoryItem,
+  createTranslateHistoryItem,
+  createUpdateLayersHistoryItem,
   createUpdatePathHistoryItem,
+  getAddedDrawableIds,
+  getHistoryLayoutAt,
+  getHistoryPrefix,
 } from '../utils/historyOperations';
+import { DEFAULT_LAYERS, getVisibleScene, resolveLayers } from '../utils/layers';
 
 const draw = (
   id: string | undefined,
@@ -147,4 +163,264 @@ describe('history domain operations', () => {
     expect(scene[0].action === DrawingTool.Bezier ? scene[0].path?.anchors.map((anchor) => anchor.point) : null)
       .toEqual([{ x: 25, y: 10 }, { x: 125, y: 10 }]);
   });
+
+  test('reprojects earlier drawables from the old folded canvas into the new one', () => {
+    const folds = {
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { enabled: false, count: 0, direction: DiagonalDirection.TopRightToBottomLeft },
+    };
+    const dimensions = { width: 800, height: 800 };
+    const reproject = createReprojectHistoryItem(folds, dimensions, { ...folds, vertical: 2 }, dimensions);
+    const scene = resolveScene([
+      draw('brush', DrawingTool.Paintbrush, 100),
+      reproject,
+      draw('after', DrawingTool.Line, 100),
+    ]);
+
+    expect(scene[0].points).toEqual([{ x: 50, y: 100 }, { x: 55, y: 110 }]);
+    expect(scene[1].points).toEqual([{ x: 100, y: 100 }, { x: 110, y: 110 }]);
+    expect(resolveScene([draw('brush', DrawingTool.Paintbrush, 100)])[0].points)
+      .toEqual([{ x: 100, y: 100 }, { x: 110, y: 110 }]);
+  });
+
+  test('keeps a rotated rectangle square-cornered and rescales its stroke through an uneven reprojection', () => {
+    const folds = {
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { enabled: false, count: 0, direction: DiagonalDirection.TopRightToBottomLeft },
+    };
+    const dimensions = { width: 800, height: 800 };
+    const rectangle: DrawableCommand = {
+      id: 'rect',
+      action: DrawingTool.Rectangle,
+      points: [{ x: 0, y: 0 }, { x: 100, y: 40 }],
+      rotation: Math.PI / 4,
+      rotationCenter: { x: 50, y: 20 },
+      style: { lineThickness: 8, color: '#000000', shapeFillMode: ShapeFillMode.Outline },
+    };
+    const [reprojected] = resolveScene([
+      rectangle,
+      createReprojectHistoryItem(folds, dimensions, { ...folds, vertical: 2 }, dimensions),
+    ]);
+    // Halving x stretches a side turned 45° by the root mean square of the two scales.
+    const sideScale = Math.sqrt((0.5 ** 2 + 1) / 2);
+    const [start, end] = reprojected.points;
+
+    expect(reprojected.rotation).toBe(Math.PI / 4);
+    expect(reprojected.rotationCenter).toEqual({ x: 25, y: 20 });
+    expect(end.x - start.x).toBeCloseTo(100 * sideScale);
+    expect(end.y - start.y).toBeCloseTo(40 * sideScale);
+    expect((start.x + end.x) / 2).toBeCloseTo(25);
+    expect((start.y + end.y) / 2).toBeCloseTo(20);
+    expect(reprojected.style?.lineThickness).toBeCloseTo(8 * Math.sqrt(0.5));
+  });
+
+  test('previews a history prefix in the layout of the live canvases', () => {
+    const folds = {
+      vertical: 1,
+      horizontal: 1,
+      diagonal: { enabled: false, count: 0, direction: DiagonalDirection.TopRightToBottomLeft },
+    };
+    const dimensions = { width: 800, height: 800 };
+    const current = { folds: { ...folds, vertical: 2 }, canvasDimensions: dimensions };
+    const history = [
+      draw('brush', DrawingTool.Paintbrush, 100),
+      createReprojectHistoryItem(folds, dimensions, current.folds, dimensions),
+      draw('after', DrawingTool.Line, 100),
+    ];
+
+    expect(getHistoryLayoutAt(history, 1, current)).toEqual({ folds, canvasDimensions: dimensions });
+    expect(getHistoryLayoutAt(history, 2, current)).toBe(current);
+    expect(getHistoryPrefix(history, 3, current)).toEqual(history);
+    expect(getHistoryPrefix(history, 2, current)).toEqual(history.slice(0, 2));
+
+    const prefix = getHistoryPrefix(history, 1, current);
+    expect(prefix).toHaveLength(2);
+    expect(resolveScene(prefix)[0].points).toEqual([{ x: 50, y: 100 }, { x: 55, y: 110 }]);
+  });
+
+  test('replays a batch as one group edit and records single edits as themselves', () => {
+    const [first, second, third] = resolveScene([draw('first'), draw('second', DrawingTool.Line, 20), draw('third')]);
+    const move = createTranslateHistoryItem(first, { x: 5, y: 0 });
+    const batch = createBatchHistoryItem([move, createDeleteHistoryItem('second')]);
+
+    expect(createBatchHistoryItem([move])).toBe(move);
+    expect(batch.action).toBe(HistoryAction.Batch);
+    expect(resolveScene([first, second, third, batch])).toEqual([
+      { ...first, points: [{ x: 5, y: 0 }, { x: 15, y: 10 }] },
+      third,
+    ]);
+  });
+
+  test('pastes offset copies with fresh IDs as one command', () => {
+    const history = [draw('first'), draw('second', DrawingTool.Line, 20)];
+    const paste = createPasteHistoryItem(resolveScene(history), { x: 20, y: 20 }, history);
+    const ids = getAddedDrawableIds(paste);
+
+    expect(paste.action).toBe(HistoryAction.Batch);
+    expect(ids).toEqual(['history-item-3', 'history-item-3-1']);
+    expect(resolveScene([...history, paste]).map((item) => [item.id, item.points[0]])).toEqual([
+      ['first', { x: 0, y: 0 }],
+      ['second', { x: 20, y: 20 }],
+      ['history-item-3', { x: 20, y: 20 }],
+      ['history-item-3-1', { x: 40, y: 40 }],
+    ]);
+    expect(getAddedDrawableIds(createPasteHistoryItem(resolveScene([draw('first')]), { x: 1, y: 1 }, history)))
+      .toEqual(['history-item-3']);
+  });
+
+  test('gives a pasted drawable a new ID when it collides with an earlier one', () => {
+    const batch = createBatchHistoryItem([draw('first'), draw('second')]);
+    const [, normalized] = ensureHistoryItemIds([draw('first'), batch]);
+
+    expect(getAddedDrawableIds(normalized)).toEqual(['history-item-2', 'second']);
+  });
+
+  test('arranges drawables within their own layer, skipping past other layers', () => {
+    const layers = [...DEFAULT_LAYERS, { id: 'top', name: 'Top', visible: true, locked: false, opacity: 1 }];
+    const history: UndoableHistoryItem[] = [
+      createUpdateLayersHistoryItem(DEFAULT_LAYERS, layers),
+      draw('a'),
+      { ...draw('b'), layerId: 'top' },
+      draw('c'),
+    ];
+    const scene = resolveScene(history);
+    const forward = createArrangeHistoryItems(scene, ['a'], 'forward');
+    const ids = (items: UndoableHistoryItem[]) => resolveScene(items).map((item) => item.id);
+
+    expect(ids([...history, ...forward])).toEqual(['b', 'c', 'a']);
+    expect(createArrangeHistoryItems(scene, ['c'], 'forward')).toEqual([]);
+    expect(createArrangeHistoryItems(scene, ['a', 'c'], 'backward')).toEqual([]);
+    expect(getVisibleScene(resolveScene([...history, ...forward]), layers).map((item) => item.id))
+      .toEqual(['c', 'a', 'b']);
+  });
+
+  test('moves drawables between layers and drops them when their layer is deleted', () => {
+    const layers = [...DEFAULT_LAYERS, { id: 'top', name: 'Top', visible: false, locked: false, opacity: 0.5 }];
+    const addLayer = createUpdateLayersHistoryItem(DEFAULT_LAYERS, layers);
+    const [line] = resolveScene([draw('line', DrawingTool.Line)]);
+    const moveToTop = createSetLayerHistoryItem(line, 'top');
+    const history = [addLayer, line, moveToTop];
+
+    expect(moveToTop).toMatchObject({ fromLayerId: 'layer-1', toLayerId: 'top' });
+    expect(resolveScene(history)[0].layerId).toBe('top');
+    expect(resolveLayers(history)).toEqual(layers);
+    expect(getVisibleScene(resolveScene(history), layers)).toEqual([]);
+    expect(resolveScene([...history, createUpdateLayersHistoryItem(layers, DEFAULT_LAYERS)])).toEqual([]);
+    expect(resolveScene([...history, createSetLayerHistoryItem(resolveScene(history)[0], 'layer-1')])[0].layerId)
+      .toBeUndefined();
+  });
+
+  test('groups and ungroups drawables, giving pasted groups a fresh group ID', () => {
+    const [first, second] = resolveScene([draw('first'), draw('second')]);
+    const group = createBatchHistoryItem([first, second].map((item) => createGroupHistoryItem(item, 'group-1')));
+    const grouped = resolveScene([first, second, group]);
+    const paste = createPasteHistoryItem(grouped, { x: 10, y: 10 }, [first, second, group]);
+
+    expect(grouped.map((item) => item.groupId)).toEqual(['group-1', 'group-1']);
+    expect(createGroupHistoryItem(grouped[0])).toEqual({
+      action: HistoryAction.Group,
+      points: [],
+      itemId: 'first',
+      fromGroupId: 'group-1',
+    });
+    expect(resolveScene([first, second, group, createGroupHistoryItem(grouped[0])])[0].groupId).toBeUndefined();
+    expect(resolveScene([first, second, group, paste]).slice(2).map((item) => item.groupId))
+      .toEqual(['group-2', 'group-2']);
+  });
+
+  test('rotating a rotated shape about a group center carries its own center along', () => {
+    const rectangle = {
+      id: 'rectangle',
+      action: DrawingTool.Rectangle,
+      points: [{ x: 0, y: 0 }, { x: 20, y: 10 }],
+      rotation: Math.PI / 4,
+      rotationCenter: { x: 10, y: 5 },
+    } as const;
+    const command = createRotateHistoryItem(
+      { ...rectangle, points: [...rectangle.points] },
+      Math.PI / 2,
+      { x: 10, y: 25 }
+    );
+    const [rotated] = resolveScene([{ ...rectangle, points: [...rectangle.points] }, command]);
+
+    expect(rotated.rotation).toBeCloseTo((3 * Math.PI) / 4);
+    expect(rotated.rotationCenter?.x).toBeCloseTo(30);
+    expect(rotated.rotationCenter?.y).toBeCloseTo(25);
+    expect(rotated.points[0].x).toBeCloseTo(20);
+    expect(rotated.points[0].y).toBeCloseTo(20);
+  });
+
+  test('rotating a group moves a circle center instead of recording a rotation', () => {
+    const drawn = [draw('circle', DrawingTool.Circle, 10), draw('line', DrawingTool.Line)];
+    const center = { x: 0, y: 0 };
+    const commands = resolveScene(drawn).map((item) => createRotateHistoryItem(item, Math.PI, center));
+    const [rotatedCircle, rotatedLine] = resolveScene([...drawn, createBatchHistoryItem(commands)]);
+
+    expect(rotatedCircle.rotation).toBeUndefined();
+    expect(rotatedCircle.rotationCenter).toBeUndefined();
+    expect(rotatedCircle.points[0].x).toBeCloseTo(-10);
+    expect(rotatedCircle.points[0].y).toBeCloseTo(-10);
+    expect(rotatedCircle.points[1].x).toBeCloseTo(-20);
+    expect(rotatedCircle.points[1].y).toBeCloseTo(-20);
+    expect(rotatedLine.points[1].x).toBeCloseTo(-10);
+  });
+
+  test('rotates an ellipse with rotation metadata about its center', () => {
+    const ellipse = {
+      id: 'ellipse',
+      action: DrawingTool.Ellipse,
+      points: [{ x: 50, y: 50 }, { x: 90, y: 70 }],
+    } as const;
+    const command = createRotateHistoryItem(
+      { ...ellipse, points: [...ellipse.points] },
+      Math.PI / 3,
+      { x: 50, y: 50 }
+    );
+    const [rotated] = resolveScene([{ ...ellipse, points: [...ellipse.points] }, command]);
+
+    expect(command).toMatchObject({ toRotation: Math.PI / 3, toRotationCenter: { x: 50, y: 50 } });
+    expect(rotated.points).toEqual(ellipse.points);
+    expect(rotated.rotation).toBeCloseTo(Math.PI / 3);
+  });
+
+  test('records scales and flips as transforms that replay and undo', () => {
+    const [line] = resolveScene([draw('line', DrawingTool.Line)]);
+    const scale = createScaleHistoryItem(line, { origin: { x: 0, y: 0 }, scale: { x: 3, y: 1 }, rotation: 0 });
+    const flip = createFlipHistoryItem(line, 'vertical', { x: 0, y: 20 });
+
+    expect(scale).toMatchObject({ action: HistoryAction.Scale, itemId: 'line', fromPoints: line.points });
+    expect(flip.action).toBe(HistoryAction.Flip);
+    expect(resolveScene([line, scale])[0].points).toEqual([{ x: 0, y: 0 }, { x: 30, y: 10 }]);
+    expect(resolveScene([line, flip])[0].points).toEqual([{ x: 0, y: 40 }, { x: 10, y: 30 }]);
+    expect(resolveScene([line])[0].points).toEqual(line.points);
+  });
+
+  test('scales a rotated shape along its own sides, keeping the opposite side in place', () => {
+    const rectangle = {
+      id: 'rectangle',
+      action: DrawingTool.Rectangle,
+      points: [{ x: 0, y: 0 }, { x: 20, y: 10 }],
+      rotation: Math.PI / 2,
+      rotationCenter: { x: 10, y: 5 },
+    } as const;
+    // After the quarter turn the frame's left side lies along y = -5 and stays put.
+    const command = createScaleHistoryItem(
+      { ...rectangle, points: [...rectangle.points] },
+      { origin: { x: 15, y: -5 }, scale: { x: 2, y: 1 }, rotation: Math.PI / 2 }
+    );
+    const [scaled] = resolveScene([{ ...rectangle, points: [...rectangle.points] }, command]);
+
+    expect(command.action).toBe(HistoryAction.Scale);
+    expect(scaled.rotation).toBeCloseTo(Math.PI / 2);
+    const corners = scaled.points.map((point) => ({
+      x: scaled.rotationCenter!.x - (point.y - scaled.rotationCenter!.y),
+      y: scaled.rotationCenter!.y + (point.x - scaled.rotationCenter!.x),
+    }));
+    expect(Math.min(...corners.map((corner) => corner.y))).toBeCloseTo(-5);
+    expect(Math.max(...corners.map((corner) => corner.y))).toBeCloseTo(35);
+    expect(Math.min(...corners.map((corner) => corner.x))).toBeCloseTo(5);
+    expect(Math.max(...corners.map((corner) => corner.x))).toBeCloseTo(15);
+  });
 });
@@ -0,0 +1,41 @@
+import { getPaintbrushOutline } from '../utils/historyRenderer';
+import { getPenStrokePressure, packPenSamples, unpackPenSamples } from '../utils/penInput';
+
+const points = [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 40, y: 0 }, { x: 60, y: 0 }];
+
+function getOutlineHeight(outline: number[][]): number {
+  const ys = outline.map(([, y]) => y);
+  return Math.max(...ys) - Math.min(...ys);
+}
+
+describe('pen input', () => {
+  test('packs three characters per sample and reads back the nearest step', () => {
+    const packed = packPenSamples([
+      { pressure: 0, tiltX: -90, tiltY: 90 },
+      { pressure: 0.5, tiltX: 0, tiltY: 30 },
+    ]);
+
+    expect(packed).toHaveLength(6);
+    const [first, second] = unpackPenSamples(packed)!;
+    expect(first).toEqual({ pressure: 0, tiltX: -90, tiltY: 90 });
+    expect(second.pressure).toBeCloseTo(0.5, 1);
+    expect(second.tiltY).toBeCloseTo(30, 0);
+    expect(unpackPenSamples('AB')).toBeNull();
+    expect(unpackPenSamples('AB*')).toBeNull();
+  });
+
+  test('tilt broadens a stroke without exceeding full pressure', () => {
+    expect(getPenStrokePressure({ pressure: 0.4, tiltX: 0, tiltY: 0 })).toBe(0.4);
+    expect(getPenStrokePressure({ pressure: 0.4, tiltX: 90, tiltY: 0 })).toBeCloseTo(0.7);
+    expect(getPenStrokePressure({ pressure: 1, tiltX: 90, tiltY: 90 })).toBe(1);
+  });
+
+  test('outlines a harder-pressed stroke wider', () => {
+    const samples = (pressure: number) => points.map(() => ({ pressure, tiltX: 0, tiltY: 0 }));
+
+    const light = getOutlineHeight(getPaintbrushOutline(points, 10, samples(0.1)));
+    const firm = getOutlineHeight(getPaintbrushOutline(points, 10, samples(0.9)));
+
+    expect(firm).toBeGreaterThan(light * 2);
+  });
+});
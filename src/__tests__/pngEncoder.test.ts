@@ -0,0 +1,72 @@
+import { unzlibSync } from 'fflate';
+import { createPngEncoder } from '../utils/pngEncoder';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: Uint8Array): Chunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({
+      type: String.fromCharCode(...png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('createPngEncoder', () => {
+  const pixels = new Uint8Array([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 128,
+    10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120,
+  ]);
+
+  test('streams bands into a PNG whose scanlines decode back to the pixels', () => {
+    const encoder = createPngEncoder(3, 2, { dpi: 150 });
+    encoder.writeRows(pixels.subarray(0, 12));
+    encoder.writeRows(pixels.subarray(12));
+    const png = concat(encoder.finish());
+
+    expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+    const chunks = readChunks(png);
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'pHYs', 'IDAT', 'IEND']);
+
+    const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+    expect([header.getUint32(0), header.getUint32(4), chunks[0].data[8], chunks[0].data[9]]).toEqual([3, 2, 8, 6]);
+    expect(new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset).getUint32(0)).toBe(5906);
+
+    const scanlines = unzlibSync(concat(chunks.filter((chunk) => chunk.type === 'IDAT').map((chunk) => chunk.data)));
+    const decoded: number[] = [];
+    for (let row = 0; row < 2; row++) {
+      const line = scanlines.subarray(row * 13, (row + 1) * 13);
+      expect(line[0]).toBe(1);
+      for (let index = 0; index < 12; index++) {
+        decoded.push((line[index + 1] + (index < 4 ? 0 : decoded[row * 12 + index - 4])) & 0xff);
+      }
+    }
+    expect(decoded).toEqual(Array.from(pixels));
+  });
+
+  test('rejects partial scanlines and missing rows', () => {
+    const encoder = createPngEncoder(3, 2);
+
+    expect(() => encoder.writeRows(pixels.subarray(0, 8))).toThrow('whole RGBA scanlines');
+    encoder.writeRows(pixels.subarray(0, 12));
+    expect(() => encoder.finish()).toThrow('expected 2 rows, received 1');
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  MAX_PRINT_CANVAS_SIDE,
+  MAX_PRINT_EXPORT_SIDE,
+  PRINT_EXPORT_BAND_BYTES,
+  PRINT_EXPORT_TILE_SIZE,
+  getMaxPrintPixelWidth,
+  getPrintBandHeight,
+  getPrintPixelDimensions,
+  getRepeatTileSize,
+} from '../rendering/printExport';
+import { initialState } from '../store/shiboriCanvasState';
+import { FoldSystem } from '../types';
+
+const flatFolds = {
+  ...initialState.folds,
+  vertical: 0,
+  horizontal: 0,
+  diagonal: { ...initialState.folds.diagonal, enabled: false, count: 0 },
+};
+
+describe('print export sizing', () => {
+  test('converts a physical width to pixels and keeps the canvas aspect ratio', () => {
+    expect(getPrintPixelDimensions({ width: 800, height: 400 }, { width: 140, unit: 'cm', dpi: 150 }))
+      .toEqual({ width: 8268, height: 4134 });
+    expect(getPrintPixelDimensions({ width: 800, height: 600 }, { width: 10, unit: 'in', dpi: 300 }))
+      .toEqual({ width: 3000, height: 2250 });
+  });
+
+  test('bounds the export by the largest mirror cell', () => {
+    const canvas = { width: 800, height: 800 };
+
+    expect(getMaxPrintPixelWidth(canvas, flatFolds)).toBe(MAX_PRINT_CANVAS_SIDE);
+    expect(getMaxPrintPixelWidth(canvas, { ...flatFolds, vertical: 1, horizontal: 1 }))
+      .toBe(2 * MAX_PRINT_CANVAS_SIDE);
+    expect(getMaxPrintPixelWidth(canvas, { ...flatFolds, vertical: 3, horizontal: 3 }))
+      .toBe(MAX_PRINT_EXPORT_SIDE);
+    expect(getMaxPrintPixelWidth(canvas, { ...flatFolds, system: FoldSystem.P4 }))
+      .toBe(Math.floor(MAX_PRINT_CANVAS_SIDE * Math.SQRT2));
+  });
+});
+
+describe('getPrintBandHeight', () => {
+  test('keeps each buffered band within the byte budget', () => {
+    expect(getPrintBandHeight(1000)).toBe(PRINT_EXPORT_TILE_SIZE);
+    expect(getPrintBandHeight(MAX_PRINT_EXPORT_SIDE)).toBe(256);
+    expect(MAX_PRINT_EXPORT_SIDE * getPrintBandHeight(MAX_PRINT_EXPORT_SIDE) * 4)
+      .toBeLessThanOrEqual(PRINT_EXPORT_BAND_BYTES);
+  });
+});
+
+describe('getRepeatTileSize', () => {
+  const canvas = { width: 800, height: 600 };
+
+  test('repeats grid folds every two mirrored panels', () => {
+    expect(getRepeatTileSize(canvas, flatFolds)).toEqual(canvas);
+    expect(getRepeatTileSize(canvas, { ...flatFolds, vertical: 3, horizontal: 1 })).toEqual({ width: 200, height: 600 });
+    expect(getRepeatTileSize(canvas, { ...flatFolds, accordion: { columns: 3, rows: 5 } }))
+      .toEqual({ width: 533, height: 240 });
+  });
+
+  test('repeats kaleidoscope systems on their lattice', () => {
+    expect(getRepeatTileSize(canvas, { ...flatFolds, system: FoldSystem.P4 })).toEqual({ width: 300, height: 300 });
+    expect(getRepeatTileSize(canvas, { ...flatFolds, system: FoldSystem.P6m })).toEqual({ width: 450, height: 260 });
+  });
+});
@@ -1,13 +1,15 @@
-import { DrawingTool, HistoryAction } from '../types';
+import { DrawingTool, FoldSystem, HistoryAction, ResistBlockShape } from '../types';
 import { initialState, ActionType, reducer } from '../store/shiboriCanvasState';
+import type { State } from '../store/shiboriCanvasState';
 import { DrawableHistoryItem, UndoableHistoryItem } from '../types/DrawingMode';
 import {
     buildDrawableHistory,
+    createBatchHistoryItem,
     createDeleteHistoryItem,
     createMoveHistoryItem,
     createRotateHistoryItem
 } from '../utils/historyOperations';
-import { SHARE_SCHEMA_VERSION } from '../utils/urlStateUtils';
+import { MAX_SHARE_HISTORY_ITEMS, SHARE_SCHEMA_VERSION } from '../utils/urlStateUtils';
 import type { SerializableState } from '../utils/urlStateUtils';
 import { createAppStore } from '../store';
 
@@ -121,6 +123,142 @@ describe('shiboriCanvasState reducer', () => {
         expect(loaded.selectedHistoryItemId).toBeNull();
     });
 
+    test('library documents load through the same validation boundary as share links', () => {
+        const documentState: SerializableState = {
+            version: SHARE_SCHEMA_VERSION,
+            history: [{
+                ...makeHistoryItem(30),
+                id: 'saved-item',
+                style: { lineThickness: 7, color: initialState.config.lineColor },
+            }],
+            folds: { ...initialState.folds, vertical: 2 },
+            canvasDimensions: { width: 640, height: 480 },
+            circleRadius: initialState.circleRadius,
+            lineThickness: 7,
+            shapeFillMode: initialState.shapeFillMode,
+            currentTool: initialState.currentTool,
+        };
+        const selected = { ...initialState, selectedHistoryItemId: 'history-item-9' };
+
+        const loaded = reducer(selected, { type: ActionType.LOAD_DOCUMENT, payload: documentState });
+        const rejected = reducer(loaded, {
+            type: ActionType.LOAD_DOCUMENT,
+            payload: { ...documentState, version: 999 } as unknown as SerializableState,
+        });
+
+        expect(loaded.history.map((item) => item.id)).toEqual(['saved-item']);
+        expect(loaded.folds.vertical).toBe(2);
+        expect(loaded.canvasDimensions).toEqual({ width: 640, height: 480 });
+        expect(loaded.lineThickness).toBe(7);
+        expect(loaded.selectedHistoryItemId).toBeNull();
+        expect(rejected).toBe(loaded);
+    });
+
+    test('library documents are not held to the share link size limits', () => {
+        const documentState: SerializableState = {
+            version: SHARE_SCHEMA_VERSION,
+            history: Array.from({ length: MAX_SHARE_HISTORY_ITEMS + 1 }, (_, index) => ({
+                ...makeHistoryItem(index),
+                id: `saved-item-${index}`,
+                style: { lineThickness: 4, color: initialState.config.lineColor },
+            })),
+            folds: initialState.folds,
+            canvasDimensions: initialState.canvasDimensions,
+            circleRadius: initialState.circleRadius,
+            lineThickness: 4,
+            shapeFillMode: initialState.shapeFillMode,
+            currentTool: initialState.currentTool,
+        };
+
+        const loaded = reducer(initialState, { type: ActionType.LOAD_DOCUMENT, payload: documentState });
+        const shared = reducer(initialState, { type: ActionType.LOAD_STATE_FROM_URL, payload: documentState });
+
+        expect(loaded.history).toHaveLength(MAX_SHARE_HISTORY_ITEMS + 1);
+        expect(shared).toBe(initialState);
+    });
+
+    test('drawing color accepts only hex picker values and records committed colors as recent', () => {
+        const picked = reducer(initialState, { type: ActionType.SET_DRAWING_COLOR, payload: '#ABC' });
+        expect(picked.drawingColor).toBe('#aabbcc');
+        expect(reducer(picked, { type: ActionType.SET_DRAWING_COLOR, payload: 'red;' }).drawingColor)
+            .toBe('#aabbcc');
+        expect(picked.recentColors).toEqual([]);
+
+        const committed = reducer(picked, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: { ...makeHistoryItem(10), style: { lineThickness: 4, color: '#aabbcc' } }
+        });
+        const recommitted = reducer({ ...committed, recentColors: ['#111111', '#aabbcc'] }, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: { ...makeHistoryItem(20), style: { lineThickness: 4, color: '#aabbcc' } }
+        });
+
+        expect(committed.recentColors).toEqual(['#aabbcc']);
+        expect(recommitted.recentColors).toEqual(['#aabbcc', '#111111']);
+    });
+
+    test('erasing and resist blocks do not record the drawing color as recent', () => {
+        const erased = reducer({ ...initialState, recentColors: ['#111111'] }, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: {
+                ...makeHistoryItem(10),
+                action: DrawingTool.Eraser,
+                style: { lineThickness: 4, color: '#aabbcc' },
+            }
+        });
+        const blocked = reducer(erased, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: {
+                ...makeHistoryItem(20),
+                action: DrawingTool.ResistBlock,
+                blockShape: ResistBlockShape.Rectangle,
+                style: { lineThickness: 4, color: '#aabbcc' },
+            }
+        });
+
+        expect(erased.history).toHaveLength(1);
+        expect(erased.recentColors).toEqual(['#111111']);
+        expect(blocked.history).toHaveLength(2);
+        expect(blocked.recentColors).toEqual(['#111111']);
+    });
+
+    test('background color accepts hex or transparent and defaults for older shares', () => {
+        const cotton = reducer(initialState, { type: ActionType.SET_BACKGROUND_COLOR, payload: '#F3EAD8' });
+        const transparent = reducer(cotton, { type: ActionType.SET_BACKGROUND_COLOR, payload: 'transparent' });
+        const rejected = reducer(transparent, { type: ActionType.SET_BACKGROUND_COLOR, payload: 'navy' });
+        const loaded = reducer(transparent, {
+            type: ActionType.LOAD_STATE_FROM_URL,
+            payload: {
+                version: SHARE_SCHEMA_VERSION,
+                history: [],
+                folds: initialState.folds,
+                canvasDimensions: initialState.canvasDimensions,
+                circleRadius: initialState.circleRadius,
+                lineThickness: initialState.lineThickness,
+                shapeFillMode: initialState.shapeFillMode,
+                currentTool: initialState.currentTool,
+            }
+        });
+
+        expect(cotton.backgroundColor).toBe('#f3ead8');
+        expect(transparent.backgroundColor).toBe('transparent');
+        expect(rejected.backgroundColor).toBe('transparent');
+        expect(loaded.backgroundColor).toBe(initialState.backgroundColor);
+    });
+
+    test('palette colors can be saved once and removed', () => {
+        const saved = reducer({ ...initialState, colorPalette: [] }, {
+            type: ActionType.ADD_PALETTE_COLOR,
+            payload: '#123456'
+        });
+        const savedAgain = reducer(saved, { type: ActionType.ADD_PALETTE_COLOR, payload: '#123456' });
+        const removed = reducer(savedAgain, { type: ActionType.REMOVE_PALETTE_COLOR, payload: '#123456' });
+
+        expect(saved.colorPalette).toEqual(['#123456']);
+        expect(savedAgain).toBe(saved);
+        expect(removed.colorPalette).toEqual([]);
+    });
+
     test('unknown Redux actions preserve state without globally sanitizing it', () => {
         const state = {
             ...initialState,
@@ -182,6 +320,57 @@ describe('shiboriCanvasState reducer', () => {
         expect(dimensions.canvasDimensions).toEqual(initialState.canvasDimensions);
     });
 
+    test('diagonal fold count allows both diagonals but no more', () => {
+        const both = reducer(initialState, { type: ActionType.UPDATE_DIAGONAL_FOLD_COUNT, payload: 2 });
+        const clamped = reducer(initialState, { type: ActionType.UPDATE_DIAGONAL_FOLD_COUNT, payload: 5 });
+
+        expect(both.folds.diagonal).toEqual(expect.objectContaining({ enabled: true, count: 2 }));
+        expect(clamped.folds.diagonal.count).toBe(2);
+    });
+
+    test('accordion mode starts from the current grid and clamps panel counts', () => {
+        const history = [{ ...makeHistoryItem(10), id: 'draw-1' }];
+        const accordion = reducer({ ...initialState, history }, {
+            type: ActionType.SET_ACCORDION_MODE,
+            payload: true,
+        });
+        const thirds = reducer(accordion, {
+            type: ActionType.UPDATE_ACCORDION_PANELS,
+            payload: { axis: 'columns', value: 3.7 },
+        });
+        const clamped = reducer(thirds, {
+            type: ActionType.UPDATE_ACCORDION_PANELS,
+            payload: { axis: 'rows', value: 40 },
+        });
+
+        expect(accordion.folds.accordion).toEqual({ columns: 2, rows: 2 });
+        expect(accordion.history).toBe(history);
+        expect(thirds.folds.accordion).toEqual({ columns: 3, rows: 2 });
+        expect(thirds.folds.diagonal).toEqual(expect.objectContaining({ enabled: false, count: 0 }));
+        expect(thirds.history.map((item) => item.action)).toEqual([
+            DrawingTool.Paintbrush,
+            HistoryAction.Reproject,
+        ]);
+        expect(clamped.folds.accordion).toEqual({ columns: 3, rows: 12 });
+        expect(reducer(clamped, {
+            type: ActionType.UPDATE_ACCORDION_PANELS,
+            payload: { axis: 'columns', value: 1 },
+        }).folds.accordion).toEqual({ columns: 2, rows: 12 });
+        expect(reducer({ ...initialState, folds: { ...initialState.folds, vertical: 0 } }, {
+            type: ActionType.SET_ACCORDION_MODE,
+            payload: true,
+        }).folds.accordion).toEqual({ columns: 2, rows: 2 });
+    });
+
+    test('accordion panel updates are ignored outside accordion mode', () => {
+        const result = reducer(initialState, {
+            type: ActionType.UPDATE_ACCORDION_PANELS,
+            payload: { axis: 'columns', value: 5 },
+        });
+
+        expect(result).toBe(initialState);
+    });
+
     test('fold actions retain their integer invariant', () => {
         const result = reducer(initialState, {
             type: ActionType.UPDATE_FOLD,
@@ -200,19 +389,250 @@ describe('shiboriCanvasState reducer', () => {
             name: 'canvas dimensions',
             action: { type: ActionType.SET_CANVAS_DIMENSIONS, payload: { width: 800, height: 900 } },
         },
-    ])('$name changes atomically reset history and selection', ({ action }) => {
+        {
+            name: 'fold system',
+            action: { type: ActionType.SET_FOLD_SYSTEM, payload: FoldSystem.P6m },
+        },
+    ])('$name changes reproject history with an undoable command', ({ action }) => {
+        const history = [{ ...makeHistoryItem(10), id: 'selected' }];
         const state = {
             ...initialState,
-            history: [{ ...makeHistoryItem(10), id: 'selected' }],
+            history,
             selectedHistoryItemId: 'selected',
             selectionDragDelta: { x: 2, y: 3 },
         };
 
         const result = reducer(state, action);
-
-        expect(result.history).toEqual([]);
-        expect(result.selectedHistoryItemId).toBeNull();
+        const undone = reducer(result, { type: ActionType.UNDO });
+
+        expect(result.history.slice(0, -1)).toEqual(history);
+        expect(result.history[1]).toEqual(expect.objectContaining({
+            action: HistoryAction.Reproject,
+            fromFolds: state.folds,
+            toFolds: result.folds,
+            fromCanvasDimensions: state.canvasDimensions,
+            toCanvasDimensions: result.canvasDimensions,
+        }));
+        expect(result.selectedHistoryItemId).toBe('selected');
         expect(result.selectionDragDelta).toBeNull();
+        expect(undone.history).toEqual(history);
+        expect(undone.folds).toEqual(state.folds);
+        expect(undone.canvasDimensions).toEqual(state.canvasDimensions);
+    });
+
+    test('undone commands can be redone in order until a new command is added', () => {
+        const drawn = [10, 20, 30].reduce<State>((current, x) => reducer(current, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(x),
+        }), initialState);
+        const undoneTwice = reducer(reducer(drawn, { type: ActionType.UNDO }), { type: ActionType.UNDO });
+        const redoneOnce = reducer(undoneTwice, { type: ActionType.REDO });
+        const redoneTwice = reducer(redoneOnce, { type: ActionType.REDO });
+
+        expect(undoneTwice.history).toEqual(drawn.history.slice(0, 1));
+        expect(undoneTwice.redoStack).toEqual([drawn.history[2], drawn.history[1]]);
+        expect(redoneOnce.history).toEqual(drawn.history.slice(0, 2));
+        expect(redoneTwice.history).toEqual(drawn.history);
+        expect(redoneTwice.redoStack).toEqual([]);
+        expect(reducer(redoneTwice, { type: ActionType.REDO })).toBe(redoneTwice);
+
+        const branched = reducer(undoneTwice, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(40) });
+        expect(branched.redoStack).toEqual([]);
+        expect(branched.history).toHaveLength(2);
+    });
+
+    test('undo without history leaves the redo stack untouched', () => {
+        expect(reducer(initialState, { type: ActionType.UNDO })).toBe(initialState);
+    });
+
+    test('redoing a reprojection reapplies its layout and structural changes clear redo', () => {
+        const state: State = { ...initialState, history: [{ ...makeHistoryItem(10), id: 'brush' }] };
+        const refolded = reducer(state, {
+            type: ActionType.UPDATE_FOLD,
+            payload: { axis: 'vertical', value: 2 },
+        });
+        const undone = reducer(refolded, { type: ActionType.UNDO });
+        const redone = reducer(undone, { type: ActionType.REDO });
+        const resized = reducer(undone, {
+            type: ActionType.SET_CANVAS_DIMENSIONS,
+            payload: { width: 800, height: 800 },
+        });
+
+        expect(undone.folds).toEqual(state.folds);
+        expect(redone.folds).toEqual(refolded.folds);
+        expect(redone.canvasDimensions).toEqual(refolded.canvasDimensions);
+        expect(redone.history).toEqual(refolded.history);
+        expect(resized.redoStack).toEqual([]);
+    });
+
+    test('history previews clamp to the log, clear selection, and end when the log changes', () => {
+        const drawn = [10, 20, 30].reduce<State>((current, x) => reducer(current, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(x),
+        }), { ...initialState, selectedHistoryItemId: 'history-item-1' });
+
+        const previewing = reducer(drawn, { type: ActionType.SET_HISTORY_PREVIEW, payload: 1.7 });
+        expect(previewing.historyPreviewLength).toBe(1);
+        expect(previewing.selectedHistoryItemId).toBeNull();
+        expect(previewing.history).toBe(drawn.history);
+
+        expect(reducer(previewing, { type: ActionType.SET_HISTORY_PREVIEW, payload: 99 }).historyPreviewLength)
+            .toBeNull();
+        expect(reducer(previewing, { type: ActionType.SET_HISTORY_PREVIEW, payload: -4 }).historyPreviewLength)
+            .toBe(0);
+        expect(reducer(previewing, { type: ActionType.UNDO }).historyPreviewLength).toBeNull();
+        expect(reducer(previewing, {
+            type: ActionType.SET_LINE_THICKNESS,
+            payload: 12,
+        }).historyPreviewLength).toBe(1);
+    });
+
+    test('reverting to a history entry keeps later commands on a branch and restores its layout', () => {
+        const drawn = reducer({ ...initialState, history: [{ ...makeHistoryItem(10), id: 'brush' }] }, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(20),
+        });
+        const refolded = reducer(drawn, { type: ActionType.UPDATE_FOLD, payload: { axis: 'vertical', value: 2 } });
+        const extended = reducer(refolded, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(30) });
+        const previewing = reducer(extended, { type: ActionType.SET_HISTORY_PREVIEW, payload: 1 });
+
+        const reverted = reducer(previewing, { type: ActionType.REVERT_HISTORY, payload: 1 });
+        const redrawn = reducer(reverted, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(40) });
+        const restored = reducer(redrawn, { type: ActionType.SWITCH_HISTORY_BRANCH, payload: 'branch-1' });
+
+        expect(reverted.history).toEqual(extended.history.slice(0, 1));
+        expect(reverted.folds).toEqual(initialState.folds);
+        expect(reverted.historyPreviewLength).toBeNull();
+        expect(reverted.redoStack).toEqual([]);
+        expect(reverted.activeHistoryBranchId).toBe('branch-2');
+        expect(reverted.historyBranches).toEqual([
+            expect.objectContaining({ id: 'branch-1', commands: extended.history, folds: extended.folds }),
+        ]);
+        expect(redrawn.historyBranches).toHaveLength(1);
+        expect(restored.history).toEqual(extended.history);
+        expect(restored.folds).toEqual(extended.folds);
+        expect(reducer(extended, { type: ActionType.REVERT_HISTORY, payload: extended.history.length })).toBe(extended);
+    });
+
+    test('drawing after an undo forks a branch that keeps the undone commands', () => {
+        const drawn = [10, 20].reduce<State>((current, x) => reducer(current, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(x),
+        }), initialState);
+        const forked = reducer(reducer(drawn, { type: ActionType.UNDO }), {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(30),
+        });
+
+        expect(forked.activeHistoryBranchId).toBe('branch-2');
+        expect(forked.historyBranches).toEqual([
+            expect.objectContaining({ id: 'branch-1', commands: drawn.history }),
+        ]);
+        expect(forked.historyBranches[0].commands[0]).toBe(forked.history[0]);
+
+        const switched = reducer(forked, { type: ActionType.SWITCH_HISTORY_BRANCH, payload: 'branch-1' });
+        expect(switched.history).toEqual(drawn.history);
+        expect(switched.redoStack).toEqual([]);
+        expect(switched.activeHistoryBranchId).toBe('branch-1');
+        expect(switched.historyBranches).toEqual([
+            expect.objectContaining({ id: 'branch-2', commands: forked.history }),
+        ]);
+
+        const undoneAgain = reducer(switched, { type: ActionType.UNDO });
+        const thirdBranch = reducer(undoneAgain, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(40) });
+        expect(thirdBranch.activeHistoryBranchId).toBe('branch-3');
+        expect(thirdBranch.historyBranches.map((branch) => branch.id)).toEqual(['branch-2', 'branch-1']);
+        expect(reducer(thirdBranch, { type: ActionType.SWITCH_HISTORY_BRANCH, payload: 'branch-3' }))
+            .toBe(thirdBranch);
+    });
+
+    test('branches remember the layout at their tip', () => {
+        const drawn = reducer(initialState, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(10) });
+        const refolded = reducer(drawn, { type: ActionType.UPDATE_FOLD, payload: { axis: 'vertical', value: 2 } });
+        const forked = reducer(reducer(refolded, { type: ActionType.UNDO }), {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: makeHistoryItem(20),
+        });
+        const switched = reducer(forked, { type: ActionType.SWITCH_HISTORY_BRANCH, payload: 'branch-1' });
+        const back = reducer(switched, { type: ActionType.SWITCH_HISTORY_BRANCH, payload: 'branch-2' });
+
+        expect(forked.folds).toEqual(initialState.folds);
+        expect(switched.history).toEqual(refolded.history);
+        expect(switched.folds).toEqual(refolded.folds);
+        expect(back.folds).toEqual(initialState.folds);
+        expect(back.history).toEqual(forked.history);
+    });
+
+    test('loading a document replaces the undo tree', () => {
+        const forked = reducer(
+            reducer(
+                reducer(initialState, { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(10) }),
+                { type: ActionType.UNDO }
+            ),
+            { type: ActionType.ADD_HISTORY_ITEM, payload: makeHistoryItem(20) }
+        );
+        const loaded = reducer(forked, {
+            type: ActionType.LOAD_DOCUMENT,
+            payload: {
+                version: SHARE_SCHEMA_VERSION,
+                history: [],
+                folds: initialState.folds,
+                canvasDimensions: initialState.canvasDimensions,
+                circleRadius: initialState.circleRadius,
+                lineThickness: initialState.lineThickness,
+                shapeFillMode: initialState.shapeFillMode,
+                currentTool: initialState.currentTool,
+            },
+        });
+
+        expect(forked.historyBranches).toHaveLength(1);
+        expect(loaded.historyBranches).toEqual([]);
+        expect(loaded.activeHistoryBranchId).toBe(initialState.activeHistoryBranchId);
+    });
+
+    test('structural changes without history do not record a reprojection', () => {
+        const result = reducer(initialState, {
+            type: ActionType.UPDATE_FOLD,
+            payload: { axis: 'vertical', value: 2 },
+        });
+
+        expect(result.history).toBe(initialState.history);
+    });
+
+    test('successive size edits collapse into one reprojection', () => {
+        const state: State = { ...initialState, history: [{ ...makeHistoryItem(10), id: 'brush' }] };
+        const typed = [1, 12, 120, 1200].reduce<State>((current, width) => reducer(current, {
+            type: ActionType.SET_CANVAS_DIMENSIONS,
+            payload: { width },
+        }), state);
+
+        expect(typed.history).toHaveLength(2);
+        expect(typed.history[1]).toEqual(expect.objectContaining({
+            fromCanvasDimensions: initialState.canvasDimensions,
+            toCanvasDimensions: { ...initialState.canvasDimensions, width: 1200 },
+        }));
+    });
+
+    test('a size edit after a fold change undoes on its own', () => {
+        const state: State = { ...initialState, history: [{ ...makeHistoryItem(10), id: 'brush' }] };
+        const refolded = reducer(state, {
+            type: ActionType.UPDATE_FOLD,
+            payload: { axis: 'vertical', value: 2 },
+        });
+        const resized = reducer(refolded, {
+            type: ActionType.SET_CANVAS_DIMENSIONS,
+            payload: { width: 1200 },
+        });
+        const undone = reducer(resized, { type: ActionType.UNDO });
+
+        expect(resized.history.map((item) => item.action)).toEqual([
+            DrawingTool.Paintbrush,
+            HistoryAction.Reproject,
+            HistoryAction.Reproject,
+        ]);
+        expect(undone.folds).toEqual(refolded.folds);
+        expect(undone.canvasDimensions).toEqual(state.canvasDimensions);
+        expect(undone.history).toEqual(refolded.history);
     });
 
     test('tool and style changes preserve history', () => {
@@ -358,4 +778,31 @@ describe('shiboriCanvasState reducer', () => {
 
         expect(afterClear.selectedHistoryItemId).toBeNull();
     });
+
+    test('multi-selection keeps its order, narrows for direct selection, and clears after a group delete', () => {
+        const first = { ...makeHistoryItem(10), id: 'first' };
+        const second = { ...makeHistoryItem(80), id: 'second' };
+        const selected = reducer({ ...initialState, history: [first, second] }, {
+            type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS,
+            payload: ['second', 'first', 'second'],
+        });
+
+        expect(selected.selectedHistoryItemIds).toEqual(['second', 'first']);
+        expect(selected.selectedHistoryItemId).toBe('first');
+        expect(reducer(selected, { type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove })
+            .selectedHistoryItemIds).toEqual(['second', 'first']);
+        expect(reducer(selected, { type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.DirectSelect })
+            .selectedHistoryItemIds).toEqual(['first']);
+
+        const afterDelete = reducer(selected, {
+            type: ActionType.ADD_HISTORY_ITEM,
+            payload: createBatchHistoryItem([createDeleteHistoryItem('second'), createDeleteHistoryItem('first')]),
+        });
+        expect(buildDrawableHistory(afterDelete.history)).toEqual([]);
+        expect(afterDelete.selectedHistoryItemIds).toEqual([]);
+        expect(afterDelete.selectedHistoryItemId).toBeNull();
+
+        const afterUndo = reducer(afterDelete, { type: ActionType.UNDO });
+        expect(buildDrawableHistory(afterUndo.history).map((item) => item.id)).toEqual(['first', 'second']);
+    });
 });
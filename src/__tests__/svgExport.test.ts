@@ -0,0 +1,194 @@
+import { renderUnfoldedSvg, SvgExportState } from '../rendering/svgExport';
+import { initialState } from '../store/shiboriCanvasState';
+import { resolveScene } from '../utils/historyOperations';
+import { renderDrawableHistoryItem } from '../utils/historyRenderer';
+import { DrawingTool, FoldSystem, ResistBlockShape, ShapeFillMode } from '../types';
+
+const style = { lineThickness: 4, color: '#ffffff' };
+
+const makeState = (overrides: Partial<SvgExportState> = {}): SvgExportState => ({
+  history: [
+    { id: 'brush', action: DrawingTool.Paintbrush, points: [{ x: 10, y: 10 }, { x: 40, y: 30 }], style },
+    {
+      id: 'box',
+      action: DrawingTool.Rectangle,
+      points: [{ x: 60, y: 50 }, { x: 20, y: 10 }],
+      rotation: Math.PI / 2,
+      style: { ...style, shapeFillMode: ShapeFillMode.Filled },
+    },
+  ],
+  folds: {
+    vertical: 0,
+    horizontal: 0,
+    diagonal: { ...initialState.folds.diagonal, enabled: false, count: 0 },
+  },
+  canvasDimensions: { width: 200, height: 100 },
+  backgroundColor: '#000080',
+  config: initialState.config,
+  lineThickness: initialState.lineThickness,
+  shapeFillMode: initialState.shapeFillMode,
+  ...overrides,
+});
+
+const parse = (svg: string): Document => new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+describe('renderUnfoldedSvg', () => {
+  test('writes the resolved scene once with its captured style', () => {
+    const document = parse(renderUnfoldedSvg(makeState()));
+
+    expect(document.querySelector('parsererror')).toBeNull();
+    expect(document.documentElement.getAttribute('viewBox')).toBe('0 0 200 100');
+    expect(document.querySelector('svg > rect')?.getAttribute('fill')).toBe('#000080');
+    expect(document.querySelector('#shibori-folded > path')?.getAttribute('fill')).toBe('#ffffff');
+    expect(document.querySelector('#shibori-folded > rect')?.outerHTML).toContain(
+      'x="20" y="10" width="40" height="40" fill="#ffffff" transform="rotate(90 40 30)"'
+    );
+    expect(document.querySelectorAll('svg > use')).toHaveLength(1);
+  });
+
+  test('writes a rotated ellipse turned about its center', () => {
+    const document = parse(renderUnfoldedSvg(makeState({
+      history: [{
+        id: 'ellipse',
+        action: DrawingTool.Ellipse,
+        points: [{ x: 100, y: 50 }, { x: 70, y: 30 }],
+        rotation: Math.PI / 4,
+        style: { ...style, shapeFillMode: ShapeFillMode.Outline },
+      }],
+    })));
+
+    expect(document.querySelector('#shibori-folded > ellipse')?.outerHTML).toContain(
+      'cx="100" cy="50" rx="30" ry="20" fill="none" stroke="#ffffff" stroke-width="4"'
+    );
+    expect(document.querySelector('#shibori-folded > ellipse')?.getAttribute('transform'))
+      .toBe('rotate(45 100 50)');
+  });
+
+  test('writes a circle rotated about a group center where the canvas draws it', () => {
+    const state = makeState({
+      history: [{
+        id: 'circle',
+        action: DrawingTool.Circle,
+        points: [{ x: 10, y: 0 }, { x: 15, y: 0 }],
+        rotation: Math.PI,
+        rotationCenter: { x: 0, y: 0 },
+        style: { ...style, shapeFillMode: ShapeFillMode.Filled },
+      }],
+    });
+    const arc = jest.fn();
+    const ctx = {
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      rect: jest.fn(),
+      clip: jest.fn(),
+      fill: jest.fn(),
+      arc,
+    } as unknown as CanvasRenderingContext2D;
+    renderDrawableHistoryItem(ctx, state.canvasDimensions, resolveScene(state.history)[0], {
+      config: state.config,
+      folds: state.folds,
+      lineThickness: state.lineThickness,
+      shapeFillMode: state.shapeFillMode,
+    });
+    const [x, y, radius] = arc.mock.calls[0];
+    const circle = parse(renderUnfoldedSvg(state)).querySelector('#shibori-folded > circle');
+
+    expect(x).toBeCloseTo(-10);
+    expect(y).toBeCloseTo(0);
+    expect(Number(circle?.getAttribute('cx'))).toBeCloseTo(x);
+    expect(Number(circle?.getAttribute('cy'))).toBeCloseTo(y);
+    expect(Number(circle?.getAttribute('r'))).toBe(radius);
+  });
+
+  test('masks the marks drawn before an eraser stroke with its outline', () => {
+    const state = makeState();
+    const document = parse(renderUnfoldedSvg({
+      ...state,
+      history: [
+        ...state.history,
+        { id: 'erase', action: DrawingTool.Eraser, points: [{ x: 20, y: 20 }, { x: 50, y: 30 }], style },
+        { id: 'line', action: DrawingTool.Line, points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style },
+      ],
+    }));
+
+    const masked = document.querySelector('#shibori-folded > g');
+    const maskId = masked?.getAttribute('mask')?.match(/^url\(#(.+)\)$/)?.[1];
+    expect(maskId).toBeDefined();
+    expect(masked?.querySelectorAll('path, rect')).toHaveLength(2);
+    expect(document.querySelector('#shibori-folded > line')).not.toBeNull();
+    const mask = document.getElementById(maskId!);
+    expect(mask?.querySelector('rect')?.getAttribute('fill')).toBe('white');
+    expect(mask?.querySelector('path')?.getAttribute('fill')).toBe('black');
+  });
+
+  test('masks every mark with resist blocks, including marks drawn after them', () => {
+    const state = makeState();
+    const document = parse(renderUnfoldedSvg({
+      ...state,
+      history: [
+        ...state.history,
+        {
+          id: 'block',
+          action: DrawingTool.ResistBlock,
+          points: [{ x: 50, y: 50 }, { x: 70, y: 50 }],
+          blockShape: ResistBlockShape.Circle,
+          style,
+        },
+        { id: 'line', action: DrawingTool.Line, points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style },
+      ],
+    }));
+
+    const masked = document.querySelector('#shibori-folded > g');
+    const maskId = masked?.getAttribute('mask')?.match(/^url\(#(.+)\)$/)?.[1];
+    expect(masked?.querySelector('line')).not.toBeNull();
+    expect(document.querySelector('#shibori-folded > line')).toBeNull();
+    const knockout = document.getElementById(maskId!)?.querySelector('circle');
+    expect(knockout?.outerHTML).toContain('cx="50" cy="50" r="20" fill="black"');
+  });
+
+  test('mirrors grid cells with alternating flips like the canvas mirror', () => {
+    const state = makeState();
+    const document = parse(renderUnfoldedSvg({
+      ...state,
+      folds: { ...state.folds, vertical: 1, horizontal: 1 },
+    }));
+
+    expect(Array.from(document.querySelectorAll('svg > use'), (use) => use.getAttribute('transform'))).toEqual([
+      'matrix(1 0 0 1 0 0)',
+      'matrix(-1 0 0 1 200 0)',
+      'matrix(1 0 0 -1 0 100)',
+      'matrix(-1 0 0 -1 200 100)',
+    ]);
+  });
+
+  test('clips the folded scene and reflects it across the diagonal crease', () => {
+    const document = parse(renderUnfoldedSvg(makeState({
+      canvasDimensions: { width: 100, height: 100 },
+      folds: { ...initialState.folds },
+    })));
+
+    expect(document.querySelector('#shibori-folded')?.getAttribute('clip-path'))
+      .toBe('url(#shibori-drawable-region)');
+    expect(document.querySelector('#shibori-diagonal')).not.toBeNull();
+    expect(document.querySelector('[clip-path="url(#shibori-diagonal)"] > use')?.getAttribute('transform'))
+      .toBe('matrix(0 -1 -1 0 50 50)');
+  });
+
+  test('composes kaleidoscope cells from clipped wedge copies', () => {
+    const state = makeState();
+    const document = parse(renderUnfoldedSvg({
+      ...state,
+      folds: { ...state.folds, system: FoldSystem.P4 },
+    }));
+
+    expect(document.querySelectorAll('#shibori-cell > g[clip-path]')).toHaveLength(4);
+    expect(document.querySelectorAll('svg > use').length).toBeGreaterThan(1);
+  });
+
+  test('omits the cloth for transparent backgrounds', () => {
+    const document = parse(renderUnfoldedSvg(makeState({ backgroundColor: 'transparent' })));
+
+    expect(document.querySelector('svg > rect')).toBeNull();
+  });
+});
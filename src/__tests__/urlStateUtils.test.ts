@@ -1,13 +1,14 @@
 import { initialState } from '../store/shiboriCanvasState';
-import { DrawingTool, HistoryAction, ShapeFillMode } from '../types';
-import { UndoableHistoryItem } from '../types/DrawingMode';
-import { deflateSync, strToU8 } from 'fflate';
+import { DrawingTool, FoldSystem, HistoryAction, ResistBlockShape, ShapeFillMode } from '../types';
+import { DrawableHistoryItem, UndoableHistoryItem } from '../types/DrawingMode';
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
 import {
   decodeStateFromUrl,
   encodeStateToUrl,
   extractSerializableState,
   generateShareableUrl,
   isPlausibleBase64Url,
+  normalizeDrawableFromUnknown,
   MAX_SHARE_DECOMPRESSED_BYTES,
   MAX_SHARE_HISTORY_ITEMS,
   MAX_SHARE_PARAMETER_LENGTH,
@@ -113,6 +114,11 @@ function toBase64Url(bytes: Uint8Array): string {
   return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
 }
 
+function decodeCompressedJson(encodedState: string): string {
+  const base64 = encodedState.slice(SHARE_ENCODING_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/');
+  return strFromU8(inflateSync(Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))));
+}
+
 function getEncodedState(state: SerializableStateInput): string {
   const result = encodeStateToUrl(state);
   if (result.kind !== 'success') {
@@ -134,7 +140,7 @@ function makeComplexPaintbrushHistory(pointCount: number): UndoableHistoryItem[]
 }
 
 describe('versioned share state', () => {
-  test('round trips every command type through schema v2', () => {
+  test('round trips every command type through the current schema', () => {
     const encoded = getEncodedState(makeState());
     const decoded = decodeStateFromUrl(encoded);
 
@@ -143,6 +149,285 @@ describe('versioned share state', () => {
     expect(encoded.length).toBeLessThanOrEqual(MAX_SHARE_PARAMETER_LENGTH);
   });
 
+  test('round trips a group edit and flattens it in share snapshots', () => {
+    const history: UndoableHistoryItem[] = [
+      ...allCommands.slice(0, 5),
+      {
+        action: HistoryAction.Batch,
+        points: [],
+        commands: [
+          {
+            action: HistoryAction.Move,
+            points: [],
+            itemId: 'circle',
+            fromPoints: [{ x: 50, y: 50 }, { x: 75, y: 50 }],
+            toPoints: [{ x: 60, y: 55 }, { x: 85, y: 55 }],
+          },
+          { action: HistoryAction.Delete, points: [], itemId: 'rectangle' },
+        ],
+      },
+    ];
+    const generated = generateShareableUrl(makeState(history), 'https://example.test');
+    if (generated.kind !== 'success') throw new Error(`Expected a share URL, received ${generated.kind}`);
+    const shared = decodeStateFromUrl(new URL(generated.url).searchParams.get('shared') ?? '');
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+    expect(shared?.history.map((item) => item.id)).toEqual(['brush', 'line', 'square', 'circle']);
+    expect(shared?.history[3].points).toEqual([{ x: 60, y: 55 }, { x: 85, y: 55 }]);
+  });
+
+  test('round trips scale and flip commands, alone and inside a group edit', () => {
+    const history: UndoableHistoryItem[] = [
+      ...allCommands.slice(0, 5),
+      {
+        action: HistoryAction.Scale,
+        points: [],
+        itemId: 'circle',
+        fromPoints: [{ x: 50, y: 50 }, { x: 75, y: 50 }],
+        toPoints: [{ x: 50, y: 50 }, { x: 100, y: 50 }],
+      },
+      {
+        action: HistoryAction.Batch,
+        points: [],
+        commands: [
+          {
+            action: HistoryAction.Flip,
+            points: [],
+            itemId: 'line',
+            fromPoints: [{ x: 10, y: 10 }, { x: 20, y: 20 }],
+            toPoints: [{ x: 20, y: 10 }, { x: 10, y: 20 }],
+          },
+        ],
+      },
+    ];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+  });
+
+  test('round trips pasted drawables inside a batch and rejects reused IDs', () => {
+    const pasted: UndoableHistoryItem = {
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [
+        { id: 'line-copy', action: DrawingTool.Line, points: [{ x: 21, y: 22 }, { x: 23, y: 24 }], style },
+        { id: 'brush-copy', action: DrawingTool.Paintbrush, points: [{ x: 21, y: 22 }], style },
+      ],
+    };
+    const history = [...allCommands.slice(0, 2), pasted];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+    expect(decodeStateFromUrl(encodeUnknown({
+      ...makeState(),
+      history: [allCommands[1], { ...pasted, commands: [allCommands[1]] }],
+    }))).toBeNull();
+    expect(normalizeDrawableFromUnknown({ ...allCommands[1], extra: true })).toBeNull();
+    expect(normalizeDrawableFromUnknown(allCommands[2])).toEqual(allCommands[2]);
+  });
+
+  test('round trips layers, grouping and stacking order, and keeps layers in share snapshots', () => {
+    const layers = [
+      { id: 'layer-1', name: 'Base', visible: true, locked: true, opacity: 1 },
+      { id: 'layer-2', name: 'Resist', visible: false, locked: false, opacity: 0.4 },
+    ];
+    const history: UndoableHistoryItem[] = [
+      {
+        action: HistoryAction.UpdateLayers,
+        points: [],
+        fromLayers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 1 }],
+        toLayers: layers,
+      },
+      { ...allCommands[1], groupId: 'group-1' } as UndoableHistoryItem,
+      allCommands[2],
+      {
+        action: HistoryAction.Batch,
+        points: [],
+        commands: [
+          { action: HistoryAction.Group, points: [], itemId: 'rectangle', toGroupId: 'group-1' },
+          { action: HistoryAction.Arrange, points: [], itemId: 'line', direction: 'forward' },
+        ],
+      },
+      { action: HistoryAction.SetLayer, points: [], itemId: 'rectangle', fromLayerId: 'layer-1', toLayerId: 'layer-2' },
+    ];
+    const generated = generateShareableUrl(makeState(history), 'https://example.test');
+    if (generated.kind !== 'success') throw new Error(`Expected a share URL, received ${generated.kind}`);
+    const shared = decodeStateFromUrl(new URL(generated.url).searchParams.get('shared') ?? '');
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+    expect(shared?.history[0]).toEqual(expect.objectContaining({ action: HistoryAction.UpdateLayers, toLayers: layers }));
+    expect(shared?.history.slice(1)).toEqual([
+      expect.objectContaining({ id: 'rectangle', layerId: 'layer-2', groupId: 'group-1' }),
+      expect.objectContaining({ id: 'line', groupId: 'group-1' }),
+    ]);
+  });
+
+  test('loads v2 documents, which predate layers, as the current version', () => {
+    const decoded = decodeStateFromUrl(encodeCompressedUnknown({ ...makeState(allCommands.slice(0, 2)), version: 2 }));
+
+    expect(SHARE_SCHEMA_VERSION).toBe(3);
+    expect(decoded).toEqual(makeState(allCommands.slice(0, 2)));
+  });
+
+  test('round trips a rotated ellipse', () => {
+    const history: UndoableHistoryItem[] = [{
+      id: 'ellipse',
+      action: DrawingTool.Ellipse,
+      points: [{ x: 50, y: 50 }, { x: 90, y: 70 }],
+      style: { ...style, shapeFillMode: ShapeFillMode.Outline },
+      rotation: 0.75,
+      rotationCenter: { x: 50, y: 50 },
+    }];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+  });
+
+  test('round trips eraser strokes, including a single dab', () => {
+    const history: UndoableHistoryItem[] = [
+      { id: 'brush', action: DrawingTool.Paintbrush, points: [{ x: 10, y: 10 }, { x: 60, y: 40 }], style },
+      { id: 'erase', action: DrawingTool.Eraser, points: [{ x: 30, y: 20 }], style },
+    ];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+  });
+
+  test('packs pen pressure and tilt compactly and restores them to within a step', () => {
+    const penSamples = [
+      { pressure: 0.1, tiltX: 0, tiltY: 0 },
+      { pressure: 0.55, tiltX: 45, tiltY: -30 },
+      { pressure: 1, tiltX: -90, tiltY: 90 },
+    ];
+    const history: UndoableHistoryItem[] = [{
+      id: 'pen',
+      action: DrawingTool.Paintbrush,
+      points: [{ x: 10, y: 10 }, { x: 30, y: 20 }, { x: 50, y: 25 }],
+      style,
+      penSamples,
+    }];
+
+    const encodedState = getEncodedState(makeState(history));
+    const json = decodeCompressedJson(encodedState);
+    expect(JSON.parse(json).history[0]).toMatchObject({ pen: expect.stringMatching(/^[A-Za-z0-9_-]{9}$/) });
+    expect(json).not.toContain('penSamples');
+
+    const decoded = decodeStateFromUrl(encodedState)!.history[0] as DrawableHistoryItem;
+    decoded.penSamples!.forEach((sample, index) => {
+      expect(sample.pressure).toBeCloseTo(penSamples[index].pressure, 1);
+      expect(Math.abs(sample.tiltX - penSamples[index].tiltX)).toBeLessThanOrEqual(1.5);
+      expect(Math.abs(sample.tiltY - penSamples[index].tiltY)).toBeLessThanOrEqual(1.5);
+    });
+  });
+
+  test('rejects pen samples that do not match the stroke points', () => {
+    expect(normalizeDrawableFromUnknown({
+      id: 'pen',
+      action: DrawingTool.Paintbrush,
+      points: [{ x: 10, y: 10 }, { x: 30, y: 20 }],
+      style,
+      penSamples: [{ pressure: 0.5, tiltX: 0, tiltY: 0 }],
+    })).toBeNull();
+    expect(normalizeDrawableFromUnknown({
+      id: 'line',
+      action: DrawingTool.Line,
+      points: [{ x: 10, y: 10 }, { x: 30, y: 20 }],
+      style,
+      penSamples: [{ pressure: 0.5, tiltX: 0, tiltY: 0 }, { pressure: 0.5, tiltX: 0, tiltY: 0 }],
+    })).toBeNull();
+  });
+
+  test('round trips resist blocks with their shape and rotation', () => {
+    const history: UndoableHistoryItem[] = [
+      { id: 'brush', action: DrawingTool.Paintbrush, points: [{ x: 10, y: 10 }, { x: 60, y: 40 }], style },
+      {
+        id: 'block',
+        action: DrawingTool.ResistBlock,
+        points: [{ x: 40, y: 40 }, { x: 60, y: 50 }],
+        blockShape: ResistBlockShape.Hexagon,
+        rotation: 0.5,
+        rotationCenter: { x: 40, y: 40 },
+        style,
+      },
+    ];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+  });
+
+  test('rejects resist blocks without a known shape and shapes on other drawables', () => {
+    const block = {
+      id: 'block',
+      action: DrawingTool.ResistBlock,
+      points: [{ x: 40, y: 40 }, { x: 60, y: 50 }],
+      style,
+    };
+
+    expect(normalizeDrawableFromUnknown({ ...block, blockShape: ResistBlockShape.Circle })).not.toBeNull();
+    expect(normalizeDrawableFromUnknown(block)).toBeNull();
+    expect(normalizeDrawableFromUnknown({ ...block, blockShape: 'octagon' })).toBeNull();
+    expect(normalizeDrawableFromUnknown({
+      ...block,
+      action: DrawingTool.Circle,
+      blockShape: ResistBlockShape.Circle,
+      style: { ...style, shapeFillMode: ShapeFillMode.Filled },
+    })).toBeNull();
+  });
+
+  test('round trips polygon side counts and star proportions', () => {
+    const history: UndoableHistoryItem[] = [
+      {
+        id: 'hexagon',
+        action: DrawingTool.Polygon,
+        points: [{ x: 50, y: 50 }, { x: 80, y: 50 }],
+        sides: 6,
+        style: { ...style, shapeFillMode: ShapeFillMode.Filled },
+      },
+      {
+        id: 'star',
+        action: DrawingTool.Star,
+        points: [{ x: 20, y: 20 }, { x: 20, y: 5 }],
+        sides: 5,
+        innerRadiusRatio: 0.45,
+        style: { ...style, shapeFillMode: ShapeFillMode.Outline },
+      },
+    ];
+
+    expect(decodeStateFromUrl(getEncodedState(makeState(history)))).toEqual(makeState(history));
+  });
+
+  test('round trips the current drawing color and per-stroke colors', () => {
+    const colored = makeState([
+      { id: 'indigo', action: DrawingTool.Line, points: [{ x: 1, y: 2 }, { x: 3, y: 4 }], style: { lineThickness: 4, color: '#1d2a5b' } },
+      { id: 'rust', action: DrawingTool.Paintbrush, points: [{ x: 5, y: 6 }], style: { lineThickness: 4, color: '#c8642d' } },
+    ]);
+    const decoded = decodeStateFromUrl(getEncodedState({ ...colored, drawingColor: '#c8642d' }));
+
+    expect(decoded?.drawingColor).toBe('#c8642d');
+    expect(decoded?.history.map((item) => 'style' in item ? item.style?.color : null))
+      .toEqual(['#1d2a5b', '#c8642d']);
+  });
+
+  test('round trips a kaleidoscope fold system', () => {
+    const state = makeState();
+    const decoded = decodeStateFromUrl(getEncodedState({
+      ...state,
+      folds: { ...state.folds, system: FoldSystem.P3m1 },
+    }));
+
+    expect(decoded?.folds.system).toBe(FoldSystem.P3m1);
+  });
+
+  test('round trips accordion panel counts', () => {
+    const state = makeState();
+    const decoded = decodeStateFromUrl(getEncodedState({
+      ...state,
+      folds: { ...state.folds, accordion: { columns: 3, rows: 5 } },
+    }));
+
+    expect(decoded?.folds.accordion).toEqual({ columns: 3, rows: 5 });
+  });
+
+  test.each(['#f3ead8', 'transparent'])('round trips a %s cloth background', (backgroundColor) => {
+    expect(decodeStateFromUrl(getEncodedState({ ...makeState(), backgroundColor }))?.backgroundColor)
+      .toBe(backgroundColor);
+  });
+
   test('extracts stable IDs and deterministic styles from current legacy runtime history', () => {
     const extracted = extractSerializableState({
       ...initialState,
@@ -291,6 +576,15 @@ describe('versioned share state', () => {
     ['malformed delete', { ...makeState(), history: [
       { action: HistoryAction.Delete, points: [], itemId: 'brush', style },
     ] }],
+    ['a one-panel accordion', { ...makeState(), folds: { ...makeState().folds, accordion: { columns: 1, rows: 2 } } }],
+    ['too many accordion panels', { ...makeState(), folds: { ...makeState().folds, accordion: { columns: 13, rows: 2 } } }],
+    ['fractional accordion panels', { ...makeState(), folds: { ...makeState().folds, accordion: { columns: 2.5, rows: 2 } } }],
+    ['an unknown fold system', { ...makeState(), folds: { ...makeState().folds, system: 'p31m' } }],
+    ['a background color that is neither hex nor transparent', { ...makeState(), backgroundColor: 'navy' }],
+    ['a drawing color that is not canonical hex', { ...makeState(), drawingColor: 'WHITE' }],
+    ['a stroke color containing CSS syntax', makeState([
+      { id: 'brush', action: DrawingTool.Paintbrush, points: [{ x: 1, y: 1 }], style: { ...style, color: 'url(#x)' } },
+    ])],
     ['malformed bezier point count', makeState([{
       id: 'bad-bezier',
       action: DrawingTool.Bezier,
@@ -343,6 +637,68 @@ describe('versioned share state', () => {
       fromPoints: [{ x: 1, y: 2 }, { x: 3, y: 4 }],
       toPoints: [{ x: 11, y: 12 }],
     }],
+    ['an empty batch', {
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [],
+    }],
+    ['a nested batch', {
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [{
+        action: HistoryAction.Batch,
+        points: [],
+        commands: [{ action: HistoryAction.Delete, points: [], itemId: 'brush' }],
+      }],
+    }],
+    ['layers with duplicate IDs', {
+      action: HistoryAction.UpdateLayers,
+      points: [],
+      fromLayers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 1 }],
+      toLayers: [
+        { id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 1 },
+        { id: 'layer-1', name: 'Layer 2', visible: true, locked: false, opacity: 1 },
+      ],
+    }],
+    ['a layer opacity above one', {
+      action: HistoryAction.UpdateLayers,
+      points: [],
+      fromLayers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 1 }],
+      toLayers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 2 }],
+    }],
+    ['no layers left', {
+      action: HistoryAction.UpdateLayers,
+      points: [],
+      fromLayers: [{ id: 'layer-1', name: 'Layer 1', visible: true, locked: false, opacity: 1 }],
+      toLayers: [],
+    }],
+    ['an unknown stacking direction', {
+      action: HistoryAction.Arrange,
+      points: [],
+      itemId: 'line',
+      direction: 'front',
+    }],
+    ['a side count on a circle', { ...allCommands[4], sides: 6 }],
+    ['a polygon with too few sides', {
+      id: 'polygon',
+      action: DrawingTool.Polygon,
+      points: [{ x: 50, y: 50 }, { x: 80, y: 50 }],
+      sides: 2,
+      style: { ...style, shapeFillMode: ShapeFillMode.Filled },
+    }],
+    ['a star without a fill mode', {
+      id: 'star',
+      action: DrawingTool.Star,
+      points: [{ x: 50, y: 50 }, { x: 80, y: 50 }],
+      sides: 5,
+      innerRadiusRatio: 0.5,
+      style,
+    }],
+    ['a pasted drawable without an ID', {
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [{ ...allCommands[1], id: undefined }],
+    }],
   ])('rejects v2 command with %s', (_label, invalidCommand) => {
     expect(decodeStateFromUrl(encodeUnknown({
       ...makeState(),
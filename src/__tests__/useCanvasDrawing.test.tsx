@@ -7,8 +7,10 @@ import { CanvasRuntime } from "../hooks/useCanvasRuntime";
 import { useCanvasDrawing } from "../hooks/useCanvasDrawing";
 import { createAppStore } from "../store";
 import { ActionType } from "../store/shiboriCanvasState";
-import { DrawingTool } from "../types";
-import { DrawingMode, DrawingModeContext, Point } from "../types/DrawingMode";
+import { DrawingTool, HistoryAction } from "../types";
+import { DrawingMode, DrawingModeContext, Point, UndoableHistoryItem } from "../types/DrawingMode";
+import { buildDrawableHistory, createUpdateLayersHistoryItem } from "../utils/historyOperations";
+import { DEFAULT_LAYERS } from "../utils/layers";
 
 function harness() {
   const store = createAppStore();
@@ -64,14 +66,14 @@ describe("drawing gesture session", () => {
 
     act(() => result.current.startDrawing(1, 2));
     act(() => setup.store.dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.Line }));
-    act(() => result.current.continueDrawing(3, 4));
+    act(() => result.current.continueDrawing(3, 4, { shiftKey: true }));
     act(() => result.current.endDrawing({ x: 5, y: 6 }));
 
     expect(factory).toHaveBeenCalledTimes(1);
     expect(factory).toHaveBeenCalledWith(DrawingTool.Paintbrush);
-    expect(capturedMode.start).toHaveBeenCalledWith({ x: 1, y: 2 }, expect.any(Object));
-    expect(capturedMode.continue).toHaveBeenCalledWith({ x: 3, y: 4 }, expect.any(Object));
-    expect(capturedMode.end).toHaveBeenCalledWith({ x: 5, y: 6 }, expect.any(Object));
+    expect(capturedMode.start).toHaveBeenCalledWith({ x: 1, y: 2 }, expect.any(Object), {});
+    expect(capturedMode.continue).toHaveBeenCalledWith({ x: 3, y: 4 }, expect.any(Object), { shiftKey: true });
+    expect(capturedMode.end).toHaveBeenCalledWith({ x: 5, y: 6 }, expect.any(Object), {});
   });
 
   test("cancel invokes mode cancellation and never commits history", () => {
@@ -191,4 +193,203 @@ describe("drawing gesture session", () => {
     if (history[1].action !== 'updatePath') throw new Error('Expected path update');
     expect(history[1].toPath.anchors).toHaveLength(3);
   });
+
+  test("a marquee selects enclosed drawables and a group drag commits one batch", () => {
+    const setup = harness();
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("first", 100, 100) });
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("second", 100, 200) });
+    setup.store.dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove });
+    const { result } = renderHook(() => useCanvasDrawing(setup.refs, setup.runtime), {
+      wrapper: setup.wrapper,
+    });
+
+    act(() => result.current.startDrawing(50, 50));
+    act(() => result.current.continueDrawing(250, 250));
+    expect(setup.store.getState().shibori.selectionMarquee).toEqual({ minX: 50, minY: 50, maxX: 250, maxY: 250 });
+    act(() => result.current.endDrawing({ x: 250, y: 250 }));
+
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["first", "second"]);
+    expect(setup.store.getState().shibori.selectionMarquee).toBeNull();
+
+    act(() => result.current.startDrawing(150, 100));
+    act(() => result.current.endDrawing({ x: 160, y: 105 }));
+
+    const history = setup.store.getState().shibori.history;
+    expect(history).toHaveLength(3);
+    expect(history[2]).toEqual(expect.objectContaining({
+      action: HistoryAction.Batch,
+      commands: [
+        expect.objectContaining({ itemId: "first", toPoints: [{ x: 110, y: 105 }, { x: 210, y: 105 }] }),
+        expect.objectContaining({ itemId: "second", toPoints: [{ x: 110, y: 205 }, { x: 210, y: 205 }] }),
+      ],
+    }));
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["first", "second"]);
+
+    act(() => result.current.undo());
+    expect(setup.store.getState().shibori.history).toHaveLength(2);
+  });
+
+  test("shift-click toggles drawables in the selection and deletes them together", () => {
+    const setup = harness();
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("first", 100, 100) });
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("second", 100, 200) });
+    setup.store.dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove });
+    const { result } = renderHook(() => useCanvasDrawing(setup.refs, setup.runtime), {
+      wrapper: setup.wrapper,
+    });
+
+    act(() => result.current.startDrawing(150, 100));
+    act(() => result.current.endDrawing({ x: 150, y: 100 }));
+    act(() => result.current.startDrawing(150, 200, { shiftKey: true }));
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["first", "second"]);
+    expect(setup.store.getState().shibori.selectedHistoryItemId).toBe("second");
+
+    act(() => result.current.startDrawing(150, 100, { shiftKey: true }));
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["second"]);
+
+    act(() => result.current.startDrawing(150, 100, { shiftKey: true }));
+    act(() => result.current.deleteSelection());
+
+    const state = setup.store.getState().shibori;
+    expect(state.history[2]).toEqual({
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [
+        { action: HistoryAction.Delete, points: [], itemId: "second" },
+        { action: HistoryAction.Delete, points: [], itemId: "first" },
+      ],
+    });
+    expect(state.selectedHistoryItemIds).toEqual([]);
+  });
+
+  test("dragging a side handle resizes the selection and flips mirror it in place", () => {
+    const setup = harness();
+    setup.store.dispatch({ type: ActionType.SET_LINE_THICKNESS, payload: 2 });
+    setup.store.dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: { id: "box", action: DrawingTool.Rectangle, points: [{ x: 100, y: 100 }, { x: 300, y: 200 }] },
+    });
+    setup.store.dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove });
+    setup.store.dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_ID, payload: "box" });
+    const { result } = renderHook(() => useCanvasDrawing(setup.refs, setup.runtime), {
+      wrapper: setup.wrapper,
+    });
+
+    // The frame spans x 99..301 with the stroke, so its east handle sits just beyond x = 301.
+    act(() => result.current.startDrawing(325, 150));
+    act(() => result.current.continueDrawing(503, 150));
+    expect(setup.store.getState().shibori.selectionScalePreview).toEqual({
+      origin: { x: 99, y: 150 },
+      scale: { x: 2, y: 1 },
+      rotation: 0,
+    });
+    act(() => result.current.endDrawing({ x: 503, y: 150 }));
+
+    let history = setup.store.getState().shibori.history;
+    expect(history[1]).toEqual(expect.objectContaining({
+      action: HistoryAction.Scale,
+      itemId: "box",
+      toPoints: [{ x: 101, y: 100 }, { x: 501, y: 200 }],
+    }));
+    expect(setup.store.getState().shibori.selectionScalePreview).toBeNull();
+
+    act(() => result.current.flipSelection("horizontal"));
+    history = setup.store.getState().shibori.history;
+    expect(history[2]).toEqual(expect.objectContaining({
+      action: HistoryAction.Flip,
+      itemId: "box",
+      toPoints: [{ x: 501, y: 100 }, { x: 101, y: 200 }],
+    }));
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["box"]);
+  });
+
+  test("copy, paste and duplicate add offset copies with fresh IDs and select them", () => {
+    const setup = harness();
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("first", 100, 100) });
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("second", 100, 200) });
+    setup.store.dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS, payload: ["first", "second"] });
+    const { result } = renderHook(() => useCanvasDrawing(setup.refs, setup.runtime), {
+      wrapper: setup.wrapper,
+    });
+
+    let text: string | null = null;
+    act(() => {
+      text = result.current.copySelection();
+    });
+    expect(JSON.parse(text!).drawables).toEqual([makeLine("first", 100, 100), makeLine("second", 100, 200)]);
+    expect(result.current.pasteClipboard("plain text")).toBe(false);
+
+    act(() => {
+      result.current.pasteClipboard(text!);
+    });
+    act(() => {
+      result.current.pasteClipboard(text!);
+    });
+    let state = setup.store.getState().shibori;
+    expect(state.history).toHaveLength(4);
+    expect(state.currentTool).toBe(DrawingTool.SelectMove);
+    expect(state.history[3]).toEqual({
+      action: HistoryAction.Batch,
+      points: [],
+      commands: [
+        { ...makeLine("history-item-4", 140, 140) },
+        { ...makeLine("history-item-4-1", 140, 240) },
+      ],
+    });
+    expect(state.selectedHistoryItemIds).toEqual(["history-item-4", "history-item-4-1"]);
+
+    act(() => setup.store.dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_ID, payload: "first" }));
+    act(() => result.current.duplicateSelection());
+    state = setup.store.getState().shibori;
+    expect(state.history[4]).toEqual(makeLine("history-item-5", 120, 120));
+    expect(state.selectedHistoryItemIds).toEqual(["history-item-5"]);
+
+    act(() => setup.store.dispatch({ type: ActionType.UNDO }));
+    act(() => setup.store.dispatch({ type: ActionType.UNDO }));
+    expect(setup.store.getState().shibori.history).toHaveLength(3);
+  });
+
+  test("grouped drawables are picked together, reorder as one step and skip locked layers", () => {
+    const setup = harness();
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("first", 100, 100) });
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("second", 100, 200) });
+    setup.store.dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: makeLine("third", 100, 300) });
+    setup.store.dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS, payload: ["first", "second"] });
+    setup.store.dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove });
+    const { result } = renderHook(() => useCanvasDrawing(setup.refs, setup.runtime), {
+      wrapper: setup.wrapper,
+    });
+
+    act(() => result.current.groupSelection());
+    act(() => setup.store.dispatch({ type: ActionType.CLEAR_SELECTION }));
+    act(() => result.current.startDrawing(150, 200));
+    act(() => result.current.endDrawing({ x: 150, y: 200 }));
+    expect(setup.store.getState().shibori.selectedHistoryItemIds).toEqual(["first", "second"]);
+
+    act(() => result.current.arrangeSelection("forward"));
+    let state = setup.store.getState().shibori;
+    expect(state.history).toHaveLength(5);
+    expect(buildDrawableHistory(state.history).map((item) => item.id)).toEqual(["third", "first", "second"]);
+
+    act(() => result.current.ungroupSelection());
+    act(() => setup.store.dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: createUpdateLayersHistoryItem(DEFAULT_LAYERS, [{ ...DEFAULT_LAYERS[0], locked: true }]),
+    }));
+    act(() => result.current.startDrawing(150, 200));
+    act(() => result.current.endDrawing({ x: 160, y: 200 }));
+    state = setup.store.getState().shibori;
+    expect(state.history).toHaveLength(7);
+    expect(state.selectedHistoryItemIds).toEqual([]);
+    expect(buildDrawableHistory(state.history).every((item) => item.groupId === undefined)).toBe(true);
+  });
 });
+
+function makeLine(id: string, x: number, y: number): UndoableHistoryItem {
+  return {
+    id,
+    action: DrawingTool.Line,
+    points: [{ x, y }, { x: x + 100, y }],
+    style: { lineThickness: 20, color: "#ffffff" },
+  };
+}
@@ -16,7 +16,15 @@ function callbacks(): jest.Mocked<DrawingCallbacks> {
     cancelDrawing: jest.fn(),
     nudgeSelection: jest.fn(),
     deleteSelection: jest.fn(),
+    copySelection: jest.fn(),
+    pasteClipboard: jest.fn(),
+    duplicateSelection: jest.fn(),
+    arrangeSelection: jest.fn(),
+    groupSelection: jest.fn(),
+    ungroupSelection: jest.fn(),
     clearSelection: jest.fn(),
+    undo: jest.fn(),
+    redo: jest.fn(),
     hoverDrawing: jest.fn(),
     finishDrawing: jest.fn(),
   };
@@ -43,6 +51,8 @@ function Harness({ operations }: { operations: DrawingCallbacks }) {
     onPointerCancel: handlers.handlePointerCancel,
     onLostPointerCapture: handlers.handleLostPointerCapture,
     onKeyDown: handlers.handleKeyDown,
+    onCopy: handlers.handleCopy,
+    onPaste: handlers.handlePaste,
   }} />;
 }
 
@@ -103,11 +113,36 @@ describe("pointer canvas input", () => {
       shiftKey: undefined,
     });
     expect(operations.continueDrawing).toHaveBeenCalledTimes(1);
-    expect(operations.endDrawing).toHaveBeenCalledWith({ x: 140, y: 70 });
+    expect(operations.endDrawing).toHaveBeenCalledWith({ x: 140, y: 70 }, {
+      altKey: undefined,
+      shiftKey: undefined,
+    });
     expect(canvas.releasePointerCapture).toHaveBeenCalledWith(7);
     expect(operations.cancelDrawing).not.toHaveBeenCalled();
   });
 
+  test("passes pen pressure and tilt along with held keys", () => {
+    const operations = callbacks();
+    const { container } = render(<Harness operations={operations} />);
+    const canvas = container.querySelector("canvas")!;
+    prepareCanvas(canvas);
+    const pen = { ...primary, pointerType: "pen", tiltX: 30, tiltY: -15 };
+
+    fireEvent(canvas, pointerEvent("pointerdown", { ...pen, pressure: 0.25, clientX: 60, clientY: 45 }));
+    fireEvent(canvas, pointerEvent("pointermove", { ...pen, pressure: 0.75, shiftKey: true, clientX: 70, clientY: 50 }));
+
+    expect(operations.startDrawing).toHaveBeenCalledWith(100, 50, {
+      altKey: undefined,
+      shiftKey: undefined,
+      pen: { pressure: 0.25, tiltX: 30, tiltY: -15 },
+    });
+    expect(operations.continueDrawing).toHaveBeenCalledWith(120, 60, {
+      altKey: undefined,
+      shiftKey: true,
+      pen: { pressure: 0.75, tiltX: 30, tiltY: -15 },
+    });
+  });
+
   test("pointer cancel releases capture and cancels without committing", () => {
     const operations = callbacks();
     const { container } = render(<Harness operations={operations} />);
@@ -163,6 +198,37 @@ describe("pointer canvas input", () => {
     expect(operations.finishDrawing).toHaveBeenCalledTimes(1);
   });
 
+  test("undo and redo shortcuts accept Ctrl or Cmd", () => {
+    const operations = callbacks();
+    const { container } = render(<Harness operations={operations} />);
+    const canvas = container.querySelector("canvas")!;
+    fireEvent.keyDown(canvas, { key: "z", ctrlKey: true });
+    fireEvent.keyDown(canvas, { key: "z", metaKey: true });
+    fireEvent.keyDown(canvas, { key: "Z", ctrlKey: true, shiftKey: true });
+    fireEvent.keyDown(canvas, { key: "y", ctrlKey: true });
+    fireEvent.keyDown(canvas, { key: "z" });
+    expect(operations.undo).toHaveBeenCalledTimes(2);
+    expect(operations.redo).toHaveBeenCalledTimes(2);
+  });
+
+  test("copy and paste go through the clipboard and duplicate does not", () => {
+    const operations = callbacks();
+    operations.copySelection.mockReturnValue("copied drawables");
+    operations.pasteClipboard.mockReturnValue(true);
+    const { container } = render(<Harness operations={operations} />);
+    const canvas = container.querySelector("canvas")!;
+    const setData = jest.fn();
+
+    fireEvent.copy(canvas, { clipboardData: { setData } });
+    fireEvent.paste(canvas, { clipboardData: { getData: () => "pasted text" } });
+    fireEvent.keyDown(canvas, { key: "d", ctrlKey: true });
+    fireEvent.keyDown(canvas, { key: "d" });
+
+    expect(setData).toHaveBeenCalledWith("text/plain", "copied drawables");
+    expect(operations.pasteClipboard).toHaveBeenCalledWith("pasted text");
+    expect(operations.duplicateSelection).toHaveBeenCalledTimes(1);
+  });
+
   test("uncaptured pointer movement updates pending path hover guidance", () => {
     const operations = callbacks();
     const { container } = render(<Harness operations={operations} />);
@@ -0,0 +1,156 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { PropsWithChildren } from 'react';
+import { Provider } from 'react-redux';
+import { AUTOSAVE_DELAY_MS, useDocumentLibrary } from '../hooks/useDocumentLibrary';
+import {
+  DocumentLibrary,
+  DocumentStore,
+  LibraryDocument,
+  createDocumentLibrary,
+} from '../services/documentLibrary';
+import { createAppStore } from '../store';
+import { ActionType, initialState } from '../store/shiboriCanvasState';
+import { DrawingTool } from '../types';
+import { MAX_SHARE_HISTORY_ITEMS, extractSerializableState } from '../utils/urlStateUtils';
+
+function createMemoryStore(): DocumentStore {
+  const records = new Map<string, unknown>();
+  return {
+    getAll: async () => [...records.values()],
+    get: async (id) => records.get(id),
+    put: async (document: LibraryDocument) => {
+      records.set(document.id, JSON.parse(JSON.stringify(document)));
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+function harness(library: DocumentLibrary = createDocumentLibrary(createMemoryStore())) {
+  const store = createAppStore();
+  const wrapper = ({ children }: PropsWithChildren) => <Provider store={store}>{children}</Provider>;
+  const hook = renderHook(() => useDocumentLibrary(library), { wrapper });
+  return { store, library, hook };
+}
+
+function drawable(id: string, y = 10) {
+  return { id, action: DrawingTool.Paintbrush as const, points: [{ x: 10, y }, { x: 40, y: y + 20 }] };
+}
+
+function stroke(id: string, y = 10) {
+  return { type: ActionType.ADD_HISTORY_ITEM, payload: drawable(id, y) } as const;
+}
+
+describe('useDocumentLibrary', () => {
+  beforeEach(() => {
+    // Thumbnails need a 2D context, which jsdom does not have.
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('reopens the most recently saved document on start', async () => {
+    const library = createDocumentLibrary(createMemoryStore());
+    await library.save('older', extractSerializableState(initialState), null);
+    await library.save('latest', extractSerializableState({
+      ...initialState,
+      history: [drawable('history-item-1')],
+    }), null);
+
+    const { store, hook } = harness(library);
+
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    expect(hook.result.current.currentDocumentId).toBe('latest');
+    expect(hook.result.current.documents.map((document) => document.id)).toEqual(['latest', 'older']);
+    expect(store.getState().shibori.history).toHaveLength(1);
+  });
+
+  test('autosaves once edits pause', async () => {
+    jest.useFakeTimers();
+    const { store, library, hook } = harness();
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    const save = jest.spyOn(library, 'save');
+
+    act(() => {
+      store.dispatch(stroke('history-item-1'));
+    });
+    act(() => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS - 1);
+      store.dispatch(stroke('history-item-2', 50));
+    });
+    expect(hook.result.current.status).toBe('unsaved');
+    act(() => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS - 1);
+    });
+    expect(save).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(1);
+    });
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save.mock.calls[0][1].history).toHaveLength(2);
+  });
+
+  test('saves pending edits when the page is hidden', async () => {
+    const { store, library, hook } = harness();
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    const save = jest.spyOn(library, 'save');
+
+    act(() => {
+      store.dispatch(stroke('history-item-1'));
+    });
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    expect(save).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    expect((await library.open(hook.result.current.currentDocumentId!))?.state.history).toHaveLength(1);
+  });
+
+  test('keeps autosaving designs larger than a share link allows', async () => {
+    const { store, library, hook } = harness();
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+
+    act(() => {
+      store.dispatch({
+        type: ActionType.LOAD_DOCUMENT,
+        payload: extractSerializableState({
+          ...initialState,
+          history: Array.from(
+            { length: MAX_SHARE_HISTORY_ITEMS + 1 },
+            (_, index) => drawable(`history-item-${index + 1}`, index % 100)
+          ),
+        }),
+      });
+    });
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    expect((await library.open(hook.result.current.currentDocumentId!))?.state.history)
+      .toHaveLength(MAX_SHARE_HISTORY_ITEMS + 1);
+  });
+
+  test('reports why a save failed', async () => {
+    const { store, library, hook } = harness();
+    await waitFor(() => expect(hook.result.current.status).toBe('saved'));
+    jest.spyOn(library, 'save').mockRejectedValue(new DOMException('Quota exceeded', 'QuotaExceededError'));
+
+    act(() => {
+      store.dispatch(stroke('history-item-1'));
+    });
+    await act(async () => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    await waitFor(() => expect(hook.result.current.status).toBe('error'));
+    expect(hook.result.current.error).toBe('Browser storage is full; delete designs to keep saving');
+  });
+});
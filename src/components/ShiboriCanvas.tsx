@@ -1,26 +1,36 @@
 import { useCallback, useEffect, useState } from 'react';
 import { FoldControls } from './shibori/FoldControls';
 import { DimensionControls } from './shibori/DimensionControls';
+import { BackgroundControls } from './shibori/BackgroundControls';
 import { CanvasDisplay } from './shibori/CanvasDisplay';
 import { ToolControls } from './shibori/ToolControls';
 import { ShareControls } from './shibori/ShareControls';
+import { LibraryControls } from './shibori/LibraryControls';
+import { HistoryTimeline } from './shibori/HistoryTimeline';
+import { LayersPanel } from './shibori/LayersPanel';
 import { ToolSelector } from './shibori/ToolSelector';
 import { WorkspaceIcon } from './shibori/WorkspaceIcon';
 import { useAppSelector } from '../hooks/useReduxHooks';
+import { useDocumentLibrary } from '../hooks/useDocumentLibrary';
 import './ShiboriCanvas.css';
 
 type CanvasView = 'folded' | 'unfolded';
-type InspectorSection = 'folds' | 'canvas' | 'share';
+type InspectorSection = 'folds' | 'layers' | 'canvas' | 'cloth' | 'history' | 'library' | 'share';
 
 const ShiboriCanvas = () => {
     const currentTool = useAppSelector((state) => state.shibori.currentTool);
+    const library = useDocumentLibrary();
     const [isInspectorOpen, setIsInspectorOpen] = useState(() => (
         typeof window === 'undefined' || !window.matchMedia?.('(max-width: 900px)').matches
     ));
     const [activeCanvas, setActiveCanvas] = useState<CanvasView>('folded');
     const [expandedSections, setExpandedSections] = useState<Record<InspectorSection, boolean>>({
         folds: true,
+        layers: false,
         canvas: false,
+        cloth: false,
+        history: false,
+        library: false,
         share: false,
     });
 
@@ -104,6 +114,13 @@ const ShiboriCanvas = () => {
                 >
                     <FoldControls />
                 </InspectorPanel>
+                <InspectorPanel
+                    title="Layers"
+                    expanded={expandedSections.layers}
+                    onToggle={() => toggleSection('layers')}
+                >
+                    <LayersPanel />
+                </InspectorPanel>
                 <InspectorPanel
                     title="Canvas size"
                     expanded={expandedSections.canvas}
@@ -111,6 +128,27 @@ const ShiboriCanvas = () => {
                 >
                     <DimensionControls />
                 </InspectorPanel>
+                <InspectorPanel
+                    title="Cloth"
+                    expanded={expandedSections.cloth}
+                    onToggle={() => toggleSection('cloth')}
+                >
+                    <BackgroundControls />
+                </InspectorPanel>
+                <InspectorPanel
+                    title="History"
+                    expanded={expandedSections.history}
+                    onToggle={() => toggleSection('history')}
+                >
+                    <HistoryTimeline />
+                </InspectorPanel>
+                <InspectorPanel
+                    title="Library"
+                    expanded={expandedSections.library}
+                    onToggle={() => toggleSection('library')}
+                >
+                    <LibraryControls library={library} />
+                </InspectorPanel>
                 <InspectorPanel
                     title="Share"
                     expanded={expandedSections.share}
@@ -0,0 +1,70 @@
+import React, { useCallback } from 'react';
+import { ActionType } from '../../store/shiboriCanvasState';
+import { useAppSelector, useAppDispatch } from '../../hooks/useReduxHooks';
+import {
+    BACKGROUND_PRESETS,
+    DEFAULT_BACKGROUND_COLOR,
+    TRANSPARENT_BACKGROUND
+} from '../../utils/drawingColor';
+
+export const BackgroundControls: React.FC = () => {
+    const dispatch = useAppDispatch();
+    const backgroundColor = useAppSelector((state) => state.shibori.backgroundColor);
+    const dyedPreview = useAppSelector((state) => state.shibori.dyedPreview);
+    const isTransparent = backgroundColor === TRANSPARENT_BACKGROUND;
+
+    const handleBackgroundChange = useCallback((color: string) => {
+        dispatch({ type: ActionType.SET_BACKGROUND_COLOR, payload: color });
+    }, [dispatch]);
+
+    return (
+        <div className="background-controls">
+            <div className="color-picker-row">
+                <input
+                    type="color"
+                    id="backgroundColorInput"
+                    aria-label="Cloth color"
+                    value={isTransparent ? DEFAULT_BACKGROUND_COLOR : backgroundColor}
+                    disabled={isTransparent}
+                    onChange={(e) => handleBackgroundChange(e.target.value)}
+                />
+                <span className="color-value">{backgroundColor}</span>
+            </div>
+            <div className="color-swatches" role="group" aria-label="Cloth presets">
+                {BACKGROUND_PRESETS.map(({ label, color }) => (
+                    <button
+                        type="button"
+                        key={color}
+                        className="color-swatch"
+                        style={{ backgroundColor: color }}
+                        aria-label={`Use ${label} cloth`}
+                        aria-pressed={color === backgroundColor}
+                        title={label}
+                        onClick={() => handleBackgroundChange(color)}
+                    />
+                ))}
+            </div>
+            <label className="background-transparent-toggle">
+                <input
+                    type="checkbox"
+                    checked={isTransparent}
+                    onChange={(e) => handleBackgroundChange(
+                        e.target.checked ? TRANSPARENT_BACKGROUND : DEFAULT_BACKGROUND_COLOR
+                    )}
+                />
+                Transparent background
+            </label>
+            <label className="background-dyed-preview-toggle">
+                <input
+                    type="checkbox"
+                    checked={dyedPreview}
+                    onChange={(e) => dispatch({ type: ActionType.SET_DYED_PREVIEW, payload: e.target.checked })}
+                />
+                Dyed preview
+            </label>
+            {dyedPreview && (
+                <p className="background-controls-hint">Shows dye bleeding past the resist. Downloads and exports stay crisp.</p>
+            )}
+        </div>
+    );
+};
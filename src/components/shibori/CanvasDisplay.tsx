@@ -4,9 +4,16 @@ import { useAppDispatch, useAppSelector } from '../../hooks/useReduxHooks';
 import { ActionType } from '../../store/shiboriCanvasState';
 import { HistoryAction } from '../../types';
 import { CanvasRenderer } from './CanvasRenderer';
+import { PrintExportDialog } from './PrintExportDialog';
+import { TiledPreview } from './TiledPreview';
+import { UnfoldAnimation } from './UnfoldAnimation';
 import { logger } from '../../utils/logger';
+import { CanvasService } from '../../services/CanvasService';
+import { renderUnfoldedSvg } from '../../rendering/svgExport';
 
 type CanvasView = 'folded' | 'unfolded';
+/** What stands in for the unfolded canvas, if anything. */
+type UnfoldedPreview = 'tiled' | 'animation' | null;
 
 interface CanvasDisplayProps {
     activeCanvas?: CanvasView;
@@ -31,6 +38,8 @@ export const CanvasDisplay: React.FC<CanvasDisplayProps> = ({
     const state = useAppSelector((state) => state.shibori);
     const dispatch = useAppDispatch();
     const [showFoldGuides, setShowFoldGuides] = useState(true);
+    const [isPrintExportOpen, setIsPrintExportOpen] = useState(false);
+    const [unfoldedPreview, setUnfoldedPreview] = useState<UnfoldedPreview>(null);
     const {
         unfoldedCanvasRef,
         foldedCanvasRef,
@@ -40,8 +49,15 @@ export const CanvasDisplay: React.FC<CanvasDisplayProps> = ({
         handlePointerCancel,
         handleLostPointerCapture,
         handleKeyDown,
+        handleCopy,
+        handlePaste,
         downloadUnfoldedCanvas,
         deleteSelection,
+        flipSelection,
+        duplicateSelection,
+        arrangeSelection,
+        groupSelection,
+        ungroupSelection,
         cancelDrawing,
         drawingGuidance,
         finishDrawing,
@@ -66,17 +82,36 @@ export const CanvasDisplay: React.FC<CanvasDisplayProps> = ({
         if (state.history.length > 0) dispatch({ type: ActionType.UNDO });
     };
 
+    const handleRedo = () => {
+        cancelDrawing();
+        if (state.redoStack.length > 0) dispatch({ type: ActionType.REDO });
+    };
+
+    const toggleUnfoldedPreview = (preview: Exclude<UnfoldedPreview, null>) => {
+        setUnfoldedPreview((current) => (current === preview ? null : preview));
+    };
+
+    const handleDownloadSvg = () => {
+        CanvasService.downloadSvg(renderUnfoldedSvg(state));
+    };
+
     return (
         <>
             <CanvasRenderer
                 foldedCanvasRef={foldedCanvasRef}
                 unfoldedCanvasRef={unfoldedCanvasRef}
                 canvasDimensions={state.canvasDimensions}
+                backgroundColor={state.backgroundColor}
                 folds={state.folds}
                 history={state.history}
+                historyPreviewLength={state.historyPreviewLength}
+                onExitHistoryPreview={() => dispatch({ type: ActionType.SET_HISTORY_PREVIEW, payload: null })}
                 selectedHistoryItemId={state.selectedHistoryItemId}
+                selectedHistoryItemIds={state.selectedHistoryItemIds}
+                selectionMarquee={state.selectionMarquee}
                 selectionDragDelta={state.selectionDragDelta}
                 selectionRotationPreview={state.selectionRotationPreview}
+                selectionScalePreview={state.selectionScalePreview}
                 lineThickness={state.lineThickness}
                 currentTool={state.currentTool}
                 selectedPathAnchorIds={state.selectedPathAnchorIds ?? []}
@@ -92,18 +127,35 @@ export const CanvasDisplay: React.FC<CanvasDisplayProps> = ({
                 onPointerCancel={handlePointerCancel}
                 onLostPointerCapture={handleLostPointerCapture}
                 onKeyDown={handleKeyDown}
+                onCopy={handleCopy}
+                onPaste={handlePaste}
                 onClear={handleClearCanvas}
                 onDeleteSelection={deleteSelection}
+                onFlipSelection={flipSelection}
+                onDuplicateSelection={duplicateSelection}
+                onArrangeSelection={arrangeSelection}
+                onGroupSelection={groupSelection}
+                onUngroupSelection={ungroupSelection}
+                canUndo={state.history.length > 0}
+                canRedo={state.redoStack.length > 0}
                 onUndo={handleUndo}
+                onRedo={handleRedo}
                 onDownload={downloadUnfoldedCanvas}
+                onDownloadSvg={handleDownloadSvg}
+                onOpenPrintExport={() => setIsPrintExportOpen(true)}
                 showFoldGuides={showFoldGuides}
                 onToggleFoldGuides={() => setShowFoldGuides((visible) => !visible)}
+                tiledPreview={unfoldedPreview === 'tiled' ? <TiledPreview /> : null}
+                onToggleTiledPreview={() => toggleUnfoldedPreview('tiled')}
+                unfoldAnimation={unfoldedPreview === 'animation' ? <UnfoldAnimation foldedCanvasRef={foldedCanvasRef} /> : null}
+                onToggleUnfoldAnimation={() => toggleUnfoldedPreview('animation')}
                 activeCanvas={activeCanvas}
                 isInspectorOpen={isInspectorOpen}
                 onActiveCanvasChange={onActiveCanvasChange}
                 onOpenShare={onOpenShare}
                 onToggleInspector={onToggleInspector}
             />
+            {isPrintExportOpen && <PrintExportDialog onClose={() => setIsPrintExportOpen(false)} />}
         </>
     );
 }; 
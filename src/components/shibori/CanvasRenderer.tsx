@@ -2,15 +2,30 @@ import React from 'react';
 import { logger } from '../../utils/logger';
 import { DiagonalDirection, DrawingTool, FoldState } from '../../types';
 import { DrawingModeFactory } from '../../drawingModes/DrawingModeFactory';
-import { BezierPath, Bounds, DrawingGuidance, Point, UndoableHistoryItem } from '../../types/DrawingMode';
+import { SCALE_HANDLE_OFFSET } from '../../hooks/useCanvasDrawing';
+import { ArrangeDirection, BezierPath, Bounds, DrawingGuidance, Point, SelectionScale, UndoableHistoryItem } from '../../types/DrawingMode';
 import {
     DrawableHistoryItem,
     buildDrawableHistory,
     getRotatedHistoryItemPreview,
+    getScaledHistoryItemPreview,
     getTranslatedHistoryItemPreview
 } from '../../utils/historyOperations';
-import { expandBounds, getBoundsCenter, getRectBounds, getSquareEndPoint } from '../../utils/geometryMath';
+import {
+    expandBounds,
+    getBoundsCenter,
+    getRectBounds,
+    getSquareEndPoint,
+    getUnionBounds
+} from '../../utils/geometryMath';
 import { getFoldedCanvasDimensions } from '../../utils/foldedCanvasDimensions';
+import { TRANSPARENT_BACKGROUND } from '../../utils/drawingColor';
+import {
+    getFoldedWedgePolygon,
+    getKaleidoscopeSystem,
+    getPolygonPathData,
+    hasSquareFoldGrid
+} from '../../utils/foldSystems';
 import { FoldGuideOverlay } from './FoldGuideOverlay';
 import { BezierGuideOverlay } from './BezierGuideOverlay';
 import { PathEditOverlay } from './PathEditOverlay';
@@ -20,11 +35,18 @@ interface CanvasRendererProps {
     foldedCanvasRef: React.RefObject<HTMLCanvasElement | null>;
     unfoldedCanvasRef: React.RefObject<HTMLCanvasElement | null>;
     canvasDimensions: { width: number; height: number };
+    backgroundColor?: string;
     folds: FoldState;
     history: UndoableHistoryItem[];
+    /** Commands shown while the history timeline is scrubbed, or null. */
+    historyPreviewLength: number | null;
+    onExitHistoryPreview: () => void;
     selectedHistoryItemId: string | null;
+    selectedHistoryItemIds: string[];
+    selectionMarquee: Bounds | null;
     selectionDragDelta: Point | null;
     selectionRotationPreview: { angle: number; center: Point } | null;
+    selectionScalePreview: SelectionScale | null;
     lineThickness: number;
     currentTool: DrawingTool;
     selectedPathAnchorIds: string[];
@@ -37,12 +59,29 @@ interface CanvasRendererProps {
     onPointerCancel: (e: React.PointerEvent<HTMLCanvasElement>) => void;
     onLostPointerCapture: (e: React.PointerEvent<HTMLCanvasElement>) => void;
     onKeyDown: (e: React.KeyboardEvent<HTMLCanvasElement>) => void;
+    onCopy: (e: React.ClipboardEvent<HTMLCanvasElement>) => void;
+    onPaste: (e: React.ClipboardEvent<HTMLCanvasElement>) => void;
     onClear: () => void;
     onDeleteSelection: () => void;
+    onFlipSelection: (axis: 'horizontal' | 'vertical') => void;
+    onDuplicateSelection: () => void;
+    onArrangeSelection: (direction: ArrangeDirection) => void;
+    onGroupSelection: () => void;
+    onUngroupSelection: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
     onUndo: () => void;
+    onRedo: () => void;
     onDownload: () => void;
+    onDownloadSvg: () => void;
+    onOpenPrintExport: () => void;
     showFoldGuides: boolean;
     onToggleFoldGuides: () => void;
+    /** Replaces the unfolded view while the tiled repeat preview is shown. */
+    tiledPreview?: React.ReactNode;
+    onToggleTiledPreview: () => void;
+    unfoldAnimation?: React.ReactNode;
+    onToggleUnfoldAnimation: () => void;
     onFinishDrawing: () => void;
     onCancelDrawing: () => void;
     onConvertPathSelection: () => void;
@@ -57,11 +96,17 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     foldedCanvasRef,
     unfoldedCanvasRef,
     canvasDimensions,
+    backgroundColor,
     folds,
     history,
+    historyPreviewLength,
+    onExitHistoryPreview,
     selectedHistoryItemId,
+    selectedHistoryItemIds,
+    selectionMarquee,
     selectionDragDelta,
     selectionRotationPreview,
+    selectionScalePreview,
     lineThickness,
     currentTool,
     selectedPathAnchorIds,
@@ -74,12 +119,28 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     onPointerCancel,
     onLostPointerCapture,
     onKeyDown,
+    onCopy,
+    onPaste,
     onClear,
     onDeleteSelection,
+    onFlipSelection,
+    onDuplicateSelection,
+    onArrangeSelection,
+    onGroupSelection,
+    onUngroupSelection,
+    canUndo,
+    canRedo,
     onUndo,
+    onRedo,
     onDownload,
+    onDownloadSvg,
+    onOpenPrintExport,
     showFoldGuides,
     onToggleFoldGuides,
+    tiledPreview,
+    onToggleTiledPreview,
+    unfoldAnimation,
+    onToggleUnfoldAnimation,
     onFinishDrawing,
     onCancelDrawing,
     onConvertPathSelection,
@@ -95,13 +156,33 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     });
 
     const foldedCanvasDimensions = getFoldedCanvasDimensions(canvasDimensions, folds);
-    const showDiagonalMask = folds.diagonal.enabled && folds.diagonal.count === 1 && folds.vertical === folds.horizontal;
-    const invalidMaskClass = folds.diagonal.direction === DiagonalDirection.TopRightToBottomLeft
-        ? 'invalid-region-top-left'
-        : 'invalid-region-bottom-left';
+    const kaleidoscope = getKaleidoscopeSystem(folds);
+    const showDiagonalMask = !kaleidoscope && folds.diagonal.enabled && folds.diagonal.count >= 1 && hasSquareFoldGrid(folds);
+    const invalidMaskClass = folds.diagonal.count >= 2
+        ? 'invalid-region-outside-right-quarter'
+        : folds.diagonal.direction === DiagonalDirection.TopRightToBottomLeft
+            ? 'invalid-region-top-left'
+            : 'invalid-region-bottom-left';
+    const drawables = selectedHistoryItemIds.length > 0 ? buildDrawableHistory(history) : [];
     const selectedDrawable = selectedHistoryItemId
-        ? buildDrawableHistory(history).find((item) => item.id === selectedHistoryItemId)
+        ? drawables.find((item) => item.id === selectedHistoryItemId)
         : null;
+    // A multi-selection shows one frame around every member, previewed together.
+    const groupPreviewDrawables = selectedHistoryItemIds.length > 1
+        ? drawables
+            .filter((item) => selectedHistoryItemIds.includes(item.id))
+            .map((item) => selectionRotationPreview
+                ? getRotatedHistoryItemPreview(item, selectionRotationPreview.angle, selectionRotationPreview.center)
+                : selectionScalePreview
+                    ? getScaledHistoryItemPreview(item, selectionScalePreview)
+                    : selectionDragDelta
+                        ? getTranslatedHistoryItemPreview(item, selectionDragDelta)
+                        : item)
+        : [];
+    const groupItemBounds = groupPreviewDrawables
+        .map((item) => DrawingModeFactory.getGeometry(item.action).getBounds(item, { lineThickness }))
+        .filter((bounds): bounds is Bounds => bounds !== null);
+    const groupBounds = getUnionBounds(groupItemBounds);
     const selectedPreviewDrawable = selectedDrawable && pathEditPreview?.itemId === selectedDrawable.id && selectedDrawable.action === DrawingTool.Bezier
         ? { ...selectedDrawable, points: [], path: pathEditPreview.path }
         : selectedDrawable && selectionRotationPreview
@@ -110,25 +191,31 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
             selectionRotationPreview.angle,
             selectionRotationPreview.center
         )
+        : selectedDrawable && selectionScalePreview
+        ? getScaledHistoryItemPreview(selectedDrawable, selectionScalePreview)
         : selectedDrawable && selectionDragDelta
             ? getTranslatedHistoryItemPreview(selectedDrawable, selectionDragDelta)
             : selectedDrawable;
+    const isGroupedSelection = drawables.some((item) =>
+        item.groupId !== undefined && selectedHistoryItemIds.includes(item.id));
     const selectedGeometry = selectedDrawable
         ? DrawingModeFactory.getGeometry(selectedDrawable.action)
         : null;
-    const selectionFrame = selectedGeometry && selectedPreviewDrawable
-        ? getSelectionFrame(selectedPreviewDrawable, lineThickness)
-        : null;
+    const selectionFrame = groupBounds
+        ? { bounds: groupBounds, rotation: 0, origin: { x: 50, y: 50 } }
+        : selectedGeometry && selectedPreviewDrawable
+            ? getSelectionFrame(selectedPreviewDrawable, lineThickness)
+            : null;
     const selectionOverlayStyle = currentTool !== DrawingTool.DirectSelect && selectionFrame
         ? {
-            left: `${(selectionFrame.bounds.minX / foldedCanvasDimensions.width) * 100}%`,
-            top: `${(selectionFrame.bounds.minY / foldedCanvasDimensions.height) * 100}%`,
-            width: `${((selectionFrame.bounds.maxX - selectionFrame.bounds.minX) / foldedCanvasDimensions.width) * 100}%`,
-            height: `${((selectionFrame.bounds.maxY - selectionFrame.bounds.minY) / foldedCanvasDimensions.height) * 100}%`,
+            ...getBoundsOverlayStyle(selectionFrame.bounds, foldedCanvasDimensions),
             transform: selectionFrame.rotation ? `rotate(${selectionFrame.rotation}rad)` : undefined,
             transformOrigin: `${selectionFrame.origin.x}% ${selectionFrame.origin.y}%`,
         }
         : undefined;
+    const deleteSelectionLabel = groupBounds
+        ? `Delete ${groupPreviewDrawables.length} selected drawings`
+        : 'Delete selected drawing';
     const foldedGuideStyle = getCanvasOverlayStyle(canvasDimensions, foldedCanvasDimensions);
     const canvasFrameStyle = {
         aspectRatio: `${canvasDimensions.width} / ${canvasDimensions.height}`,
@@ -138,7 +225,8 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
     return (
         <>
             <div className="workspace-toolbar" role="toolbar" aria-label="Canvas actions">
-                <ToolbarButton label="Undo" icon="undo" onClick={onUndo} />
+                <ToolbarButton label="Undo" icon="undo" onClick={onUndo} disabled={!canUndo} />
+                <ToolbarButton label="Redo" icon="redo" onClick={onRedo} disabled={!canRedo} />
                 <ToolbarButton label="Clear" title="Clear canvas" icon="clear" onClick={onClear} />
                 <ToolbarButton
                     label={showFoldGuides ? 'Hide fold guides' : 'Show fold guides'}
@@ -146,7 +234,21 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                     onClick={onToggleFoldGuides}
                     pressed={showFoldGuides}
                 />
+                <ToolbarButton
+                    label={tiledPreview ? 'Hide tiled preview' : 'Show tiled preview'}
+                    icon="tiles"
+                    onClick={onToggleTiledPreview}
+                    pressed={Boolean(tiledPreview)}
+                />
+                <ToolbarButton
+                    label={unfoldAnimation ? 'Hide unfold animation' : 'Show unfold animation'}
+                    icon="unfold"
+                    onClick={onToggleUnfoldAnimation}
+                    pressed={Boolean(unfoldAnimation)}
+                />
                 <ToolbarButton label="Download" title="Download as PNG image" icon="download" onClick={onDownload} />
+                <ToolbarButton label="Download SVG" title="Download as SVG vector" icon="downloadVector" onClick={onDownloadSvg} />
+                <ToolbarButton label="Print export" title="Export a print-size PNG" icon="print" onClick={onOpenPrintExport} />
                 <ToolbarButton label="Share pattern" icon="share" onClick={onOpenShare} />
                 <ToolbarButton
                     label={isInspectorOpen ? 'Hide properties' : 'Show properties'}
@@ -175,7 +277,7 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                 </button>
             </div>
 
-            <div className="canvas-container">
+            <div className={`canvas-container${backgroundColor === TRANSPARENT_BACKGROUND ? ' has-transparent-cloth' : ''}`}>
             <section className={`canvas-wrapper canvas-panel-folded${activeCanvas === 'folded' ? ' is-mobile-active' : ''}`}>
                 <h3>Folded Version</h3>
                 <div
@@ -192,6 +294,8 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                         onPointerCancel={onPointerCancel}
                         onLostPointerCapture={onLostPointerCapture}
                         onKeyDown={onKeyDown}
+                        onCopy={onCopy}
+                        onPaste={onPaste}
                         tabIndex={0}
                         aria-label="Folded drawing canvas"
                         className={selectedHistoryItemId ? 'folded-canvas folded-canvas-selecting' : 'folded-canvas'}
@@ -202,6 +306,23 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                             aria-hidden="true"
                         />
                     )}
+                    {kaleidoscope && (
+                        <svg
+                            className="kaleidoscope-invalid-region"
+                            style={foldedGuideStyle}
+                            viewBox={`0 0 ${foldedCanvasDimensions.width} ${foldedCanvasDimensions.height}`}
+                            preserveAspectRatio="none"
+                            aria-hidden="true"
+                            focusable="false"
+                        >
+                            <path
+                                fillRule="evenodd"
+                                d={`M0 0 H${foldedCanvasDimensions.width} V${foldedCanvasDimensions.height} H0 Z ${
+                                    getPolygonPathData(getFoldedWedgePolygon(kaleidoscope, foldedCanvasDimensions))
+                                }`}
+                            />
+                        </svg>
+                    )}
                     {showFoldGuides && (
                         <FoldGuideOverlay
                             canvasDimensions={foldedCanvasDimensions}
@@ -226,6 +347,14 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                                 style={foldedGuideStyle}
                             />
                         )}
+                    {selectionOverlayStyle && groupItemBounds.map((bounds, index) => (
+                        <div
+                            key={index}
+                            className="selection-item-outline"
+                            style={getBoundsOverlayStyle(bounds, foldedCanvasDimensions)}
+                            aria-hidden="true"
+                        />
+                    ))}
                     {selectionOverlayStyle && (
                         <div
                             className="selection-overlay"
@@ -235,6 +364,14 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                             <span className="selection-rotate-handle selection-rotate-handle-ne" aria-hidden="true" />
                             <span className="selection-rotate-handle selection-rotate-handle-se" aria-hidden="true" />
                             <span className="selection-rotate-handle selection-rotate-handle-sw" aria-hidden="true" />
+                            {selectionFrame && getScaleHandleStyles(selectionFrame.bounds).map(([side, style]) => (
+                                <span
+                                    key={side}
+                                    className={`selection-scale-handle selection-scale-handle-${side}`}
+                                    style={style}
+                                    aria-hidden="true"
+                                />
+                            ))}
                             <button
                                 type="button"
                                 className="selection-delete-button"
@@ -243,19 +380,49 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                                     event.stopPropagation();
                                     onDeleteSelection();
                                 }}
-                                aria-label="Delete selected drawing"
-                                title="Delete selected drawing"
+                                aria-label={deleteSelectionLabel}
+                                title={deleteSelectionLabel}
                             >
                                 X
                             </button>
                         </div>
                     )}
+                    {selectionMarquee && (
+                        <div
+                            className="selection-marquee"
+                            style={getBoundsOverlayStyle(selectionMarquee, foldedCanvasDimensions)}
+                            aria-hidden="true"
+                        />
+                    )}
+                    {historyPreviewLength !== null && (
+                        <div className="history-preview-banner" role="status">
+                            <span>Previewing step {historyPreviewLength} of {history.length}</span>
+                            <button className="path-action-button path-action-secondary" type="button" onClick={onExitHistoryPreview}>
+                                Back to latest
+                            </button>
+                        </div>
+                    )}
                     {hasPendingDrawing && (
                         <div className="path-construction-actions">
                             <button className="path-action-button path-action-primary" type="button" onClick={onFinishDrawing}>Finish Path</button>
                             <button className="path-action-button path-action-secondary" type="button" onClick={onCancelDrawing}>Cancel Path</button>
                         </div>
                     )}
+                    {selectionOverlayStyle && (
+                        <div className="selection-actions">
+                            <button className="path-action-button path-action-secondary" type="button" onClick={() => onFlipSelection('horizontal')}>Flip Horizontal</button>
+                            <button className="path-action-button path-action-secondary" type="button" onClick={() => onFlipSelection('vertical')}>Flip Vertical</button>
+                            <button className="path-action-button path-action-secondary" type="button" onClick={onDuplicateSelection}>Duplicate</button>
+                            <button className="path-action-button path-action-secondary" type="button" onClick={() => onArrangeSelection('forward')}>Bring Forward</button>
+                            <button className="path-action-button path-action-secondary" type="button" onClick={() => onArrangeSelection('backward')}>Send Backward</button>
+                            {selectedHistoryItemIds.length > 1 && (
+                                <button className="path-action-button path-action-secondary" type="button" onClick={onGroupSelection}>Group</button>
+                            )}
+                            {isGroupedSelection && (
+                                <button className="path-action-button path-action-secondary" type="button" onClick={onUngroupSelection}>Ungroup</button>
+                            )}
+                        </div>
+                    )}
                     {currentTool === DrawingTool.DirectSelect && selectedPathAnchorIds.length > 0 && (
                         <div className="path-edit-actions">
                             <button className="path-action-button path-action-primary" type="button" onClick={onConvertPathSelection}>Convert Point</button>
@@ -265,9 +432,11 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
                 </div>
             </section>
             <section className={`canvas-wrapper canvas-panel-unfolded${activeCanvas === 'unfolded' ? ' is-mobile-active' : ''}`}>
-                <h3>Unfolded Version</h3>
+                <h3>{tiledPreview ? 'Tiled Preview' : unfoldAnimation ? 'Unfold Animation' : 'Unfolded Version'}</h3>
+                {tiledPreview}
+                {unfoldAnimation}
                 <div
-                    className="unfolded-canvas-frame"
+                    className={`unfolded-canvas-frame${tiledPreview || unfoldAnimation ? ' is-hidden' : ''}`}
                     style={canvasFrameStyle}
                 >
                     <canvas
@@ -292,16 +461,18 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({
 interface ToolbarButtonProps {
     label: string;
     title?: string;
-    icon: 'undo' | 'clear' | 'guides' | 'download' | 'share' | 'settings';
+    icon: 'undo' | 'redo' | 'clear' | 'guides' | 'download' | 'downloadVector' | 'print' | 'tiles' | 'unfold' | 'share' | 'settings';
     onClick: () => void;
     pressed?: boolean;
+    disabled?: boolean;
 }
 
-const ToolbarButton: React.FC<ToolbarButtonProps> = ({ label, title, icon, onClick, pressed }) => (
+const ToolbarButton: React.FC<ToolbarButtonProps> = ({ label, title, icon, onClick, pressed, disabled }) => (
     <button
         type="button"
         className="icon-button workspace-action"
         onClick={onClick}
+        disabled={disabled}
         aria-label={label}
         aria-pressed={pressed}
         title={title ?? label}
@@ -327,6 +498,31 @@ function getCanvasOverlayStyle(
     return { width: `${width}%`, height: '100%', left: `${(100 - width) / 2}%`, top: 0 };
 }
 
+/** Position an overlay over folded-canvas bounds, in percentages of the frame. */
+function getBoundsOverlayStyle(
+    bounds: Bounds,
+    canvasDimensions: { width: number; height: number }
+): React.CSSProperties {
+    return {
+        left: `${(bounds.minX / canvasDimensions.width) * 100}%`,
+        top: `${(bounds.minY / canvasDimensions.height) * 100}%`,
+        width: `${((bounds.maxX - bounds.minX) / canvasDimensions.width) * 100}%`,
+        height: `${((bounds.maxY - bounds.minY) / canvasDimensions.height) * 100}%`,
+    };
+}
+
+/** Resize handles beyond the middle of each side, positioned within the frame. */
+function getScaleHandleStyles(bounds: Bounds): [string, React.CSSProperties][] {
+    const offsetX = (SCALE_HANDLE_OFFSET / Math.max(bounds.maxX - bounds.minX, 1)) * 100;
+    const offsetY = (SCALE_HANDLE_OFFSET / Math.max(bounds.maxY - bounds.minY, 1)) * 100;
+    return [
+        ['n', { left: '50%', top: `${-offsetY}%` }],
+        ['e', { left: `${100 + offsetX}%`, top: '50%' }],
+        ['s', { left: '50%', top: `${100 + offsetY}%` }],
+        ['w', { left: `${-offsetX}%`, top: '50%' }],
+    ];
+}
+
 function getSelectionFrame(
     item: DrawableHistoryItem,
     lineThickness: number
@@ -381,5 +577,12 @@ function getUnrotatedShapeBounds(
             .getBounds(item, { lineThickness });
     }
 
+    // The ellipse's own axes, before its rotation is applied
+    if (item.action === DrawingTool.Ellipse) {
+        return DrawingModeFactory
+            .getGeometry(item.action)
+            .getBounds({ ...item, rotation: undefined }, { lineThickness });
+    }
+
     return null;
 }
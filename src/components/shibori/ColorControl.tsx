@@ -0,0 +1,87 @@
+import React, { useCallback } from 'react';
+import { ActionType } from '../../store/shiboriCanvasState';
+import { useAppDispatch } from '../../hooks/useReduxHooks';
+
+interface ColorControlProps {
+    color: string;
+    recentColors: string[];
+    palette: string[];
+}
+
+export const ColorControl: React.FC<ColorControlProps> = ({ color, recentColors, palette }) => {
+    const dispatch = useAppDispatch();
+    const isSaved = palette.includes(color);
+
+    const handleColorChange = useCallback((nextColor: string) => {
+        dispatch({ type: ActionType.SET_DRAWING_COLOR, payload: nextColor });
+    }, [dispatch]);
+
+    const handlePaletteToggle = useCallback(() => {
+        dispatch({
+            type: isSaved ? ActionType.REMOVE_PALETTE_COLOR : ActionType.ADD_PALETTE_COLOR,
+            payload: color
+        });
+    }, [color, dispatch, isSaved]);
+
+    return (
+        <div className="tool-controls-group color-control">
+            <h3>
+                <label htmlFor="drawingColorInput">Color:</label>
+            </h3>
+            <div className="color-picker-row">
+                <input
+                    type="color"
+                    id="drawingColorInput"
+                    value={color}
+                    onChange={(e) => handleColorChange(e.target.value)}
+                />
+                <span className="color-value">{color}</span>
+                <button
+                    type="button"
+                    className="color-palette-toggle"
+                    onClick={handlePaletteToggle}
+                >
+                    {isSaved ? 'Remove from palette' : 'Save to palette'}
+                </button>
+            </div>
+            {recentColors.length > 0 && (
+                <ColorSwatches
+                    label="Recent colors"
+                    colors={recentColors}
+                    selectedColor={color}
+                    onSelect={handleColorChange}
+                />
+            )}
+            <ColorSwatches
+                label="Palette"
+                colors={palette}
+                selectedColor={color}
+                onSelect={handleColorChange}
+            />
+        </div>
+    );
+};
+
+interface ColorSwatchesProps {
+    label: string;
+    colors: string[];
+    selectedColor: string;
+    onSelect: (color: string) => void;
+}
+
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ label, colors, selectedColor, onSelect }) => (
+    <div className="color-swatches" role="group" aria-label={label}>
+        {colors.map((swatch) => (
+            <button
+                type="button"
+                key={swatch}
+                className="color-swatch"
+                style={{ backgroundColor: swatch }}
+                aria-label={`Use color ${swatch}`}
+                aria-pressed={swatch === selectedColor}
+                title={swatch}
+                onClick={() => onSelect(swatch)}
+            />
+        ))}
+    </div>
+);
@@ -1,6 +1,14 @@
 import React, { useCallback } from 'react';
-import { ActionType } from '../../store/shiboriCanvasState';
+import { ActionType, MAX_DIAGONAL_FOLDS } from '../../store/shiboriCanvasState';
 import { useAppSelector, useAppDispatch } from '../../hooks/useReduxHooks';
+import { DiagonalDirection, FoldSystem } from '../../types';
+import {
+    FOLD_SYSTEM_OPTIONS,
+    MAX_ACCORDION_PANELS,
+    MIN_ACCORDION_PANELS,
+    getFoldSystem,
+    hasSquareFoldGrid
+} from '../../utils/foldSystems';
 
 export const FoldControls: React.FC = () => {
     const dispatch = useAppDispatch();
@@ -36,6 +44,29 @@ export const FoldControls: React.FC = () => {
         }
     }, [dispatch, state.folds.vertical, state.folds.horizontal]);
 
+    const foldSystem = getFoldSystem(state.folds);
+    const accordion = state.folds.accordion;
+
+    const handleAccordionModeChange = useCallback((enabled: boolean) => {
+        dispatch({ type: ActionType.SET_ACCORDION_MODE, payload: enabled });
+    }, [dispatch]);
+
+    const handleAccordionPanelsChange = useCallback((axis: 'columns' | 'rows', value: number) => {
+        dispatch({ type: ActionType.UPDATE_ACCORDION_PANELS, payload: { axis, value } });
+    }, [dispatch]);
+
+    const handleDiagonalDirectionChange = useCallback((direction: DiagonalDirection) => {
+        dispatch({ type: ActionType.UPDATE_DIAGONAL_FOLD_DIRECTION, payload: direction });
+    }, [dispatch]);
+
+    const handleFoldDepthFadeChange = useCallback((enabled: boolean) => {
+        dispatch({ type: ActionType.SET_FOLD_DEPTH_FADE, payload: enabled });
+    }, [dispatch]);
+
+    const handleFoldSystemChange = useCallback((system: FoldSystem) => {
+        dispatch({ type: ActionType.SET_FOLD_SYSTEM, payload: system });
+    }, [dispatch]);
+
     // Handle reset button click
     const handleResetButtonClick = useCallback(() => {
         dispatch({ type: ActionType.RESET_FOLDS });
@@ -46,13 +77,13 @@ export const FoldControls: React.FC = () => {
     const handleDiagonalFoldIncrease = useCallback(() => {
         const currentCount = state.folds.diagonal.count;
 
-        if (currentCount < state.config.maxFolds) {
+        if (currentCount < MAX_DIAGONAL_FOLDS) {
             dispatch({
                 type: ActionType.UPDATE_DIAGONAL_FOLD_COUNT,
                 payload: currentCount + 1
             });
         }
-    }, [dispatch, state.folds.diagonal.count, state.config.maxFolds]);
+    }, [dispatch, state.folds.diagonal.count]);
 
     // Handle diagonal fold count decrease (unfold)
     const handleDiagonalFoldDecrease = useCallback(() => {
@@ -66,80 +97,159 @@ export const FoldControls: React.FC = () => {
     }, [dispatch, state.folds.diagonal.count]);
 
 
-    // Check if diagonal folds are allowed (square canvas)
+    // Check if diagonal folds are allowed (square crease grid)
     const isDiagonalFoldAllowed = useCallback(() => {
-        return state.folds.vertical === state.folds.horizontal;
-    }, [state.folds.vertical, state.folds.horizontal]);
+        return hasSquareFoldGrid(state.folds);
+    }, [state.folds]);
 
     return (
         <div className="fold-controls-layout">
             <div className="fold-controls-group">
                 <h3>Folds</h3>
                 <div className="fold-control-row">
-                    <span className="fold-row-label">Vertical Folds: {state.folds.vertical}</span>
-                    <div className="fold-buttons">
-                        <button
-                            className="fold-step-button"
-                            onClick={() => handleUnfoldButtonClick(true)}
-                            disabled={state.folds.vertical <= 0}
-                            title="Decrease vertical folds">
-                            <span aria-hidden="true">-</span>
-                            <span className="visually-hidden">Unfold -</span>
-                        </button>
-                        <button
-                            className="fold-step-button"
-                            onClick={() => handleFoldButtonClick(true)}
-                            disabled={state.folds.vertical >= state.config.maxFolds}
-                            title="Increase vertical folds">
-                            <span aria-hidden="true">+</span>
-                            <span className="visually-hidden">Fold +</span>
-                        </button>
-                    </div>
+                    <label className="fold-row-label" htmlFor="foldSystemSelect">Fold system</label>
+                    <select
+                        id="foldSystemSelect"
+                        className="fold-system-select"
+                        value={foldSystem}
+                        onChange={(e) => handleFoldSystemChange(e.target.value as FoldSystem)}
+                    >
+                        {FOLD_SYSTEM_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
                 </div>
 
-                <div className="fold-control-row">
-                    <span className="fold-row-label">Horizontal Folds: {state.folds.horizontal}</span>
-                    <div className="fold-buttons">
-                        <button
-                            className="fold-step-button"
-                            onClick={() => handleUnfoldButtonClick(false)}
-                            disabled={state.folds.horizontal <= 0}
-                            title="Decrease horizontal folds">
-                            <span aria-hidden="true">-</span>
-                            <span className="visually-hidden">Unfold -</span>
-                        </button>
-                        <button
-                            className="fold-step-button"
-                            onClick={() => handleFoldButtonClick(false)}
-                            disabled={state.folds.horizontal >= state.config.maxFolds}
-                            title="Increase horizontal folds">
-                            <span aria-hidden="true">+</span>
-                            <span className="visually-hidden">Fold +</span>
-                        </button>
-                    </div>
-                </div>
+                {foldSystem === FoldSystem.Rectangular ? (
+                    <>
+                        <div className="fold-control-row">
+                            <label className="fold-row-label accordion-toggle">
+                                <input
+                                    type="checkbox"
+                                    checked={Boolean(accordion)}
+                                    onChange={(e) => handleAccordionModeChange(e.target.checked)}
+                                />
+                                Accordion panels
+                            </label>
+                        </div>
 
-                <div className="fold-control-row">
-                    <span className="fold-row-label">Diagonal Folds: {state.folds.diagonal.count}</span>
-                    <div className="fold-buttons">
-                        <button
-                            className="fold-step-button"
-                            onClick={handleDiagonalFoldDecrease}
-                            disabled={state.folds.diagonal.count <= 0}
-                            title="Decrease diagonal folds">
-                            <span aria-hidden="true">-</span>
-                            <span className="visually-hidden">Unfold -</span>
-                        </button>
-                        <button
-                            className="fold-step-button"
-                            onClick={handleDiagonalFoldIncrease}
-                            disabled={state.folds.diagonal.count >= 1 || !isDiagonalFoldAllowed()}
-                            title="Increase diagonal folds">
-                            <span aria-hidden="true">+</span>
-                            <span className="visually-hidden">Fold +</span>
-                        </button>
-                    </div>
-                </div>
+                        {accordion ? (
+                            <>
+                                <AccordionPanelRow
+                                    label="Vertical Panels"
+                                    value={accordion.columns}
+                                    onChange={(value) => handleAccordionPanelsChange('columns', value)}
+                                />
+                                <AccordionPanelRow
+                                    label="Horizontal Panels"
+                                    value={accordion.rows}
+                                    onChange={(value) => handleAccordionPanelsChange('rows', value)}
+                                />
+                            </>
+                        ) : (
+                            <>
+                                <div className="fold-control-row">
+                                    <span className="fold-row-label">Vertical Folds: {state.folds.vertical}</span>
+                                    <div className="fold-buttons">
+                                        <button
+                                            className="fold-step-button"
+                                            onClick={() => handleUnfoldButtonClick(true)}
+                                            disabled={state.folds.vertical <= 0}
+                                            title="Decrease vertical folds">
+                                            <span aria-hidden="true">-</span>
+                                            <span className="visually-hidden">Unfold -</span>
+                                        </button>
+                                        <button
+                                            className="fold-step-button"
+                                            onClick={() => handleFoldButtonClick(true)}
+                                            disabled={state.folds.vertical >= state.config.maxFolds}
+                                            title="Increase vertical folds">
+                                            <span aria-hidden="true">+</span>
+                                            <span className="visually-hidden">Fold +</span>
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="fold-control-row">
+                                    <span className="fold-row-label">Horizontal Folds: {state.folds.horizontal}</span>
+                                    <div className="fold-buttons">
+                                        <button
+                                            className="fold-step-button"
+                                            onClick={() => handleUnfoldButtonClick(false)}
+                                            disabled={state.folds.horizontal <= 0}
+                                            title="Decrease horizontal folds">
+                                            <span aria-hidden="true">-</span>
+                                            <span className="visually-hidden">Unfold -</span>
+                                        </button>
+                                        <button
+                                            className="fold-step-button"
+                                            onClick={() => handleFoldButtonClick(false)}
+                                            disabled={state.folds.horizontal >= state.config.maxFolds}
+                                            title="Increase horizontal folds">
+                                            <span aria-hidden="true">+</span>
+                                            <span className="visually-hidden">Fold +</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            </>
+                        )}
+
+                        <div className="fold-control-row">
+                            <span className="fold-row-label">Diagonal Folds: {state.folds.diagonal.count}</span>
+                            <div className="fold-buttons">
+                                <button
+                                    className="fold-step-button"
+                                    onClick={handleDiagonalFoldDecrease}
+                                    disabled={state.folds.diagonal.count <= 0}
+                                    title="Decrease diagonal folds">
+                                    <span aria-hidden="true">-</span>
+                                    <span className="visually-hidden">Unfold -</span>
+                                </button>
+                                <button
+                                    className="fold-step-button"
+                                    onClick={handleDiagonalFoldIncrease}
+                                    disabled={state.folds.diagonal.count >= MAX_DIAGONAL_FOLDS || !isDiagonalFoldAllowed()}
+                                    title="Increase diagonal folds">
+                                    <span aria-hidden="true">+</span>
+                                    <span className="visually-hidden">Fold +</span>
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="fold-control-row">
+                            <label className="fold-row-label" htmlFor="diagonalDirectionSelect">Diagonal direction</label>
+                            <select
+                                id="diagonalDirectionSelect"
+                                className="fold-system-select"
+                                value={state.folds.diagonal.direction}
+                                disabled={state.folds.diagonal.count !== 1}
+                                title={state.folds.diagonal.count > 1 ? 'Both diagonals are folded' : undefined}
+                                onChange={(e) => handleDiagonalDirectionChange(e.target.value as DiagonalDirection)}
+                            >
+                                <option value={DiagonalDirection.TopRightToBottomLeft}>Top right to bottom left</option>
+                                <option value={DiagonalDirection.TopLeftToBottomRight}>Top left to bottom right</option>
+                            </select>
+                        </div>
+
+                        <div className="fold-control-row">
+                            <label
+                                className="fold-row-label fold-depth-fade-toggle"
+                                title="Inner layers take up less dye. Downloads and exports stay crisp."
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={state.foldDepthFade}
+                                    onChange={(e) => handleFoldDepthFadeChange(e.target.checked)}
+                                />
+                                Fade through layers
+                            </label>
+                        </div>
+                    </>
+                ) : (
+                    <p className="fold-system-note">
+                        Draw inside the highlighted wedge; it repeats across the cloth.
+                    </p>
+                )}
 
                 <button className="reset-folds-button" onClick={handleResetButtonClick}>
                     Reset Folds
@@ -148,3 +258,33 @@ export const FoldControls: React.FC = () => {
         </div>
     );
 }; 
+
+interface AccordionPanelRowProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+const AccordionPanelRow: React.FC<AccordionPanelRowProps> = ({ label, value, onChange }) => (
+    <div className="fold-control-row">
+        <span className="fold-row-label">{label}: {value}</span>
+        <div className="fold-buttons">
+            <button
+                className="fold-step-button"
+                onClick={() => onChange(value - 1)}
+                disabled={value <= MIN_ACCORDION_PANELS}
+                title={`Decrease ${label.toLowerCase()}`}>
+                <span aria-hidden="true">-</span>
+                <span className="visually-hidden">Remove panel</span>
+            </button>
+            <button
+                className="fold-step-button"
+                onClick={() => onChange(value + 1)}
+                disabled={value >= MAX_ACCORDION_PANELS}
+                title={`Increase ${label.toLowerCase()}`}>
+                <span aria-hidden="true">+</span>
+                <span className="visually-hidden">Add panel</span>
+            </button>
+        </div>
+    </div>
+);
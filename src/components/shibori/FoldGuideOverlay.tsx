@@ -1,5 +1,15 @@
 import React from 'react';
 import { DiagonalDirection, FoldState } from '../../types';
+import {
+    applyLinearTransform,
+    getFoldGrid,
+    getFoldedWedgePolygon,
+    getKaleidoscopeCellCenters,
+    getKaleidoscopeCellRadius,
+    getKaleidoscopeSystem,
+    getPolygonPathData,
+    hasSquareFoldGrid,
+} from '../../utils/foldSystems';
 
 interface FoldGuideOverlayProps {
     canvasDimensions: { width: number; height: number };
@@ -19,11 +29,33 @@ export const FoldGuideOverlay: React.FC<FoldGuideOverlayProps> = ({
     showGrid = false,
     style,
 }) => {
-    const verticalPositions = showGrid ? getGuidePositions(folds.vertical) : [];
-    const horizontalPositions = showGrid ? getGuidePositions(folds.horizontal) : [];
+    const kaleidoscope = getKaleidoscopeSystem(folds);
+    if (kaleidoscope) {
+        const { width, height } = canvasDimensions;
+        const pathData = showGrid
+            ? getKaleidoscopeGuidePath(canvasDimensions, folds)
+            : getPolygonPathData(getFoldedWedgePolygon(kaleidoscope, canvasDimensions));
+
+        return (
+            <svg
+                className="fold-guide-overlay"
+                style={style}
+                viewBox={`0 0 ${width} ${height}`}
+                preserveAspectRatio="none"
+                aria-hidden="true"
+                focusable="false"
+            >
+                <path className="fold-guide-line fold-guide-kaleidoscope" d={pathData} />
+            </svg>
+        );
+    }
+
+    const grid = getFoldGrid(folds);
+    const verticalPositions = showGrid ? getGuidePositions(grid.columns) : [];
+    const horizontalPositions = showGrid ? getGuidePositions(grid.rows) : [];
     const showDiagonal = folds.diagonal.enabled &&
-        folds.diagonal.count === 1 &&
-        folds.vertical === folds.horizontal;
+        folds.diagonal.count >= 1 &&
+        hasSquareFoldGrid(folds);
 
     if (!showDiagonal && verticalPositions.length === 0 && horizontalPositions.length === 0) {
         return null;
@@ -77,8 +109,26 @@ export const FoldGuideOverlay: React.FC<FoldGuideOverlayProps> = ({
     );
 };
 
-function getGuidePositions(foldCount: number): number[] {
-    const segments = Math.pow(2, foldCount);
+/** Every wedge outline in every lattice cell that touches the unfolded canvas. */
+function getKaleidoscopeGuidePath(
+    canvasDimensions: { width: number; height: number },
+    folds: FoldState
+): string {
+    const system = getKaleidoscopeSystem(folds);
+    if (!system) return '';
+    const radius = getKaleidoscopeCellRadius(canvasDimensions);
+
+    return getKaleidoscopeCellCenters(canvasDimensions, system, radius)
+        .flatMap((center) => system.transforms.map((transform) => getPolygonPathData(
+            system.wedge.map((point) => {
+                const mapped = applyLinearTransform(transform, point);
+                return { x: center.x + mapped.x * radius, y: center.y + mapped.y * radius };
+            })
+        )))
+        .join(' ');
+}
+
+function getGuidePositions(segments: number): number[] {
     return Array.from({ length: Math.max(0, segments - 1) }, (_, index) => (index + 1) / segments);
 }
 
@@ -97,13 +147,18 @@ function getDiagonalGuideSegments(
     tileForUnfoldedCanvas: boolean
 ): GuideSegment[] {
     const sourceIsTopRightToBottomLeft = folds.diagonal.direction === DiagonalDirection.TopRightToBottomLeft;
+    const foldsBothDiagonals = folds.diagonal.count >= 2;
 
     if (!tileForUnfoldedCanvas) {
-        return [getDiagonalGuideSegment(width, height, sourceIsTopRightToBottomLeft, 0, 0, 'diagonal')];
+        return foldsBothDiagonals
+            ? [
+                getDiagonalGuideSegment(width, height, true, 0, 0, 'diagonal'),
+                getDiagonalGuideSegment(width, height, false, 0, 0, 'diagonal-second'),
+            ]
+            : [getDiagonalGuideSegment(width, height, sourceIsTopRightToBottomLeft, 0, 0, 'diagonal')];
     }
 
-    const gridWidth = Math.pow(2, folds.vertical);
-    const gridHeight = Math.pow(2, folds.horizontal);
+    const { columns: gridWidth, rows: gridHeight } = getFoldGrid(folds);
     const cellWidth = width / gridWidth;
     const cellHeight = height / gridHeight;
     const segments: GuideSegment[] = [];
@@ -111,6 +166,16 @@ function getDiagonalGuideSegments(
     for (let row = 0; row < gridHeight; row++) {
         for (let column = 0; column < gridWidth; column++) {
             const isMirrored = (row + column) % 2 === 1;
+            if (foldsBothDiagonals) {
+                segments.push(getDiagonalGuideSegment(
+                    cellWidth,
+                    cellHeight,
+                    !sourceIsTopRightToBottomLeft,
+                    column * cellWidth,
+                    row * cellHeight,
+                    `diagonal-second-${row}-${column}`
+                ));
+            }
             segments.push(getDiagonalGuideSegment(
                 cellWidth,
                 cellHeight,
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/useReduxHooks';
+import { ActionType, State } from '../../store/shiboriCanvasState';
+import { DrawingTool, HistoryAction } from '../../types';
+import { UndoableHistoryItem } from '../../types/DrawingMode';
+import { renderUnfoldedImage } from '../../rendering/printExport';
+import { getHistoryLayoutAt, isDrawableCommand } from '../../utils/historyOperations';
+import { logger } from '../../utils/logger';
+import { WorkspaceIcon, WorkspaceIconName } from './WorkspaceIcon';
+
+const THUMBNAIL_SIZE = 48;
+/** Thumbnails replay their whole prefix, so a long log is rendered a few at a time. */
+const THUMBNAILS_PER_BATCH = 6;
+
+const ENTRY_DETAILS: Record<UndoableHistoryItem['action'], { label: string; icon: WorkspaceIconName }> = {
+    [DrawingTool.Line]: { label: 'Line', icon: 'line' },
+    [DrawingTool.Paintbrush]: { label: 'Brush stroke', icon: 'paintbrush' },
+    [DrawingTool.Eraser]: { label: 'Erase', icon: 'eraser' },
+    [DrawingTool.Rectangle]: { label: 'Rectangle', icon: 'rectangle' },
+    [DrawingTool.Square]: { label: 'Square', icon: 'square' },
+    [DrawingTool.Circle]: { label: 'Circle', icon: 'circle' },
+    [DrawingTool.Ellipse]: { label: 'Ellipse', icon: 'ellipse' },
+    [DrawingTool.Polygon]: { label: 'Polygon', icon: 'polygon' },
+    [DrawingTool.Star]: { label: 'Star', icon: 'star' },
+    [DrawingTool.Bezier]: { label: 'Path', icon: 'bezier' },
+    [DrawingTool.ResistBlock]: { label: 'Resist block', icon: 'resistBlock' },
+    [HistoryAction.Move]: { label: 'Move', icon: 'select' },
+    [HistoryAction.Rotate]: { label: 'Rotate', icon: 'rotate' },
+    [HistoryAction.Scale]: { label: 'Resize', icon: 'scale' },
+    [HistoryAction.Flip]: { label: 'Flip', icon: 'flipHorizontal' },
+    [HistoryAction.Delete]: { label: 'Delete', icon: 'close' },
+    [HistoryAction.Clear]: { label: 'Clear canvas', icon: 'clear' },
+    [HistoryAction.UpdatePath]: { label: 'Edit path', icon: 'directSelect' },
+    [HistoryAction.Reproject]: { label: 'Change folds or size', icon: 'guides' },
+    [HistoryAction.UpdateLayers]: { label: 'Edit layers', icon: 'layers' },
+    [HistoryAction.Arrange]: { label: 'Reorder', icon: 'layers' },
+    [HistoryAction.SetLayer]: { label: 'Move to layer', icon: 'layers' },
+    [HistoryAction.Group]: { label: 'Group', icon: 'group' },
+    [HistoryAction.Batch]: { label: 'Edit selection', icon: 'select' },
+};
+
+const PASTE_DETAILS = { label: 'Paste', icon: 'duplicate' } as const;
+const UNGROUP_DETAILS = { label: 'Ungroup', icon: 'group' } as const;
+
+interface CachedThumbnail {
+    backgroundColor: string;
+    url: string | null;
+}
+
+// History arrays only grow or shrink at the end, so a command object always
+// sits on the same prefix and its thumbnail can be reused across renders.
+const thumbnailCache = new WeakMap<UndoableHistoryItem, CachedThumbnail>();
+
+/**
+ * Every command in the log, oldest first. Selecting an entry previews the
+ * scene as of that command on the canvases; reverting goes back to it on a new branch.
+ */
+export const HistoryTimeline: React.FC = () => {
+    const state = useAppSelector((state) => state.shibori);
+    const dispatch = useAppDispatch();
+    const [, setRenderedThumbnails] = useState(0);
+    const { history, historyPreviewLength, backgroundColor } = state;
+    const activeLength = historyPreviewLength ?? history.length;
+
+    useEffect(() => {
+        const pending = history.filter((item) => thumbnailCache.get(item)?.backgroundColor !== backgroundColor);
+        if (pending.length === 0) return;
+
+        const timer = setTimeout(() => {
+            for (const item of pending.slice(0, THUMBNAILS_PER_BATCH)) {
+                thumbnailCache.set(item, {
+                    backgroundColor,
+                    url: renderThumbnail(state, history.indexOf(item) + 1),
+                });
+            }
+            setRenderedThumbnails((count) => count + 1);
+        }, 0);
+        return () => clearTimeout(timer);
+    });
+
+    const preview = (length: number) => {
+        dispatch({ type: ActionType.SET_HISTORY_PREVIEW, payload: length });
+    };
+
+    return (
+        <div className="history-timeline">
+            {history.length === 0 ? (
+                <p className="history-timeline-empty">Commands appear here as you draw.</p>
+            ) : (
+                <p className="history-timeline-hint">Select a step to preview the design as it was then.</p>
+            )}
+            {state.historyBranches.length > 0 && <BranchSwitcher state={state} />}
+            <ol className="history-timeline-list" aria-label="History">
+                <HistoryEntry
+                    label="Blank canvas"
+                    icon="history"
+                    step={0}
+                    thumbnail={null}
+                    backgroundColor={backgroundColor}
+                    isActive={activeLength === 0}
+                    isFuture={false}
+                    canRevert={historyPreviewLength === 0}
+                    onPreview={() => preview(0)}
+                    onRevert={() => dispatch({ type: ActionType.REVERT_HISTORY, payload: 0 })}
+                />
+                {history.map((item, index) => {
+                    const details = getEntryDetails(item);
+                    const length = index + 1;
+                    return (
+                        <HistoryEntry
+                            key={index}
+                            label={details.label}
+                            icon={details.icon}
+                            step={length}
+                            thumbnail={thumbnailCache.get(item)?.url ?? null}
+                            backgroundColor={backgroundColor}
+                            isActive={activeLength === length}
+                            isFuture={length > activeLength}
+                            canRevert={historyPreviewLength === length}
+                            onPreview={() => preview(length)}
+                            onRevert={() => dispatch({ type: ActionType.REVERT_HISTORY, payload: length })}
+                        />
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+/** Every path through the undo tree; switching jumps to the chosen branch's tip. */
+const BranchSwitcher: React.FC<{ state: State }> = ({ state }) => {
+    const dispatch = useAppDispatch();
+    const activePath = [...state.history, ...[...state.redoStack].reverse()];
+    const branches = [
+        { id: state.activeHistoryBranchId, commands: activePath },
+        ...state.historyBranches,
+    ].sort((a, b) => getBranchNumber(a.id) - getBranchNumber(b.id));
+
+    return (
+        <label className="history-branch-switcher">
+            <span>Branch</span>
+            <select
+                value={state.activeHistoryBranchId}
+                onChange={(e) => dispatch({ type: ActionType.SWITCH_HISTORY_BRANCH, payload: e.target.value })}
+            >
+                {branches.map((branch) => {
+                    const steps = `${branch.commands.length} ${branch.commands.length === 1 ? 'step' : 'steps'}`;
+                    const fork = branch.id === state.activeHistoryBranchId
+                        ? 'current'
+                        : `splits after step ${getSharedLength(activePath, branch.commands)}`;
+                    return (
+                        <option key={branch.id} value={branch.id}>
+                            Branch {getBranchNumber(branch.id)} · {steps} · {fork}
+                        </option>
+                    );
+                })}
+            </select>
+        </label>
+    );
+};
+
+interface HistoryEntryProps {
+    label: string;
+    icon: WorkspaceIconName;
+    step: number;
+    thumbnail: string | null;
+    backgroundColor: string;
+    isActive: boolean;
+    isFuture: boolean;
+    canRevert: boolean;
+    onPreview: () => void;
+    onRevert: () => void;
+}
+
+const HistoryEntry: React.FC<HistoryEntryProps> = ({
+    label,
+    icon,
+    step,
+    thumbnail,
+    backgroundColor,
+    isActive,
+    isFuture,
+    canRevert,
+    onPreview,
+    onRevert,
+}) => (
+    <li className={`history-entry${isActive ? ' is-active' : ''}${isFuture ? ' is-future' : ''}`}>
+        <button
+            type="button"
+            className="history-entry-preview"
+            onClick={onPreview}
+            aria-current={isActive ? 'step' : undefined}
+            aria-label={`Step ${step}: ${label}`}
+        >
+            {thumbnail
+                ? <img className="history-entry-thumbnail" src={thumbnail} alt="" />
+                : <span className="history-entry-thumbnail" style={{ background: backgroundColor }} aria-hidden="true" />}
+            <WorkspaceIcon name={icon} size={16} />
+            <span className="history-entry-label">{label}</span>
+        </button>
+        {canRevert && (
+            <button type="button" className="history-entry-revert" onClick={onRevert}>
+                Revert to here
+            </button>
+        )}
+    </li>
+);
+
+/**
+ * A batch that adds drawables is a paste or duplicate rather than a group
+ * edit, and a batch of one kind of command, such as grouping, is named for it.
+ */
+function getEntryDetails(item: UndoableHistoryItem): { label: string; icon: WorkspaceIconName } {
+    if (item.action === HistoryAction.Batch && item.commands.some(isDrawableCommand)) return PASTE_DETAILS;
+    const commands = item.action === HistoryAction.Batch ? item.commands : [item];
+    const [first] = commands;
+    if (!first || commands.some((command) => command.action !== first.action)) return ENTRY_DETAILS[item.action];
+    if (first.action === HistoryAction.Group && first.toGroupId === undefined) return UNGROUP_DETAILS;
+    return ENTRY_DETAILS[first.action];
+}
+
+function getBranchNumber(id: string): number {
+    return Number(id.replace('branch-', '')) || 0;
+}
+
+/** Branches share the commands before their fork by reference. */
+function getSharedLength(a: UndoableHistoryItem[], b: UndoableHistoryItem[]): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) length++;
+    return length;
+}
+
+/** The unfolded scene after the first `length` commands, in the layout it had then. */
+function renderThumbnail(state: State, length: number): string | null {
+    const layout = getHistoryLayoutAt(state.history, length, {
+        folds: state.folds,
+        canvasDimensions: state.canvasDimensions,
+    });
+    const scale = THUMBNAIL_SIZE / Math.max(layout.canvasDimensions.width, layout.canvasDimensions.height);
+    try {
+        return renderUnfoldedImage(
+            { ...state, ...layout, history: state.history.slice(0, length) },
+            {
+                width: Math.max(1, Math.round(layout.canvasDimensions.width * scale)),
+                height: Math.max(1, Math.round(layout.canvasDimensions.height * scale)),
+            }
+        ).toDataURL('image/png');
+    } catch (error) {
+        logger.debug('Unable to render a history thumbnail', { component: 'HistoryTimeline', data: error });
+        return null;
+    }
+}
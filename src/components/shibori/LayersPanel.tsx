@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/useReduxHooks';
+import { ActionType } from '../../store/shiboriCanvasState';
+import { Layer } from '../../types/DrawingMode';
+import {
+    buildDrawableHistory,
+    createBatchHistoryItem,
+    createSetLayerHistoryItem,
+    createUpdateLayersHistoryItem,
+} from '../../utils/historyOperations';
+import {
+    MAX_LAYERS,
+    MAX_LAYER_NAME_LENGTH,
+    canDrawOnLayer,
+    createLayerId,
+    createLayerName,
+    getLayerId,
+    resolveLayers,
+} from '../../utils/layers';
+import { WorkspaceIcon } from './WorkspaceIcon';
+
+/**
+ * The document's layers, topmost first. Every change is an undoable command;
+ * the active layer, which new marks are drawn on, is only a UI choice.
+ */
+export const LayersPanel: React.FC = () => {
+    const history = useAppSelector((state) => state.shibori.history);
+    const activeLayerId = useAppSelector((state) => state.shibori.activeLayerId);
+    const selectedIds = useAppSelector((state) => state.shibori.selectedHistoryItemIds);
+    const isPreviewing = useAppSelector((state) => state.shibori.historyPreviewLength !== null);
+    const dispatch = useAppDispatch();
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    // The slider previews locally and commits one command when released.
+    const [draftOpacity, setDraftOpacity] = useState<{ layerId: string; value: number } | null>(null);
+
+    const layers = resolveLayers(history);
+    const activeLayer = layers.find((layer) => layer.id === activeLayerId) ?? layers[layers.length - 1];
+    const opacity = draftOpacity?.layerId === activeLayer.id ? draftOpacity.value : activeLayer.opacity;
+
+    const updateLayers = (toLayers: Layer[]) => {
+        dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: createUpdateLayersHistoryItem(layers, toLayers) });
+    };
+
+    const updateLayer = (id: string, changes: Partial<Layer>) => {
+        updateLayers(layers.map((layer) => layer.id === id ? { ...layer, ...changes } : layer));
+    };
+
+    const moveLayer = (index: number, offset: number) => {
+        const reordered = [...layers];
+        const [layer] = reordered.splice(index, 1);
+        reordered.splice(index + offset, 0, layer);
+        updateLayers(reordered);
+    };
+
+    const addLayer = () => {
+        const layer = {
+            id: createLayerId(layers),
+            name: createLayerName(layers),
+            visible: true,
+            locked: false,
+            opacity: 1,
+        };
+        updateLayers([...layers, layer]);
+        dispatch({ type: ActionType.SET_ACTIVE_LAYER, payload: layer.id });
+    };
+
+    const commitOpacity = () => {
+        if (!draftOpacity) return;
+        setDraftOpacity(null);
+        const layer = layers.find((candidate) => candidate.id === draftOpacity.layerId);
+        if (layer && layer.opacity !== draftOpacity.value) updateLayer(layer.id, { opacity: draftOpacity.value });
+    };
+
+    const moveSelectionHere = () => {
+        const moved = buildDrawableHistory(history)
+            .filter((item) => selectedIds.includes(item.id) && getLayerId(item) !== activeLayer.id)
+            .map((item) => createSetLayerHistoryItem(item, activeLayer.id));
+        if (moved.length === 0) return;
+        dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: createBatchHistoryItem(moved) });
+        // Marks moved onto a hidden or locked layer can no longer be selected
+        if (!canDrawOnLayer(layers, activeLayer.id)) dispatch({ type: ActionType.CLEAR_SELECTION });
+    };
+
+    return (
+        <div className="layers-panel">
+            {!canDrawOnLayer(layers, activeLayer.id) && (
+                <p className="layers-panel-hint">Show and unlock {activeLayer.name} to draw on it.</p>
+            )}
+            <ol className="layers-list" aria-label="Layers">
+                {[...layers].reverse().map((layer) => {
+                    const index = layers.indexOf(layer);
+                    const isActive = layer.id === activeLayer.id;
+                    return (
+                        <li key={layer.id} className={`layer-row${isActive ? ' is-active' : ''}`}>
+                            <button
+                                type="button"
+                                className="layer-toggle"
+                                onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+                                disabled={isPreviewing}
+                                aria-label={`${layer.visible ? 'Hide' : 'Show'} ${layer.name}`}
+                            >
+                                <WorkspaceIcon name={layer.visible ? 'eye' : 'eyeOff'} size={16} />
+                            </button>
+                            <button
+                                type="button"
+                                className="layer-toggle"
+                                onClick={() => updateLayer(layer.id, { locked: !layer.locked })}
+                                disabled={isPreviewing}
+                                aria-label={`${layer.locked ? 'Unlock' : 'Lock'} ${layer.name}`}
+                            >
+                                <WorkspaceIcon name={layer.locked ? 'lock' : 'unlock'} size={16} />
+                            </button>
+                            {renamingId === layer.id ? (
+                                <RenameField
+                                    name={layer.name}
+                                    onSubmit={(name) => {
+                                        setRenamingId(null);
+                                        const trimmed = name.trim();
+                                        if (trimmed && trimmed !== layer.name) updateLayer(layer.id, { name: trimmed });
+                                    }}
+                                    onCancel={() => setRenamingId(null)}
+                                />
+                            ) : (
+                                <button
+                                    type="button"
+                                    className="layer-name"
+                                    onClick={() => dispatch({ type: ActionType.SET_ACTIVE_LAYER, payload: layer.id })}
+                                    onDoubleClick={() => !isPreviewing && setRenamingId(layer.id)}
+                                    aria-current={isActive ? 'true' : undefined}
+                                >
+                                    {layer.name}
+                                    {layer.opacity < 1 && (
+                                        <span className="layer-opacity">{Math.round(layer.opacity * 100)}%</span>
+                                    )}
+                                </button>
+                            )}
+                            <div className="layer-actions">
+                                <button
+                                    type="button"
+                                    onClick={() => moveLayer(index, 1)}
+                                    disabled={isPreviewing || index === layers.length - 1}
+                                    aria-label={`Move ${layer.name} up`}
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => moveLayer(index, -1)}
+                                    disabled={isPreviewing || index === 0}
+                                    aria-label={`Move ${layer.name} down`}
+                                >
+                                    ↓
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setRenamingId(layer.id)}
+                                    disabled={isPreviewing}
+                                    aria-label={`Rename ${layer.name}`}
+                                >
+                                    Rename
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => updateLayers(layers.filter((candidate) => candidate !== layer))}
+                                    disabled={isPreviewing || layers.length === 1}
+                                    aria-label={`Delete ${layer.name}`}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+            <label className="layers-opacity">
+                <span>Opacity</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(opacity * 100)}
+                    disabled={isPreviewing}
+                    aria-label={`${activeLayer.name} opacity`}
+                    onChange={(e) => setDraftOpacity({ layerId: activeLayer.id, value: Number(e.target.value) / 100 })}
+                    onPointerUp={commitOpacity}
+                    onKeyUp={commitOpacity}
+                    onBlur={commitOpacity}
+                />
+                <span className="layers-opacity-value">{Math.round(opacity * 100)}%</span>
+            </label>
+            <div className="layers-footer">
+                <button type="button" onClick={addLayer} disabled={isPreviewing || layers.length >= MAX_LAYERS}>
+                    Add layer
+                </button>
+                <button type="button" onClick={moveSelectionHere} disabled={isPreviewing || selectedIds.length === 0}>
+                    Move selection here
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface RenameFieldProps {
+    name: string;
+    onSubmit: (name: string) => void;
+    onCancel: () => void;
+}
+
+const RenameField: React.FC<RenameFieldProps> = ({ name, onSubmit, onCancel }) => {
+    const [value, setValue] = useState(name);
+
+    return (
+        <form
+            className="layer-rename"
+            onSubmit={(e) => {
+                e.preventDefault();
+                onSubmit(value);
+            }}
+        >
+            <input
+                type="text"
+                aria-label="Layer name"
+                value={value}
+                maxLength={MAX_LAYER_NAME_LENGTH}
+                autoFocus
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        onCancel();
+                    }
+                }}
+            />
+            <button type="submit">Save</button>
+        </form>
+    );
+};
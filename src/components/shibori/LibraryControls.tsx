@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { DocumentLibraryControls, LibraryStatus } from '../../hooks/useDocumentLibrary';
+import { LibraryDocumentSummary, MAX_DOCUMENT_NAME_LENGTH } from '../../services/documentLibrary';
+
+interface LibraryControlsProps {
+    library: DocumentLibraryControls;
+}
+
+const STATUS_LABELS: Record<LibraryStatus, string> = {
+    loading: 'Opening library…',
+    saved: 'All changes saved',
+    unsaved: 'Unsaved changes',
+    saving: 'Saving…',
+    error: 'Unable to save to the library',
+    unavailable: 'Library unavailable in this browser',
+};
+
+/**
+ * Designs saved in this browser. The open design is autosaved, so the list
+ * only offers switching, renaming, duplicating and deleting.
+ */
+export const LibraryControls: React.FC<LibraryControlsProps> = ({ library }) => {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const isAvailable = library.status !== 'unavailable';
+
+    const handleDelete = (document: LibraryDocumentSummary) => {
+        if (!window.confirm(`Delete "${document.name}"? This cannot be undone.`)) return;
+        void library.deleteDocument(document.id);
+    };
+
+    return (
+        <div className="library-controls">
+            <div className="library-header">
+                <span className={`library-status is-${library.status}`} role="status" aria-live="polite">
+                    {library.status === 'error' && library.error ? library.error : STATUS_LABELS[library.status]}
+                </span>
+                <button
+                    type="button"
+                    className="library-new-button"
+                    onClick={() => void library.newDocument()}
+                    disabled={!isAvailable}
+                >
+                    New design
+                </button>
+            </div>
+
+            {isAvailable && library.documents.length === 0 && (
+                <p className="library-empty">Designs are saved here as you draw.</p>
+            )}
+
+            <ul className="library-list" aria-label="Saved designs">
+                {library.documents.map((document) => {
+                    const isCurrent = document.id === library.currentDocumentId;
+                    return (
+                        <li key={document.id} className={`library-item${isCurrent ? ' is-current' : ''}`}>
+                            {document.thumbnail
+                                ? <img className="library-thumbnail" src={document.thumbnail} alt="" />
+                                : <span className="library-thumbnail" aria-hidden="true" />}
+                            <div className="library-item-details">
+                                {renamingId === document.id ? (
+                                    <RenameField
+                                        name={document.name}
+                                        onSubmit={(name) => {
+                                            setRenamingId(null);
+                                            void library.renameDocument(document.id, name);
+                                        }}
+                                        onCancel={() => setRenamingId(null)}
+                                    />
+                                ) : (
+                                    <span className="library-item-name">{document.name}</span>
+                                )}
+                                <span className="library-item-date">
+                                    Edited {new Date(document.updatedAt).toLocaleString()}
+                                </span>
+                                <div className="library-item-actions">
+                                    {isCurrent ? (
+                                        <span className="library-current-badge">Current</span>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            onClick={() => void library.openDocument(document.id)}
+                                            aria-label={`Open ${document.name}`}
+                                        >
+                                            Open
+                                        </button>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => setRenamingId(document.id)}
+                                        aria-label={`Rename ${document.name}`}
+                                    >
+                                        Rename
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => void library.duplicateDocument(document.id)}
+                                        aria-label={`Duplicate ${document.name}`}
+                                    >
+                                        Duplicate
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDelete(document)}
+                                        aria-label={`Delete ${document.name}`}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+interface RenameFieldProps {
+    name: string;
+    onSubmit: (name: string) => void;
+    onCancel: () => void;
+}
+
+const RenameField: React.FC<RenameFieldProps> = ({ name, onSubmit, onCancel }) => {
+    const [value, setValue] = useState(name);
+
+    return (
+        <form
+            className="library-rename"
+            onSubmit={(e) => {
+                e.preventDefault();
+                onSubmit(value);
+            }}
+        >
+            <input
+                type="text"
+                aria-label="Design name"
+                value={value}
+                maxLength={MAX_DOCUMENT_NAME_LENGTH}
+                autoFocus
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                        e.stopPropagation();
+                        onCancel();
+                    }
+                }}
+            />
+            <button type="submit">Save</button>
+        </form>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useCallback } from 'react';
+import { DrawingTool } from '../../types';
+import { ActionType } from '../../store/shiboriCanvasState';
+import { useAppDispatch } from '../../hooks/useReduxHooks';
+import {
+    MAX_POLYGON_SIDES,
+    MAX_STAR_INNER_RADIUS_RATIO,
+    MIN_POLYGON_SIDES,
+    MIN_STAR_INNER_RADIUS_RATIO,
+} from '../../utils/polygonShapes';
+
+interface PolygonShapeControlProps {
+    tool: DrawingTool.Polygon | DrawingTool.Star;
+    sides: number;
+    innerRadiusRatio: number;
+}
+
+/** Side count for polygons; point count and inner radius for stars. */
+export const PolygonShapeControl: React.FC<PolygonShapeControlProps> = ({ tool, sides, innerRadiusRatio }) => {
+    const dispatch = useAppDispatch();
+    const isStar = tool === DrawingTool.Star;
+
+    const handleSidesChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        dispatch({
+            type: isStar ? ActionType.SET_STAR_POINTS : ActionType.SET_POLYGON_SIDES,
+            payload: parseInt(e.target.value),
+        });
+    }, [dispatch, isStar]);
+
+    const handleInnerRadiusChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        dispatch({ type: ActionType.SET_STAR_INNER_RADIUS_RATIO, payload: parseInt(e.target.value) / 100 });
+    }, [dispatch]);
+
+    return (
+        <>
+            <div className="tool-controls-group">
+                <h3>
+                    <label htmlFor="polygonSidesSlider">{isStar ? 'Points:' : 'Sides:'}</label>
+                </h3>
+                <div className="slider-container">
+                    <input
+                        type="range"
+                        id="polygonSidesSlider"
+                        min={MIN_POLYGON_SIDES}
+                        max={MAX_POLYGON_SIDES}
+                        value={sides}
+                        onChange={handleSidesChange}
+                    />
+                    <span>{sides}</span>
+                </div>
+            </div>
+            {isStar && (
+                <div className="tool-controls-group">
+                    <h3>
+                        <label htmlFor="starInnerRadiusSlider">Inner Radius:</label>
+                    </h3>
+                    <div className="slider-container">
+                        <input
+                            type="range"
+                            id="starInnerRadiusSlider"
+                            min={Math.round(MIN_STAR_INNER_RADIUS_RATIO * 100)}
+                            max={Math.round(MAX_STAR_INNER_RADIUS_RATIO * 100)}
+                            value={Math.round(innerRadiusRatio * 100)}
+                            onChange={handleInnerRadiusChange}
+                        />
+                        <span>{Math.round(innerRadiusRatio * 100)}</span>%
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,172 @@
+import React, { useCallback, useState } from 'react';
+import { useAppSelector } from '../../hooks/useReduxHooks';
+import { CanvasService } from '../../services/CanvasService';
+import {
+    CM_PER_INCH,
+    DEFAULT_PRINT_SIZE,
+    MAX_PRINT_DPI,
+    MIN_PRINT_DPI,
+    PrintSize,
+    PrintUnit,
+    getMaxPrintPixelWidth,
+    getPrintPixelDimensions,
+    renderPrintPng,
+} from '../../rendering/printExport';
+import { logger } from '../../utils/logger';
+import { WorkspaceIcon } from './WorkspaceIcon';
+
+interface PrintExportDialogProps {
+    onClose: () => void;
+}
+
+/**
+ * Export the unfolded cloth at a physical size and print resolution. The
+ * pattern is re-rendered off-screen, so the download does not depend on the
+ * on-screen canvas size.
+ */
+export const PrintExportDialog: React.FC<PrintExportDialogProps> = ({ onClose }) => {
+    const state = useAppSelector((state) => state.shibori);
+    const [size, setSize] = useState<PrintSize>(DEFAULT_PRINT_SIZE);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [exportError, setExportError] = useState('');
+
+    const isValidSize = size.width > 0 && size.dpi >= MIN_PRINT_DPI && size.dpi <= MAX_PRINT_DPI;
+    const output = getPrintPixelDimensions(state.canvasDimensions, size);
+    const maxPixelWidth = getMaxPrintPixelWidth(state.canvasDimensions, state.folds);
+    const maxWidth = toUnit(maxPixelWidth / size.dpi, size.unit);
+    const isTooLarge = output.width > maxPixelWidth;
+    const isExporting = progress !== null;
+
+    const handleUnitChange = useCallback((unit: PrintUnit) => {
+        setSize((current) => ({
+            ...current,
+            unit,
+            width: roundLength(toUnit(toInches(current.width, current.unit), unit)),
+        }));
+    }, []);
+
+    const handleExport = useCallback(async () => {
+        setExportError('');
+        setProgress(0);
+        try {
+            const blob = await renderPrintPng(state, output, { dpi: size.dpi, onProgress: setProgress });
+            CanvasService.downloadBlob(
+                blob,
+                `shibori-design-${new Date().toISOString().slice(0, 10)}-${size.dpi}dpi.png`
+            );
+            onClose();
+        } catch (error) {
+            logger.error('Error exporting print-size PNG', error as Error);
+            setExportError('Unable to render the design at this size.');
+        } finally {
+            setProgress(null);
+        }
+    }, [onClose, output, size.dpi, state]);
+
+    return (
+        <div className="print-export-backdrop">
+            <div
+                className="print-export-dialog"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="print-export-title"
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape' && !isExporting) onClose();
+                }}
+            >
+                <div className="print-export-header">
+                    <h2 id="print-export-title">Print export</h2>
+                    <button
+                        type="button"
+                        className="icon-button"
+                        onClick={onClose}
+                        disabled={isExporting}
+                        aria-label="Close print export"
+                    >
+                        <WorkspaceIcon name="close" size={18} />
+                    </button>
+                </div>
+
+                <div className="print-export-fields">
+                    <label htmlFor="printWidth">Width</label>
+                    <div className="print-export-length">
+                        <input
+                            type="number"
+                            id="printWidth"
+                            min="0"
+                            step="any"
+                            value={size.width}
+                            disabled={isExporting}
+                            onChange={(e) => setSize((current) => ({ ...current, width: Number(e.target.value) }))}
+                        />
+                        <select
+                            aria-label="Unit"
+                            value={size.unit}
+                            disabled={isExporting}
+                            onChange={(e) => handleUnitChange(e.target.value as PrintUnit)}
+                        >
+                            <option value="cm">cm</option>
+                            <option value="in">in</option>
+                        </select>
+                    </div>
+                    <label htmlFor="printDpi">Resolution (dpi)</label>
+                    <input
+                        type="number"
+                        id="printDpi"
+                        min={MIN_PRINT_DPI}
+                        max={MAX_PRINT_DPI}
+                        value={size.dpi}
+                        disabled={isExporting}
+                        onChange={(e) => setSize((current) => ({ ...current, dpi: Number(e.target.value) }))}
+                    />
+                </div>
+
+                <p className="print-export-summary" data-testid="print-export-summary">
+                    {isValidSize
+                        ? `${formatLength(size.width)} × ${formatLength(toUnit(output.height / size.dpi, size.unit))} ${size.unit} · ${output.width} × ${output.height} px`
+                        : `Enter a width and a resolution between ${MIN_PRINT_DPI} and ${MAX_PRINT_DPI} dpi.`}
+                </p>
+                {isValidSize && isTooLarge && (
+                    <p className="print-export-error" role="alert">
+                        These folds export up to {formatLength(maxWidth)} {size.unit} wide at {size.dpi} dpi.
+                    </p>
+                )}
+                {exportError && (
+                    <p className="print-export-error" role="alert">{exportError}</p>
+                )}
+
+                <div className="print-export-actions">
+                    {isExporting && (
+                        <span role="status" aria-live="polite">
+                            Rendering… {Math.round(progress * 100)}%
+                        </span>
+                    )}
+                    <button
+                        type="button"
+                        className="print-export-button"
+                        onClick={handleExport}
+                        disabled={!isValidSize || isTooLarge || isExporting}
+                    >
+                        Export PNG
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+function toInches(length: number, unit: PrintUnit): number {
+    return unit === 'cm' ? length / CM_PER_INCH : length;
+}
+
+function toUnit(inches: number, unit: PrintUnit): number {
+    return unit === 'cm' ? inches * CM_PER_INCH : inches;
+}
+
+function roundLength(length: number): number {
+    return Math.round(length * 100) / 100;
+}
+
+function formatLength(length: number): string {
+    return String(Math.floor(length * 10) / 10);
+}
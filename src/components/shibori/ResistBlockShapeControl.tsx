@@ -0,0 +1,37 @@
+import React, { useCallback } from 'react';
+import { ResistBlockShape } from '../../types';
+import { ActionType } from '../../store/shiboriCanvasState';
+import { useAppDispatch } from '../../hooks/useReduxHooks';
+import { RESIST_BLOCK_SHAPE_OPTIONS } from '../../utils/resistBlocks';
+
+interface ResistBlockShapeControlProps {
+    shape: ResistBlockShape;
+}
+
+/** Outline of the next itajime block; blocks have no color, size, or fill. */
+export const ResistBlockShapeControl: React.FC<ResistBlockShapeControlProps> = ({ shape }) => {
+    const dispatch = useAppDispatch();
+
+    const handleShapeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+        dispatch({ type: ActionType.SET_RESIST_BLOCK_SHAPE, payload: e.target.value as ResistBlockShape });
+    }, [dispatch]);
+
+    return (
+        <div className="tool-controls-group">
+            <h3>
+                <label htmlFor="resistBlockShapeSelect">Block Shape:</label>
+            </h3>
+            <select
+                id="resistBlockShapeSelect"
+                className="resist-block-shape-select"
+                value={shape}
+                onChange={handleShapeChange}
+            >
+                {RESIST_BLOCK_SHAPE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+            </select>
+            <p className="tool-controls-hint">Blocks keep the cloth undyed above every mark.</p>
+        </div>
+    );
+};
@@ -33,9 +33,19 @@ export const SizeControl: React.FC<SizeControlProps> = ({ tool, value }) => {
                     max: 40,
                     id: 'brushThicknessSlider'
                 };
+            case DrawingTool.Eraser:
+                return {
+                    label: 'Eraser Size:',
+                    min: 1,
+                    max: 40,
+                    id: 'eraserSizeSlider'
+                };
             case DrawingTool.Rectangle:
             case DrawingTool.Square:
             case DrawingTool.Circle:
+            case DrawingTool.Ellipse:
+            case DrawingTool.Polygon:
+            case DrawingTool.Star:
                 return {
                     label: 'Outline Thickness:',
                     min: 1,
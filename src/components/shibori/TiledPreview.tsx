@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAppSelector } from '../../hooks/useReduxHooks';
+import { CanvasService } from '../../services/CanvasService';
+import { getRepeatTileSize, renderRepeatTile } from '../../rendering/printExport';
+import { logger } from '../../utils/logger';
+
+const MIN_PREVIEW_REPEATS = 1;
+const MAX_PREVIEW_REPEATS = 8;
+/** The swatch is drawn scaled down so eight-by-eight repeats stay cheap. */
+const MAX_PREVIEW_SIDE = 2048;
+
+/**
+ * The minimal repeat tile laid out N×M across a swatch so seams between
+ * copies can be checked before printing.
+ */
+export const TiledPreview: React.FC = () => {
+    const history = useAppSelector((state) => state.shibori.history);
+    const folds = useAppSelector((state) => state.shibori.folds);
+    const canvasDimensions = useAppSelector((state) => state.shibori.canvasDimensions);
+    const backgroundColor = useAppSelector((state) => state.shibori.backgroundColor);
+    const config = useAppSelector((state) => state.shibori.config);
+    const lineThickness = useAppSelector((state) => state.shibori.lineThickness);
+    const shapeFillMode = useAppSelector((state) => state.shibori.shapeFillMode);
+    const [columns, setColumns] = useState(4);
+    const [rows, setRows] = useState(4);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const tileRef = useRef<HTMLCanvasElement | null>(null);
+    const tileSize = getRepeatTileSize(canvasDimensions, folds);
+    const swatchWidth = tileSize.width * columns;
+    const swatchHeight = tileSize.height * rows;
+    const scale = Math.min(1, MAX_PREVIEW_SIDE / Math.max(swatchWidth, swatchHeight));
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        try {
+            const tile = renderRepeatTile({
+                history,
+                folds,
+                canvasDimensions,
+                backgroundColor,
+                config,
+                lineThickness,
+                shapeFillMode,
+            });
+            tileRef.current = tile;
+            const pattern = ctx.createPattern(tile, 'repeat');
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            if (!pattern) return;
+            ctx.setTransform(scale, 0, 0, scale, 0, 0);
+            ctx.fillStyle = pattern;
+            ctx.fillRect(0, 0, swatchWidth, swatchHeight);
+        } catch (error) {
+            logger.error('Error rendering tiled preview', error as Error);
+        }
+    }, [history, folds, canvasDimensions, backgroundColor, config, lineThickness, shapeFillMode, swatchWidth, swatchHeight, scale]);
+
+    const handleDownloadTile = () => {
+        if (!tileRef.current) return;
+        CanvasService.downloadCanvas(
+            tileRef.current,
+            `shibori-repeat-${new Date().toISOString().slice(0, 10)}.png`
+        );
+    };
+
+    return (
+        <div className="tiled-preview">
+            <div className="tiled-preview-controls">
+                <RepeatStepper label="Across" value={columns} onChange={setColumns} />
+                <RepeatStepper label="Down" value={rows} onChange={setRows} />
+                <span className="tiled-preview-size" data-testid="repeat-tile-size">
+                    Tile {tileSize.width} × {tileSize.height} px
+                </span>
+                <button type="button" className="tiled-preview-download" onClick={handleDownloadTile}>
+                    Download tile
+                </button>
+            </div>
+            <div
+                className="tiled-preview-frame"
+                style={{ '--canvas-aspect': swatchWidth / swatchHeight } as React.CSSProperties}
+            >
+                <canvas
+                    ref={canvasRef}
+                    width={Math.max(1, Math.round(swatchWidth * scale))}
+                    height={Math.max(1, Math.round(swatchHeight * scale))}
+                    aria-label={`Repeat tile preview, ${columns} across by ${rows} down`}
+                />
+            </div>
+        </div>
+    );
+};
+
+interface RepeatStepperProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+}
+
+const RepeatStepper: React.FC<RepeatStepperProps> = ({ label, value, onChange }) => (
+    <div className="tiled-preview-stepper" role="group" aria-label={`Repeats ${label.toLowerCase()}`}>
+        <span>{label}</span>
+        <button
+            type="button"
+            aria-label={`Fewer repeats ${label.toLowerCase()}`}
+            disabled={value <= MIN_PREVIEW_REPEATS}
+            onClick={() => onChange(value - 1)}
+        >
+            −
+        </button>
+        <span className="tiled-preview-count">{value}</span>
+        <button
+            type="button"
+            aria-label={`More repeats ${label.toLowerCase()}`}
+            disabled={value >= MAX_PREVIEW_REPEATS}
+            onClick={() => onChange(value + 1)}
+        >
+            +
+        </button>
+    </div>
+);
@@ -1,6 +1,9 @@
 import React from 'react';
 import { SizeControl } from './SizeControl';
 import { ShapeFillControl } from './ShapeFillControl';
+import { ColorControl } from './ColorControl';
+import { PolygonShapeControl } from './PolygonShapeControl';
+import { ResistBlockShapeControl } from './ResistBlockShapeControl';
 import { useAppSelector } from '../../hooks/useReduxHooks';
 import { DrawingTool } from '../../types';
 
@@ -8,14 +11,21 @@ const shapeTools = new Set<DrawingTool>([
     DrawingTool.Rectangle,
     DrawingTool.Square,
     DrawingTool.Circle,
+    DrawingTool.Ellipse,
+    DrawingTool.Polygon,
+    DrawingTool.Star,
     DrawingTool.Bezier,
 ]);
 const toolsWithSizeControl = new Set<DrawingTool>([
     DrawingTool.Line,
     DrawingTool.Paintbrush,
+    DrawingTool.Eraser,
     DrawingTool.Rectangle,
     DrawingTool.Square,
     DrawingTool.Circle,
+    DrawingTool.Ellipse,
+    DrawingTool.Polygon,
+    DrawingTool.Star,
     DrawingTool.Bezier,
 ]);
 
@@ -30,10 +40,27 @@ export const ToolControls: React.FC = () => {
                     value={state.lineThickness}
                 />
             )}
+            {toolsWithSizeControl.has(state.currentTool) && state.currentTool !== DrawingTool.Eraser && (
+                <ColorControl
+                    color={state.drawingColor}
+                    recentColors={state.recentColors}
+                    palette={state.colorPalette}
+                />
+            )}
             {shapeTools.has(state.currentTool) && (
                 <ShapeFillControl fillMode={state.shapeFillMode} />
             )}
-            {!toolsWithSizeControl.has(state.currentTool) && (
+            {(state.currentTool === DrawingTool.Polygon || state.currentTool === DrawingTool.Star) && (
+                <PolygonShapeControl
+                    tool={state.currentTool}
+                    sides={state.currentTool === DrawingTool.Star ? state.starPoints : state.polygonSides}
+                    innerRadiusRatio={state.starInnerRadiusRatio}
+                />
+            )}
+            {state.currentTool === DrawingTool.ResistBlock && (
+                <ResistBlockShapeControl shape={state.resistBlockShape} />
+            )}
+            {!toolsWithSizeControl.has(state.currentTool) && state.currentTool !== DrawingTool.ResistBlock && (
                 <p className="tool-options-empty">This tool has no additional options.</p>
             )}
         </div>
@@ -20,10 +20,15 @@ export const ToolSelector: React.FC<ToolSelectorProps> = ({ currentTool }) => {
         { tool: DrawingTool.DirectSelect, label: 'Direct Selection', icon: 'directSelect' },
         { tool: DrawingTool.Line, label: 'Line Tool', icon: 'line' },
         { tool: DrawingTool.Paintbrush, label: 'Paintbrush', icon: 'paintbrush' },
+        { tool: DrawingTool.Eraser, label: 'Eraser', icon: 'eraser' },
         { tool: DrawingTool.Rectangle, label: 'Rectangle', icon: 'rectangle' },
         { tool: DrawingTool.Square, label: 'Square', icon: 'square' },
         { tool: DrawingTool.Circle, label: 'Circle', icon: 'circle' },
+        { tool: DrawingTool.Ellipse, label: 'Ellipse', icon: 'ellipse' },
+        { tool: DrawingTool.Polygon, label: 'Polygon', icon: 'polygon' },
+        { tool: DrawingTool.Star, label: 'Star', icon: 'star' },
         { tool: DrawingTool.Bezier, label: 'Bézier Curve', icon: 'bezier' },
+        { tool: DrawingTool.ResistBlock, label: 'Resist Block', icon: 'resistBlock' },
     ];
 
     return (
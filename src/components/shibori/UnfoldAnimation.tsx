@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAppSelector } from '../../hooks/useReduxHooks';
+import {
+    createUnfoldFrameBuffers,
+    getStepProgress,
+    getUnfoldSequence,
+    renderUnfoldFrame,
+    UnfoldFrameBuffers,
+} from '../../rendering/foldAnimation';
+import { logger } from '../../utils/logger';
+
+/** Time for one crease to swing open during playback. */
+const STEP_DURATION_MS = 1200;
+/** The animation is drawn scaled down so every frame stays cheap. */
+const MAX_ANIMATION_SIDE = 1024;
+const SCRUB_STEPS = 1000;
+
+interface UnfoldAnimationProps {
+    foldedCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+}
+
+/**
+ * Opens the folded cloth one crease at a time, horizontal folds first, then
+ * vertical, then diagonal, so the unfolded pattern can be traced back to the
+ * folds that made it. Plays through or scrubs to any point in between.
+ */
+export const UnfoldAnimation: React.FC<UnfoldAnimationProps> = ({ foldedCanvasRef }) => {
+    const history = useAppSelector((state) => state.shibori.history);
+    const historyPreviewLength = useAppSelector((state) => state.shibori.historyPreviewLength);
+    const folds = useAppSelector((state) => state.shibori.folds);
+    const canvasDimensions = useAppSelector((state) => state.shibori.canvasDimensions);
+    const backgroundColor = useAppSelector((state) => state.shibori.backgroundColor);
+    const [progress, setProgress] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const progressRef = useRef(0);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const buffersRef = useRef<UnfoldFrameBuffers | null>(null);
+    const scale = Math.min(1, MAX_ANIMATION_SIDE / Math.max(canvasDimensions.width, canvasDimensions.height));
+    const width = Math.max(1, Math.round(canvasDimensions.width * scale));
+    const height = Math.max(1, Math.round(canvasDimensions.height * scale));
+    const sequence = getUnfoldSequence(folds, { width, height });
+    const stepCount = sequence?.steps.length ?? 0;
+    const duration = Math.max(1, stepCount) * STEP_DURATION_MS;
+
+    const seek = (value: number) => {
+        progressRef.current = value;
+        setProgress(value);
+    };
+
+    useEffect(() => {
+        if (!isPlaying) return;
+
+        let frame = 0;
+        let lastTime: number | null = null;
+        const tick = (time: number) => {
+            const elapsed = lastTime === null ? 0 : time - lastTime;
+            lastTime = time;
+            const next = Math.min(1, progressRef.current + elapsed / duration);
+            progressRef.current = next;
+            setProgress(next);
+            if (next >= 1) {
+                setIsPlaying(false);
+                return;
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, duration]);
+
+    // The folded canvas repaints before this effect whenever the drawing,
+    // preview step, background or folds change, so those redraw the frame too.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const foldedCanvas = foldedCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !foldedCanvas || !ctx) return;
+
+        if (!buffersRef.current) buffersRef.current = createUnfoldFrameBuffers();
+        try {
+            renderUnfoldFrame(ctx, foldedCanvas, folds, progress, buffersRef.current);
+        } catch (error) {
+            logger.error('Error rendering unfold animation', error as Error);
+        }
+    }, [foldedCanvasRef, folds, progress, history, historyPreviewLength, backgroundColor, width, height]);
+
+    if (!sequence) {
+        return (
+            <p className="unfold-animation-note">
+                Kaleidoscope folds have no straight creases to open one at a time.
+            </p>
+        );
+    }
+
+    const handlePlay = () => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
+        }
+        if (progressRef.current >= 1) seek(0);
+        setIsPlaying(true);
+    };
+
+    const handleScrub = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setIsPlaying(false);
+        seek(Number(event.target.value) / SCRUB_STEPS);
+    };
+
+    return (
+        <div className="unfold-animation">
+            <div className="unfold-animation-controls">
+                <button type="button" className="unfold-animation-play" onClick={handlePlay}>
+                    {isPlaying ? 'Pause' : progress >= 1 ? 'Replay' : 'Play'}
+                </button>
+                <input
+                    type="range"
+                    className="unfold-animation-scrubber"
+                    min={0}
+                    max={SCRUB_STEPS}
+                    value={Math.round(progress * SCRUB_STEPS)}
+                    onChange={handleScrub}
+                    aria-label="Unfold progress"
+                />
+                <span className="unfold-animation-step" data-testid="unfold-step">
+                    {describeProgress(sequence.steps.map((step) => step.axis), progress)}
+                </span>
+            </div>
+            <div
+                className="unfold-animation-frame"
+                style={{ '--canvas-aspect': width / height } as React.CSSProperties}
+            >
+                <canvas
+                    ref={canvasRef}
+                    width={width}
+                    height={height}
+                    aria-label="Unfold animation"
+                />
+            </div>
+        </div>
+    );
+};
+
+function describeProgress(axes: string[], progress: number): string {
+    if (axes.length === 0) return 'No folds to open';
+    if (progress <= 0) return 'Folded';
+    if (progress >= 1) return 'Unfolded';
+
+    const index = axes.findIndex((_, step) => getStepProgress(progress, axes.length, step) < 1);
+    return `Opening ${axes[index]} crease, step ${index + 1} of ${axes.length}`;
+}
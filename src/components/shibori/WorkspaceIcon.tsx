@@ -5,16 +5,40 @@ export type WorkspaceIconName =
     | 'directSelect'
     | 'line'
     | 'paintbrush'
+    | 'eraser'
     | 'rectangle'
     | 'square'
     | 'circle'
+    | 'ellipse'
+    | 'polygon'
+    | 'star'
     | 'bezier'
+    | 'resistBlock'
     | 'undo'
+    | 'redo'
+    | 'rotate'
+    | 'scale'
+    | 'flipHorizontal'
+    | 'flipVertical'
+    | 'duplicate'
+    | 'history'
     | 'clear'
     | 'guides'
     | 'download'
+    | 'downloadVector'
+    | 'print'
+    | 'tiles'
+    | 'unfold'
     | 'share'
     | 'settings'
+    | 'layers'
+    | 'group'
+    | 'eye'
+    | 'eyeOff'
+    | 'lock'
+    | 'unlock'
+    | 'bringForward'
+    | 'sendBackward'
     | 'close';
 
 interface WorkspaceIconProps {
@@ -44,22 +68,70 @@ export const WorkspaceIcon: React.FC<WorkspaceIconProps> = ({ name, size = 20 })
             return <svg {...commonProps}><path d="M5 19L19 5" /><circle cx="5" cy="19" r="1.5" /><circle cx="19" cy="5" r="1.5" /></svg>;
         case 'paintbrush':
             return <svg {...commonProps}><path d="M14 5l5 5-8.5 8.5-5-5L14 5z" /><path d="M5.5 13.5C3 16 4.5 20 1.8 21c3.8.7 6.7-.6 8.7-2.5" /><path d="M16 3l5 5-2 2-5-5 2-2z" /></svg>;
+        case 'eraser':
+            return <svg {...commonProps}><path d="M14.5 4.5l5 5-9 9h-5l-2.5-2.5a1.5 1.5 0 010-2.1L14.5 4.5z" /><path d="M9 10l5 5" /><path d="M10.5 18.5H20" /></svg>;
         case 'rectangle':
             return <svg {...commonProps}><rect x="3.5" y="6" width="17" height="12" rx="1" /></svg>;
         case 'square':
             return <svg {...commonProps}><rect x="5" y="5" width="14" height="14" rx="1" /></svg>;
         case 'circle':
             return <svg {...commonProps}><circle cx="12" cy="12" r="7" /></svg>;
+        case 'ellipse':
+            return <svg {...commonProps}><ellipse cx="12" cy="12" rx="8.5" ry="5.5" /></svg>;
+        case 'polygon':
+            return <svg {...commonProps}><path d="M12 4l6.9 4v8L12 20l-6.9-4V8L12 4z" /></svg>;
+        case 'star':
+            return <svg {...commonProps}><path d="M12 4l2.1 5.6 6 .3-4.7 3.7 1.6 5.8-5-3.3-5 3.3 1.6-5.8-4.7-3.7 6-.3L12 4z" /></svg>;
         case 'bezier':
             return <svg {...commonProps}><path d="M4 17C7 4 17 20 20 7" /><path d="M4 7h16" strokeDasharray="2 2" /><circle cx="4" cy="17" r="1.5" /><circle cx="20" cy="7" r="1.5" /><circle cx="4" cy="7" r="1" /><circle cx="20" cy="7" r="1" /></svg>;
+        case 'resistBlock':
+            return <svg {...commonProps}><path d="M3 6.5h18M3 17.5h18" /><rect x="7.5" y="8.5" width="9" height="7" rx="0.5" /><path d="M5 4v16M19 4v16" /></svg>;
         case 'undo':
             return <svg {...commonProps}><path d="M9 8H4V3" /><path d="M4 8c2.1-2.7 5-4 8.4-3.5A8 8 0 112 13" /></svg>;
+        case 'redo':
+            return <svg {...commonProps}><path d="M15 8h5V3" /><path d="M20 8c-2.1-2.7-5-4-8.4-3.5A8 8 0 1022 13" /></svg>;
+        case 'rotate':
+            return <svg {...commonProps}><path d="M20 12a8 8 0 11-2.3-5.7" /><path d="M20 4v4.5h-4.5" /><rect x="9" y="9" width="6" height="6" rx="0.5" /></svg>;
+        case 'scale':
+            return <svg {...commonProps}><rect x="3" y="11" width="10" height="10" rx="0.5" /><path d="M13 3h8v8" /><path d="M21 3l-8 8" /></svg>;
+        case 'flipHorizontal':
+            return <svg {...commonProps}><path d="M12 3v18" strokeDasharray="2 2" /><path d="M9 6L3 18h6V6z" /><path d="M15 6l6 12h-6V6z" /></svg>;
+        case 'flipVertical':
+            return <svg {...commonProps}><path d="M3 12h18" strokeDasharray="2 2" /><path d="M6 9L18 3v6H6z" /><path d="M6 15l12 6v-6H6z" /></svg>;
+        case 'duplicate':
+            return <svg {...commonProps}><rect x="8" y="8" width="12" height="12" rx="1.5" /><path d="M16 8V5.5A1.5 1.5 0 0 0 14.5 4h-9A1.5 1.5 0 0 0 4 5.5v9A1.5 1.5 0 0 0 5.5 16H8" /></svg>;
+        case 'layers':
+            return <svg {...commonProps}><path d="M12 3l9 5-9 5-9-5 9-5z" /><path d="M3 12.5l9 5 9-5" /><path d="M3 17l9 5 9-5" /></svg>;
+        case 'group':
+            return <svg {...commonProps}><rect x="3" y="3" width="18" height="18" rx="1.5" strokeDasharray="2 2" /><rect x="6.5" y="6.5" width="6" height="6" rx="0.5" /><circle cx="15" cy="15" r="3" /></svg>;
+        case 'eye':
+            return <svg {...commonProps}><path d="M2 12s3.6-7 10-7 10 7 10 7-3.6 7-10 7S2 12 2 12z" /><circle cx="12" cy="12" r="3" /></svg>;
+        case 'eyeOff':
+            return <svg {...commonProps}><path d="M2 12s3.6-7 10-7 10 7 10 7-3.6 7-10 7S2 12 2 12z" /><circle cx="12" cy="12" r="3" /><path d="M4 4l16 16" /></svg>;
+        case 'lock':
+            return <svg {...commonProps}><rect x="5" y="11" width="14" height="10" rx="1.5" /><path d="M8 11V7a4 4 0 018 0v4" /></svg>;
+        case 'unlock':
+            return <svg {...commonProps}><rect x="5" y="11" width="14" height="10" rx="1.5" /><path d="M8 11V7a4 4 0 017.5-2" /></svg>;
+        case 'bringForward':
+            return <svg {...commonProps}><rect x="3" y="9" width="12" height="12" rx="1" strokeDasharray="2 2" /><rect x="9" y="3" width="12" height="12" rx="1" fill="currentColor" fillOpacity="0.25" /></svg>;
+        case 'sendBackward':
+            return <svg {...commonProps}><rect x="9" y="3" width="12" height="12" rx="1" strokeDasharray="2 2" fill="currentColor" fillOpacity="0.25" /><rect x="3" y="9" width="12" height="12" rx="1" /></svg>;
+        case 'history':
+            return <svg {...commonProps}><circle cx="12" cy="12" r="8" /><path d="M12 8v4l3 2" /></svg>;
         case 'clear':
             return <svg {...commonProps}><path d="M4 7h16" /><path d="M9 7V4h6v3" /><path d="M7 7l1 13h8l1-13" /><path d="M10 11v5M14 11v5" /></svg>;
         case 'guides':
             return <svg {...commonProps}><rect x="3" y="3" width="18" height="18" rx="2" /><path d="M12 3v18M3 12h18M3 3l18 18M21 3L3 21" strokeDasharray="2 2" /></svg>;
         case 'download':
             return <svg {...commonProps}><path d="M12 3v12" /><path d="M7 10l5 5 5-5" /><path d="M4 20h16" /></svg>;
+        case 'downloadVector':
+            return <svg {...commonProps}><path d="M12 3v9" /><path d="M8 8l4 4 4-4" /><path d="M4 20c3-4.5 13-4.5 16 0" /><circle cx="4" cy="20" r="1.5" /><circle cx="20" cy="20" r="1.5" /></svg>;
+        case 'print':
+            return <svg {...commonProps}><path d="M7 8V3h10v5" /><rect x="3" y="8" width="18" height="9" rx="1.5" /><path d="M7 14h10v7H7z" /></svg>;
+        case 'tiles':
+            return <svg {...commonProps}><rect x="3" y="3" width="18" height="18" rx="1.5" /><path d="M9 3v18M15 3v18M3 9h18M3 15h18" /></svg>;
+        case 'unfold':
+            return <svg {...commonProps}><rect x="12" y="4" width="8" height="16" rx="1" /><path d="M12 4L5 7v10l7 3" /><path d="M8.5 9.5v7" strokeDasharray="1.5 1.5" /></svg>;
         case 'share':
             return <svg {...commonProps}><circle cx="18" cy="5" r="2.5" /><circle cx="6" cy="12" r="2.5" /><circle cx="18" cy="19" r="2.5" /><path d="M8.3 10.9l7.4-4.6M8.3 13.1l7.4 4.6" /></svg>;
         case 'settings':
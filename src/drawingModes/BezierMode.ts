@@ -17,10 +17,11 @@ import {
   getBezierPathBounds,
   getBezierSegments,
   legacyPointsToPath,
+  scaleBezierPath,
   traceBezierPath,
   translateBezierPath,
 } from '../utils/bezierPath';
-import { distanceToPolyline, expandBounds } from '../utils/geometryMath';
+import { distanceToPolyline, expandBounds, isPointInPolygon } from '../utils/geometryMath';
 
 const CLOSE_TOLERANCE = 16;
 
@@ -52,6 +53,12 @@ export const BezierGeometry: DrawingModeGeometry = {
     if (!path) return item;
     return { ...item, points: [], path: translateBezierPath(path, delta) } as BezierPathHistoryItem;
   },
+  scale(item, origin, scale) {
+    if (item.action !== DrawingTool.Bezier) return item;
+    const path = pathForItem(item);
+    if (!path) return item;
+    return { ...item, points: [], path: scaleBezierPath(path, origin, scale) } as BezierPathHistoryItem;
+  },
 };
 
 type Stage = 'idle' | 'active' | 'awaiting';
@@ -182,7 +189,7 @@ export class BezierMode implements DrawingMode {
   }
 
   private commit(context: DrawingModeContext): DrawingModeResult {
-    const { lineThickness, config, shapeFillMode } = context.getState();
+    const { lineThickness, drawingColor, shapeFillMode } = context.getState();
     const path = cloneBezierPath(this.path);
     const updateItemId = this.updateItemId;
     const originalPath = this.originalPath ? cloneBezierPath(this.originalPath) : null;
@@ -206,20 +213,20 @@ export class BezierMode implements DrawingMode {
         action: DrawingTool.Bezier,
         points: [],
         path,
-        style: { lineThickness, color: config.lineColor, shapeFillMode },
+        style: { lineThickness, color: drawingColor, shapeFillMode },
       },
     };
   }
 
   private drawPreview(context: DrawingModeContext, path: BezierPath, alpha: number): void {
     const { foldedCtx, foldedCanvas, getState } = context;
-    const { config, folds, lineThickness, shapeFillMode } = getState();
+    const { drawingColor, folds, lineThickness, shapeFillMode } = getState();
     if (this.originalFoldedCanvasState) foldedCtx.putImageData(this.originalFoldedCanvasState, 0, 0);
     foldedCtx.save();
     if (foldedCanvas) CanvasService.clipToDrawableRegion(foldedCtx, foldedCanvas, folds);
     traceBezierPath(foldedCtx, path);
-    foldedCtx.strokeStyle = config.lineColor;
-    foldedCtx.fillStyle = config.lineColor;
+    foldedCtx.strokeStyle = drawingColor;
+    foldedCtx.fillStyle = drawingColor;
     foldedCtx.lineWidth = lineThickness;
     foldedCtx.lineCap = 'round';
     foldedCtx.lineJoin = 'round';
@@ -263,14 +270,7 @@ export class BezierMode implements DrawingMode {
 
 function isPointInBezierPath(path: BezierPath, point: Point): boolean {
   const polygon = getBezierSegments(path).flatMap((segment) => flattenBezierSegment(segment.points, 32));
-  let inside = false;
-  for (let index = 0, previous = polygon.length - 1; index < polygon.length; previous = index++) {
-    const a = polygon[index];
-    const b = polygon[previous];
-    if (((a.y > point.y) !== (b.y > point.y)) &&
-        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
-  }
-  return inside;
+  return isPointInPolygon(point, polygon);
 }
 
 function getFillMode(item: Parameters<DrawingModeGeometry['hitTest']>[0]): ShapeFillMode {
@@ -2,9 +2,11 @@ import { DrawingTool, ShapeFillMode } from "../types";
 import { DrawingModeGeometry, Point } from "../types/DrawingMode";
 import {
   expandBounds,
+  getCircleCenter,
   getRectBounds,
   isPointInCircle,
   isPointNearCircleOutline,
+  scalePoint,
   translatePoint,
   translatePoints,
 } from "../utils/geometryMath";
@@ -16,17 +18,19 @@ export const CircleGeometry: DrawingModeGeometry = {
     const radius = Math.hypot(item.points[1].x - item.points[0].x, item.points[1].y - item.points[0].y);
     const fillMode = item.style?.shapeFillMode ?? item.shapeFillMode ?? ShapeFillMode.Filled;
     const tolerance = (options.lineThickness / 2) + (options.hitTolerance ?? 8);
+    const center = getCircleCenter(item);
 
     return fillMode === ShapeFillMode.Filled
-      ? isPointInCircle(point, item.points[0], radius)
-      : isPointNearCircleOutline(point, item.points[0], radius, tolerance);
+      ? isPointInCircle(point, center, radius)
+      : isPointNearCircleOutline(point, center, radius, tolerance);
   },
   getBounds(item, options) {
     if (item.points.length < 2) return null;
     const radius = Math.hypot(item.points[1].x - item.points[0].x, item.points[1].y - item.points[0].y);
+    const center = getCircleCenter(item);
     const bounds = getRectBounds(
-      { x: item.points[0].x - radius, y: item.points[0].y - radius },
-      { x: item.points[0].x + radius, y: item.points[0].y + radius }
+      { x: center.x - radius, y: center.y - radius },
+      { x: center.x + radius, y: center.y + radius }
     );
     return expandBounds(bounds, options.lineThickness / 2);
   },
@@ -39,6 +43,22 @@ export const CircleGeometry: DrawingModeGeometry = {
         : undefined,
     };
   },
+  scale(item, origin, scale) {
+    if (item.points.length < 2) return item;
+    const [center, edge] = item.points;
+    const nextCenter = scalePoint(getCircleCenter(item), origin, scale);
+    // A circle stays round, so its radius follows the larger stretch.
+    const radiusScale = Math.max(Math.abs(scale.x), Math.abs(scale.y));
+    const edgeOffset = {
+      x: (edge.x - center.x) * Math.sign(scale.x) * radiusScale,
+      y: (edge.y - center.y) * Math.sign(scale.y) * radiusScale,
+    };
+    return {
+      ...item,
+      points: [nextCenter, translatePoint(nextCenter, edgeOffset)],
+      rotationCenter: item.rotationCenter ? nextCenter : undefined,
+    };
+  },
 };
 
 export class CircleMode extends DragShapeMode {
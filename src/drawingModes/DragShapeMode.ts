@@ -2,27 +2,43 @@ import {
   DrawingMode,
   DrawingModeContext,
   DrawingModeResult,
+  PointDrawableHistoryItem,
   PointDrawingTool,
   Point,
+  PointerModifiers,
 } from "../types/DrawingMode";
 import { ShapeFillMode } from "../types";
 import { CanvasService } from "../services/CanvasService";
 
+/** Fields a shape records on its drawable besides its points and style. */
+export type ShapeDetails = Pick<PointDrawableHistoryItem, "sides" | "innerRadiusRatio" | "blockShape">;
+
 export abstract class DragShapeMode implements DrawingMode {
   private originalFoldedCanvasState: ImageData | null = null;
   private startPoint: Point | null = null;
   private lastPoint: Point | null = null;
+  private details: ShapeDetails = {};
   private active = false;
 
   protected abstract readonly tool: PointDrawingTool;
 
+  /** Shapes that are always solid, such as resist blocks, record no fill mode. */
+  protected readonly recordsFillMode: boolean = true;
+
   protected abstract drawShape(
     ctx: CanvasRenderingContext2D,
     startPoint: Point,
     endPoint: Point,
-    fillMode: ShapeFillMode
+    fillMode: ShapeFillMode,
+    details: ShapeDetails
   ): void;
 
+  /** Read once when the drag starts, so the whole drag draws the same shape. */
+  protected getShapeDetails?(context: DrawingModeContext): ShapeDetails;
+
+  /** Adjusts the dragged point for held keys, such as Shift keeping an ellipse round. */
+  protected constrainEndPoint?(startPoint: Point, point: Point, modifiers: PointerModifiers): Point;
+
   start(point: Point, context: DrawingModeContext): void {
     const {
       foldedCtx,
@@ -41,29 +57,35 @@ export abstract class DragShapeMode implements DrawingMode {
 
     this.startPoint = point;
     this.lastPoint = point;
+    this.details = this.getShapeDetails?.(context) ?? {};
     this.active = true;
   }
 
-  continue(point: Point, context: DrawingModeContext): boolean {
+  continue(point: Point, context: DrawingModeContext, modifiers: PointerModifiers = {}): boolean {
     if (!this.active || !this.startPoint) return false;
 
-    this.lastPoint = point;
-    this.drawPreview(context, this.startPoint, point, 0.6);
+    const endPoint = this.constrainEndPoint?.(this.startPoint, point, modifiers) ?? point;
+    this.lastPoint = endPoint;
+    this.drawPreview(context, this.startPoint, endPoint, 0.6);
     return true;
   }
 
-  end(point: Point | null, context: DrawingModeContext): DrawingModeResult {
+  end(point: Point | null, context: DrawingModeContext, modifiers: PointerModifiers = {}): DrawingModeResult {
     const { getState } = context;
-    const { lineThickness, config } = getState();
+    const { lineThickness, drawingColor } = getState();
 
     if (!this.active || !this.startPoint) return { status: "discard" };
 
-    const endPoint = point ?? this.lastPoint;
+    const endPoint = point
+      ? this.constrainEndPoint?.(this.startPoint, point, modifiers) ?? point
+      : this.lastPoint;
     if (!endPoint) return { status: "discard" };
 
     this.drawPreview(context, this.startPoint, endPoint, 1);
 
     const startPoint = this.startPoint;
+    const details = this.details;
+    const fillMode = this.recordsFillMode ? this.getFillMode(context) : undefined;
     this.clearStoredCanvasState();
 
     return {
@@ -71,11 +93,12 @@ export abstract class DragShapeMode implements DrawingMode {
       item: {
         action: this.tool,
         points: [startPoint, endPoint],
-        shapeFillMode: this.getFillMode(context),
+        ...details,
+        ...(fillMode ? { shapeFillMode: fillMode } : {}),
         style: {
           lineThickness,
-          color: config.lineColor,
-          shapeFillMode: this.getFillMode(context),
+          color: drawingColor,
+          ...(fillMode ? { shapeFillMode: fillMode } : {}),
         },
       },
     };
@@ -98,7 +121,7 @@ export abstract class DragShapeMode implements DrawingMode {
     alpha: number
   ): void {
     const { getState, foldedCtx, foldedCanvas } = context;
-    const { config, folds, lineThickness } = getState();
+    const { drawingColor, folds, lineThickness } = getState();
 
     if (this.originalFoldedCanvasState) {
       foldedCtx.putImageData(this.originalFoldedCanvasState, 0, 0);
@@ -108,13 +131,13 @@ export abstract class DragShapeMode implements DrawingMode {
     if (foldedCanvas) {
       CanvasService.clipToDrawableRegion(foldedCtx, foldedCanvas, folds);
     }
-    foldedCtx.strokeStyle = config.lineColor;
+    foldedCtx.strokeStyle = drawingColor;
     foldedCtx.lineWidth = lineThickness;
     foldedCtx.globalAlpha = alpha;
     foldedCtx.lineCap = "round";
     foldedCtx.lineJoin = "round";
-    foldedCtx.fillStyle = config.lineColor;
-    this.drawShape(foldedCtx, startPoint, endPoint, this.getFillMode(context));
+    foldedCtx.fillStyle = drawingColor;
+    this.drawShape(foldedCtx, startPoint, endPoint, this.getFillMode(context), this.details);
     foldedCtx.restore();
 
   }
@@ -129,6 +152,7 @@ export abstract class DragShapeMode implements DrawingMode {
     this.originalFoldedCanvasState = null;
     this.startPoint = null;
     this.lastPoint = null;
+    this.details = {};
     this.active = false;
   }
 }
@@ -1,10 +1,15 @@
 import { DrawingTool } from '../types';
 import { DrawableDrawingTool, DrawingMode, DrawingModeGeometry } from '../types/DrawingMode';
 import { CircleGeometry, CircleMode } from './CircleMode';
+import { EllipseGeometry, EllipseMode } from './EllipseMode';
+import { EraserMode } from './EraserMode';
 import { LineGeometry, LineMode } from './LineMode';
 import { PaintbrushGeometry, PaintbrushMode } from './PaintbrushMode';
+import { PolygonGeometry, PolygonMode } from './PolygonMode';
 import { RectangleGeometry, RectangleMode } from './RectangleMode';
+import { ResistBlockGeometry, ResistBlockMode } from './ResistBlockMode';
 import { SquareGeometry, SquareMode } from './SquareMode';
+import { StarMode } from './StarMode';
 import { BezierGeometry, BezierMode } from './BezierMode';
 
 export class DrawingModeFactory {
@@ -12,10 +17,15 @@ export class DrawingModeFactory {
     private static geometry: Record<DrawableDrawingTool, DrawingModeGeometry> = {
         [DrawingTool.Line]: LineGeometry,
         [DrawingTool.Paintbrush]: PaintbrushGeometry,
+        [DrawingTool.Eraser]: PaintbrushGeometry,
         [DrawingTool.Rectangle]: RectangleGeometry,
         [DrawingTool.Square]: SquareGeometry,
         [DrawingTool.Circle]: CircleGeometry,
+        [DrawingTool.Ellipse]: EllipseGeometry,
+        [DrawingTool.Polygon]: PolygonGeometry,
+        [DrawingTool.Star]: PolygonGeometry,
         [DrawingTool.Bezier]: BezierGeometry,
+        [DrawingTool.ResistBlock]: ResistBlockGeometry,
     };
     static getTool(tool: DrawableDrawingTool): DrawingMode {
         let instance = this.instances.get(tool);
@@ -43,6 +53,9 @@ export class DrawingModeFactory {
             case DrawingTool.Paintbrush:
                 return new PaintbrushMode();
 
+            case DrawingTool.Eraser:
+                return new EraserMode();
+
             case DrawingTool.Rectangle:
                 return new RectangleMode();
 
@@ -52,9 +65,21 @@ export class DrawingModeFactory {
             case DrawingTool.Circle:
                 return new CircleMode();
 
+            case DrawingTool.Ellipse:
+                return new EllipseMode();
+
+            case DrawingTool.Polygon:
+                return new PolygonMode();
+
+            case DrawingTool.Star:
+                return new StarMode();
+
             case DrawingTool.Bezier:
                 return new BezierMode();
 
+            case DrawingTool.ResistBlock:
+                return new ResistBlockMode();
+
             default:
                 // asserts that this switch is exhaustive
                 assertNever(tool);
@@ -0,0 +1,132 @@
+import { DrawingTool, ShapeFillMode } from "../types";
+import { DrawableHistoryItem, DrawingModeGeometry, Point, PointerModifiers } from "../types/DrawingMode";
+import {
+  expandBounds,
+  isMirroringScale,
+  isPointInEllipse,
+  isPointNearEllipseOutline,
+  rotatePoint,
+  scalePoint,
+  scalePoints,
+  scaleRotatedShape,
+  translatePoint,
+  translatePoints,
+} from "../utils/geometryMath";
+import { DragShapeMode } from "./DragShapeMode";
+
+/** Half the width and height of an ellipse drawn from its center out to a bounding-box corner. */
+export function getEllipseRadii(item: DrawableHistoryItem): Point {
+  return {
+    x: Math.abs(item.points[1].x - item.points[0].x),
+    y: Math.abs(item.points[1].y - item.points[0].y),
+  };
+}
+
+export const EllipseGeometry: DrawingModeGeometry = {
+  hitTest(item, point, options) {
+    if (item.points.length < 2) return false;
+    const center = item.points[0];
+    const radii = getEllipseRadii(item);
+    const localPoint = item.rotation
+      ? rotatePoint(point, item.rotationCenter ?? center, -item.rotation)
+      : point;
+    const fillMode = item.style?.shapeFillMode ?? item.shapeFillMode ?? ShapeFillMode.Filled;
+    const tolerance = (options.lineThickness / 2) + (options.hitTolerance ?? 8);
+
+    return fillMode === ShapeFillMode.Filled
+      ? isPointInEllipse(localPoint, center, radii.x, radii.y)
+      : isPointNearEllipseOutline(localPoint, center, radii.x, radii.y, tolerance);
+  },
+  getBounds(item, options) {
+    if (item.points.length < 2) return null;
+    const radii = getEllipseRadii(item);
+    const rotation = item.rotation ?? 0;
+    const center = rotation
+      ? rotatePoint(item.points[0], item.rotationCenter ?? item.points[0], rotation)
+      : item.points[0];
+    // The extent of a turned ellipse along each canvas axis
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const halfWidth = Math.hypot(radii.x * cos, radii.y * sin);
+    const halfHeight = Math.hypot(radii.x * sin, radii.y * cos);
+    return expandBounds({
+      minX: center.x - halfWidth,
+      minY: center.y - halfHeight,
+      maxX: center.x + halfWidth,
+      maxY: center.y + halfHeight,
+    }, options.lineThickness / 2);
+  },
+  translate(item, delta) {
+    return {
+      ...item,
+      points: translatePoints(item.points, delta),
+      rotationCenter: item.rotationCenter
+        ? translatePoint(item.rotationCenter, delta)
+        : undefined,
+    };
+  },
+  scale(item, origin, scale) {
+    if (!item.rotation || item.points.length < 2) {
+      return {
+        ...item,
+        points: scalePoints(item.points, origin, scale),
+        rotationCenter: item.rotationCenter
+          ? scalePoint(item.rotationCenter, origin, scale)
+          : undefined,
+      };
+    }
+    const center = item.points[0];
+    const scaled = scaleRotatedShape(
+      item.points,
+      center,
+      item.rotationCenter ?? center,
+      item.rotation,
+      origin,
+      scale
+    );
+    return {
+      ...item,
+      points: scaled.points,
+      rotation: isMirroringScale(scale) ? -item.rotation : item.rotation,
+      rotationCenter: scaled.center,
+    };
+  },
+};
+
+export class EllipseMode extends DragShapeMode {
+  protected readonly tool = DrawingTool.Ellipse;
+
+  protected constrainEndPoint(startPoint: Point, point: Point, modifiers: PointerModifiers): Point {
+    if (!modifiers.shiftKey) return point;
+    const deltaX = point.x - startPoint.x;
+    const deltaY = point.y - startPoint.y;
+    const radius = Math.max(Math.abs(deltaX), Math.abs(deltaY));
+
+    return {
+      x: startPoint.x + Math.sign(deltaX || 1) * radius,
+      y: startPoint.y + Math.sign(deltaY || 1) * radius,
+    };
+  }
+
+  protected drawShape(
+    ctx: CanvasRenderingContext2D,
+    startPoint: Point,
+    endPoint: Point,
+    fillMode: ShapeFillMode
+  ): void {
+    const radiusX = Math.abs(endPoint.x - startPoint.x);
+    const radiusY = Math.abs(endPoint.y - startPoint.y);
+
+    if (radiusX <= 0 || radiusY <= 0) return;
+
+    ctx.beginPath();
+    ctx.ellipse(startPoint.x, startPoint.y, radiusX, radiusY, 0, 0, Math.PI * 2);
+
+    if (fillMode === ShapeFillMode.Filled) {
+      ctx.fill();
+      return;
+    }
+
+    ctx.stroke();
+  }
+}
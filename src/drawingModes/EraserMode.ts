@@ -0,0 +1,24 @@
+import { DrawingTool } from '../types';
+import { State } from '../store/shiboriCanvasState';
+import { TRANSPARENT_BACKGROUND } from '../utils/drawingColor';
+import { PaintbrushMode } from './PaintbrushMode';
+
+/**
+ * A brush stroke that cuts through the marks beneath it. It is recorded like
+ * a paintbrush stroke and replayed with `destination-out` compositing.
+ */
+export class EraserMode extends PaintbrushMode {
+    protected readonly tool = DrawingTool.Eraser;
+
+    protected fillStroke(ctx: CanvasRenderingContext2D, state: State): void {
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.fillStyle = '#000';
+        ctx.fill();
+        if (state.backgroundColor === TRANSPARENT_BACKGROUND) return;
+
+        // Show the cloth through the cut rather than whatever is behind the canvas
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = state.backgroundColor;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+}
@@ -11,6 +11,8 @@ import {
   distanceToSegment,
   expandBounds,
   getBoundsFromPoints,
+  scalePoint,
+  scalePoints,
   translatePoint,
   translatePoints,
 } from "../utils/geometryMath";
@@ -34,6 +36,15 @@ export const LineGeometry: DrawingModeGeometry = {
         : undefined,
     };
   },
+  scale(item, origin, scale) {
+    return {
+      ...item,
+      points: scalePoints(item.points, origin, scale),
+      rotationCenter: item.rotationCenter
+        ? scalePoint(item.rotationCenter, origin, scale)
+        : undefined,
+    };
+  },
 };
 
 export class LineMode implements DrawingMode {
@@ -74,7 +85,7 @@ export class LineMode implements DrawingMode {
       foldedCanvas,
     } = context;
 
-    const { config, folds, lineThickness } = getState();
+    const { drawingColor, folds, lineThickness } = getState();
     if (!this.active || !this.startPoint) return false;
 
     // Restore original states
@@ -89,7 +100,7 @@ export class LineMode implements DrawingMode {
     foldedCtx.beginPath();
     foldedCtx.moveTo(this.startPoint.x, this.startPoint.y);
     foldedCtx.lineTo(point.x, point.y);
-    foldedCtx.strokeStyle = config.lineColor;
+    foldedCtx.strokeStyle = drawingColor;
     foldedCtx.lineWidth = lineThickness;
     foldedCtx.globalAlpha = 0.6;
     foldedCtx.stroke();
@@ -109,7 +120,7 @@ export class LineMode implements DrawingMode {
       foldedCanvas,
     } = context;
 
-    const { config, folds, lineThickness } = getState();
+    const { drawingColor, folds, lineThickness } = getState();
     if (!this.active || !this.startPoint || !this.lastPoint) return { status: "discard" };
 
     if (point) {
@@ -124,7 +135,7 @@ export class LineMode implements DrawingMode {
     foldedCtx.beginPath();
     foldedCtx.moveTo(this.startPoint.x, this.startPoint.y);
     foldedCtx.lineTo(this.lastPoint.x, this.lastPoint.y);
-    foldedCtx.strokeStyle = config.lineColor;
+    foldedCtx.strokeStyle = drawingColor;
     foldedCtx.lineWidth = lineThickness;
     foldedCtx.stroke();
     foldedCtx.restore();
@@ -144,7 +155,7 @@ export class LineMode implements DrawingMode {
         points: [startPoint, lastPoint],
         style: {
           lineThickness,
-          color: config.lineColor,
+          color: drawingColor,
         },
       },
     };
@@ -1,9 +1,10 @@
-import { DrawingMode, DrawingModeResult, Point, DrawingModeContext } from '../types/DrawingMode';
-import { getStroke } from 'perfect-freehand';
+import { DrawingMode, DrawingModeResult, Point, DrawingModeContext, PenSample, PointerModifiers } from '../types/DrawingMode';
+import { State } from '../store/shiboriCanvasState';
 import { DrawingTool } from '../types';
 import { CanvasService } from '../services/CanvasService';
 import { DrawingModeGeometry } from '../types/DrawingMode';
-import { distanceToPolyline, expandBounds, getBoundsFromPoints, translatePoint, translatePoints } from '../utils/geometryMath';
+import { getPaintbrushOutline } from '../utils/historyRenderer';
+import { distanceToPolyline, expandBounds, getBoundsFromPoints, scalePoint, scalePoints, translatePoint, translatePoints } from '../utils/geometryMath';
 
 export const PaintbrushGeometry: DrawingModeGeometry = {
     hitTest(item, point, options) {
@@ -23,14 +24,26 @@ export const PaintbrushGeometry: DrawingModeGeometry = {
                 : undefined,
         };
     },
+    scale(item, origin, scale) {
+        return {
+            ...item,
+            points: scalePoints(item.points, origin, scale),
+            rotationCenter: item.rotationCenter
+                ? scalePoint(item.rotationCenter, origin, scale)
+                : undefined,
+        };
+    },
 };
 
 export class PaintbrushMode implements DrawingMode {
+    protected readonly tool: DrawingTool.Paintbrush | DrawingTool.Eraser = DrawingTool.Paintbrush;
     private originalFoldedCanvasState: ImageData | null = null;
     private points: Point[] = [];
+    // Kept only while every point so far came from a pen
+    private penSamples: PenSample[] | null = null;
     private active = false;
 
-    start(point: Point, context: DrawingModeContext): void {
+    start(point: Point, context: DrawingModeContext, modifiers: PointerModifiers = {}): void {
         const { foldedCtx, getFoldedCanvasDimensions } = context;
 
         // Store canvas states for preview
@@ -43,25 +56,23 @@ export class PaintbrushMode implements DrawingMode {
 
         this.active = true;
         this.points = [point];
+        this.penSamples = modifiers.pen ? [modifiers.pen] : null;
     }
 
-    continue(point: Point, context: DrawingModeContext): boolean {
+    continue(point: Point, context: DrawingModeContext, modifiers: PointerModifiers = {}): boolean {
         const { getState, foldedCtx, foldedCanvas } = context;
 
-        const { folds, lineThickness, config } = getState();
+        const state = getState();
+        const { folds, lineThickness } = state;
         if (!this.active) return false;
         this.points.push(point);
+        this.penSamples = this.penSamples && modifiers.pen ? [...this.penSamples, modifiers.pen] : null;
 
         // Draw the stroke
         if (!foldedCtx || this.points.length === 0) return false;
 
         // Get the stroke outline points from perfect-freehand
-        const stroke = getStroke(this.points, {
-            size: lineThickness * 2,
-            thinning: 0.5,
-            smoothing: 0.5,
-            streamline: 0.5,
-        });
+        const stroke = getPaintbrushOutline(this.points, lineThickness, this.penSamples ?? undefined);
 
         if (!stroke.length) return false;
 
@@ -75,7 +86,6 @@ export class PaintbrushMode implements DrawingMode {
         if (foldedCanvas) {
             CanvasService.clipToDrawableRegion(foldedCtx, foldedCanvas, folds);
         }
-        foldedCtx.fillStyle = config.lineColor;
         foldedCtx.beginPath();
 
         // Move to the first point
@@ -89,7 +99,7 @@ export class PaintbrushMode implements DrawingMode {
         }
 
         foldedCtx.closePath();
-        foldedCtx.fill();
+        this.fillStroke(foldedCtx, state);
         foldedCtx.restore();
 
         return true;
@@ -98,30 +108,40 @@ export class PaintbrushMode implements DrawingMode {
     end(_point: Point | null, context: DrawingModeContext): DrawingModeResult {
         const { getState } = context;
         if (!this.active) return { status: 'discard' };
-        const { lineThickness, config } = getState();
+        const { lineThickness, drawingColor } = getState();
         const points = this.points;
+        const penSamples = this.penSamples;
         this.active = false;
         this.points = [];
+        this.penSamples = null;
         this.originalFoldedCanvasState = null;
         return {
             status: 'commit',
             item: {
-                action: DrawingTool.Paintbrush,
+                action: this.tool,
                 points,
                 style: {
                     lineThickness,
-                    color: config.lineColor,
+                    color: drawingColor,
                 },
+                ...(penSamples ? { penSamples } : {}),
             },
         };
     }
 
+    /** Paint the traced stroke outline onto the folded canvas preview. */
+    protected fillStroke(ctx: CanvasRenderingContext2D, state: State): void {
+        ctx.fillStyle = state.drawingColor;
+        ctx.fill();
+    }
+
     cancel(context: DrawingModeContext): void {
         if (this.originalFoldedCanvasState) {
             context.foldedCtx.putImageData(this.originalFoldedCanvasState, 0, 0);
         }
         this.active = false;
         this.points = [];
+        this.penSamples = null;
         this.originalFoldedCanvasState = null;
     }
 } 
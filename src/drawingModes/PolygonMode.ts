@@ -0,0 +1,112 @@
+import { DrawingTool, ShapeFillMode } from "../types";
+import { DrawingModeContext, DrawingModeGeometry, Point } from "../types/DrawingMode";
+import {
+  distanceToPolyline,
+  expandBounds,
+  getBoundsFromPoints,
+  isPointInPolygon,
+  rotatePoint,
+  scalePoint,
+  translatePoint,
+  translatePoints,
+} from "../utils/geometryMath";
+import {
+  DEFAULT_POLYGON_SIDES,
+  getPolygonShapeVertices,
+  getRegularPolygonVertices,
+} from "../utils/polygonShapes";
+import { DragShapeMode, ShapeDetails } from "./DragShapeMode";
+
+/**
+ * Shared by polygons and stars, which are both drawn from their center out to
+ * one outer corner and recorded as those two points.
+ */
+export const PolygonGeometry: DrawingModeGeometry = {
+  hitTest(item, point, options) {
+    const vertices = getPolygonShapeVertices(item);
+    if (vertices.length === 0) return false;
+    const fillMode = item.style?.shapeFillMode ?? item.shapeFillMode ?? ShapeFillMode.Filled;
+    const tolerance = (options.lineThickness / 2) + (options.hitTolerance ?? 8);
+
+    return fillMode === ShapeFillMode.Filled
+      ? isPointInPolygon(point, vertices)
+      : distanceToPolyline(point, [...vertices, vertices[0]]) <= tolerance;
+  },
+  getBounds(item, options) {
+    const bounds = getBoundsFromPoints(getPolygonShapeVertices(item));
+    return bounds ? expandBounds(bounds, options.lineThickness / 2) : null;
+  },
+  translate(item, delta) {
+    return {
+      ...item,
+      points: translatePoints(item.points, delta),
+      rotationCenter: item.rotationCenter
+        ? translatePoint(item.rotationCenter, delta)
+        : undefined,
+    };
+  },
+  scale(item, origin, scale) {
+    if (item.points.length < 2) return item;
+    const [center, vertex] = item.points;
+    // Bake any rotation into the corner so the shape keeps its drawn angle
+    const pivot = item.rotationCenter ?? center;
+    const drawnCenter = item.rotation ? rotatePoint(center, pivot, item.rotation) : center;
+    const drawnVertex = item.rotation ? rotatePoint(vertex, pivot, item.rotation) : vertex;
+    const nextCenter = scalePoint(drawnCenter, origin, scale);
+    // A regular shape stays regular, so its radius follows the larger stretch.
+    const radiusScale = Math.max(Math.abs(scale.x), Math.abs(scale.y));
+    const vertexOffset = {
+      x: (drawnVertex.x - drawnCenter.x) * Math.sign(scale.x) * radiusScale,
+      y: (drawnVertex.y - drawnCenter.y) * Math.sign(scale.y) * radiusScale,
+    };
+    return {
+      ...item,
+      points: [nextCenter, translatePoint(nextCenter, vertexOffset)],
+      rotation: undefined,
+      rotationCenter: undefined,
+    };
+  },
+};
+
+/** Draws the outline through `vertices`, closed, and fills or strokes it. */
+export function drawPolygonShape(
+  ctx: CanvasRenderingContext2D,
+  vertices: Point[],
+  fillMode: ShapeFillMode
+): void {
+  if (vertices.length < 3) return;
+
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  for (let i = 1; i < vertices.length; i++) {
+    ctx.lineTo(vertices[i].x, vertices[i].y);
+  }
+  ctx.closePath();
+
+  if (fillMode === ShapeFillMode.Filled) {
+    ctx.fill();
+    return;
+  }
+
+  ctx.stroke();
+}
+
+export class PolygonMode extends DragShapeMode {
+  protected readonly tool = DrawingTool.Polygon;
+
+  protected getShapeDetails(context: DrawingModeContext): ShapeDetails {
+    return { sides: context.getState().polygonSides };
+  }
+
+  protected drawShape(
+    ctx: CanvasRenderingContext2D,
+    startPoint: Point,
+    endPoint: Point,
+    fillMode: ShapeFillMode,
+    details: ShapeDetails
+  ): void {
+    if (startPoint.x === endPoint.x && startPoint.y === endPoint.y) return;
+    const vertices = getRegularPolygonVertices(startPoint, endPoint, details.sides ?? DEFAULT_POLYGON_SIDES);
+    drawPolygonShape(ctx, vertices, fillMode);
+  }
+}
@@ -0,0 +1,132 @@
+import { DrawingTool, ResistBlockShape, ShapeFillMode } from "../types";
+import { DrawingModeContext, DrawingModeGeometry, Point } from "../types/DrawingMode";
+import {
+  getBoundsFromPoints,
+  isMirroringScale,
+  isPointInCircle,
+  isPointInPolygon,
+  rotatePoint,
+  scalePoint,
+  scalePoints,
+  scaleRotatedShape,
+  translatePoint,
+  translatePoints,
+} from "../utils/geometryMath";
+import { TRANSPARENT_BACKGROUND } from "../utils/drawingColor";
+import {
+  DEFAULT_RESIST_BLOCK_SHAPE,
+  getResistBlockItemOutline,
+  getResistBlockOutline,
+  traceResistBlockOutline,
+} from "../utils/resistBlocks";
+import { DragShapeMode, ShapeDetails } from "./DragShapeMode";
+
+/**
+ * Blocks are solid, so they hit and bound by their whole outline. They are
+ * drawn from the center, like polygons, and keep their rotation as metadata
+ * like ellipses so a rectangle block can turn.
+ */
+export const ResistBlockGeometry: DrawingModeGeometry = {
+  hitTest(item, point) {
+    const outline = getResistBlockItemOutline(item);
+    if (!outline) return false;
+    return outline.kind === "circle"
+      ? isPointInCircle(point, outline.center, outline.radius)
+      : isPointInPolygon(point, outline.vertices);
+  },
+  getBounds(item) {
+    const outline = getResistBlockItemOutline(item);
+    if (!outline) return null;
+    if (outline.kind === "polygon") return getBoundsFromPoints(outline.vertices);
+    const { center, radius } = outline;
+    return {
+      minX: center.x - radius,
+      minY: center.y - radius,
+      maxX: center.x + radius,
+      maxY: center.y + radius,
+    };
+  },
+  translate(item, delta) {
+    return {
+      ...item,
+      points: translatePoints(item.points, delta),
+      rotationCenter: item.rotationCenter
+        ? translatePoint(item.rotationCenter, delta)
+        : undefined,
+    };
+  },
+  scale(item, origin, scale) {
+    if (item.points.length < 2) return item;
+    const [center, corner] = item.points;
+
+    if ((item.blockShape ?? DEFAULT_RESIST_BLOCK_SHAPE) === ResistBlockShape.Rectangle) {
+      if (!item.rotation) {
+        return {
+          ...item,
+          points: scalePoints(item.points, origin, scale),
+          rotationCenter: item.rotationCenter
+            ? scalePoint(item.rotationCenter, origin, scale)
+            : undefined,
+        };
+      }
+      const scaled = scaleRotatedShape(item.points, center, item.rotationCenter ?? center, item.rotation, origin, scale);
+      return {
+        ...item,
+        points: scaled.points,
+        rotation: isMirroringScale(scale) ? -item.rotation : item.rotation,
+        rotationCenter: scaled.center,
+      };
+    }
+
+    // A circle, triangle, or hexagon stays regular, so its size follows the larger stretch
+    const drawnCenter = item.rotation ? rotatePoint(center, item.rotationCenter ?? center, item.rotation) : center;
+    const nextCenter = scalePoint(drawnCenter, origin, scale);
+    const radiusScale = Math.max(Math.abs(scale.x), Math.abs(scale.y));
+    const cornerOffset = {
+      x: (corner.x - center.x) * Math.sign(scale.x) * radiusScale,
+      y: (corner.y - center.y) * Math.sign(scale.y) * radiusScale,
+    };
+    return {
+      ...item,
+      points: [nextCenter, translatePoint(nextCenter, cornerOffset)],
+      rotation: item.rotation && isMirroringScale(scale) ? -item.rotation : item.rotation,
+      rotationCenter: item.rotation ? nextCenter : undefined,
+    };
+  },
+};
+
+/**
+ * An itajime block clamped through every layer. It keeps the cloth undyed, so
+ * it is replayed as a knockout to the background color above all dye marks.
+ */
+export class ResistBlockMode extends DragShapeMode {
+  protected readonly tool = DrawingTool.ResistBlock;
+  protected readonly recordsFillMode = false;
+  private clothColor = TRANSPARENT_BACKGROUND;
+
+  protected getShapeDetails(context: DrawingModeContext): ShapeDetails {
+    const { resistBlockShape, backgroundColor } = context.getState();
+    this.clothColor = backgroundColor;
+    return { blockShape: resistBlockShape };
+  }
+
+  protected drawShape(
+    ctx: CanvasRenderingContext2D,
+    startPoint: Point,
+    endPoint: Point,
+    _fillMode: ShapeFillMode,
+    details: ShapeDetails
+  ): void {
+    const outline = getResistBlockOutline(details.blockShape ?? DEFAULT_RESIST_BLOCK_SHAPE, startPoint, endPoint);
+    if (!outline) return;
+
+    traceResistBlockOutline(ctx, outline);
+    if (this.clothColor === TRANSPARENT_BACKGROUND) {
+      ctx.globalCompositeOperation = "destination-out";
+      ctx.fillStyle = "#000";
+    } else {
+      ctx.fillStyle = this.clothColor;
+    }
+    ctx.fill();
+  }
+}
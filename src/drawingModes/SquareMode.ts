@@ -6,9 +6,13 @@ import {
   getRectBounds,
   getSquareEndPoint,
   isPointInBounds,
+  isMirroringScale,
   isPointNearRectOutline,
   rotateBounds,
   rotatePoint,
+  scalePoint,
+  scalePoints,
+  scaleRotatedShape,
   translatePoint,
   translatePoints,
 } from "../utils/geometryMath";
@@ -47,6 +51,32 @@ export const SquareGeometry: DrawingModeGeometry = {
         : undefined,
     };
   },
+  scale(item, origin, scale) {
+    if (!item.rotation || item.points.length < 2) {
+      return {
+        ...item,
+        points: scalePoints(item.points, origin, scale),
+        rotationCenter: item.rotationCenter
+          ? scalePoint(item.rotationCenter, origin, scale)
+          : undefined,
+      };
+    }
+    const center = getBoundsCenter(getRectBounds(item.points[0], getSquareEndPoint(item.points[0], item.points[1])));
+    const scaled = scaleRotatedShape(
+      item.points,
+      center,
+      item.rotationCenter ?? center,
+      item.rotation,
+      origin,
+      scale
+    );
+    return {
+      ...item,
+      points: scaled.points,
+      rotation: isMirroringScale(scale) ? -item.rotation : item.rotation,
+      rotationCenter: scaled.center,
+    };
+  },
 };
 
 export class SquareMode extends DragShapeMode {
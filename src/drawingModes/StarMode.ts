@@ -0,0 +1,35 @@
+import { DrawingTool, ShapeFillMode } from "../types";
+import { DrawingModeContext, Point } from "../types/DrawingMode";
+import {
+  DEFAULT_STAR_INNER_RADIUS_RATIO,
+  DEFAULT_STAR_POINTS,
+  getRegularPolygonVertices,
+} from "../utils/polygonShapes";
+import { DragShapeMode, ShapeDetails } from "./DragShapeMode";
+import { drawPolygonShape } from "./PolygonMode";
+
+export class StarMode extends DragShapeMode {
+  protected readonly tool = DrawingTool.Star;
+
+  protected getShapeDetails(context: DrawingModeContext): ShapeDetails {
+    const { starPoints, starInnerRadiusRatio } = context.getState();
+    return { sides: starPoints, innerRadiusRatio: starInnerRadiusRatio };
+  }
+
+  protected drawShape(
+    ctx: CanvasRenderingContext2D,
+    startPoint: Point,
+    endPoint: Point,
+    fillMode: ShapeFillMode,
+    details: ShapeDetails
+  ): void {
+    if (startPoint.x === endPoint.x && startPoint.y === endPoint.y) return;
+    const vertices = getRegularPolygonVertices(
+      startPoint,
+      endPoint,
+      details.sides ?? DEFAULT_STAR_POINTS,
+      details.innerRadiusRatio ?? DEFAULT_STAR_INNER_RADIUS_RATIO
+    );
+    drawPolygonShape(ctx, vertices, fillMode);
+  }
+}
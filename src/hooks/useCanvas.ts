@@ -1,4 +1,7 @@
 import { useCallback } from "react";
+import { useStore } from "react-redux";
+import { RootState } from "../store";
+import { renderUnfoldedImage } from "../rendering/printExport";
 import { useCanvasRefs } from "./useCanvasRefs";
 import { useCanvasEvents } from "./useCanvasEvents";
 import { useCanvasDrawing } from "./useCanvasDrawing";
@@ -15,6 +18,7 @@ export function useCanvas() {
   } = canvasRefs;
 
   const runtime = useCanvasRuntime(canvasRefs);
+  const store = useStore<RootState>();
 
   // Use the canvas drawing hook
   const drawingOps = useCanvasDrawing(canvasRefs, runtime);
@@ -27,7 +31,15 @@ export function useCanvas() {
     cancelDrawing: drawingOps.cancelDrawing,
     nudgeSelection: drawingOps.nudgeSelection,
     deleteSelection: drawingOps.deleteSelection,
+    copySelection: drawingOps.copySelection,
+    pasteClipboard: drawingOps.pasteClipboard,
+    duplicateSelection: drawingOps.duplicateSelection,
+    arrangeSelection: drawingOps.arrangeSelection,
+    groupSelection: drawingOps.groupSelection,
+    ungroupSelection: drawingOps.ungroupSelection,
     clearSelection: drawingOps.clearSelection,
+    undo: drawingOps.undo,
+    redo: drawingOps.redo,
     hoverDrawing: drawingOps.hoverDrawing,
     finishDrawing: drawingOps.finishDrawing,
   };
@@ -38,8 +50,12 @@ export function useCanvas() {
   const downloadUnfoldedCanvas = useCallback(() => {
     const unfoldedCanvas = unfoldedCanvasRef.current;
     if (!unfoldedCanvas) return;
-    CanvasService.downloadCanvas(unfoldedCanvas);
-  }, [unfoldedCanvasRef]);
+    const state = store.getState().shibori;
+    // Preview effects only dress the live view; the download stays clean
+    CanvasService.downloadCanvas(state.dyedPreview || state.foldDepthFade
+      ? renderUnfoldedImage(state, { width: unfoldedCanvas.width, height: unfoldedCanvas.height })
+      : unfoldedCanvas);
+  }, [store, unfoldedCanvasRef]);
 
   return {
     unfoldedCanvasRef,
@@ -49,6 +65,11 @@ export function useCanvas() {
     downloadUnfoldedCanvas,
     ...eventHandlers,
     deleteSelection: drawingOps.deleteSelection,
+    flipSelection: drawingOps.flipSelection,
+    duplicateSelection: drawingOps.duplicateSelection,
+    arrangeSelection: drawingOps.arrangeSelection,
+    groupSelection: drawingOps.groupSelection,
+    ungroupSelection: drawingOps.ungroupSelection,
     cancelDrawing: drawingOps.cancelDrawing,
     drawingGuidance: drawingOps.drawingGuidance,
     finishDrawing: drawingOps.finishDrawing,
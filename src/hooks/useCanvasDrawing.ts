@@ -6,6 +6,7 @@ import { RootState } from "../store";
 import { ActionType, State } from "../store/shiboriCanvasState";
 import { DrawingTool } from "../types";
 import {
+  ArrangeDirection,
   BezierPath,
   Bounds,
   DrawableDrawingTool,
@@ -13,6 +14,8 @@ import {
   DrawingModeContext,
   DrawingGuidance,
   Point,
+  PointerModifiers,
+  SelectionScale,
   UndoableHistoryItem,
 } from "../types/DrawingMode";
 import {
@@ -29,44 +32,82 @@ import {
   getBoundsCorners,
   getRectBounds,
   getSquareEndPoint,
+  getUnionBounds,
+  isBoundsInside,
+  rotatePoint,
   rotatePoints,
 } from "../utils/geometryMath";
 import {
   buildDrawableHistory,
+  createArrangeHistoryItems,
+  createBatchHistoryItem,
   createDeleteHistoryItem,
-  createMoveHistoryItem,
+  createFlipHistoryItem,
+  createGroupHistoryItem,
+  createGroupIdForHistory,
+  createPasteHistoryItem,
   createRotateHistoryItem,
+  createScaleHistoryItem,
+  createTranslateHistoryItem,
   createUpdatePathHistoryItem,
   DrawableHistoryItem,
-  getTranslatedHistoryItemPreview,
+  getAddedDrawableIds,
+  materializeDrawableStyles,
 } from "../utils/historyOperations";
+import { decodeDrawableClipboard, encodeDrawableClipboard } from "../utils/drawableClipboard";
+import { canDrawOnLayer, getEditableScene, resolveLayers } from "../utils/layers";
 import { logger } from "../utils/logger";
 import { CanvasRefs } from "./useCanvasRefs";
 import { CanvasRuntime } from "./useCanvasRuntime";
 import { useAppDispatch, useAppSelector } from "./useReduxHooks";
 
 const ROTATION_HANDLE_HIT_TOLERANCE = 34;
+const SCALE_HANDLE_HIT_TOLERANCE = 12;
+/**
+ * Scale handles sit this far outside the middle of each side of the frame, in
+ * folded-canvas pixels, so drawables along the frame can still be dragged.
+ */
+export const SCALE_HANDLE_OFFSET = 24;
+/** Each paste or duplicate lands this far down and right of its source, in folded-canvas pixels. */
+const PASTE_OFFSET = 20;
+/** Resizing stops short of collapsing a selection; flips are separate commands. */
+const MIN_SELECTION_SCALE = 0.05;
+
+type ScaleHandle = "n" | "e" | "s" | "w";
+
+/** The selection frame as drawn: `bounds` turned by `rotation` about `center`. */
+interface SelectionFrame {
+  bounds: Bounds;
+  center: Point;
+  rotation: number;
+}
 
 type GestureSession =
   | { kind: "draw"; tool: DrawableDrawingTool; mode: DrawingMode; context: DrawingModeContext; phase: "active-pointer" | "awaiting-next-gesture" }
-  | { kind: "move"; itemId: string; startPoint: Point; fromItem: DrawableHistoryItem }
-  | { kind: "rotate"; itemId: string; center: Point; startAngle: number; fromItem: DrawableHistoryItem }
+  | { kind: "move"; startPoint: Point; fromItems: DrawableHistoryItem[] }
+  | { kind: "rotate"; center: Point; startAngle: number; fromItems: DrawableHistoryItem[] }
+  | { kind: "scale"; frame: SelectionFrame; handle: ScaleHandle; fromItems: DrawableHistoryItem[] }
+  | { kind: "marquee"; startPoint: Point; baseIds: string[] }
   | { kind: "path-anchor"; itemId: string; startPoint: Point; fromPath: BezierPath; anchorIds: string[] }
   | { kind: "path-handle"; itemId: string; anchorId: string; side: "in" | "out"; fromPath: BezierPath; breakPair: boolean };
 
-export interface PointerModifiers {
-  shiftKey?: boolean;
-  altKey?: boolean;
-}
-
 export interface DrawingOperations {
   startDrawing: (x: number, y: number, modifiers?: PointerModifiers) => void;
   continueDrawing: (x: number, y: number, modifiers?: PointerModifiers) => void;
-  endDrawing: (point: Point | null) => void;
+  endDrawing: (point: Point | null, modifiers?: PointerModifiers) => void;
   cancelDrawing: () => void;
   nudgeSelection: (delta: Point) => void;
+  flipSelection: (axis: "horizontal" | "vertical") => void;
+  copySelection: () => string | null;
+  pasteClipboard: (text: string) => boolean;
+  duplicateSelection: () => void;
+  arrangeSelection: (direction: ArrangeDirection) => void;
+  groupSelection: () => void;
+  ungroupSelection: () => void;
   deleteSelection: () => void;
   clearSelection: () => void;
+  undo: () => void;
+  redo: () => void;
   drawingGuidance: DrawingGuidance | null;
   hoverDrawing: (x: number, y: number) => void;
   finishDrawing: () => void;
@@ -74,13 +115,15 @@ export interface DrawingOperations {
   convertPathSelection: () => void;
 }
 
-/** Owns one local drawing, move, or rotate session at a time. */
+/** Owns one local drawing, move, rotate, scale, or marquee session at a time. */
 export function useCanvasDrawing(
   canvasRefs: CanvasRefs,
   runtime: CanvasRuntime
 ): DrawingOperations {
   const dispatch = useAppDispatch();
   const sessionRef = useRef<GestureSession | null>(null);
+  // Pasting the same clipboard again cascades each copy below the previous one.
+  const pasteRef = useRef<{ text: string | null; count: number }>({ text: null, count: 0 });
   const [drawingGuidance, setDrawingGuidance] = useState<DrawingGuidance | null>(null);
   const [hasPendingDrawing, setHasPendingDrawing] = useState(false);
   const store = useStore<RootState>();
@@ -128,10 +171,17 @@ export function useCanvasDrawing(
       return;
     }
 
+    if (session.kind === "marquee") {
+      dispatch({ type: ActionType.SET_SELECTION_MARQUEE, payload: null });
+      return;
+    }
+
     dispatch({
       type: session.kind === "move"
         ? ActionType.SET_SELECTION_DRAG_DELTA
-        : ActionType.SET_SELECTION_ROTATION_PREVIEW,
+        : session.kind === "rotate"
+          ? ActionType.SET_SELECTION_ROTATION_PREVIEW
+          : ActionType.SET_SELECTION_SCALE_PREVIEW,
       payload: null,
     });
   }, [dispatch, scheduleUnfoldedUpdate]);
@@ -172,28 +222,110 @@ export function useCanvasDrawing(
       });
       return;
     }
-    const movedItem = getTranslatedHistoryItemPreview(selectedItem, delta);
-    if (selectedItem.action === DrawingTool.Bezier && movedItem.action === DrawingTool.Bezier && selectedItem.path && movedItem.path) {
-      dispatch({
-        type: ActionType.ADD_HISTORY_ITEM,
-        payload: createUpdatePathHistoryItem(selectedId, selectedItem.path, movedItem.path),
-      });
-      return;
-    }
     dispatch({
       type: ActionType.ADD_HISTORY_ITEM,
-      payload: createMoveHistoryItem(
-        selectedId,
-        selectedItem.points,
-        movedItem.points,
-        selectedItem.rotation,
-        movedItem.rotation,
-        selectedItem.rotationCenter,
-        movedItem.rotationCenter
+      payload: createBatchHistoryItem(
+        findSelectedDrawables(currentState).map((item) => createTranslateHistoryItem(item, delta))
       ),
     });
   }, [dispatch, getState]);
 
+  /** Mirror the selection across the middle of its bounds. */
+  const flipSelection = useCallback((axis: "horizontal" | "vertical") => {
+    const currentState = getState();
+    if (currentState.historyPreviewLength !== null) return;
+    const selectedItems = findSelectedDrawables(currentState);
+    const bounds = getDrawablesBounds(selectedItems, currentState.lineThickness);
+    if (!bounds) return;
+    cancelDrawing();
+    const center = getBoundsCenter(bounds);
+    dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: createBatchHistoryItem(
+        selectedItems.map((item) => createFlipHistoryItem(item, axis, center))
+      ),
+    });
+  }, [cancelDrawing, dispatch, getState]);
+
+  /** Add copies of `items` as one command and select them. */
+  const addCopies = useCallback((items: DrawableHistoryItem[], offset: Point) => {
+    const currentState = getState();
+    if (currentState.historyPreviewLength !== null || items.length === 0) return;
+    cancelDrawing();
+    const pasted = createPasteHistoryItem(items, offset, currentState.history);
+    dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: pasted });
+    if (currentState.currentTool !== DrawingTool.SelectMove) {
+      dispatch({ type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool.SelectMove });
+    }
+    dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS, payload: getAddedDrawableIds(pasted) });
+  }, [cancelDrawing, dispatch, getState]);
+
+  /** Clipboard text for the selection, or null when nothing is selected. */
+  const copySelection = useCallback((): string | null => {
+    const currentState = getState();
+    const selectedItems = findSelectedDrawables(currentState);
+    if (selectedItems.length === 0) return null;
+    const text = encodeDrawableClipboard(materializeDrawableStyles(selectedItems, {
+      lineThickness: currentState.lineThickness,
+      color: currentState.drawingColor,
+      shapeFillMode: currentState.shapeFillMode,
+    }) as DrawableHistoryItem[]);
+    pasteRef.current = { text, count: 0 };
+    return text;
+  }, [getState]);
+
+  /** Paste copied drawables; other clipboard text is left alone. */
+  const pasteClipboard = useCallback((text: string): boolean => {
+    const items = decodeDrawableClipboard(text);
+    if (!items) return false;
+    const count = pasteRef.current.text === text ? pasteRef.current.count + 1 : 1;
+    pasteRef.current = { text, count };
+    addCopies(items, { x: PASTE_OFFSET * count, y: PASTE_OFFSET * count });
+    return true;
+  }, [addCopies]);
+
+  const duplicateSelection = useCallback(() => {
+    addCopies(findSelectedDrawables(getState()), { x: PASTE_OFFSET, y: PASTE_OFFSET });
+  }, [addCopies, getState]);
+
+  /** Bring the selection forward, or send it backward, one step within its layers. */
+  const arrangeSelection = useCallback((direction: ArrangeDirection) => {
+    const currentState = getState();
+    if (currentState.historyPreviewLength !== null) return;
+    const commands = createArrangeHistoryItems(
+      buildDrawableHistory(currentState.history),
+      currentState.selectedHistoryItemIds,
+      direction
+    );
+    if (commands.length === 0) return;
+    cancelDrawing();
+    dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: createBatchHistoryItem(commands) });
+  }, [cancelDrawing, dispatch, getState]);
+
+  /** Join the selected drawables, and any groups they belong to, into one new group. */
+  const groupSelection = useCallback(() => {
+    const currentState = getState();
+    const selectedItems = findSelectedDrawables(currentState);
+    if (currentState.historyPreviewLength !== null || selectedItems.length < 2) return;
+    cancelDrawing();
+    const groupId = createGroupIdForHistory(currentState.history);
+    dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: createBatchHistoryItem(selectedItems.map((item) => createGroupHistoryItem(item, groupId))),
+    });
+  }, [cancelDrawing, dispatch, getState]);
+
+  const ungroupSelection = useCallback(() => {
+    const currentState = getState();
+    const grouped = findSelectedDrawables(currentState).filter((item) => item.groupId !== undefined);
+    if (currentState.historyPreviewLength !== null || grouped.length === 0) return;
+    cancelDrawing();
+    dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: createBatchHistoryItem(grouped.map((item) => createGroupHistoryItem(item))),
+    });
+  }, [cancelDrawing, dispatch, getState]);
+
   const deleteSelection = useCallback(() => {
     const currentState = getState();
     const selectedId = currentState.selectedHistoryItemId;
@@ -218,7 +350,12 @@ export function useCanvasDrawing(
       dispatch({ type: ActionType.SET_SELECTED_PATH_ANCHOR_IDS, payload: [] });
       return;
     }
-    dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: createDeleteHistoryItem(selectedId) });
+    dispatch({
+      type: ActionType.ADD_HISTORY_ITEM,
+      payload: createBatchHistoryItem(
+        findSelectedDrawables(currentState).map((item) => createDeleteHistoryItem(item.id))
+      ),
+    });
   }, [cancelDrawing, dispatch, getState]);
 
   const clearSelection = useCallback(() => {
@@ -226,52 +363,92 @@ export function useCanvasDrawing(
     dispatch({ type: ActionType.CLEAR_SELECTION });
   }, [cancelDrawing, dispatch]);
 
+  const undo = useCallback(() => {
+    cancelDrawing();
+    if (getState().history.length > 0) dispatch({ type: ActionType.UNDO });
+  }, [cancelDrawing, dispatch, getState]);
+
+  const redo = useCallback(() => {
+    cancelDrawing();
+    if (getState().redoStack.length > 0) dispatch({ type: ActionType.REDO });
+  }, [cancelDrawing, dispatch, getState]);
+
   const startDrawing = useCallback((x: number, y: number, modifiers: PointerModifiers = {}) => {
     const existingSession = sessionRef.current;
     if (existingSession) {
       if (existingSession.kind === "draw" && existingSession.phase === "awaiting-next-gesture") {
         existingSession.phase = "active-pointer";
-        existingSession.mode.start({ x, y }, existingSession.context);
+        existingSession.mode.start({ x, y }, existingSession.context, modifiers);
       }
       return;
     }
     const state = getState();
+    // The canvases show a past scene while the history timeline is scrubbed.
+    if (state.historyPreviewLength !== null) return;
     const point = { x, y };
 
     if (state.currentTool === DrawingTool.SelectMove) {
-      const selectedItem = state.selectedHistoryItemId
-        ? findDrawableById(state.selectedHistoryItemId, state.history)
+      const selectedItems = findSelectedDrawables(state);
+      const frame = selectedItems.length > 0 && !modifiers.shiftKey
+        ? getSelectionFrame(selectedItems, state.lineThickness)
         : null;
-      const handle = selectedItem
-        ? findRotationHandleHit(selectedItem, point, state.lineThickness)
+      const scaleHandle = frame ? findScaleHandleHit(frame, point) : null;
+
+      if (frame && scaleHandle) {
+        sessionRef.current = { kind: "scale", frame, handle: scaleHandle, fromItems: selectedItems };
+        dispatch({ type: ActionType.SET_SELECTION_SCALE_PREVIEW, payload: getSelectionScale(frame, scaleHandle, point) });
+        return;
+      }
+
+      const handle = frame
+        ? findSelectionRotationHandleHit(selectedItems, point, state.lineThickness)
         : null;
 
-      if (selectedItem && handle) {
+      if (handle) {
         sessionRef.current = {
           kind: "rotate",
-          itemId: selectedItem.id!,
           center: handle.center,
           startAngle: Math.atan2(point.y - handle.center.y, point.x - handle.center.x),
-          fromItem: selectedItem,
+          fromItems: selectedItems,
         };
-        dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_ID, payload: selectedItem.id! });
         dispatch({ type: ActionType.SET_SELECTION_ROTATION_PREVIEW, payload: { angle: 0, center: handle.center } });
         return;
       }
 
       const hitItem = findTopmostDrawable(point, state.history, state.lineThickness);
       if (!hitItem) {
-        dispatch({ type: ActionType.CLEAR_SELECTION });
+        // Dragging from empty canvas selects by area; shift adds to the selection.
+        sessionRef.current = {
+          kind: "marquee",
+          startPoint: point,
+          baseIds: modifiers.shiftKey ? state.selectedHistoryItemIds : [],
+        };
+        if (!modifiers.shiftKey) dispatch({ type: ActionType.CLEAR_SELECTION });
         return;
       }
 
+      // A grouped drawable is selected, and deselected, along with its group
+      const hitItems = findGroupMembers(hitItem, state.history);
+      const hitIds = hitItems.map((item) => item.id);
+      if (modifiers.shiftKey) {
+        const ids = state.selectedHistoryItemIds;
+        dispatch({
+          type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS,
+          payload: ids.includes(hitItem.id)
+            ? ids.filter((id) => !hitIds.includes(id))
+            : [...ids, ...hitIds],
+        });
+        return;
+      }
+
+      // Dragging any selected item moves the whole selection
+      const isSelected = state.selectedHistoryItemIds.includes(hitItem.id);
       sessionRef.current = {
         kind: "move",
-        itemId: hitItem.id!,
         startPoint: point,
-        fromItem: hitItem,
+        fromItems: isSelected ? selectedItems : hitItems,
       };
-      dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_ID, payload: hitItem.id! });
+      if (!isSelected) dispatch({ type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS, payload: hitIds });
       dispatch({ type: ActionType.SET_SELECTION_DRAG_DELTA, payload: { x: 0, y: 0 } });
       return;
     }
@@ -332,13 +509,16 @@ export function useCanvasDrawing(
       }
     }
 
+    // Hidden and locked layers cannot be drawn on
+    if (!canDrawOnLayer(resolveLayers(state.history), state.activeLayerId)) return;
+
     const context = createModeContext();
     if (!context) return;
     const tool = state.currentTool;
     const mode = DrawingModeFactory.getTool(tool);
     sessionRef.current = { kind: "draw", tool, mode, context, phase: "active-pointer" };
     logger.canvas.operation("startDrawing", { x, y, tool });
-    mode.start(point, context);
+    mode.start(point, context, modifiers);
   }, [createModeContext, dispatch, getState]);
 
   const continueDrawing = useCallback((x: number, y: number, modifiers: PointerModifiers = {}) => {
@@ -377,6 +557,14 @@ export function useCanvasDrawing(
       return;
     }
 
+    if (session.kind === "scale") {
+      dispatch({
+        type: ActionType.SET_SELECTION_SCALE_PREVIEW,
+        payload: getSelectionScale(session.frame, session.handle, { x, y }, modifiers.shiftKey),
+      });
+      return;
+    }
+
     if (session.kind === "move") {
       dispatch({
         type: ActionType.SET_SELECTION_DRAG_DELTA,
@@ -385,11 +573,16 @@ export function useCanvasDrawing(
       return;
     }
 
+    if (session.kind === "marquee") {
+      dispatch({ type: ActionType.SET_SELECTION_MARQUEE, payload: getRectBounds(session.startPoint, { x, y }) });
+      return;
+    }
+
     logger.canvas.operation("continueDrawing", { x, y, tool: session.tool });
-    if (session.mode.continue({ x, y }, session.context)) scheduleUnfoldedUpdate();
+    if (session.mode.continue({ x, y }, session.context, modifiers)) scheduleUnfoldedUpdate();
   }, [dispatch, scheduleUnfoldedUpdate]);
 
-  const endDrawing = useCallback((point: Point | null) => {
+  const endDrawing = useCallback((point: Point | null, modifiers: PointerModifiers = {}) => {
     const session = sessionRef.current;
     if (!session) return;
     if (session.kind === "path-anchor" || session.kind === "path-handle") {
@@ -413,39 +606,44 @@ export function useCanvasDrawing(
         ? Math.atan2(point.y - session.center.y, point.x - session.center.x) - session.startAngle
         : previewAngle;
       if (Math.abs(angle) > 0.0001) {
-        dispatch({ type: ActionType.ADD_HISTORY_ITEM, payload: createRotateHistoryItem(session.fromItem, angle, session.center) });
+        dispatch({
+          type: ActionType.ADD_HISTORY_ITEM,
+          payload: createBatchHistoryItem(
+            session.fromItems.map((item) => createRotateHistoryItem(item, angle, session.center))
+          ),
+        });
       } else {
         dispatch({ type: ActionType.SET_SELECTION_ROTATION_PREVIEW, payload: null });
       }
       return;
     }
 
+    if (session.kind === "scale") {
+      sessionRef.current = null;
+      const selectionScale = getState().selectionScalePreview;
+      if (selectionScale && (selectionScale.scale.x !== 1 || selectionScale.scale.y !== 1)) {
+        dispatch({
+          type: ActionType.ADD_HISTORY_ITEM,
+          payload: createBatchHistoryItem(
+            session.fromItems.map((item) => createScaleHistoryItem(item, selectionScale))
+          ),
+        });
+      } else {
+        dispatch({ type: ActionType.SET_SELECTION_SCALE_PREVIEW, payload: null });
+      }
+      return;
+    }
+
     if (session.kind === "move") {
       sessionRef.current = null;
       const delta = point
         ? { x: point.x - session.startPoint.x, y: point.y - session.startPoint.y }
         : getState().selectionDragDelta ?? { x: 0, y: 0 };
       if (delta.x !== 0 || delta.y !== 0) {
-        const movedItem = getTranslatedHistoryItemPreview(session.fromItem, delta);
-        if (session.fromItem.action === DrawingTool.Bezier &&
-            movedItem.action === DrawingTool.Bezier &&
-            session.fromItem.path && movedItem.path) {
-          dispatch({
-            type: ActionType.ADD_HISTORY_ITEM,
-            payload: createUpdatePathHistoryItem(session.itemId, session.fromItem.path, movedItem.path),
-          });
-          return;
-        }
         dispatch({
           type: ActionType.ADD_HISTORY_ITEM,
-          payload: createMoveHistoryItem(
-            session.itemId,
-            session.fromItem.points,
-            movedItem.points,
-            session.fromItem.rotation,
-            movedItem.rotation,
-            session.fromItem.rotationCenter,
-            movedItem.rotationCenter
+          payload: createBatchHistoryItem(
+            session.fromItems.map((item) => createTranslateHistoryItem(item, delta))
           ),
         });
       } else {
@@ -454,8 +652,26 @@ export function useCanvasDrawing(
       return;
     }
 
+    if (session.kind === "marquee") {
+      sessionRef.current = null;
+      const state = getState();
+      const marquee = point ? getRectBounds(session.startPoint, point) : state.selectionMarquee;
+      dispatch({ type: ActionType.SET_SELECTION_MARQUEE, payload: null });
+      const enclosed = marquee ? findDrawablesInBounds(marquee, state.history, state.lineThickness) : [];
+      if (enclosed.length > 0) {
+        dispatch({
+          type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS,
+          payload: [
+            ...session.baseIds,
+            ...enclosed.flatMap((item) => findGroupMembers(item, state.history)).map((item) => item.id),
+          ],
+        });
+      }
+      return;
+    }
+
     logger.canvas.operation("endDrawing", { point, tool: session.tool });
-    const result = session.mode.end(point, session.context);
+    const result = session.mode.end(point, session.context, modifiers);
     if (result.status === "continue") {
       if (getState().currentTool !== session.tool) {
         sessionRef.current = null;
@@ -521,8 +737,17 @@ export function useCanvasDrawing(
     endDrawing,
     cancelDrawing,
     nudgeSelection,
+    flipSelection,
+    copySelection,
+    pasteClipboard,
+    duplicateSelection,
+    arrangeSelection,
+    groupSelection,
+    ungroupSelection,
     deleteSelection,
     clearSelection,
+    undo,
+    redo,
     drawingGuidance,
     hoverDrawing,
     finishDrawing,
@@ -536,7 +761,7 @@ function findTopmostDrawable(
   history: UndoableHistoryItem[],
   lineThickness: number
 ): DrawableHistoryItem | null {
-  const drawables = buildDrawableHistory(history);
+  const drawables = getEditableDrawables(history);
   for (let i = drawables.length - 1; i >= 0; i--) {
     const item = drawables[i];
     if (DrawingModeFactory.getGeometry(item.action).hitTest(item, point, { lineThickness, hitTolerance: 8 })) {
@@ -546,10 +771,126 @@ function findTopmostDrawable(
   return null;
 }
 
+/** Drawables that pointer gestures can pick: those on visible, unlocked layers, topmost last. */
+function getEditableDrawables(history: UndoableHistoryItem[]): DrawableHistoryItem[] {
+  return getEditableScene(buildDrawableHistory(history), resolveLayers(history));
+}
+
+/** `item` and every drawable grouped with it, bottom to top. */
+function findGroupMembers(item: DrawableHistoryItem, history: UndoableHistoryItem[]): DrawableHistoryItem[] {
+  if (item.groupId === undefined) return [item];
+  return getEditableDrawables(history).filter((candidate) => candidate.groupId === item.groupId);
+}
+
 function findDrawableById(id: string, history: UndoableHistoryItem[]): DrawableHistoryItem | null {
   return buildDrawableHistory(history).find((item) => item.id === id) ?? null;
 }
 
+function findSelectedDrawables(state: State): DrawableHistoryItem[] {
+  const drawables = buildDrawableHistory(state.history);
+  return state.selectedHistoryItemIds
+    .map((id) => drawables.find((item) => item.id === id))
+    .filter((item): item is DrawableHistoryItem => item !== undefined);
+}
+
+/** Drawables lying wholly inside the marquee, bottom to top. */
+function findDrawablesInBounds(
+  marquee: Bounds,
+  history: UndoableHistoryItem[],
+  lineThickness: number
+): DrawableHistoryItem[] {
+  return getEditableDrawables(history).filter((item) => {
+    const bounds = DrawingModeFactory.getGeometry(item.action).getBounds(item, { lineThickness });
+    return bounds !== null && isBoundsInside(bounds, marquee);
+  });
+}
+
+function getDrawablesBounds(items: DrawableHistoryItem[], lineThickness: number): Bounds | null {
+  return getUnionBounds(items
+    .map((item) => DrawingModeFactory.getGeometry(item.action).getBounds(item, { lineThickness }))
+    .filter((itemBounds): itemBounds is Bounds => itemBounds !== null));
+}
+
+/** A single rotated shape keeps its own turned frame; anything else is framed square to the canvas. */
+function getSelectionFrame(items: DrawableHistoryItem[], lineThickness: number): SelectionFrame | null {
+  const shapeFrame = items.length === 1 ? getRotatedShapeSelectionFrame(items[0], lineThickness) : null;
+  if (shapeFrame) {
+    return { bounds: shapeFrame.bounds, center: shapeFrame.center, rotation: items[0].rotation ?? 0 };
+  }
+  const bounds = getDrawablesBounds(items, lineThickness);
+  return bounds ? { bounds, center: getBoundsCenter(bounds), rotation: 0 } : null;
+}
+
+/** The handle beyond the middle of each side of the frame, as drawn. */
+function findScaleHandleHit(frame: SelectionFrame, point: Point): ScaleHandle | null {
+  const { bounds } = frame;
+  const middle = getBoundsCenter(bounds);
+  const handles: [ScaleHandle, Point][] = [
+    ["n", { x: middle.x, y: bounds.minY - SCALE_HANDLE_OFFSET }],
+    ["e", { x: bounds.maxX + SCALE_HANDLE_OFFSET, y: middle.y }],
+    ["s", { x: middle.x, y: bounds.maxY + SCALE_HANDLE_OFFSET }],
+    ["w", { x: bounds.minX - SCALE_HANDLE_OFFSET, y: middle.y }],
+  ];
+  const tolerance = SCALE_HANDLE_HIT_TOLERANCE;
+  const hit = handles.find(([, handlePoint]) =>
+    pointDistance(rotatePoint(handlePoint, frame.center, frame.rotation), point) <= tolerance
+  );
+  return hit ? hit[0] : null;
+}
+
+/**
+ * The scale that brings the dragged side of the frame to `point` while the
+ * opposite side stays put. `uniform` scales the other axis by as much.
+ */
+function getSelectionScale(
+  frame: SelectionFrame,
+  handle: ScaleHandle,
+  point: Point,
+  uniform = false
+): SelectionScale {
+  const { bounds } = frame;
+  const local = rotatePoint(point, frame.center, -frame.rotation);
+  const middle = getBoundsCenter(bounds);
+  const width = Math.max(bounds.maxX - bounds.minX, 1);
+  const height = Math.max(bounds.maxY - bounds.minY, 1);
+  const isHorizontal = handle === "e" || handle === "w";
+  const origin = {
+    x: handle === "e" ? bounds.minX : handle === "w" ? bounds.maxX : middle.x,
+    y: handle === "s" ? bounds.minY : handle === "n" ? bounds.maxY : middle.y,
+  };
+  const stretch = Math.max(MIN_SELECTION_SCALE, {
+    n: (origin.y - local.y) / height,
+    e: (local.x - origin.x) / width,
+    s: (local.y - origin.y) / height,
+    w: (origin.x - local.x) / width,
+  }[handle]);
+
+  return {
+    origin: rotatePoint(origin, frame.center, frame.rotation),
+    scale: {
+      x: isHorizontal || uniform ? stretch : 1,
+      y: !isHorizontal || uniform ? stretch : 1,
+    },
+    rotation: frame.rotation,
+  };
+}
+
+/** A group turns about the center of its combined bounds, from any of their corners. */
+function findSelectionRotationHandleHit(
+  items: DrawableHistoryItem[],
+  point: Point,
+  lineThickness: number
+): { center: Point; bounds: Bounds } | null {
+  if (items.length === 1) return findRotationHandleHit(items[0], point, lineThickness);
+
+  const bounds = getDrawablesBounds(items, lineThickness);
+  if (!bounds) return null;
+  const tolerance = ROTATION_HANDLE_HIT_TOLERANCE + (lineThickness / 2);
+  return getBoundsCorners(bounds).some((corner) => Math.hypot(point.x - corner.x, point.y - corner.y) <= tolerance)
+    ? { center: getBoundsCenter(bounds), bounds }
+    : null;
+}
+
 function findRotationHandleHit(
   item: DrawableHistoryItem,
   point: Point,
@@ -606,6 +947,9 @@ function getUnrotatedShapeSelectionBounds(
   if (item.action === DrawingTool.Circle) {
     return DrawingModeFactory.getGeometry(item.action).getBounds(item, { lineThickness });
   }
+  if (item.action === DrawingTool.Ellipse) {
+    return DrawingModeFactory.getGeometry(item.action).getBounds({ ...item, rotation: undefined }, { lineThickness });
+  }
   return null;
 }
 
@@ -619,7 +963,7 @@ function createDirectSelectionSession(
   anchorIds: string[];
   handle?: { anchorId: string; side: "in" | "out" };
 } | null {
-  const drawables = buildDrawableHistory(state.history);
+  const drawables = getEditableDrawables(state.history);
   const selected = state.selectedHistoryItemId
     ? drawables.find((item) => item.id === state.selectedHistoryItemId)
     : null;
@@ -694,7 +1038,7 @@ function findBezierSegmentHit(
   history: UndoableHistoryItem[],
   lineThickness: number
 ): { item: DrawableHistoryItem & { action: DrawingTool.Bezier; path: BezierPath }; location: NonNullable<ReturnType<typeof findNearestBezierLocation>> } | null {
-  const drawables = buildDrawableHistory(history);
+  const drawables = getEditableDrawables(history);
   for (let index = drawables.length - 1; index >= 0; index--) {
     const item = drawables[index];
     if (item.action !== DrawingTool.Bezier || !item.path) continue;
@@ -710,7 +1054,7 @@ function findBezierEndpointHit(
   point: Point,
   history: UndoableHistoryItem[]
 ): { item: DrawableHistoryItem & { action: DrawingTool.Bezier; path: BezierPath }; fromStart: boolean } | null {
-  const drawables = buildDrawableHistory(history);
+  const drawables = getEditableDrawables(history);
   for (let index = drawables.length - 1; index >= 0; index--) {
     const item = drawables[index];
     if (item.action !== DrawingTool.Bezier || !item.path || item.path.closed) continue;
@@ -1,9 +1,8 @@
 import { useCallback, useEffect, useRef } from "react";
 import { CanvasService } from "../services/CanvasService";
-import { Point } from "../types/DrawingMode";
+import { ArrangeDirection, Point, PointerModifiers } from "../types/DrawingMode";
 import { logger } from "../utils/logger";
 import { CanvasRefs } from "./useCanvasRefs";
-import type { PointerModifiers } from "./useCanvasDrawing";
 
 export interface CanvasEventHandlers {
   handlePointerDown: (event: React.PointerEvent<HTMLCanvasElement>) => void;
@@ -12,16 +11,26 @@ export interface CanvasEventHandlers {
   handlePointerCancel: (event: React.PointerEvent<HTMLCanvasElement>) => void;
   handleLostPointerCapture: (event: React.PointerEvent<HTMLCanvasElement>) => void;
   handleKeyDown: (event: React.KeyboardEvent<HTMLCanvasElement>) => void;
+  handleCopy: (event: React.ClipboardEvent<HTMLCanvasElement>) => void;
+  handlePaste: (event: React.ClipboardEvent<HTMLCanvasElement>) => void;
 }
 
 export interface DrawingCallbacks {
   startDrawing: (x: number, y: number, modifiers?: PointerModifiers) => void;
   continueDrawing: (x: number, y: number, modifiers?: PointerModifiers) => void;
-  endDrawing: (point: Point | null) => void;
+  endDrawing: (point: Point | null, modifiers?: PointerModifiers) => void;
   cancelDrawing: () => void;
   nudgeSelection: (delta: Point) => void;
   deleteSelection: () => void;
+  copySelection: () => string | null;
+  pasteClipboard: (text: string) => boolean;
+  duplicateSelection: () => void;
+  arrangeSelection: (direction: ArrangeDirection) => void;
+  groupSelection: () => void;
+  ungroupSelection: () => void;
   clearSelection: () => void;
+  undo: () => void;
+  redo: () => void;
   hoverDrawing: (x: number, y: number) => void;
   finishDrawing: () => void;
 }
@@ -36,6 +45,17 @@ export function isSupportedPointerStart(event: PointerStartLike): boolean {
   return event.isPrimary && (event.pointerType !== "mouse" || event.button === 0);
 }
 
+/** Held keys, plus pressure and tilt when the pointer is a pen. */
+export function getPointerModifiers(event: React.PointerEvent): PointerModifiers {
+  return {
+    shiftKey: event.shiftKey,
+    altKey: event.altKey,
+    ...(event.pointerType === "pen"
+      ? { pen: { pressure: event.pressure, tiltX: event.tiltX, tiltY: event.tiltY } }
+      : {}),
+  };
+}
+
 export function getPointerCanvasCoordinates(
   clientX: number,
   clientY: number,
@@ -58,7 +78,15 @@ export function useCanvasEvents(
     cancelDrawing,
     nudgeSelection,
     deleteSelection,
+    copySelection,
+    pasteClipboard,
+    duplicateSelection,
+    arrangeSelection,
+    groupSelection,
+    ungroupSelection,
     clearSelection,
+    undo,
+    redo,
     hoverDrawing,
     finishDrawing,
   } = drawingCallbacks;
@@ -84,7 +112,7 @@ export function useCanvasEvents(
     event.currentTarget.setPointerCapture(event.pointerId);
     const point = coordinatesFor(event);
     logger.canvas.event("pointerDown", point);
-    startDrawing(point.x, point.y, { shiftKey: event.shiftKey, altKey: event.altKey });
+    startDrawing(point.x, point.y, getPointerModifiers(event));
   }, [coordinatesFor, startDrawing]);
 
   const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
@@ -97,7 +125,7 @@ export function useCanvasEvents(
     event.preventDefault();
     const point = coordinatesFor(event);
     logger.canvas.event("pointerMove", point);
-    continueDrawing(point.x, point.y, { shiftKey: event.shiftKey, altKey: event.altKey });
+    continueDrawing(point.x, point.y, getPointerModifiers(event));
   }, [continueDrawing, coordinatesFor, hoverDrawing]);
 
   const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
@@ -107,7 +135,7 @@ export function useCanvasEvents(
     activePointerIdRef.current = null;
     releasePointer(event.currentTarget, event.pointerId);
     logger.canvas.event("pointerUp", point);
-    endDrawing(point);
+    endDrawing(point, getPointerModifiers(event));
   }, [coordinatesFor, endDrawing, releasePointer]);
 
   const cancelPointer = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
@@ -145,6 +173,32 @@ export function useCanvasEvents(
       ArrowRight: { x: step, y: 0 },
     };
 
+    // Ctrl on Windows and Linux, Cmd on macOS. Shift+Z and Y both redo.
+    const shortcutKey = event.ctrlKey || event.metaKey ? event.key.toLowerCase() : null;
+    if (shortcutKey === "z" || shortcutKey === "y") {
+      event.preventDefault();
+      if (shortcutKey === "y" || event.shiftKey) redo();
+      else undo();
+      return;
+    }
+    // Copy and paste arrive as clipboard events; duplicate skips the clipboard.
+    if (shortcutKey === "d") {
+      event.preventDefault();
+      duplicateSelection();
+      return;
+    }
+    if (shortcutKey === "]" || shortcutKey === "[") {
+      event.preventDefault();
+      arrangeSelection(shortcutKey === "]" ? "forward" : "backward");
+      return;
+    }
+    if (shortcutKey === "g") {
+      event.preventDefault();
+      if (event.shiftKey) ungroupSelection();
+      else groupSelection();
+      return;
+    }
+
     if (event.key === "Escape") {
       event.preventDefault();
       clearSelection();
@@ -164,7 +218,29 @@ export function useCanvasEvents(
     if (!delta) return;
     event.preventDefault();
     nudgeSelection(delta);
-  }, [clearSelection, deleteSelection, finishDrawing, nudgeSelection]);
+  }, [
+    arrangeSelection,
+    clearSelection,
+    deleteSelection,
+    duplicateSelection,
+    finishDrawing,
+    groupSelection,
+    nudgeSelection,
+    redo,
+    undo,
+    ungroupSelection,
+  ]);
+
+  const handleCopy = useCallback((event: React.ClipboardEvent<HTMLCanvasElement>) => {
+    const text = copySelection();
+    if (text === null) return;
+    event.preventDefault();
+    event.clipboardData.setData("text/plain", text);
+  }, [copySelection]);
+
+  const handlePaste = useCallback((event: React.ClipboardEvent<HTMLCanvasElement>) => {
+    if (pasteClipboard(event.clipboardData.getData("text/plain"))) event.preventDefault();
+  }, [pasteClipboard]);
 
   useEffect(() => () => {
     activePointerIdRef.current = null;
@@ -178,5 +254,7 @@ export function useCanvasEvents(
     handlePointerCancel: cancelPointer,
     handleLostPointerCapture,
     handleKeyDown,
+    handleCopy,
+    handlePaste,
   };
 }
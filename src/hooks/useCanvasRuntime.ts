@@ -6,6 +6,7 @@ import {
   mirrorUnfoldedCanvas,
   renderCanvasTransaction,
 } from '../rendering/canvasRuntime';
+import { getHistoryPrefix } from '../utils/historyOperations';
 import { CanvasRefs } from './useCanvasRefs';
 import { useAppSelector } from './useReduxHooks';
 
@@ -17,14 +18,19 @@ export function selectCanvasRuntimeState(root: RootState) {
   const state = root.shibori;
   return {
     canvasDimensions: state.canvasDimensions,
+    backgroundColor: state.backgroundColor,
+    dyedPreview: state.dyedPreview,
+    foldDepthFade: state.foldDepthFade,
     config: state.config,
     folds: state.folds,
     history: state.history,
+    historyPreviewLength: state.historyPreviewLength,
     lineThickness: state.lineThickness,
     shapeFillMode: state.shapeFillMode,
-    selectedHistoryItemId: state.selectedHistoryItemId,
+    selectedHistoryItemIds: state.selectedHistoryItemIds,
     selectionDragDelta: state.selectionDragDelta,
     selectionRotationPreview: state.selectionRotationPreview,
+    selectionScalePreview: state.selectionScalePreview,
     pathEditPreview: state.pathEditPreview ?? null,
   };
 }
@@ -65,31 +71,44 @@ export function useCanvasRuntime(canvasRefs: CanvasRefs): CanvasRuntime {
     if (!context) return;
 
     renderCanvasTransaction(context, {
-      history: state.history,
+      history: state.historyPreviewLength === null
+        ? state.history
+        : getHistoryPrefix(state.history, state.historyPreviewLength, {
+          folds: state.folds,
+          canvasDimensions: state.canvasDimensions,
+        }),
       folds: state.folds,
+      backgroundColor: state.backgroundColor,
+      dyedPreview: state.dyedPreview,
+      foldDepthFade: state.foldDepthFade,
       config: state.config,
       lineThickness: state.lineThickness,
       shapeFillMode: state.shapeFillMode,
       preview: {
-        selectedHistoryItemId: state.selectedHistoryItemId,
+        selectedHistoryItemIds: state.selectedHistoryItemIds,
         selectionDragDelta: state.selectionDragDelta,
         selectionRotationPreview: state.selectionRotationPreview,
+        selectionScalePreview: state.selectionScalePreview,
         pathEditPreview: state.pathEditPreview,
       },
     });
   }, [
     cancelScheduledUpdate,
     getContext,
-    state.canvasDimensions.width,
-    state.canvasDimensions.height,
+    state.canvasDimensions,
+    state.backgroundColor,
+    state.dyedPreview,
+    state.foldDepthFade,
     state.config,
     state.folds,
     state.history,
+    state.historyPreviewLength,
     state.lineThickness,
     state.shapeFillMode,
-    state.selectedHistoryItemId,
+    state.selectedHistoryItemIds,
     state.selectionDragDelta,
     state.selectionRotationPreview,
+    state.selectionScalePreview,
     state.pathEditPreview,
   ]);
 
@@ -101,7 +120,8 @@ export function useCanvasRuntime(canvasRefs: CanvasRefs): CanvasRuntime {
       updateFrameRef.current = null;
       const context = getContext();
       if (!context) return;
-      mirrorUnfoldedCanvas(context, store.getState().shibori.folds);
+      const { folds, backgroundColor, dyedPreview, foldDepthFade } = store.getState().shibori;
+      mirrorUnfoldedCanvas(context, folds, backgroundColor, { dyedPreview, foldDepthFade });
     });
   }, [getContext, store]);
 
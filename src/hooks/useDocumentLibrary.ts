@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { shallowEqual, useStore } from 'react-redux';
+import { RootState } from '../store';
+import { ActionType, State } from '../store/shiboriCanvasState';
+import {
+  DocumentLibrary,
+  LibraryDocumentSummary,
+  createDocumentId,
+  createDocumentLibrary,
+  openIndexedDbDocumentStore,
+} from '../services/documentLibrary';
+import { renderUnfoldedImage } from '../rendering/printExport';
+import { extractSerializableState } from '../utils/urlStateUtils';
+import { logger } from '../utils/logger';
+import { useAppDispatch, useAppSelector } from './useReduxHooks';
+
+export type LibraryStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'error' | 'unavailable';
+
+export interface DocumentLibraryControls {
+  documents: LibraryDocumentSummary[];
+  currentDocumentId: string | null;
+  status: LibraryStatus;
+  /** Why the library last failed, shown while `status` is 'error'. */
+  error: string | null;
+  newDocument: () => Promise<void>;
+  openDocument: (id: string) => Promise<void>;
+  duplicateDocument: (id: string) => Promise<void>;
+  renameDocument: (id: string, name: string) => Promise<void>;
+  deleteDocument: (id: string) => Promise<void>;
+}
+
+export const AUTOSAVE_DELAY_MS = 1000;
+const THUMBNAIL_SIZE = 160;
+
+/** The document fields autosave watches; UI-only state is not persisted. */
+export function selectDocumentState(root: RootState) {
+  const state = root.shibori;
+  return {
+    history: state.history,
+    folds: state.folds,
+    canvasDimensions: state.canvasDimensions,
+    circleRadius: state.circleRadius,
+    lineThickness: state.lineThickness,
+    shapeFillMode: state.shapeFillMode,
+    drawingColor: state.drawingColor,
+    backgroundColor: state.backgroundColor,
+    currentTool: state.currentTool,
+  };
+}
+
+let defaultLibrary: DocumentLibrary | null | undefined;
+
+function getDefaultLibrary(): DocumentLibrary | null {
+  if (defaultLibrary === undefined) {
+    defaultLibrary = typeof indexedDB === 'undefined'
+      ? null
+      : createDocumentLibrary(openIndexedDbDocumentStore());
+  }
+  return defaultLibrary;
+}
+
+/**
+ * Own the current library document. On start the most recent document is
+ * reopened, unless a share link already loaded a design, which becomes a new
+ * document. Document edits are autosaved after a short pause.
+ */
+export function useDocumentLibrary(
+  library: DocumentLibrary | null = getDefaultLibrary()
+): DocumentLibraryControls {
+  const documentState = useAppSelector(selectDocumentState, shallowEqual);
+  const store = useStore<RootState>();
+  const dispatch = useAppDispatch();
+  const [documents, setDocuments] = useState<LibraryDocumentSummary[]>([]);
+  const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
+  const [status, setStatus] = useState<LibraryStatus>(library ? 'loading' : 'unavailable');
+  const [error, setError] = useState<string | null>(null);
+  const currentIdRef = useRef<string | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (library) setDocuments(await library.list());
+  }, [library]);
+
+  const fail = useCallback((message: string) => {
+    setError(message);
+    setStatus('error');
+  }, []);
+
+  const startDocument = useCallback((id: string, saved: boolean) => {
+    currentIdRef.current = id;
+    lastSavedRef.current = saved ? snapshotOf(store.getState().shibori) : null;
+    setCurrentDocumentId(id);
+    setStatus(saved ? 'saved' : 'unsaved');
+  }, [store]);
+
+  const save = useCallback(async () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const id = currentIdRef.current;
+    if (!library || !id) return;
+
+    const state = store.getState().shibori;
+    const snapshot = snapshotOf(state);
+    if (snapshot === lastSavedRef.current) return;
+
+    setStatus('saving');
+    try {
+      await library.save(id, extractSerializableState(state), renderThumbnail(state));
+      lastSavedRef.current = snapshot;
+      if (currentIdRef.current === id) setStatus('saved');
+      await refresh();
+    } catch (error) {
+      logger.error('Error autosaving library document', error as Error);
+      fail(describeSaveError(error));
+    }
+  }, [fail, library, refresh, store]);
+
+  useEffect(() => {
+    if (!library) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const saved = await library.list();
+        if (cancelled) return;
+        setDocuments(saved);
+
+        const hasLoadedDesign = store.getState().shibori.history.length > 0;
+        const latest = !hasLoadedDesign && saved.length > 0 ? await library.open(saved[0].id) : null;
+        if (cancelled) return;
+        if (latest) dispatch({ type: ActionType.LOAD_DOCUMENT, payload: latest.state });
+        startDocument(latest?.id ?? createDocumentId(), !hasLoadedDesign);
+        if (hasLoadedDesign) await save();
+      } catch (error) {
+        logger.error('Error opening the document library', error as Error);
+        if (!cancelled) fail('Unable to open the library');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, fail, library, save, startDocument, store]);
+
+  useEffect(() => {
+    if (!currentIdRef.current) return;
+    if (snapshotOf(store.getState().shibori) === lastSavedRef.current) return;
+
+    setStatus('unsaved');
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      void save();
+    }, AUTOSAVE_DELAY_MS);
+  }, [documentState, save, store]);
+
+  useEffect(() => {
+    const flush = () => {
+      void save();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [save]);
+
+  const newDocument = useCallback(async () => {
+    await save();
+    dispatch({ type: ActionType.RESET_TO_INITIAL });
+    startDocument(createDocumentId(), true);
+  }, [dispatch, save, startDocument]);
+
+  const openDocument = useCallback(async (id: string) => {
+    if (!library || id === currentIdRef.current) return;
+    await save();
+    const document = await library.open(id);
+    if (!document) {
+      fail('That design could not be opened');
+      await refresh();
+      return;
+    }
+    dispatch({ type: ActionType.LOAD_DOCUMENT, payload: document.state });
+    startDocument(document.id, true);
+  }, [dispatch, fail, library, refresh, save, startDocument]);
+
+  const duplicateDocument = useCallback(async (id: string) => {
+    if (!library) return;
+    if (id === currentIdRef.current) await save();
+    await library.duplicate(id);
+    await refresh();
+  }, [library, refresh, save]);
+
+  const renameDocument = useCallback(async (id: string, name: string) => {
+    if (!library) return;
+    await library.rename(id, name);
+    await refresh();
+  }, [library, refresh]);
+
+  const deleteDocument = useCallback(async (id: string) => {
+    if (!library) return;
+    await library.remove(id);
+    if (id === currentIdRef.current) {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+      dispatch({ type: ActionType.RESET_TO_INITIAL });
+      startDocument(createDocumentId(), true);
+    }
+    await refresh();
+  }, [dispatch, library, refresh, startDocument]);
+
+  return {
+    documents,
+    currentDocumentId,
+    status,
+    error,
+    newDocument,
+    openDocument,
+    duplicateDocument,
+    renameDocument,
+    deleteDocument,
+  };
+}
+
+function snapshotOf(state: State): string {
+  return JSON.stringify(extractSerializableState(state));
+}
+
+function describeSaveError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Browser storage is full; delete designs to keep saving';
+  }
+  const reason = error instanceof Error && error.message ? error.message : 'an unknown error';
+  return `Unable to save to the library: ${reason}`;
+}
+
+function renderThumbnail(state: State): string | null {
+  try {
+    const scale = THUMBNAIL_SIZE / Math.max(state.canvasDimensions.width, state.canvasDimensions.height);
+    return renderUnfoldedImage(state, {
+      width: Math.max(1, Math.round(state.canvasDimensions.width * scale)),
+      height: Math.max(1, Math.round(state.canvasDimensions.height * scale)),
+    }).toDataURL('image/png');
+  } catch (error) {
+    logger.warn('Unable to render a library thumbnail', { component: 'DocumentLibrary', data: error });
+    return null;
+  }
+}
@@ -1,32 +1,131 @@
 import { CanvasService } from '../services/CanvasService';
 import type { CanvasContext, FoldState } from '../services/CanvasService';
+import type { CanvasDimensions } from '../types/DrawingMode';
+import {
+  KALEIDOSCOPE_WEDGE_OVERLAP,
+  type KaleidoscopeSystem,
+  applyLinearTransform,
+  expandPolygon,
+  getFoldGrid,
+  getPanelEdge,
+  getKaleidoscopeCellCenters,
+  getKaleidoscopeCellRadius,
+  getKaleidoscopeSystem,
+  getPanelFoldDepths,
+  getWedgeBounds,
+} from '../utils/foldSystems';
+import { createCanvas, get2DContext } from './canvasElements';
 
-const BACKGROUND_COLOR = 'navy';
+/** Opacity lost by the deepest panel when fold depth fades the mirrored copies. */
+const FOLD_DEPTH_FADE = 0.6;
+
+/**
+ * Where the unfolded canvas sits on the cloth: the full cloth size and the
+ * offset of this canvas within it. Print export renders the cloth in tiles, so
+ * each tile lays out panels and cells against the whole cloth.
+ */
+export interface UnfoldedViewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface UnfoldedRenderOptions {
+  /**
+   * Fade each rectangular panel by how deep it sat in the folded stack, as dye
+   * reaches inner layers less. The top panel, the folded canvas, is untouched.
+   */
+  foldDepthFade?: boolean;
+  /**
+   * A cell from `createUnfoldedCell` for the same folds and viewport size.
+   * Print export renders many tiles of one cloth and builds the cell once.
+   */
+  cell?: HTMLCanvasElement;
+}
 
 /**
  * Render the unfolded pattern with Canvas 2D transforms.
  *
  * The folded canvas is downsampled once. Diagonal symmetry is composed with a
  * clipped drawImage transform, then the completed cell is tiled with
- * alternating horizontal and vertical transforms. This is the sole production
- * unfolded renderer.
+ * alternating horizontal and vertical transforms. Kaleidoscope fold systems
+ * compose one lattice cell from transformed wedges and tile it instead. This
+ * is the sole production unfolded renderer.
  */
 export function renderUnfoldedCanvas(
   context: CanvasContext,
-  folds: FoldState
+  folds: FoldState,
+  backgroundColor?: string,
+  viewport: UnfoldedViewport = {
+    x: 0,
+    y: 0,
+    width: context.unfoldedCanvas.width,
+    height: context.unfoldedCanvas.height,
+  },
+  options: UnfoldedRenderOptions = {}
 ): void {
   const { foldedCanvas, unfoldedCanvas, unfoldedCtx } = context;
-  const gridWidth = Math.pow(2, folds.vertical);
-  const gridHeight = Math.pow(2, folds.horizontal);
-  const cellWidth = Math.max(1, Math.floor(unfoldedCanvas.width / gridWidth));
-  const cellHeight = Math.max(1, Math.floor(unfoldedCanvas.height / gridHeight));
+  const { columns: gridWidth, rows: gridHeight } = getFoldGrid(folds);
+  const workingCell = options.cell ?? createUnfoldedCell(foldedCanvas, folds, viewport);
 
   unfoldedCtx.save();
   unfoldedCtx.setTransform(1, 0, 0, 1, 0, 0);
-  unfoldedCtx.clearRect(0, 0, unfoldedCanvas.width, unfoldedCanvas.height);
-  unfoldedCtx.fillStyle = BACKGROUND_COLOR;
-  unfoldedCtx.fillRect(0, 0, unfoldedCanvas.width, unfoldedCanvas.height);
+  CanvasService.fillBackground(unfoldedCtx, unfoldedCanvas, backgroundColor);
+
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) {
+    drawKaleidoscopeCells(context, kaleidoscope, viewport, workingCell);
+    unfoldedCtx.restore();
+    return;
+  }
+
+  const depths = options.foldDepthFade ? getPanelFoldDepths(folds) : null;
+  const deepest = gridWidth * gridHeight - 1;
+
+  // Panel edges are rounded rather than floored so accordion counts that do
+  // not divide the canvas (thirds, fifths) still cover it without a gap.
+  for (let row = 0; row < gridHeight; row++) {
+    const y = getPanelEdge(viewport.height, gridHeight, row) - viewport.y;
+    const panelHeight = getPanelEdge(viewport.height, gridHeight, row + 1) - viewport.y - y;
+    if (y >= unfoldedCanvas.height || y + panelHeight <= 0) continue;
+    for (let col = 0; col < gridWidth; col++) {
+      const x = getPanelEdge(viewport.width, gridWidth, col) - viewport.x;
+      const panelWidth = getPanelEdge(viewport.width, gridWidth, col + 1) - viewport.x - x;
+      if (x >= unfoldedCanvas.width || x + panelWidth <= 0) continue;
+      drawMirroredCell(
+        unfoldedCtx,
+        workingCell,
+        x,
+        y,
+        panelWidth,
+        panelHeight,
+        col % 2 === 1,
+        row % 2 === 1,
+        depths && deepest > 0 ? 1 - (FOLD_DEPTH_FADE * depths[row][col]) / deepest : 1
+      );
+    }
+  }
 
+  unfoldedCtx.restore();
+}
+
+/**
+ * The mirrored cell the unfolded cloth is tiled from: the folded canvas
+ * downsampled to one panel with its diagonal copies, or a kaleidoscope's
+ * lattice cell composed from transformed wedges.
+ */
+export function createUnfoldedCell(
+  foldedCanvas: HTMLCanvasElement,
+  folds: FoldState,
+  viewport: CanvasDimensions
+): HTMLCanvasElement {
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) return createKaleidoscopeCell(foldedCanvas, kaleidoscope, viewport);
+
+  const { columns, rows } = getFoldGrid(folds);
+  const cellWidth = Math.max(1, Math.floor(viewport.width / columns));
+  const cellHeight = Math.max(1, Math.floor(viewport.height / rows));
   const sourceCell = createCanvas(cellWidth, cellHeight);
   const sourceCtx = get2DContext(sourceCell);
   sourceCtx.imageSmoothingEnabled = true;
@@ -43,26 +142,84 @@ export function renderUnfoldedCanvas(
     cellHeight
   );
 
-  const workingCell = CanvasService.isDiagonalFoldActive(folds)
+  return CanvasService.isDiagonalFoldActive(folds)
     ? createDiagonalCell(sourceCell, folds)
     : sourceCell;
+}
 
-  for (let row = 0; row < gridHeight; row++) {
-    for (let col = 0; col < gridWidth; col++) {
-      drawMirroredCell(
-        unfoldedCtx,
-        workingCell,
-        col * cellWidth,
-        row * cellHeight,
-        cellWidth,
-        cellHeight,
-        col % 2 === 1,
-        row % 2 === 1
-      );
-    }
+function createKaleidoscopeCell(
+  foldedCanvas: HTMLCanvasElement,
+  system: KaleidoscopeSystem,
+  viewport: CanvasDimensions
+): HTMLCanvasElement {
+  const radius = getKaleidoscopeCellRadius(viewport);
+  const bounds = getWedgeBounds(system);
+
+  // Downsample once so each wedge copy is a pure rotation or reflection.
+  const source = createCanvas(
+    Math.max(1, Math.ceil((bounds.maxX - bounds.minX) * radius)),
+    Math.max(1, Math.ceil((bounds.maxY - bounds.minY) * radius))
+  );
+  const sourceCtx = get2DContext(source);
+  sourceCtx.imageSmoothingEnabled = true;
+  sourceCtx.imageSmoothingQuality = 'high';
+  sourceCtx.drawImage(foldedCanvas, 0, 0, source.width, source.height);
+
+  const extent = Math.max(...system.wedge.map((point) => Math.hypot(point.x, point.y)));
+  const half = Math.ceil(radius * extent) + 2;
+  const cell = createCanvas(half * 2, half * 2);
+  const cellCtx = get2DContext(cell);
+  const clipPolygon = expandPolygon(system.wedge, KALEIDOSCOPE_WEDGE_OVERLAP / 2);
+  const scaleX = (bounds.maxX - bounds.minX) / source.width;
+  const scaleY = (bounds.maxY - bounds.minY) / source.height;
+
+  for (const transform of system.transforms) {
+    const [a, b, c, d] = transform;
+    cellCtx.save();
+    cellCtx.beginPath();
+    clipPolygon.forEach((point, index) => {
+      const mapped = applyLinearTransform(transform, point);
+      const x = half + mapped.x * radius;
+      const y = half + mapped.y * radius;
+      if (index === 0) cellCtx.moveTo(x, y);
+      else cellCtx.lineTo(x, y);
+    });
+    cellCtx.closePath();
+    cellCtx.clip();
+    // cell = centre + radius * T * (wedge minimum + source pixel * scale)
+    const origin = applyLinearTransform(transform, { x: bounds.minX, y: bounds.minY });
+    cellCtx.setTransform(
+      radius * a * scaleX,
+      radius * b * scaleX,
+      radius * c * scaleY,
+      radius * d * scaleY,
+      half + radius * origin.x,
+      half + radius * origin.y
+    );
+    cellCtx.drawImage(source, 0, 0);
+    cellCtx.restore();
   }
 
-  unfoldedCtx.restore();
+  return cell;
+}
+
+function drawKaleidoscopeCells(
+  context: CanvasContext,
+  system: KaleidoscopeSystem,
+  viewport: UnfoldedViewport,
+  cell: HTMLCanvasElement
+): void {
+  const { unfoldedCanvas, unfoldedCtx } = context;
+  const radius = getKaleidoscopeCellRadius(viewport);
+  const half = cell.width / 2;
+
+  for (const center of getKaleidoscopeCellCenters(viewport, system, radius)) {
+    const x = Math.round(center.x) - half - viewport.x;
+    const y = Math.round(center.y) - half - viewport.y;
+    if (x >= unfoldedCanvas.width || y >= unfoldedCanvas.height) continue;
+    if (x + cell.width <= 0 || y + cell.height <= 0) continue;
+    unfoldedCtx.drawImage(cell, x, y);
+  }
 }
 
 function createDiagonalCell(
@@ -74,6 +231,11 @@ function createDiagonalCell(
   const ctx = get2DContext(result);
 
   ctx.drawImage(sourceCell, 0, 0);
+  if (folds.diagonal.count >= 2) {
+    drawDualDiagonalCopies(ctx, sourceCell);
+    return result;
+  }
+
   ctx.save();
   ctx.beginPath();
 
@@ -98,6 +260,38 @@ function createDiagonalCell(
   return result;
 }
 
+/**
+ * Folding along both diagonals leaves the right-hand quarter as the source.
+ * Each copy is clipped in source space, so the clip follows its transform and
+ * overlaps neighbouring quarters by one pixel of already-drawn content.
+ */
+function drawDualDiagonalCopies(
+  ctx: CanvasRenderingContext2D,
+  sourceCell: HTMLCanvasElement
+): void {
+  const { width, height } = sourceCell;
+  const copies: Array<[number, number, number, number, number, number]> = [
+    [0, height / width, width / height, 0, 0, 0],
+    [0, -height / width, -width / height, 0, width, height],
+    [-1, 0, 0, -1, width, height],
+  ];
+
+  for (const transform of copies) {
+    ctx.save();
+    ctx.setTransform(...transform);
+    ctx.beginPath();
+    ctx.moveTo(width - 1, 0);
+    ctx.lineTo(width, 0);
+    ctx.lineTo(width, height);
+    ctx.lineTo(width - 1, height);
+    ctx.lineTo(width / 2 - 1, height / 2);
+    ctx.closePath();
+    ctx.clip();
+    ctx.drawImage(sourceCell, 0, 0);
+    ctx.restore();
+  }
+}
+
 function drawMirroredCell(
   targetCtx: CanvasRenderingContext2D,
   source: HTMLCanvasElement,
@@ -106,9 +300,11 @@ function drawMirroredCell(
   width: number,
   height: number,
   flipX: boolean,
-  flipY: boolean
+  flipY: boolean,
+  opacity: number
 ): void {
   targetCtx.save();
+  targetCtx.globalAlpha = opacity;
   targetCtx.setTransform(
     flipX ? -1 : 1,
     0,
@@ -120,16 +316,3 @@ function drawMirroredCell(
   targetCtx.drawImage(source, 0, 0, width, height);
   targetCtx.restore();
 }
-
-function createCanvas(width: number, height: number): HTMLCanvasElement {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  return canvas;
-}
-
-function get2DContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
-  const context = canvas.getContext('2d');
-  if (!context) throw new Error('Canvas 2D context is unavailable');
-  return context;
-}
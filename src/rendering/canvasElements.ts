@@ -0,0 +1,32 @@
+/** A detached canvas for offscreen drawing. */
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function get2DContext(
+  canvas: HTMLCanvasElement,
+  settings?: CanvasRenderingContext2DSettings
+): CanvasRenderingContext2D {
+  const context = canvas.getContext('2d', settings);
+  if (!context) throw new Error('Canvas 2D context is unavailable');
+  return context;
+}
+
+/**
+ * Size a reused canvas and clear it for the next frame. Resizing clears a
+ * canvas already, so an unchanged size is cleared by hand.
+ */
+export function resetCanvas(canvas: HTMLCanvasElement, width: number, height: number): CanvasRenderingContext2D {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const context = get2DContext(canvas);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.globalCompositeOperation = 'source-over';
+  context.clearRect(0, 0, width, height);
+  return context;
+}
@@ -2,16 +2,19 @@ import { CanvasContext, CanvasService } from '../services/CanvasService';
 import { State } from '../store/shiboriCanvasState';
 import { HistoryAction } from '../types';
 import { Point } from '../types/DrawingMode';
-import { BezierPath } from '../types/DrawingMode';
+import { BezierPath, SelectionScale } from '../types/DrawingMode';
 import { DrawingTool } from '../types';
 import {
   buildDrawableHistory,
   getRotatedHistoryItemPreview,
+  getScaledHistoryItemPreview,
   getTranslatedHistoryItemPreview,
 } from '../utils/historyOperations';
 import { renderDrawableHistoryItems } from '../utils/historyRenderer';
+import { resolveLayers } from '../utils/layers';
 import { getFoldedCanvasDimensions } from '../utils/foldedCanvasDimensions';
 import { renderUnfoldedCanvas } from './CanvasMirror';
+import { renderDyedPreview } from './dyedPreview';
 
 export interface CanvasElements {
   foldedCanvas: HTMLCanvasElement;
@@ -24,25 +27,37 @@ export interface CanvasRuntimeRefs {
 }
 
 export interface CanvasPreview {
-  selectedHistoryItemId: string | null;
+  selectedHistoryItemIds: string[];
   selectionDragDelta: Point | null;
   selectionRotationPreview: { angle: number; center: Point } | null;
+  selectionScalePreview?: SelectionScale | null;
   pathEditPreview?: { itemId: string; path: BezierPath } | null;
 }
 
 export interface CanvasTransactionState {
   history: State['history'];
   folds: State['folds'];
+  backgroundColor: State['backgroundColor'];
+  dyedPreview?: State['dyedPreview'];
+  foldDepthFade?: State['foldDepthFade'];
   config: State['config'];
   lineThickness: State['lineThickness'];
   shapeFillMode: State['shapeFillMode'];
   preview?: CanvasPreview;
 }
 
+/** Live-view effects on the unfolded canvas; exports render without them. */
+export type UnfoldedPreviewOptions = Pick<CanvasTransactionState, 'dyedPreview' | 'foldDepthFade'>;
+
 export interface CanvasTransactionServices {
   clear: typeof CanvasService.clearCanvases;
   renderHistory: typeof renderDrawableHistoryItems;
-  mirror: (context: CanvasContext, folds: State['folds']) => void;
+  mirror: (
+    context: CanvasContext,
+    folds: State['folds'],
+    backgroundColor: State['backgroundColor'],
+    preview?: UnfoldedPreviewOptions
+  ) => void;
 }
 
 const defaultTransactionServices: CanvasTransactionServices = {
@@ -87,13 +102,14 @@ export function renderCanvasTransaction(
   state: CanvasTransactionState,
   services: CanvasTransactionServices = defaultTransactionServices
 ): void {
-  services.clear(context);
+  services.clear(context, state.backgroundColor);
 
   let drawables = buildDrawableHistory(state.history);
   const preview = state.preview;
-  if (preview?.selectedHistoryItemId) {
+  if (preview && preview.selectedHistoryItemIds.length > 0) {
+    const selectedIds = new Set(preview.selectedHistoryItemIds);
     drawables = drawables.map((item) => {
-      if (item.id !== preview.selectedHistoryItemId) return item;
+      if (!selectedIds.has(item.id)) return item;
       if (preview.selectionRotationPreview) {
         return getRotatedHistoryItemPreview(
           item,
@@ -101,6 +117,9 @@ export function renderCanvasTransaction(
           preview.selectionRotationPreview.center
         );
       }
+      if (preview.selectionScalePreview) {
+        return getScaledHistoryItemPreview(item, preview.selectionScalePreview);
+      }
       if (preview.selectionDragDelta) {
         return getTranslatedHistoryItemPreview(item, preview.selectionDragDelta);
       }
@@ -118,12 +137,25 @@ export function renderCanvasTransaction(
     folds: state.folds,
     lineThickness: state.lineThickness,
     shapeFillMode: state.shapeFillMode,
+    layers: resolveLayers(state.history),
+    backgroundColor: state.backgroundColor,
   });
 
   if (state.history[state.history.length - 1]?.action === HistoryAction.Clear) return;
-  services.mirror(context, state.folds);
+  services.mirror(context, state.folds, state.backgroundColor, {
+    dyedPreview: state.dyedPreview,
+    foldDepthFade: state.foldDepthFade,
+  });
 }
 
-export function mirrorUnfoldedCanvas(context: CanvasContext, folds: State['folds']): void {
-  renderUnfoldedCanvas(context, folds);
+export function mirrorUnfoldedCanvas(
+  context: CanvasContext,
+  folds: State['folds'],
+  backgroundColor: State['backgroundColor'],
+  preview: UnfoldedPreviewOptions = {}
+): void {
+  renderUnfoldedCanvas(context, folds, backgroundColor, undefined, {
+    foldDepthFade: preview.foldDepthFade,
+  });
+  if (preview.dyedPreview) renderDyedPreview(context, folds);
 }
@@ -0,0 +1,231 @@
+import { CanvasService } from '../services/CanvasService';
+import type { CanvasContext, FoldState } from '../services/CanvasService';
+import type { CanvasDimensions } from '../types/DrawingMode';
+import { getFoldGrid, getKaleidoscopeSystem, getPanelEdge, getPanelFoldDepths } from '../utils/foldSystems';
+import { createCanvas, get2DContext, resetCanvas } from './canvasElements';
+
+/** The blurred copy is drawn at this fraction of the canvas size and scaled back up. */
+const BLEED_DOWNSAMPLE = 1 / 6;
+/** Bleed everywhere on the cloth, before creases and fold depth are considered. */
+const BASE_BLEED = 0.35;
+/** Bleed on a crease line, fading to the base over `CREASE_REACH` of a panel. */
+const CREASE_BLEED = 0.85;
+const CREASE_REACH = 0.18;
+/** Cells of the mottling noise along the longer canvas side. */
+const NOISE_CELLS = 48;
+const NOISE_FLOOR = 0.45;
+
+/** One panel of the unfolded cloth and how much dye bleeds into it. */
+export interface BleedPanel {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Share of the bleed left after crossing the layers folded above this panel. */
+  depthFactor: number;
+  /** Which edges of the panel are creases, where the bleed runs further. */
+  creases: { left: boolean; right: boolean; top: boolean; bottom: boolean };
+}
+
+export interface BleedLayout {
+  panels: BleedPanel[];
+  /** Width over which a crease's extra bleed fades out. */
+  reach: number;
+}
+
+/** Scratch canvases kept per unfolded canvas so live renders do not allocate. */
+interface DyedPreviewBuffers {
+  /** Bleed strength per pixel; it depends only on the canvas size and folds. */
+  weights: HTMLCanvasElement;
+  weightsKey: string | null;
+  small: HTMLCanvasElement;
+  bleed: HTMLCanvasElement;
+}
+
+const buffersByCanvas = new WeakMap<HTMLCanvasElement, DyedPreviewBuffers>();
+
+/**
+ * Soften the unfolded canvas into a dyed look, the way dye wicks past a resist.
+ * A blurred copy of the pattern is laid over it, strongest along the creases,
+ * mottled by noise seeded from the canvas and folds so a design always bleeds
+ * the same way. Dye crosses the layers from the top of the folded stack, so
+ * panels folded deeper bleed less. The bleed weights are rebuilt only when the
+ * size or folds change. Only the live view calls this; exports render without it.
+ */
+export function renderDyedPreview(context: CanvasContext, folds: FoldState): void {
+  const { unfoldedCanvas, unfoldedCtx } = context;
+  const { width, height } = unfoldedCanvas;
+  if (width === 0 || height === 0) return;
+
+  const buffers = getBuffers(unfoldedCanvas);
+  const key = getBleedKey({ width, height }, folds);
+  if (buffers.weightsKey !== key) {
+    const weightsCtx = resetCanvas(buffers.weights, width, height);
+    const layout = getBleedLayout({ width, height }, folds);
+    layout.panels.forEach((panel) => drawPanelWeights(weightsCtx, panel, layout.reach));
+    weightsCtx.globalCompositeOperation = 'destination-in';
+    drawNoise(weightsCtx, { width, height }, getBleedSeed(key));
+    buffers.weightsKey = key;
+  }
+
+  const { small, bleed, weights } = buffers;
+  const smallCtx = resetCanvas(
+    small,
+    Math.max(1, Math.round(width * BLEED_DOWNSAMPLE)),
+    Math.max(1, Math.round(height * BLEED_DOWNSAMPLE))
+  );
+  smallCtx.imageSmoothingEnabled = true;
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(unfoldedCanvas, 0, 0, small.width, small.height);
+
+  const bleedCtx = resetCanvas(bleed, width, height);
+  bleedCtx.imageSmoothingEnabled = true;
+  bleedCtx.imageSmoothingQuality = 'high';
+  bleedCtx.drawImage(small, 0, 0, width, height);
+  bleedCtx.globalCompositeOperation = 'destination-in';
+  bleedCtx.drawImage(weights, 0, 0);
+
+  unfoldedCtx.save();
+  unfoldedCtx.setTransform(1, 0, 0, 1, 0, 0);
+  unfoldedCtx.drawImage(bleed, 0, 0);
+  unfoldedCtx.restore();
+}
+
+/**
+ * The panels of a rectangular or accordion fold on the unfolded canvas, each
+ * weighted by its depth in the folded stack (see `getPanelFoldDepths`).
+ * Kaleidoscope systems have no straight creases or panel order, so the cloth
+ * bleeds as one panel under all of its wedges.
+ */
+export function getBleedLayout(dimensions: CanvasDimensions, folds: FoldState): BleedLayout {
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) {
+    return {
+      panels: [{
+        x: 0,
+        y: 0,
+        ...dimensions,
+        depthFactor: 1 / Math.sqrt(kaleidoscope.transforms.length),
+        creases: { left: false, right: false, top: false, bottom: false },
+      }],
+      reach: 0,
+    };
+  }
+
+  const { columns, rows } = getFoldGrid(folds);
+  const depths = getPanelFoldDepths(folds);
+  const diagonalLayers = CanvasService.isDiagonalFoldActive(folds) ? 2 * folds.diagonal.count : 1;
+  const panels: BleedPanel[] = [];
+  for (let row = 0; row < rows; row++) {
+    const y = getPanelEdge(dimensions.height, rows, row);
+    const bottom = getPanelEdge(dimensions.height, rows, row + 1);
+    for (let col = 0; col < columns; col++) {
+      const x = getPanelEdge(dimensions.width, columns, col);
+      const right = getPanelEdge(dimensions.width, columns, col + 1);
+      panels.push({
+        x,
+        y,
+        width: right - x,
+        height: bottom - y,
+        depthFactor: 1 / Math.sqrt((depths[row][col] + 1) * diagonalLayers),
+        creases: { left: col > 0, right: col < columns - 1, top: row > 0, bottom: row < rows - 1 },
+      });
+    }
+  }
+
+  const panelSize = Math.min(dimensions.width / columns, dimensions.height / rows);
+  return { panels, reach: Math.max(1, panelSize * CREASE_REACH) };
+}
+
+/** A deterministic generator of numbers in [0, 1) (mulberry32). */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function getBuffers(canvas: HTMLCanvasElement): DyedPreviewBuffers {
+  let buffers = buffersByCanvas.get(canvas);
+  if (!buffers) {
+    buffers = {
+      weights: createCanvas(1, 1),
+      weightsKey: null,
+      small: createCanvas(1, 1),
+      bleed: createCanvas(1, 1),
+    };
+    buffersByCanvas.set(canvas, buffers);
+  }
+  return buffers;
+}
+
+function getBleedKey(dimensions: CanvasDimensions, folds: FoldState): string {
+  return JSON.stringify([dimensions.width, dimensions.height, folds]);
+}
+
+function getBleedSeed(key: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index++) {
+    hash = Math.imul(hash ^ key.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** A panel's base bleed, rising towards each crease on its edges. */
+function drawPanelWeights(ctx: CanvasRenderingContext2D, panel: BleedPanel, reach: number): void {
+  const { x, y, width, height, depthFactor, creases } = panel;
+  const peak = `rgba(0, 0, 0, ${(CREASE_BLEED - BASE_BLEED) * depthFactor})`;
+  const none = 'rgba(0, 0, 0, 0)';
+  const fade = (x0: number, y0: number, x1: number, y1: number) => {
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    gradient.addColorStop(0, peak);
+    gradient.addColorStop(1, none);
+    return gradient;
+  };
+
+  ctx.fillStyle = `rgba(0, 0, 0, ${BASE_BLEED * depthFactor})`;
+  ctx.fillRect(x, y, width, height);
+  if (creases.left) {
+    ctx.fillStyle = fade(x, 0, x + reach, 0);
+    ctx.fillRect(x, y, reach, height);
+  }
+  if (creases.right) {
+    ctx.fillStyle = fade(x + width, 0, x + width - reach, 0);
+    ctx.fillRect(x + width - reach, y, reach, height);
+  }
+  if (creases.top) {
+    ctx.fillStyle = fade(0, y, 0, y + reach);
+    ctx.fillRect(x, y, width, reach);
+  }
+  if (creases.bottom) {
+    ctx.fillStyle = fade(0, y + height, 0, y + height - reach);
+    ctx.fillRect(x, y + height - reach, width, reach);
+  }
+}
+
+/** Soft blotches: a coarse random grid, smoothed as it is scaled up. */
+function drawNoise(ctx: CanvasRenderingContext2D, dimensions: CanvasDimensions, seed: number): void {
+  const random = createSeededRandom(seed);
+  const cellSize = Math.max(dimensions.width, dimensions.height) / NOISE_CELLS;
+  const noise = createCanvas(
+    Math.max(1, Math.ceil(dimensions.width / cellSize)),
+    Math.max(1, Math.ceil(dimensions.height / cellSize))
+  );
+  const noiseCtx = get2DContext(noise);
+  const image = noiseCtx.createImageData(noise.width, noise.height);
+  for (let index = 0; index < image.data.length; index += 4) {
+    image.data[index + 3] = Math.round(255 * (NOISE_FLOOR + (1 - NOISE_FLOOR) * random()));
+  }
+  noiseCtx.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(noise, 0, 0, noise.width * cellSize, noise.height * cellSize);
+  ctx.restore();
+}
@@ -0,0 +1,247 @@
+import { CanvasService } from '../services/CanvasService';
+import type { FoldState } from '../services/CanvasService';
+import type { CanvasDimensions, Point } from '../types/DrawingMode';
+import { getFoldGrid, getKaleidoscopeSystem } from '../utils/foldSystems';
+import { createCanvas, get2DContext, resetCanvas } from './canvasElements';
+
+/** Darkening of a flap standing on edge, as if it were turned away from the light. */
+const FLAP_SHADE = 0.35;
+
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export type UnfoldAxis = 'horizontal' | 'vertical' | 'diagonal';
+
+export interface UnfoldStep {
+  axis: UnfoldAxis;
+  /**
+   * The layers that swing open. Horizontal and vertical flaps are in cloth
+   * space; diagonal flaps are in the space of one panel.
+   */
+  flap: Point[];
+  /** Where the flap lands when it lies flat: its mirror across the crease. */
+  reflection: AffineMatrix;
+}
+
+/**
+ * Offscreen canvases kept across frames so playback draws into the same
+ * memory instead of allocating new canvases every frame.
+ */
+export interface UnfoldFrameBuffers {
+  /** One panel of the folded canvas, where diagonal flaps open. */
+  cell: HTMLCanvasElement;
+  /** A copy of whatever a flap is cut from, grown to the largest source. */
+  scratch: HTMLCanvasElement;
+}
+
+export interface UnfoldSequence {
+  /** One panel of the cloth, where the folded canvas is drawn. */
+  panel: CanvasDimensions;
+  steps: UnfoldStep[];
+}
+
+/**
+ * The creases of a fold in the order they open: horizontal, then vertical,
+ * then diagonal. Half folds swing the whole opened cloth over each crease and
+ * double it; accordion folds open one panel at a time. Diagonal creases are
+ * opened inside every panel at once after the cloth lies flat. Kaleidoscope
+ * systems have no sequence of straight creases and return null.
+ */
+export function getUnfoldSequence(folds: FoldState, cloth: CanvasDimensions): UnfoldSequence | null {
+  if (getKaleidoscopeSystem(folds)) return null;
+
+  const { columns, rows } = getFoldGrid(folds);
+  const accordion = Boolean(folds.accordion);
+  const panel = { width: cloth.width / columns, height: cloth.height / rows };
+  const steps: UnfoldStep[] = [];
+
+  for (const { crease, span } of getAxisCreases(rows, panel.height, accordion)) {
+    steps.push({
+      axis: 'horizontal',
+      flap: getRectangle(0, crease - span, panel.width, span),
+      reflection: [1, 0, 0, -1, 0, 2 * crease],
+    });
+  }
+  for (const { crease, span } of getAxisCreases(columns, panel.width, accordion)) {
+    steps.push({
+      axis: 'vertical',
+      flap: getRectangle(crease - span, 0, span, cloth.height),
+      reflection: [-1, 0, 0, 1, 2 * crease, 0],
+    });
+  }
+  if (CanvasService.isDiagonalFoldActive(folds)) {
+    steps.push(...getDiagonalSteps(folds, panel));
+  }
+
+  return { panel, steps };
+}
+
+/** How far step `index` has opened, from 0 (folded) to 1 (flat), at `progress` through the sequence. */
+export function getStepProgress(progress: number, stepCount: number, index: number): number {
+  return Math.min(1, Math.max(0, progress * stepCount - index));
+}
+
+/**
+ * The affine transform of a flap `progress` of the way open. A flap hinged on
+ * its crease turns through 180°; seen from above, its depth across the crease
+ * shrinks by the cosine of that angle, so it slides from lying on the stack,
+ * through edge-on at the crease, to its mirror position.
+ */
+export function getFlapTransform(reflection: AffineMatrix, progress: number): AffineMatrix {
+  const opened = (1 - Math.cos(Math.PI * progress)) / 2;
+  const identity: AffineMatrix = [1, 0, 0, 1, 0, 0];
+  return identity.map((value, index) => value + opened * (reflection[index] - value)) as AffineMatrix;
+}
+
+export function createUnfoldFrameBuffers(): UnfoldFrameBuffers {
+  return { cell: createCanvas(1, 1), scratch: createCanvas(1, 1) };
+}
+
+/**
+ * Draw the fold `progress` of the way through unfolding. Panel images come
+ * from the folded canvas: it is cut to its drawable region, diagonal flaps
+ * are opened inside that panel, then the panel is laid in the corner of the
+ * cloth and its horizontal and vertical flaps swing out across the rest.
+ * Only the live animation calls this; the finished frame matches the
+ * unfolded view. Pass the same `buffers` for every frame of an animation.
+ */
+export function renderUnfoldFrame(
+  ctx: CanvasRenderingContext2D,
+  foldedCanvas: HTMLCanvasElement,
+  folds: FoldState,
+  progress: number,
+  buffers: UnfoldFrameBuffers = createUnfoldFrameBuffers()
+): void {
+  const { canvas } = ctx;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+
+  const sequence = getUnfoldSequence(folds, canvas);
+  if (!sequence) return;
+
+  const { panel, steps } = sequence;
+  const { cell, scratch } = buffers;
+  const cellCtx = resetCanvas(cell, Math.max(1, Math.round(panel.width)), Math.max(1, Math.round(panel.height)));
+  cellCtx.save();
+  CanvasService.clipToDrawableRegion(cellCtx, cell, folds);
+  cellCtx.imageSmoothingEnabled = true;
+  cellCtx.imageSmoothingQuality = 'high';
+  cellCtx.drawImage(foldedCanvas, 0, 0, cell.width, cell.height);
+  cellCtx.restore();
+
+  const stepProgress = steps.map((_, index) => getStepProgress(progress, steps.length, index));
+  steps.forEach((step, index) => {
+    if (step.axis === 'diagonal') openFlap(cellCtx, step, stepProgress[index], scratch);
+  });
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(cell, 0, 0, panel.width, panel.height);
+  ctx.restore();
+  steps.forEach((step, index) => {
+    if (step.axis !== 'diagonal') openFlap(ctx, step, stepProgress[index], scratch);
+  });
+}
+
+/**
+ * Swing one flap of what is already drawn over its crease. The flap is
+ * clipped in source space, so the clip follows the transform. What is drawn
+ * is copied to `scratch` first, since a canvas cannot be drawn onto itself;
+ * only the part of `scratch` that copy covers is read back.
+ */
+function openFlap(
+  ctx: CanvasRenderingContext2D,
+  step: UnfoldStep,
+  progress: number,
+  scratch: HTMLCanvasElement
+): void {
+  if (progress <= 0) return;
+
+  const { canvas } = ctx;
+  const { width, height } = canvas;
+  if (scratch.width < width || scratch.height < height) {
+    scratch.width = Math.max(scratch.width, width);
+    scratch.height = Math.max(scratch.height, height);
+  }
+  const scratchCtx = get2DContext(scratch);
+  scratchCtx.clearRect(0, 0, width, height);
+  scratchCtx.drawImage(canvas, 0, 0);
+
+  ctx.save();
+  ctx.setTransform(...getFlapTransform(step.reflection, progress));
+  ctx.beginPath();
+  step.flap.forEach((point, index) => {
+    if (index === 0) ctx.moveTo(point.x, point.y);
+    else ctx.lineTo(point.x, point.y);
+  });
+  ctx.closePath();
+  ctx.clip();
+  ctx.drawImage(scratch, 0, 0, width, height, 0, 0, width, height);
+  const shade = FLAP_SHADE * Math.sin(Math.PI * progress);
+  if (shade > 0) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${shade})`;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.restore();
+}
+
+/** Each crease along one axis with the depth of cloth that swings over it. */
+function getAxisCreases(
+  panels: number,
+  panelSize: number,
+  accordion: boolean
+): Array<{ crease: number; span: number }> {
+  const creases = [];
+  for (let opened = 1; opened < panels; opened = accordion ? opened + 1 : opened * 2) {
+    const crease = opened * panelSize;
+    creases.push({ crease, span: accordion ? panelSize : crease });
+  }
+  return creases;
+}
+
+/**
+ * The diagonal flaps of one panel, matching the reflections the unfolded
+ * renderer composes: a single diagonal opens the drawable half, and a double
+ * diagonal opens the right-hand quarter and then the half it makes.
+ */
+function getDiagonalSteps(folds: FoldState, panel: CanvasDimensions): UnfoldStep[] {
+  const { width, height } = panel;
+  const lowerRightHalf = [{ x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+
+  if (folds.diagonal.count >= 2) {
+    return [
+      {
+        axis: 'diagonal',
+        flap: [{ x: width, y: 0 }, { x: width, y: height }, { x: width / 2, y: height / 2 }],
+        reflection: [0, height / width, width / height, 0, 0, 0],
+      },
+      {
+        axis: 'diagonal',
+        flap: lowerRightHalf,
+        reflection: [0, -height / width, -width / height, 0, width, height],
+      },
+    ];
+  }
+
+  if (folds.diagonal.direction === 'topRightToBottomLeft') {
+    return [{ axis: 'diagonal', flap: lowerRightHalf, reflection: [0, -1, -1, 0, width, height] }];
+  }
+
+  return [{
+    axis: 'diagonal',
+    flap: [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }],
+    reflection: [0, 1, 1, 0, 0, 0],
+  }];
+}
+
+function getRectangle(x: number, y: number, width: number, height: number): Point[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+}
@@ -0,0 +1,249 @@
+import { CanvasService } from '../services/CanvasService';
+import type { CanvasContext } from '../services/CanvasService';
+import { State } from '../store/shiboriCanvasState';
+import type { CanvasDimensions } from '../types/DrawingMode';
+import { resolveScene } from '../utils/historyOperations';
+import { renderDrawableHistoryItems } from '../utils/historyRenderer';
+import { resolveLayers } from '../utils/layers';
+import { getFoldedCanvasDimensions } from '../utils/foldedCanvasDimensions';
+import { createPngEncoder } from '../utils/pngEncoder';
+import {
+  getFoldGrid,
+  getKaleidoscopeCellRadius,
+  getKaleidoscopeSystem,
+  getPanelEdge,
+} from '../utils/foldSystems';
+import { createUnfoldedCell, renderUnfoldedCanvas } from './CanvasMirror';
+import { createCanvas, get2DContext } from './canvasElements';
+
+export interface PrintExportState {
+  history: State['history'];
+  folds: State['folds'];
+  canvasDimensions: State['canvasDimensions'];
+  backgroundColor: State['backgroundColor'];
+  config: State['config'];
+  lineThickness: State['lineThickness'];
+  shapeFillMode: State['shapeFillMode'];
+}
+
+export type PrintUnit = 'cm' | 'in';
+
+export interface PrintSize {
+  /** Physical width of the cloth; the height follows the canvas aspect ratio. */
+  width: number;
+  unit: PrintUnit;
+  dpi: number;
+}
+
+export const CM_PER_INCH = 2.54;
+export const DEFAULT_PRINT_SIZE: PrintSize = { width: 140, unit: 'cm', dpi: 150 };
+export const MIN_PRINT_DPI = 30;
+export const MAX_PRINT_DPI = 1200;
+/** Side of the unfolded tiles the export is assembled from. */
+export const PRINT_EXPORT_TILE_SIZE = 2048;
+/**
+ * Largest side of any intermediate canvas: the folded source and the mirror's
+ * cell canvases. Browsers cap canvas area well below what a print needs, so
+ * larger folded sources are shrunk and the output size is bounded by the cell.
+ */
+export const MAX_PRINT_CANVAS_SIDE = 8192;
+/** Largest exported side; the PNG itself is streamed, never held as a canvas. */
+export const MAX_PRINT_EXPORT_SIDE = 32768;
+/**
+ * Bytes of RGBA rows buffered before they are encoded. Bands are as many rows
+ * as fit, up to a tile, so a full-width band stays at 32 MiB on any export.
+ */
+export const PRINT_EXPORT_BAND_BYTES = 32 * 1024 * 1024;
+
+/** Output pixels for a physical size, keeping the canvas aspect ratio. */
+export function getPrintPixelDimensions(
+  canvasDimensions: CanvasDimensions,
+  size: PrintSize
+): CanvasDimensions {
+  const inches = size.unit === 'cm' ? size.width / CM_PER_INCH : size.width;
+  const width = Math.max(1, Math.round(inches * size.dpi));
+  return {
+    width,
+    height: Math.max(1, Math.round((width * canvasDimensions.height) / canvasDimensions.width)),
+  };
+}
+
+/**
+ * The widest export, in pixels, whose mirror cells and overall size stay
+ * within the print limits for these folds.
+ */
+export function getMaxPrintPixelWidth(
+  canvasDimensions: CanvasDimensions,
+  folds: State['folds']
+): number {
+  const cellScale = MAX_PRINT_CANVAS_SIDE / getLargestCellSide(canvasDimensions, folds);
+  const exportScale = MAX_PRINT_EXPORT_SIDE / Math.max(canvasDimensions.width, canvasDimensions.height);
+  return Math.floor(canvasDimensions.width * Math.min(cellScale, exportScale));
+}
+
+/** Rows per encoded band of an export `width` pixels wide. */
+export function getPrintBandHeight(width: number): number {
+  return Math.max(1, Math.min(PRINT_EXPORT_TILE_SIZE, Math.floor(PRINT_EXPORT_BAND_BYTES / (width * 4))));
+}
+
+/**
+ * Render the unfolded pattern at `output` pixels and encode it as a PNG.
+ *
+ * History is replayed onto a folded canvas at a scaled transform, so strokes
+ * and shapes are drawn at print resolution rather than upscaled. The mirrored
+ * cell is built from it once; the unfolded cloth is then tiled from that cell
+ * and streamed into the PNG one band of tiles at a time.
+ */
+export async function renderPrintPng(
+  state: PrintExportState,
+  output: CanvasDimensions,
+  options: { dpi?: number; onProgress?: (progress: number) => void } = {}
+): Promise<Blob> {
+  if (output.width > getMaxPrintPixelWidth(state.canvasDimensions, state.folds)) {
+    throw new Error(`Print export of ${output.width}px exceeds the canvas limits for these folds`);
+  }
+
+  const source = renderFoldedSource(state, output);
+  const tile = createCanvas(1, 1);
+  const context: CanvasContext = {
+    foldedCanvas: source.canvas,
+    foldedCtx: source.ctx,
+    unfoldedCanvas: tile,
+    unfoldedCtx: get2DContext(tile, { willReadFrequently: true }),
+  };
+  const cell = createUnfoldedCell(source.canvas, state.folds, output);
+  const encoder = createPngEncoder(output.width, output.height, { dpi: options.dpi });
+  const maxBandHeight = getPrintBandHeight(output.width);
+  const band = new Uint8Array(output.width * maxBandHeight * 4);
+
+  for (let y = 0; y < output.height; y += maxBandHeight) {
+    const bandHeight = Math.min(maxBandHeight, output.height - y);
+
+    for (let x = 0; x < output.width; x += PRINT_EXPORT_TILE_SIZE) {
+      const tileWidth = Math.min(PRINT_EXPORT_TILE_SIZE, output.width - x);
+      tile.width = tileWidth;
+      tile.height = bandHeight;
+      renderUnfoldedCanvas(context, state.folds, state.backgroundColor, { x, y, ...output }, { cell });
+
+      const pixels = context.unfoldedCtx.getImageData(0, 0, tileWidth, bandHeight).data;
+      for (let row = 0; row < bandHeight; row++) {
+        band.set(
+          pixels.subarray(row * tileWidth * 4, (row + 1) * tileWidth * 4),
+          (row * output.width + x) * 4
+        );
+      }
+    }
+
+    encoder.writeRows(band.subarray(0, output.width * bandHeight * 4));
+    options.onProgress?.((y + bandHeight) / output.height);
+    // Let the dialog repaint its progress between bands.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return new Blob(encoder.finish(), { type: 'image/png' });
+}
+
+/**
+ * The smallest rectangle whose translated copies reproduce the unfolded cloth,
+ * in cloth pixels from its top-left corner. Alternate grid panels are mirrored,
+ * so grids repeat every two panels; a single panel repeats as itself.
+ * Kaleidoscope systems repeat on their lattice.
+ */
+export function getRepeatTileSize(
+  canvasDimensions: CanvasDimensions,
+  folds: State['folds']
+): CanvasDimensions {
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) {
+    const radius = getKaleidoscopeCellRadius(canvasDimensions);
+    const [first, second] = kaleidoscope.lattice;
+    // The second lattice vector is vertical. A slanted first vector (the
+    // hexagonal lattices) gives a horizontal period of twice it less the second.
+    const period = first.y === 0 ? first.x : 2 * first.x - second.x;
+    return {
+      width: Math.max(1, Math.round(period * radius)),
+      height: Math.max(1, Math.round(second.y * radius)),
+    };
+  }
+
+  const { columns, rows } = getFoldGrid(folds);
+  return {
+    width: Math.max(1, getPanelEdge(canvasDimensions.width, columns, Math.min(columns, 2))),
+    height: Math.max(1, getPanelEdge(canvasDimensions.height, rows, Math.min(rows, 2))),
+  };
+}
+
+/** Render the repeat tile at the canvas's own resolution. */
+export function renderRepeatTile(state: PrintExportState): HTMLCanvasElement {
+  const size = getRepeatTileSize(state.canvasDimensions, state.folds);
+  const source = renderFoldedSource(state, state.canvasDimensions);
+  const tile = createCanvas(size.width, size.height);
+
+  renderUnfoldedCanvas(
+    { foldedCanvas: source.canvas, foldedCtx: source.ctx, unfoldedCanvas: tile, unfoldedCtx: get2DContext(tile, { willReadFrequently: true }) },
+    state.folds,
+    state.backgroundColor,
+    { x: 0, y: 0, ...state.canvasDimensions }
+  );
+  return tile;
+}
+
+/** Render the whole unfolded cloth into one canvas, for example a thumbnail. */
+export function renderUnfoldedImage(
+  state: PrintExportState,
+  output: CanvasDimensions
+): HTMLCanvasElement {
+  const source = renderFoldedSource(state, output);
+  const canvas = createCanvas(output.width, output.height);
+
+  renderUnfoldedCanvas(
+    { foldedCanvas: source.canvas, foldedCtx: source.ctx, unfoldedCanvas: canvas, unfoldedCtx: get2DContext(canvas, { willReadFrequently: true }) },
+    state.folds,
+    state.backgroundColor
+  );
+  return canvas;
+}
+
+/**
+ * The folded canvas the live runtime would use at the output size, shrunk to
+ * the canvas limit when needed. The mirror downsamples it to cell size anyway.
+ */
+function renderFoldedSource(
+  state: PrintExportState,
+  output: CanvasDimensions
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const folded = getFoldedCanvasDimensions(state.canvasDimensions, state.folds);
+  const target = getFoldedCanvasDimensions(output, state.folds);
+  const limit = Math.min(1, MAX_PRINT_CANVAS_SIDE / Math.max(target.width, target.height));
+  const canvas = createCanvas(
+    Math.max(1, Math.floor(target.width * limit)),
+    Math.max(1, Math.floor(target.height * limit))
+  );
+  const ctx = get2DContext(canvas, { willReadFrequently: true });
+
+  CanvasService.fillBackground(ctx, canvas, state.backgroundColor);
+  ctx.setTransform(canvas.width / folded.width, 0, 0, canvas.height / folded.height, 0, 0);
+  renderDrawableHistoryItems(ctx, folded, resolveScene(state.history), {
+    config: state.config,
+    folds: state.folds,
+    lineThickness: state.lineThickness,
+    shapeFillMode: state.shapeFillMode,
+    layers: resolveLayers(state.history),
+    backgroundColor: state.backgroundColor,
+  });
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  return { canvas, ctx };
+}
+
+/** Largest mirror cell side, in pixels, at the canvas's own size. */
+function getLargestCellSide(canvasDimensions: CanvasDimensions, folds: State['folds']): number {
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) {
+    const extent = Math.max(...kaleidoscope.wedge.map((point) => Math.hypot(point.x, point.y)));
+    return 2 * getKaleidoscopeCellRadius(canvasDimensions) * extent;
+  }
+
+  const { columns, rows } = getFoldGrid(folds);
+  return Math.max(canvasDimensions.width / columns, canvasDimensions.height / rows);
+}
@@ -1,5 +1,6 @@
 import type { CanvasContext, FoldState } from '../services/CanvasService';
 import { renderUnfoldedCanvas } from './CanvasMirror';
+import { createCanvas, get2DContext } from './canvasElements';
 
 export interface RendererBenchmarkScenario {
   name: string;
@@ -52,6 +53,20 @@ export function defaultRendererBenchmarkScenarios(): RendererBenchmarkScenario[]
         folds(3, 3, true),
         size === 1600 ? 16.7 : size === 3200 ? 50 : null
       ),
+      scenario(
+        `${size}-accordion-thirds-fifths`,
+        size,
+        iterations,
+        accordionFolds(3, 5, false),
+        null
+      ),
+      scenario(
+        `${size}-max-accordion-diagonal`,
+        size,
+        iterations,
+        accordionFolds(12, 12, true),
+        null
+      ),
     ];
   });
 }
@@ -94,7 +109,7 @@ function benchmarkScenario(scenario: RendererBenchmarkScenario): RendererBenchma
 function runDiagonalSemanticsProbe(): DiagonalProbeResult {
   const size = 64;
   const foldedCanvas = createCanvas(size, size);
-  const foldedCtx = get2DContext(foldedCanvas);
+  const foldedCtx = get2DContext(foldedCanvas, { willReadFrequently: true });
   foldedCtx.fillStyle = 'navy';
   foldedCtx.fillRect(0, 0, size, size);
   foldedCtx.fillStyle = 'white';
@@ -102,7 +117,7 @@ function runDiagonalSemanticsProbe(): DiagonalProbeResult {
 
   const target = createCanvas(size, size);
   renderUnfoldedCanvas(createContext(foldedCanvas, target), folds(0, 0, true));
-  const image = get2DContext(target).getImageData(0, 0, size, size);
+  const image = get2DContext(target, { willReadFrequently: true }).getImageData(0, 0, size, size);
 
   return {
     sourceRegionWhitePixels: countWhiteInRegion(image, 44, 38, 53, 45),
@@ -125,7 +140,7 @@ function scenario(
 
 function createFoldedFixture(size: number): HTMLCanvasElement {
   const canvas = createCanvas(size, size);
-  const ctx = get2DContext(canvas);
+  const ctx = get2DContext(canvas, { willReadFrequently: true });
   ctx.fillStyle = 'navy';
   ctx.fillRect(0, 0, size, size);
   ctx.strokeStyle = 'white';
@@ -155,6 +170,10 @@ function folds(vertical: number, horizontal: number, diagonal: boolean): FoldSta
   };
 }
 
+function accordionFolds(columns: number, rows: number, diagonal: boolean): FoldState {
+  return { ...folds(0, 0, diagonal), accordion: { columns, rows } };
+}
+
 function createContext(
   foldedCanvas: HTMLCanvasElement,
   unfoldedCanvas: HTMLCanvasElement
@@ -162,24 +181,11 @@ function createContext(
   return {
     foldedCanvas,
     unfoldedCanvas,
-    foldedCtx: get2DContext(foldedCanvas),
-    unfoldedCtx: get2DContext(unfoldedCanvas),
+    foldedCtx: get2DContext(foldedCanvas, { willReadFrequently: true }),
+    unfoldedCtx: get2DContext(unfoldedCanvas, { willReadFrequently: true }),
   };
 }
 
-function createCanvas(width: number, height: number): HTMLCanvasElement {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  return canvas;
-}
-
-function get2DContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
-  const context = canvas.getContext('2d', { willReadFrequently: true });
-  if (!context) throw new Error('Canvas 2D context is unavailable');
-  return context;
-}
-
 function countWhiteInRegion(
   image: ImageData,
   minX: number,
@@ -0,0 +1,342 @@
+import { CanvasService } from '../services/CanvasService';
+import { State } from '../store/shiboriCanvasState';
+import { DrawingTool, ShapeFillMode } from '../types';
+import type { CanvasDimensions, Point } from '../types/DrawingMode';
+import { DrawableHistoryItem, resolveScene } from '../utils/historyOperations';
+import { getPaintbrushOutline } from '../utils/historyRenderer';
+import { getLayerId, getVisibleScene, resolveLayers } from '../utils/layers';
+import { getFoldedCanvasDimensions } from '../utils/foldedCanvasDimensions';
+import { getBoundsCenter, getCircleCenter, getRectBounds, getSquareEndPoint } from '../utils/geometryMath';
+import { getPolygonShapeVertices } from '../utils/polygonShapes';
+import { getResistBlockItemOutline, withResistBlocksOnTop } from '../utils/resistBlocks';
+import { getBezierSegments, legacyPointsToPath } from '../utils/bezierPath';
+import { TRANSPARENT_BACKGROUND } from '../utils/drawingColor';
+import {
+  KALEIDOSCOPE_WEDGE_OVERLAP,
+  KaleidoscopeSystem,
+  applyLinearTransform,
+  expandPolygon,
+  getFoldGrid,
+  getKaleidoscopeCellCenters,
+  getKaleidoscopeCellRadius,
+  getKaleidoscopeSystem,
+  getPanelEdge,
+  getWedgeBounds,
+} from '../utils/foldSystems';
+
+export interface SvgExportState {
+  history: State['history'];
+  folds: State['folds'];
+  canvasDimensions: State['canvasDimensions'];
+  backgroundColor: State['backgroundColor'];
+  config: State['config'];
+  lineThickness: State['lineThickness'];
+  shapeFillMode: State['shapeFillMode'];
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const SOURCE_ID = 'shibori-folded';
+const CELL_SOURCE_ID = 'shibori-cell-source';
+const CELL_ID = 'shibori-cell';
+const REGION_CLIP_ID = 'shibori-drawable-region';
+const ERASE_MASK_ID = 'shibori-erase';
+
+/**
+ * Vector counterpart of the canvas pipeline. The resolved scene is written once
+ * in folded-canvas coordinates; `<use>` copies then reproduce the diagonal,
+ * grid, and kaleidoscope transforms and clips of `CanvasMirror`.
+ */
+export function renderUnfoldedSvg(state: SvgExportState): string {
+  const { width, height } = state.canvasDimensions;
+  const folded = getFoldedCanvasDimensions(state.canvasDimensions, state.folds);
+  const region = CanvasService.getDrawableRegionPolygon(folded, state.folds);
+  const defs = [
+    region ? `<clipPath id="${REGION_CLIP_ID}"><path d="${getPolygonPath(region)}"/></clipPath>` : '',
+  ];
+  const items = renderScene(state, defs, folded);
+  defs.push(
+    `<g id="${SOURCE_ID}"${region ? ` clip-path="url(#${REGION_CLIP_ID})"` : ''}>${items}</g>`
+  );
+
+  const kaleidoscope = getKaleidoscopeSystem(state.folds);
+  const copies = kaleidoscope
+    ? renderKaleidoscopeCells(defs, state.canvasDimensions, folded, kaleidoscope)
+    : renderGridCells(defs, state.canvasDimensions, folded, state.folds);
+  const background = state.backgroundColor === TRANSPARENT_BACKGROUND
+    ? ''
+    : `<rect width="${width}" height="${height}" fill="${escapeAttribute(state.backgroundColor)}"/>`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>${defs.join('')}</defs>`,
+    background,
+    copies,
+    '</svg>',
+  ].join('');
+}
+
+function renderGridCells(
+  defs: string[],
+  dimensions: CanvasDimensions,
+  folded: CanvasDimensions,
+  folds: State['folds']
+): string {
+  const { columns, rows } = getFoldGrid(folds);
+  const cellWidth = Math.max(1, Math.floor(dimensions.width / columns));
+  const cellHeight = Math.max(1, Math.floor(dimensions.height / rows));
+
+  defs.push(
+    `<g id="${CELL_SOURCE_ID}">${referenceElement(SOURCE_ID, [cellWidth / folded.width, 0, 0, cellHeight / folded.height, 0, 0])}</g>`,
+    `<g id="${CELL_ID}">${CanvasService.isDiagonalFoldActive(folds)
+      ? renderDiagonalCell(defs, cellWidth, cellHeight, folds)
+      : referenceElement(CELL_SOURCE_ID)}</g>`
+  );
+
+  const copies: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    const y = getPanelEdge(dimensions.height, rows, row);
+    const panelHeight = getPanelEdge(dimensions.height, rows, row + 1) - y;
+    for (let col = 0; col < columns; col++) {
+      const x = getPanelEdge(dimensions.width, columns, col);
+      const panelWidth = getPanelEdge(dimensions.width, columns, col + 1) - x;
+      const flipX = col % 2 === 1;
+      const flipY = row % 2 === 1;
+      copies.push(referenceElement(CELL_ID, [
+        (flipX ? -1 : 1) * (panelWidth / cellWidth),
+        0,
+        0,
+        (flipY ? -1 : 1) * (panelHeight / cellHeight),
+        flipX ? x + panelWidth : x,
+        flipY ? y + panelHeight : y,
+      ]));
+    }
+  }
+
+  return copies.join('');
+}
+
+function renderDiagonalCell(
+  defs: string[],
+  width: number,
+  height: number,
+  folds: State['folds']
+): string {
+  if (folds.diagonal.count >= 2) {
+    // Matches drawDualDiagonalCopies: each copy is clipped in source space.
+    defs.push(clipPath('shibori-quarter', [
+      { x: width - 1, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: width - 1, y: height },
+      { x: width / 2 - 1, y: height / 2 },
+    ]));
+    const copies: Matrix[] = [
+      [0, height / width, width / height, 0, 0, 0],
+      [0, -height / width, -width / height, 0, width, height],
+      [-1, 0, 0, -1, width, height],
+    ];
+    return referenceElement(CELL_SOURCE_ID) + copies
+      .map((transform) => `<g transform="${formatMatrix(transform)}"><g clip-path="url(#shibori-quarter)">${referenceElement(CELL_SOURCE_ID)}</g></g>`)
+      .join('');
+  }
+
+  const topRightToBottomLeft = folds.diagonal.direction === 'topRightToBottomLeft';
+  defs.push(clipPath('shibori-diagonal', topRightToBottomLeft
+    ? [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: 0, y: height }]
+    : [{ x: 0, y: 0 }, { x: 0, y: height }, { x: width, y: height }]));
+  const reflection: Matrix = topRightToBottomLeft
+    ? [0, -1, -1, 0, width, height]
+    : [0, 1, 1, 0, 0, 0];
+
+  return referenceElement(CELL_SOURCE_ID) +
+    `<g clip-path="url(#shibori-diagonal)">${referenceElement(CELL_SOURCE_ID, reflection)}</g>`;
+}
+
+function renderKaleidoscopeCells(
+  defs: string[],
+  dimensions: CanvasDimensions,
+  folded: CanvasDimensions,
+  system: KaleidoscopeSystem
+): string {
+  const radius = getKaleidoscopeCellRadius(dimensions);
+  const bounds = getWedgeBounds(system);
+  const scaleX = (bounds.maxX - bounds.minX) / folded.width;
+  const scaleY = (bounds.maxY - bounds.minY) / folded.height;
+  const clipPolygon = expandPolygon(system.wedge, KALEIDOSCOPE_WEDGE_OVERLAP / 2);
+
+  const wedges = system.transforms.map((transform, index) => {
+    const [a, b, c, d] = transform;
+    const id = `shibori-wedge-${index}`;
+    defs.push(clipPath(id, clipPolygon.map((point) => {
+      const mapped = applyLinearTransform(transform, point);
+      return { x: mapped.x * radius, y: mapped.y * radius };
+    })));
+    // cell = centre + radius * T * (wedge minimum + folded pixel * scale)
+    const origin = applyLinearTransform(transform, { x: bounds.minX, y: bounds.minY });
+    return `<g clip-path="url(#${id})">${referenceElement(SOURCE_ID, [
+      radius * a * scaleX,
+      radius * b * scaleX,
+      radius * c * scaleY,
+      radius * d * scaleY,
+      radius * origin.x,
+      radius * origin.y,
+    ])}</g>`;
+  });
+  defs.push(`<g id="${CELL_ID}">${wedges.join('')}</g>`);
+
+  return getKaleidoscopeCellCenters(dimensions, system, radius)
+    .map((center) => referenceElement(CELL_ID, [1, 0, 0, 1, Math.round(center.x), Math.round(center.y)]))
+    .join('');
+}
+
+/**
+ * Visible layers bottom first; each mark carries its layer's opacity, as on the
+ * canvas. An eraser stroke becomes a mask over everything drawn before it, and
+ * resist blocks, drawn last, mask the whole scene.
+ */
+function renderScene(state: SvgExportState, defs: string[], folded: CanvasDimensions): string {
+  const layers = resolveLayers(state.history);
+  const opacities = new Map(layers.map((layer) => [layer.id, layer.opacity]));
+  let elements = '';
+  for (const item of withResistBlocksOnTop(getVisibleScene(resolveScene(state.history), layers))) {
+    const opacity = opacities.get(getLayerId(item)) ?? 1;
+    if (opacity <= 0) continue;
+    if (item.action === DrawingTool.Eraser || item.action === DrawingTool.ResistBlock) {
+      const knockout = getKnockoutElement(item, state, opacity);
+      if (!knockout || !elements) continue;
+      const id = `${ERASE_MASK_ID}-${defs.length}`;
+      defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${folded.width}" height="${folded.height}"><rect width="${folded.width}" height="${folded.height}" fill="white"/>${knockout}</mask>`);
+      elements = `<g mask="url(#${id})">${elements}</g>`;
+      continue;
+    }
+    const element = renderItem(item, state);
+    elements += opacity < 1 && element ? `<g opacity="${formatNumber(opacity, 3)}">${element}</g>` : element;
+  }
+  return elements;
+}
+
+function getPaintbrushPath(item: DrawableHistoryItem, state: SvgExportState): string {
+  if (item.points.length === 0) return '';
+  const outline = getPaintbrushOutline(item.points, item.style?.lineThickness ?? state.lineThickness, item.penSamples);
+  return outline.length ? getPolygonPath(outline.map(([x, y]) => ({ x, y }))) : '';
+}
+
+/** The black mask shape that cuts an eraser stroke or resist block out of the scene. */
+function getKnockoutElement(item: DrawableHistoryItem, state: SvgExportState, opacity: number): string {
+  const paint = `fill="black"${opacity < 1 ? ` fill-opacity="${formatNumber(opacity, 3)}"` : ''}`;
+  if (item.action === DrawingTool.Eraser) {
+    const path = getPaintbrushPath(item, state);
+    return path ? `<path d="${path}" ${paint}/>` : '';
+  }
+  const outline = getResistBlockItemOutline(item);
+  if (!outline) return '';
+  return outline.kind === 'circle'
+    ? `<circle cx="${formatNumber(outline.center.x)}" cy="${formatNumber(outline.center.y)}" r="${formatNumber(outline.radius)}" ${paint}/>`
+    : `<path d="${getPolygonPath(outline.vertices)}" ${paint}/>`;
+}
+
+function renderItem(item: DrawableHistoryItem, state: SvgExportState): string {
+  const color = escapeAttribute(item.style?.color ?? state.config.lineColor);
+  const lineThickness = item.style?.lineThickness ?? state.lineThickness;
+  const filled = (item.style?.shapeFillMode ?? item.shapeFillMode ?? state.shapeFillMode) === ShapeFillMode.Filled;
+  const shapePaint = (fill: boolean) => fill
+    ? `fill="${color}"`
+    : `fill="none" stroke="${color}" stroke-width="${formatNumber(lineThickness)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  switch (item.action) {
+    case DrawingTool.Paintbrush: {
+      const path = getPaintbrushPath(item, state);
+      return path ? `<path d="${path}" fill="${color}"/>` : '';
+    }
+    case DrawingTool.Eraser:
+    case DrawingTool.ResistBlock:
+      // Applied as a mask by renderScene
+      return '';
+    case DrawingTool.Line: {
+      if (item.points.length < 2) return '';
+      const [start, end] = item.points;
+      return `<line x1="${formatNumber(start.x)}" y1="${formatNumber(start.y)}" x2="${formatNumber(end.x)}" y2="${formatNumber(end.y)}" stroke="${color}" stroke-width="${formatNumber(lineThickness)}"/>`;
+    }
+    case DrawingTool.Rectangle:
+    case DrawingTool.Square: {
+      if (item.points.length < 2) return '';
+      const end = item.action === DrawingTool.Square
+        ? getSquareEndPoint(item.points[0], item.points[1])
+        : item.points[1];
+      const bounds = getRectBounds(item.points[0], end);
+      return `<rect x="${formatNumber(bounds.minX)}" y="${formatNumber(bounds.minY)}" width="${formatNumber(bounds.maxX - bounds.minX)}" height="${formatNumber(bounds.maxY - bounds.minY)}" ${shapePaint(filled)}${getRotationAttribute(item, getBoundsCenter(bounds))}/>`;
+    }
+    case DrawingTool.Circle: {
+      if (item.points.length < 2) return '';
+      const [start, edge] = item.points;
+      const radius = Math.hypot(edge.x - start.x, edge.y - start.y);
+      if (radius <= 0) return '';
+      const center = getCircleCenter(item);
+      return `<circle cx="${formatNumber(center.x)}" cy="${formatNumber(center.y)}" r="${formatNumber(radius)}" ${shapePaint(filled)}/>`;
+    }
+    case DrawingTool.Ellipse: {
+      if (item.points.length < 2) return '';
+      const [center, corner] = item.points;
+      const radiusX = Math.abs(corner.x - center.x);
+      const radiusY = Math.abs(corner.y - center.y);
+      if (radiusX <= 0 || radiusY <= 0) return '';
+      return `<ellipse cx="${formatNumber(center.x)}" cy="${formatNumber(center.y)}" rx="${formatNumber(radiusX)}" ry="${formatNumber(radiusY)}" ${shapePaint(filled)}${getRotationAttribute(item, center)}/>`;
+    }
+    case DrawingTool.Polygon:
+    case DrawingTool.Star: {
+      const vertices = getPolygonShapeVertices(item);
+      if (vertices.length < 3) return '';
+      return `<path d="${getPolygonPath(vertices)}" ${shapePaint(filled)}/>`;
+    }
+    case DrawingTool.Bezier: {
+      const path = item.path ?? legacyPointsToPath(item.points, item.id);
+      if (!path || path.anchors.length === 0) return '';
+      const start = path.anchors[0].point;
+      const segments = getBezierSegments(path).map(({ points: [, first, second, end] }) =>
+        `C${formatPoint(first)} ${formatPoint(second)} ${formatPoint(end)}`);
+      const data = [`M${formatPoint(start)}`, ...segments, ...(path.closed ? ['Z'] : [])].join(' ');
+      return `<path d="${data}" ${shapePaint(path.closed && filled)}/>`;
+    }
+  }
+}
+
+function getRotationAttribute(item: DrawableHistoryItem, fallbackCenter: Point): string {
+  if (!item.rotation) return '';
+  const center = item.rotationCenter ?? fallbackCenter;
+  const degrees = (item.rotation * 180) / Math.PI;
+  return ` transform="rotate(${formatNumber(degrees, 4)} ${formatPoint(center)})"`;
+}
+
+function referenceElement(id: string, transform?: Matrix): string {
+  return `<use href="#${id}"${transform ? ` transform="${formatMatrix(transform)}"` : ''}/>`;
+}
+
+function clipPath(id: string, polygon: Point[]): string {
+  return `<clipPath id="${id}"><path d="${getPolygonPath(polygon)}"/></clipPath>`;
+}
+
+function getPolygonPath(points: Point[]): string {
+  return points.map((point, index) => `${index === 0 ? 'M' : 'L'}${formatPoint(point)}`).join(' ') + ' Z';
+}
+
+function formatMatrix(matrix: Matrix): string {
+  return `matrix(${matrix.map((value) => formatNumber(value, 6)).join(' ')})`;
+}
+
+function formatPoint(point: Point): string {
+  return `${formatNumber(point.x)} ${formatNumber(point.y)}`;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  const factor = Math.pow(10, digits);
+  return String(Math.round(value * factor) / factor);
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -1,5 +1,16 @@
 import { logger } from '../utils/logger';
 import { getFoldedCanvasDimensions } from '../utils/foldedCanvasDimensions';
+import { DEFAULT_BACKGROUND_COLOR, TRANSPARENT_BACKGROUND } from '../utils/drawingColor';
+import {
+  KALEIDOSCOPE_WEDGE_OVERLAP,
+  getFoldGrid,
+  getFoldedWedgePolygon,
+  getKaleidoscopeSystem,
+  hasSquareFoldGrid,
+} from '../utils/foldSystems';
+import { isPointInPolygon } from '../utils/geometryMath';
+import type { AccordionPanels, FoldSystem } from '../types';
+import type { CanvasDimensions, Point } from '../types/DrawingMode';
 
 export interface CanvasContext {
   foldedCtx: CanvasRenderingContext2D;
@@ -16,10 +27,10 @@ export interface FoldState {
     count: number;
     direction: string;
   };
+  system?: FoldSystem;
+  accordion?: AccordionPanels;
 }
 
-const BACKGROUND_COLOR = "navy";
-
 export class CanvasService {
   /**
    * Clear both canvases and apply background color
@@ -29,22 +40,32 @@ export class CanvasService {
     
     const { foldedCtx, unfoldedCtx, foldedCanvas, unfoldedCanvas } = context;
 
-    unfoldedCtx.clearRect(0, 0, unfoldedCanvas.width, unfoldedCanvas.height);
-    foldedCtx.clearRect(0, 0, foldedCanvas.width, foldedCanvas.height);
+    CanvasService.fillBackground(unfoldedCtx, unfoldedCanvas, backgroundColor);
+    CanvasService.fillBackground(foldedCtx, foldedCanvas, backgroundColor);
+  }
 
-    const bgColor = backgroundColor || BACKGROUND_COLOR;
-    
-    // Apply background to unfolded canvas
-    unfoldedCtx.fillStyle = bgColor;
-    unfoldedCtx.fillRect(0, 0, unfoldedCanvas.width, unfoldedCanvas.height);
+  /**
+   * Reset a canvas to the cloth color. A transparent background leaves the
+   * cleared pixels empty so PNG export keeps its alpha channel.
+   */
+  static fillBackground(
+    ctx: CanvasRenderingContext2D,
+    canvas: { width: number; height: number },
+    backgroundColor: string = DEFAULT_BACKGROUND_COLOR
+  ): void {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (backgroundColor === TRANSPARENT_BACKGROUND) return;
 
-    // Apply background to folded canvas
-    foldedCtx.fillStyle = bgColor;
-    foldedCtx.fillRect(0, 0, foldedCanvas.width, foldedCanvas.height);
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
   }
 
   /** Size the folded backing store to the unmatched-fold aspect ratio. */
-  static updateFoldedCanvasDimensions(context: CanvasContext, folds: FoldState): CanvasRenderingContext2D | null {
+  static updateFoldedCanvasDimensions(
+    context: CanvasContext,
+    folds: FoldState,
+    backgroundColor?: string
+  ): CanvasRenderingContext2D | null {
     logger.canvas.operation('updateFoldedCanvasDimensions', folds);
     
     const { foldedCanvas, unfoldedCanvas } = context;
@@ -59,56 +80,92 @@ export class CanvasService {
     });
 
     if (newFoldedCtx) {
-      newFoldedCtx.fillStyle = BACKGROUND_COLOR;
-      newFoldedCtx.fillRect(0, 0, foldedCanvas.width, foldedCanvas.height);
+      CanvasService.fillBackground(newFoldedCtx, foldedCanvas, backgroundColor);
     }
 
     return newFoldedCtx;
   }
 
   static isDiagonalFoldActive(folds: FoldState): boolean {
-    return folds.diagonal.enabled && folds.diagonal.count === 1 && folds.vertical === folds.horizontal;
+    return !getKaleidoscopeSystem(folds) &&
+      folds.diagonal.enabled && folds.diagonal.count >= 1 && hasSquareFoldGrid(folds);
   }
 
   static traceDrawableRegionPath(
     ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
+    canvas: CanvasDimensions,
     folds: FoldState
   ): void {
     ctx.beginPath();
 
-    if (!CanvasService.isDiagonalFoldActive(folds)) {
+    const region = CanvasService.getDrawableRegionPolygon(canvas, folds);
+    if (!region) {
       ctx.rect(0, 0, canvas.width, canvas.height);
       return;
     }
 
-    const width = canvas.width;
-    const height = canvas.height;
+    const [first, ...rest] = region;
+    ctx.moveTo(first.x, first.y);
+    rest.forEach((point) => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+  }
+
+  /**
+   * The folded-canvas region drawables are clipped to, or null when the whole
+   * folded canvas is drawable. Shared by canvas clipping and vector export.
+   */
+  static getDrawableRegionPolygon(
+    dimensions: CanvasDimensions,
+    folds: FoldState
+  ): Point[] | null {
+    const kaleidoscope = getKaleidoscopeSystem(folds);
+    if (kaleidoscope) {
+      return getFoldedWedgePolygon(kaleidoscope, dimensions, KALEIDOSCOPE_WEDGE_OVERLAP);
+    }
+
+    if (!CanvasService.isDiagonalFoldActive(folds)) {
+      return null;
+    }
+
+    const { width, height } = dimensions;
     // Canvas clips antialias their diagonal edge. Extend the render-only clip
     // far enough to retain one fully covered unfolded-cell pixel after
     // downsampling, so the source and reflection meet without a background seam.
-    const overlap = 2 * Math.pow(2, folds.vertical);
+    const overlap = 2 * getFoldGrid(folds).columns;
+
+    if (folds.diagonal.count >= 2) {
+      // Both diagonals: the right-hand quarter, overlapping both creases.
+      return [
+        { x: width - overlap, y: 0 },
+        { x: width, y: 0 },
+        { x: width, y: height },
+        { x: width - overlap, y: height },
+        { x: width / 2 - overlap, y: height / 2 },
+      ];
+    }
 
     if (folds.diagonal.direction === 'topRightToBottomLeft') {
-      ctx.moveTo(width - overlap, 0);
-      ctx.lineTo(width, 0);
-      ctx.lineTo(width, height);
-      ctx.lineTo(0, height);
-      ctx.lineTo(0, height - overlap);
-    } else {
-      ctx.moveTo(0, overlap);
-      ctx.lineTo(0, 0);
-      ctx.lineTo(width, 0);
-      ctx.lineTo(width, height);
-      ctx.lineTo(width - overlap, height);
+      return [
+        { x: width - overlap, y: 0 },
+        { x: width, y: 0 },
+        { x: width, y: height },
+        { x: 0, y: height },
+        { x: 0, y: height - overlap },
+      ];
     }
 
-    ctx.closePath();
+    return [
+      { x: 0, y: overlap },
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: width - overlap, y: height },
+    ];
   }
 
   static clipToDrawableRegion(
     ctx: CanvasRenderingContext2D,
-    canvas: HTMLCanvasElement,
+    canvas: CanvasDimensions,
     folds: FoldState
   ): void {
     CanvasService.traceDrawableRegionPath(ctx, canvas, folds);
@@ -116,7 +173,7 @@ export class CanvasService {
   }
 
   /**
-   * Check if a point is in the valid drawing area based on diagonal fold
+   * Check if a point is in the valid drawing area based on diagonal fold or kaleidoscope wedge
    */
   static isInValidDrawingArea(
     x: number, 
@@ -124,11 +181,22 @@ export class CanvasService {
     folds: FoldState, 
     _foldedCanvas: HTMLCanvasElement
   ): boolean {
+    const kaleidoscope = getKaleidoscopeSystem(folds);
+    if (kaleidoscope) {
+      return isPointInPolygon({ x, y }, getFoldedWedgePolygon(kaleidoscope, _foldedCanvas));
+    }
+
     // Only apply restriction if diagonal fold is active (count is 1 and canvas is square)
     if (!CanvasService.isDiagonalFoldActive(folds)) {
       return true;
     }
 
+    if (folds.diagonal.count >= 2) {
+      const u = x / _foldedCanvas.width;
+      const v = y / _foldedCanvas.height;
+      return u > v && u + v > 1;
+    }
+
     if (folds.diagonal.direction === 'topRightToBottomLeft') {
       return x + y > _foldedCanvas.width;
     }
@@ -173,4 +241,32 @@ export class CanvasService {
       logger.error("Error downloading canvas as image", error as Error);
     }
   }
+
+  static downloadSvg(svg: string, filename?: string): void {
+    logger.canvas.operation('downloadSvg', { filename });
+
+    try {
+      CanvasService.downloadBlob(
+        new Blob([svg], { type: "image/svg+xml" }),
+        filename || `shibori-design-${new Date().toISOString().slice(0, 10)}.svg`
+      );
+    } catch (error) {
+      logger.error("Error downloading design as SVG", error as Error);
+    }
+  }
+
+  /**
+   * Save a rendered file through a temporary object URL
+   */
+  static downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
 }
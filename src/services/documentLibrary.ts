@@ -0,0 +1,201 @@
+import { logger } from '../utils/logger';
+import {
+  normalizeSerializableStateFromUnknown,
+  SerializableState,
+  STORED_DOCUMENT_LIMITS,
+} from '../utils/urlStateUtils';
+
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** PNG data URL of the unfolded pattern, when one could be rendered. */
+  thumbnail: string | null;
+  state: SerializableState;
+}
+
+export type LibraryDocumentSummary = Omit<LibraryDocument, 'state'>;
+
+/** Key-value persistence behind the library: IndexedDB in the browser. */
+export interface DocumentStore {
+  getAll(): Promise<unknown[]>;
+  get(id: string): Promise<unknown>;
+  put(document: LibraryDocument): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface DocumentLibrary {
+  /** Valid documents, most recently updated first. */
+  list(): Promise<LibraryDocumentSummary[]>;
+  open(id: string): Promise<LibraryDocument | null>;
+  /** Create or update a document; new documents get the default name. */
+  save(id: string, state: SerializableState, thumbnail: string | null): Promise<LibraryDocumentSummary>;
+  rename(id: string, name: string): Promise<LibraryDocumentSummary | null>;
+  duplicate(id: string): Promise<LibraryDocumentSummary | null>;
+  remove(id: string): Promise<void>;
+}
+
+export const DOCUMENT_LIBRARY_DATABASE = 'shibori-library';
+export const DEFAULT_DOCUMENT_NAME = 'Untitled design';
+export const MAX_DOCUMENT_NAME_LENGTH = 80;
+
+const DOCUMENT_STORE_NAME = 'documents';
+const DOCUMENT_DATABASE_VERSION = 1;
+
+/**
+ * Documents hold the same normalized schema as share links. Records are
+ * read back through `normalizeSerializableStateFromUnknown`, so a stored
+ * document is trusted no more than a pasted link, though it is not held to
+ * the share size caps: a design outgrows a link long before it should stop
+ * autosaving.
+ */
+export function createDocumentLibrary(
+  store: DocumentStore,
+  now: () => number = Date.now,
+  createId: () => string = createDocumentId
+): DocumentLibrary {
+  const read = async (id: string): Promise<LibraryDocument | null> => readDocument(await store.get(id));
+
+  return {
+    async list() {
+      const documents = (await store.getAll()).map(readDocument);
+      return documents
+        .filter((document): document is LibraryDocument => document !== null)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(toSummary);
+    },
+
+    open: read,
+
+    async save(id, state, thumbnail) {
+      const normalized = normalizeSerializableStateFromUnknown(state, STORED_DOCUMENT_LIMITS);
+      if (!normalized) throw new Error('The design contains data the library cannot store');
+
+      const existing = await read(id);
+      const timestamp = now();
+      const document: LibraryDocument = {
+        id,
+        name: existing?.name ?? DEFAULT_DOCUMENT_NAME,
+        createdAt: existing?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+        thumbnail,
+        state: normalized,
+      };
+      await store.put(document);
+      return toSummary(document);
+    },
+
+    async rename(id, name) {
+      const existing = await read(id);
+      if (!existing) return null;
+
+      const document = { ...existing, name: normalizeDocumentName(name), updatedAt: now() };
+      await store.put(document);
+      return toSummary(document);
+    },
+
+    async duplicate(id) {
+      const existing = await read(id);
+      if (!existing) return null;
+
+      const timestamp = now();
+      const document: LibraryDocument = {
+        ...existing,
+        id: createId(),
+        name: normalizeDocumentName(`${existing.name} copy`),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await store.put(document);
+      return toSummary(document);
+    },
+
+    remove: (id) => store.delete(id),
+  };
+}
+
+/** IndexedDB-backed store; the database is opened on first use. */
+export function openIndexedDbDocumentStore(factory: IDBFactory = indexedDB): DocumentStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DOCUMENT_LIBRARY_DATABASE, DOCUMENT_DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DOCUMENT_STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(DOCUMENT_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(DOCUMENT_STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getAll: () => run('readonly', (store) => store.getAll()),
+    get: (id) => run('readonly', (store) => store.get(id)),
+    put: async (document) => {
+      await run('readwrite', (store) => store.put(document));
+    },
+    delete: async (id) => {
+      await run('readwrite', (store) => store.delete(id));
+    },
+  };
+}
+
+export function normalizeDocumentName(name: string): string {
+  const trimmed = name.trim().slice(0, MAX_DOCUMENT_NAME_LENGTH);
+  return trimmed || DEFAULT_DOCUMENT_NAME;
+}
+
+export function createDocumentId(): string {
+  return globalThis.crypto?.randomUUID?.() ??
+    `document-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function readDocument(value: unknown): LibraryDocument | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.id !== 'string' || typeof record.name !== 'string') return null;
+  if (typeof record.createdAt !== 'number' || typeof record.updatedAt !== 'number') return null;
+  if (record.thumbnail !== null && typeof record.thumbnail !== 'string') return null;
+
+  const state = normalizeSerializableStateFromUnknown(record.state, STORED_DOCUMENT_LIMITS);
+  if (!state) {
+    logger.warn('Skipped a library document with an invalid state', {
+      component: 'DocumentLibrary',
+      data: { id: record.id },
+    });
+    return null;
+  }
+
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    thumbnail: record.thumbnail,
+    state,
+  };
+}
+
+function toSummary({ id, name, createdAt, updatedAt, thumbnail }: LibraryDocument): LibraryDocumentSummary {
+  return { id, name, createdAt, updatedAt, thumbnail };
+}
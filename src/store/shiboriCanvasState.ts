@@ -1,12 +1,48 @@
 import type { UnknownAction } from '@reduxjs/toolkit';
-import { AppConfig, DrawingTool, ShapeFillMode, FoldState, DiagonalDirection, HistoryAction } from '../types';
-import { BezierPath, Point, UndoableHistoryItem } from '../types/DrawingMode';
+import { AppConfig, DrawingTool, ShapeFillMode, FoldState, FoldSystem, DiagonalDirection, HistoryAction, ResistBlockShape } from '../types';
+import { BezierPath, Bounds, Point, ReprojectHistoryItem, SelectionScale, UndoableHistoryItem } from '../types/DrawingMode';
 import {
-    normalizeSerializableStateFromUnknown
+    normalizeSerializableStateFromUnknown,
+    SHARE_DOCUMENT_LIMITS,
+    STORED_DOCUMENT_LIMITS
 } from '../utils/urlStateUtils';
 import type { SerializableState } from '../utils/urlStateUtils';
 import { logger } from '../utils/logger';
-import { assignHistoryItemId, ensureHistoryItemIds } from '../utils/historyOperations';
+import {
+    assignHistoryItemId,
+    createReprojectHistoryItem,
+    ensureHistoryItemIds,
+    isDrawableCommand
+} from '../utils/historyOperations';
+import { DEFAULT_LAYER_ID, resolveLayers } from '../utils/layers';
+import {
+    DEFAULT_POLYGON_SIDES,
+    DEFAULT_STAR_INNER_RADIUS_RATIO,
+    DEFAULT_STAR_POINTS,
+    MAX_POLYGON_SIDES,
+    MAX_STAR_INNER_RADIUS_RATIO,
+    MIN_POLYGON_SIDES,
+    MIN_STAR_INNER_RADIUS_RATIO,
+} from '../utils/polygonShapes';
+import { DEFAULT_RESIST_BLOCK_SHAPE, isResistBlockShape } from '../utils/resistBlocks';
+import {
+    DEFAULT_BACKGROUND_COLOR,
+    DEFAULT_COLOR_PALETTE,
+    DEFAULT_DRAWING_COLOR,
+    MAX_PALETTE_COLORS,
+    normalizeBackgroundColor,
+    normalizeHexColor,
+    pushRecentColor,
+} from '../utils/drawingColor';
+import {
+    MAX_ACCORDION_PANELS,
+    MIN_ACCORDION_PANELS,
+    getFoldGrid,
+    getFoldSystem,
+    hasSquareFoldGrid
+} from '../utils/foldSystems';
+
+export const MAX_DIAGONAL_FOLDS = 2;
 
 // Default configuration values
 export const DEFAULT_CONFIG: AppConfig = {
@@ -17,25 +53,78 @@ export const DEFAULT_CONFIG: AppConfig = {
     lineColor: 'white',
 };
 
+/**
+ * An inactive path through the undo tree: every command from the blank canvas
+ * to the branch tip, with the layout in effect there. Branches share their
+ * common commands by reference.
+ */
+export interface HistoryBranch {
+    id: string;
+    commands: UndoableHistoryItem[];
+    folds: FoldState;
+    canvasDimensions: { width: number; height: number };
+}
+
 // Define the State interface
 export interface State {
     config: AppConfig;
     circleRadius: number;
     lineThickness: number;
     shapeFillMode: ShapeFillMode;
+    polygonSides: number;
+    starPoints: number;
+    /** A new star's inner radius as a fraction of its outer radius. */
+    starInnerRadiusRatio: number;
+    /** The outline of a new resist block. */
+    resistBlockShape: ResistBlockShape;
+    drawingColor: string;
+    recentColors: string[];
+    colorPalette: string[];
+    /** Document cloth color: lowercase hex or `transparent`. */
+    backgroundColor: string;
+    /** Show the unfolded canvas with simulated dye bleed. A view setting; exports stay clean. */
+    dyedPreview: boolean;
+    /** Fade mirrored panels by their depth in the folded stack. A view setting like `dyedPreview`. */
+    foldDepthFade: boolean;
     currentTool: DrawingTool;
     history: UndoableHistoryItem[];
+    /** Undone commands, most recently undone last. Any new command clears it. */
+    redoStack: UndoableHistoryItem[];
+    /**
+     * Commands shown while scrubbing the history timeline; null shows the
+     * whole log. Any change to the log ends the preview.
+     */
+    historyPreviewLength: number | null;
+    /**
+     * The undo tree. `history` plus the reversed `redoStack` is the active
+     * branch; adding a command while redo is possible forks a new branch and
+     * keeps the old one here.
+     */
+    activeHistoryBranchId: string;
+    historyBranches: HistoryBranch[];
     folds: FoldState;
     canvasDimensions: {
         width: number;
         height: number;
     };
+    /** The most recently selected drawable; path editing acts on this one only. */
     selectedHistoryItemId: string | null;
+    /**
+     * Every selected drawable, in selection order, ending with
+     * `selectedHistoryItemId`. Moves, rotations, and deletes apply to all of them.
+     */
+    selectedHistoryItemIds: string[];
+    /** The rectangle being dragged out to select by area, in folded-canvas pixels. */
+    selectionMarquee: Bounds | null;
     selectionDragDelta: { x: number; y: number } | null;
     selectionRotationPreview: { angle: number; center: Point } | null;
+    /** The resize of the selection frame being dragged, in folded-canvas pixels. */
+    selectionScalePreview: SelectionScale | null;
     selectedPathAnchorIds?: string[];
     selectedPathHandle?: { anchorId: string; side: 'in' | 'out' } | null;
     pathEditPreview?: { itemId: string; path: BezierPath } | null;
+    /** The layer new drawables are added to. Always one of the current layers. */
+    activeLayerId: string;
 }
 
 // Initial state
@@ -44,6 +133,16 @@ export const initialState: State = {
     circleRadius: DEFAULT_CONFIG.defaultCircleRadius,
     lineThickness: DEFAULT_CONFIG.defaultLineThickness,
     shapeFillMode: ShapeFillMode.Filled,
+    polygonSides: DEFAULT_POLYGON_SIDES,
+    starPoints: DEFAULT_STAR_POINTS,
+    starInnerRadiusRatio: DEFAULT_STAR_INNER_RADIUS_RATIO,
+    resistBlockShape: DEFAULT_RESIST_BLOCK_SHAPE,
+    drawingColor: DEFAULT_DRAWING_COLOR,
+    recentColors: [],
+    colorPalette: [...DEFAULT_COLOR_PALETTE],
+    backgroundColor: DEFAULT_BACKGROUND_COLOR,
+    dyedPreview: false,
+    foldDepthFade: false,
     currentTool: DrawingTool.Paintbrush,
     folds: {
         vertical: 1,
@@ -59,12 +158,20 @@ export const initialState: State = {
         height: 1600
     },
     history: [],
+    redoStack: [],
+    historyPreviewLength: null,
+    activeHistoryBranchId: 'branch-1',
+    historyBranches: [],
     selectedHistoryItemId: null,
+    selectedHistoryItemIds: [],
+    selectionMarquee: null,
     selectionDragDelta: null,
     selectionRotationPreview: null,
+    selectionScalePreview: null,
     selectedPathAnchorIds: [],
     selectedPathHandle: null,
     pathEditPreview: null,
+    activeLayerId: DEFAULT_LAYER_ID,
 };
 
 // Action types enum
@@ -72,23 +179,45 @@ export enum ActionType {
     SET_CIRCLE_RADIUS = 'SET_CIRCLE_RADIUS',
     SET_LINE_THICKNESS = 'SET_LINE_THICKNESS',
     SET_SHAPE_FILL_MODE = 'SET_SHAPE_FILL_MODE',
+    SET_POLYGON_SIDES = 'SET_POLYGON_SIDES',
+    SET_STAR_POINTS = 'SET_STAR_POINTS',
+    SET_STAR_INNER_RADIUS_RATIO = 'SET_STAR_INNER_RADIUS_RATIO',
+    SET_RESIST_BLOCK_SHAPE = 'SET_RESIST_BLOCK_SHAPE',
+    SET_DRAWING_COLOR = 'SET_DRAWING_COLOR',
+    ADD_PALETTE_COLOR = 'ADD_PALETTE_COLOR',
+    REMOVE_PALETTE_COLOR = 'REMOVE_PALETTE_COLOR',
+    SET_BACKGROUND_COLOR = 'SET_BACKGROUND_COLOR',
+    SET_DYED_PREVIEW = 'SET_DYED_PREVIEW',
+    SET_FOLD_DEPTH_FADE = 'SET_FOLD_DEPTH_FADE',
     SET_CURRENT_TOOL = 'SET_CURRENT_TOOL',
     UPDATE_FOLD = 'UPDATE_FOLD',
     TOGGLE_DIAGONAL_FOLD = 'TOGGLE_DIAGONAL_FOLD',
     UPDATE_DIAGONAL_FOLD_COUNT = 'UPDATE_DIAGONAL_FOLD_COUNT',
     UPDATE_DIAGONAL_FOLD_DIRECTION = 'UPDATE_DIAGONAL_FOLD_DIRECTION',
+    SET_FOLD_SYSTEM = 'SET_FOLD_SYSTEM',
+    SET_ACCORDION_MODE = 'SET_ACCORDION_MODE',
+    UPDATE_ACCORDION_PANELS = 'UPDATE_ACCORDION_PANELS',
     RESET_FOLDS = 'RESET_FOLDS',
     SET_CANVAS_DIMENSIONS = 'SET_CANVAS_DIMENSIONS',
     ADD_HISTORY_ITEM = 'ADD_HISTORY_ITEM',
     UNDO = 'UNDO',
+    REDO = 'REDO',
+    SET_HISTORY_PREVIEW = 'SET_HISTORY_PREVIEW',
+    REVERT_HISTORY = 'REVERT_HISTORY',
+    SWITCH_HISTORY_BRANCH = 'SWITCH_HISTORY_BRANCH',
     SET_SELECTED_HISTORY_ITEM_ID = 'SET_SELECTED_HISTORY_ITEM_ID',
+    SET_SELECTED_HISTORY_ITEM_IDS = 'SET_SELECTED_HISTORY_ITEM_IDS',
+    SET_SELECTION_MARQUEE = 'SET_SELECTION_MARQUEE',
     SET_SELECTION_DRAG_DELTA = 'SET_SELECTION_DRAG_DELTA',
     SET_SELECTION_ROTATION_PREVIEW = 'SET_SELECTION_ROTATION_PREVIEW',
+    SET_SELECTION_SCALE_PREVIEW = 'SET_SELECTION_SCALE_PREVIEW',
     SET_SELECTED_PATH_ANCHOR_IDS = 'SET_SELECTED_PATH_ANCHOR_IDS',
     SET_SELECTED_PATH_HANDLE = 'SET_SELECTED_PATH_HANDLE',
     SET_PATH_EDIT_PREVIEW = 'SET_PATH_EDIT_PREVIEW',
     CLEAR_SELECTION = 'CLEAR_SELECTION',
+    SET_ACTIVE_LAYER = 'SET_ACTIVE_LAYER',
     LOAD_STATE_FROM_URL = 'LOAD_STATE_FROM_URL',
+    LOAD_DOCUMENT = 'LOAD_DOCUMENT',
     RESET_TO_INITIAL = 'RESET_TO_INITIAL'
 }
 
@@ -97,23 +226,45 @@ export type Action =
     | { type: ActionType.SET_CIRCLE_RADIUS, payload: number }
     | { type: ActionType.SET_LINE_THICKNESS, payload: number }
     | { type: ActionType.SET_SHAPE_FILL_MODE, payload: ShapeFillMode }
+    | { type: ActionType.SET_POLYGON_SIDES, payload: number }
+    | { type: ActionType.SET_STAR_POINTS, payload: number }
+    | { type: ActionType.SET_STAR_INNER_RADIUS_RATIO, payload: number }
+    | { type: ActionType.SET_RESIST_BLOCK_SHAPE, payload: ResistBlockShape }
+    | { type: ActionType.SET_DRAWING_COLOR, payload: string }
+    | { type: ActionType.ADD_PALETTE_COLOR, payload: string }
+    | { type: ActionType.REMOVE_PALETTE_COLOR, payload: string }
+    | { type: ActionType.SET_BACKGROUND_COLOR, payload: string }
+    | { type: ActionType.SET_DYED_PREVIEW, payload: boolean }
+    | { type: ActionType.SET_FOLD_DEPTH_FADE, payload: boolean }
     | { type: ActionType.SET_CURRENT_TOOL, payload: DrawingTool }
     | { type: ActionType.UPDATE_FOLD, payload: { axis: 'vertical' | 'horizontal', value: number } }
     | { type: ActionType.TOGGLE_DIAGONAL_FOLD, payload: boolean }
     | { type: ActionType.UPDATE_DIAGONAL_FOLD_COUNT, payload: number }
     | { type: ActionType.UPDATE_DIAGONAL_FOLD_DIRECTION, payload: DiagonalDirection }
+    | { type: ActionType.SET_FOLD_SYSTEM, payload: FoldSystem }
+    | { type: ActionType.SET_ACCORDION_MODE, payload: boolean }
+    | { type: ActionType.UPDATE_ACCORDION_PANELS, payload: { axis: 'columns' | 'rows', value: number } }
     | { type: ActionType.RESET_FOLDS }
     | { type: ActionType.SET_CANVAS_DIMENSIONS, payload: { width: number; height: number } }
     | { type: ActionType.ADD_HISTORY_ITEM, payload: UndoableHistoryItem }
     | { type: ActionType.UNDO }
+    | { type: ActionType.REDO }
+    | { type: ActionType.SET_HISTORY_PREVIEW, payload: number | null }
+    | { type: ActionType.REVERT_HISTORY, payload: number }
+    | { type: ActionType.SWITCH_HISTORY_BRANCH, payload: string }
     | { type: ActionType.SET_SELECTED_HISTORY_ITEM_ID, payload: string | null }
+    | { type: ActionType.SET_SELECTED_HISTORY_ITEM_IDS, payload: string[] }
+    | { type: ActionType.SET_SELECTION_MARQUEE, payload: Bounds | null }
     | { type: ActionType.SET_SELECTION_DRAG_DELTA, payload: { x: number; y: number } | null }
     | { type: ActionType.SET_SELECTION_ROTATION_PREVIEW, payload: { angle: number; center: Point } | null }
+    | { type: ActionType.SET_SELECTION_SCALE_PREVIEW, payload: SelectionScale | null }
     | { type: ActionType.SET_SELECTED_PATH_ANCHOR_IDS, payload: string[] }
     | { type: ActionType.SET_SELECTED_PATH_HANDLE, payload: { anchorId: string; side: 'in' | 'out' } | null }
     | { type: ActionType.SET_PATH_EDIT_PREVIEW, payload: { itemId: string; path: BezierPath } | null }
     | { type: ActionType.CLEAR_SELECTION }
+    | { type: ActionType.SET_ACTIVE_LAYER, payload: string }
     | { type: ActionType.LOAD_STATE_FROM_URL, payload: SerializableState }
+    | { type: ActionType.LOAD_DOCUMENT, payload: SerializableState }
     | { type: ActionType.RESET_TO_INITIAL };
 
 // Untrusted shared documents are validated at the URL-load boundary. Internal
@@ -122,7 +273,11 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
     const action = reduxAction as Action;
     // Debug all actions that could affect history
     if (action.type === ActionType.LOAD_STATE_FROM_URL || 
+        action.type === ActionType.LOAD_DOCUMENT ||
         action.type === ActionType.UNDO ||
+        action.type === ActionType.REDO ||
+        action.type === ActionType.REVERT_HISTORY ||
+        action.type === ActionType.SWITCH_HISTORY_BRANCH ||
         action.type === ActionType.ADD_HISTORY_ITEM ||
         state.history.length > 0) {
         logger.redux.action(`REDUCER: ${action.type}`, {
@@ -148,6 +303,70 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
         case ActionType.SET_SHAPE_FILL_MODE:
             newState = { ...state, shapeFillMode: action.payload };
             break;
+        case ActionType.SET_POLYGON_SIDES:
+            newState = {
+                ...state,
+                polygonSides: Math.round(clampFinite(
+                    action.payload, MIN_POLYGON_SIDES, MAX_POLYGON_SIDES, state.polygonSides
+                ))
+            };
+            break;
+        case ActionType.SET_STAR_POINTS:
+            newState = {
+                ...state,
+                starPoints: Math.round(clampFinite(
+                    action.payload, MIN_POLYGON_SIDES, MAX_POLYGON_SIDES, state.starPoints
+                ))
+            };
+            break;
+        case ActionType.SET_STAR_INNER_RADIUS_RATIO:
+            newState = {
+                ...state,
+                starInnerRadiusRatio: clampFinite(
+                    action.payload,
+                    MIN_STAR_INNER_RADIUS_RATIO,
+                    MAX_STAR_INNER_RADIUS_RATIO,
+                    state.starInnerRadiusRatio
+                )
+            };
+            break;
+        case ActionType.SET_RESIST_BLOCK_SHAPE:
+            newState = {
+                ...state,
+                resistBlockShape: isResistBlockShape(action.payload) ? action.payload : state.resistBlockShape
+            };
+            break;
+        case ActionType.SET_DRAWING_COLOR:
+            newState = {
+                ...state,
+                drawingColor: normalizeHexColor(action.payload) ?? state.drawingColor
+            };
+            break;
+        case ActionType.ADD_PALETTE_COLOR: {
+            const color = normalizeHexColor(action.payload);
+            newState = color && !state.colorPalette.includes(color)
+                ? { ...state, colorPalette: [...state.colorPalette, color].slice(-MAX_PALETTE_COLORS) }
+                : state;
+            break;
+        }
+        case ActionType.REMOVE_PALETTE_COLOR:
+            newState = {
+                ...state,
+                colorPalette: state.colorPalette.filter((color) => color !== action.payload)
+            };
+            break;
+        case ActionType.SET_BACKGROUND_COLOR:
+            newState = {
+                ...state,
+                backgroundColor: normalizeBackgroundColor(action.payload) ?? state.backgroundColor
+            };
+            break;
+        case ActionType.SET_DYED_PREVIEW:
+            newState = { ...state, dyedPreview: action.payload };
+            break;
+        case ActionType.SET_FOLD_DEPTH_FADE:
+            newState = { ...state, foldDepthFade: action.payload };
+            break;
         case ActionType.SET_CURRENT_TOOL:
         {
             const keepsWholeSelection = action.payload === DrawingTool.SelectMove || action.payload === DrawingTool.DirectSelect;
@@ -155,8 +374,16 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
                 ...state,
                 currentTool: action.payload,
                 selectedHistoryItemId: keepsWholeSelection ? state.selectedHistoryItemId : null,
+                // Direct selection edits one path at a time
+                selectedHistoryItemIds: action.payload === DrawingTool.SelectMove
+                    ? state.selectedHistoryItemIds
+                    : action.payload === DrawingTool.DirectSelect && state.selectedHistoryItemId
+                        ? [state.selectedHistoryItemId]
+                        : [],
+                selectionMarquee: null,
                 selectionDragDelta: action.payload === DrawingTool.SelectMove ? state.selectionDragDelta : null,
                 selectionRotationPreview: action.payload === DrawingTool.SelectMove ? state.selectionRotationPreview : null,
+                selectionScalePreview: action.payload === DrawingTool.SelectMove ? state.selectionScalePreview : null,
                 selectedPathAnchorIds: action.payload === DrawingTool.DirectSelect ? state.selectedPathAnchorIds : [],
                 selectedPathHandle: null,
                 pathEditPreview: null,
@@ -174,37 +401,59 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
                 [action.payload.axis]: clampedValue
             };
 
-            // Check if canvas will be square after this update
-            const newVertical = action.payload.axis === 'vertical' ? clampedValue : state.folds.vertical;
-            const newHorizontal = action.payload.axis === 'horizontal' ? clampedValue : state.folds.horizontal;
-            const isSquare = newVertical === newHorizontal;
-
-            // If not square, disable diagonal folds; if becoming square, restore default diagonal state
-            if (!isSquare) {
-                newFolds.diagonal = {
-                    ...state.folds.diagonal,
-                    enabled: false,
-                    count: 0
-                };
-            } else if (isSquare && !state.folds.diagonal.enabled) {
-                // If canvas becomes square and diagonal folding was disabled, restore it to default state
-                newFolds.diagonal = {
-                    ...state.folds.diagonal,
-                    enabled: true,
-                    count: 1
-                };
+            newState = {
+                ...state,
+                folds: syncDiagonalFoldWithGrid(newFolds)
+            };
+            break;
+        }
+        case ActionType.SET_ACCORDION_MODE: {
+            if (action.payload === Boolean(state.folds.accordion)) {
+                newState = state;
+                break;
             }
-            // Keep diagonal folds unchanged if canvas was already square
 
+            // Start from the current crease grid so switching modes keeps the layout
+            const grid = getFoldGrid(state.folds);
             newState = {
                 ...state,
-                folds: newFolds
+                folds: syncDiagonalFoldWithGrid({
+                    ...state.folds,
+                    accordion: action.payload
+                        ? {
+                            columns: Math.max(MIN_ACCORDION_PANELS, Math.min(MAX_ACCORDION_PANELS, grid.columns)),
+                            rows: Math.max(MIN_ACCORDION_PANELS, Math.min(MAX_ACCORDION_PANELS, grid.rows))
+                        }
+                        : undefined
+                })
+            };
+            break;
+        }
+        case ActionType.UPDATE_ACCORDION_PANELS: {
+            const accordion = state.folds.accordion;
+            if (!accordion) {
+                newState = state;
+                break;
+            }
+
+            const clampedValue = Math.floor(clampFinite(
+                action.payload.value,
+                MIN_ACCORDION_PANELS,
+                MAX_ACCORDION_PANELS,
+                accordion[action.payload.axis]
+            ));
+            newState = {
+                ...state,
+                folds: syncDiagonalFoldWithGrid({
+                    ...state.folds,
+                    accordion: { ...accordion, [action.payload.axis]: clampedValue }
+                })
             };
             break;
         }
         case ActionType.TOGGLE_DIAGONAL_FOLD: {
             // Don't enable diagonal folds if canvas isn't square
-            const isSquare = state.folds.vertical === state.folds.horizontal;
+            const isSquare = hasSquareFoldGrid(state.folds);
             const canEnable = action.payload && isSquare;
 
             newState = {
@@ -222,9 +471,9 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
             break;
         }
         case ActionType.UPDATE_DIAGONAL_FOLD_COUNT: {
-            // Enforce only one diagonal fold
+            // One diagonal, or both diagonals at once
             const newCount = Math.floor(
-                clampFinite(action.payload, 0, 1, state.folds.diagonal.count)
+                clampFinite(action.payload, 0, MAX_DIAGONAL_FOLDS, state.folds.diagonal.count)
             );
 
             newState = {
@@ -253,6 +502,11 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
                 },
             };
             break;
+        case ActionType.SET_FOLD_SYSTEM:
+            newState = Object.values(FoldSystem).includes(action.payload)
+                ? { ...state, folds: { ...state.folds, system: action.payload } }
+                : state;
+            break;
         case ActionType.RESET_FOLDS:
             newState = {
                 ...state,
@@ -284,19 +538,32 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
             };
             break;
         }
-        case ActionType.ADD_HISTORY_ITEM:
+        case ActionType.ADD_HISTORY_ITEM: {
+            // Recent colors track what was actually committed, not every
+            // intermediate value a native color picker reports while dragging.
+            // Eraser strokes and resist blocks knock marks out, so the drawing
+            // color they carry was never painted.
+            const committedColor = isDrawableCommand(action.payload) &&
+                action.payload.action !== DrawingTool.Eraser &&
+                action.payload.action !== DrawingTool.ResistBlock
+                ? normalizeHexColor(action.payload.style?.color)
+                : null;
             newState = {
                 ...state,
                 history: [
                     ...state.history,
-                    assignHistoryItemId(action.payload, state.history)
+                    assignHistoryItemId(placeOnLayer(action.payload, state.activeLayerId), state.history)
                 ],
-                selectedHistoryItemId: action.payload.action === HistoryAction.Clear ||
-                    action.payload.action === HistoryAction.Delete
-                    ? null
-                    : state.selectedHistoryItemId,
+                ...forkHistoryBranch(state),
+                redoStack: [],
+                recentColors: committedColor
+                    ? pushRecentColor(state.recentColors, committedColor)
+                    : state.recentColors,
+                ...(removesSelection(action.payload) ? { selectedHistoryItemId: null, selectedHistoryItemIds: [] } : {}),
+                selectionMarquee: null,
                 selectionDragDelta: null,
                 selectionRotationPreview: null,
+                selectionScalePreview: null,
                 selectedPathAnchorIds: action.payload.action === HistoryAction.UpdatePath
                     ? state.selectedPathAnchorIds ?? []
                     : [],
@@ -304,37 +571,159 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
                 pathEditPreview: null,
             };
             break;
+        }
         case ActionType.UNDO:
+            newState = undoLastCommand(state);
+            break;
+        case ActionType.REDO: {
+            const redoneItem = state.redoStack[state.redoStack.length - 1];
+            if (!redoneItem) {
+                newState = state;
+                break;
+            }
+
+            // The command keeps its id, so later undone commands that target
+            // it by id still resolve when they are redone in turn.
+            const reappliedLayout = redoneItem.action === HistoryAction.Reproject
+                ? { folds: redoneItem.toFolds, canvasDimensions: redoneItem.toCanvasDimensions }
+                : {};
             newState = {
                 ...state,
-                history: state.history.slice(0, -1),
+                ...reappliedLayout,
+                history: [...state.history, redoneItem],
+                redoStack: state.redoStack.slice(0, -1),
+                ...(removesSelection(redoneItem) ? { selectedHistoryItemId: null, selectedHistoryItemIds: [] } : {}),
                 selectionDragDelta: null,
                 selectionRotationPreview: null,
+                selectionScalePreview: null,
                 selectedPathAnchorIds: [],
                 selectedPathHandle: null,
                 pathEditPreview: null,
             };
             break;
+        }
+        case ActionType.SET_HISTORY_PREVIEW: {
+            const length = action.payload === null
+                ? null
+                : Math.floor(clampFinite(action.payload, 0, state.history.length, state.history.length));
+            const previewing = length !== null && length < state.history.length;
+            newState = {
+                ...state,
+                historyPreviewLength: previewing ? length : null,
+                ...(previewing ? {
+                    selectedHistoryItemId: null,
+                    selectedHistoryItemIds: [],
+                    selectionMarquee: null,
+                    selectionDragDelta: null,
+                    selectionRotationPreview: null,
+                    selectionScalePreview: null,
+                    selectedPathAnchorIds: [],
+                    selectedPathHandle: null,
+                    pathEditPreview: null,
+                } : {}),
+            };
+            break;
+        }
+        case ActionType.REVERT_HISTORY: {
+            // Reverting starts a new branch at the entry. The commands after
+            // it are saved with the branch they were part of, so later work
+            // stays reachable through the branch switcher.
+            const length = Math.floor(clampFinite(action.payload, 0, state.history.length, state.history.length));
+            if (length === state.history.length) {
+                newState = state;
+                break;
+            }
+
+            let reverted = state;
+            while (reverted.history.length > length) reverted = undoLastCommand(reverted);
+            newState = {
+                ...reverted,
+                ...forkHistoryBranch(reverted),
+                redoStack: [],
+                selectedHistoryItemId: null,
+                selectedHistoryItemIds: [],
+            };
+            break;
+        }
+        case ActionType.SWITCH_HISTORY_BRANCH: {
+            const target = state.historyBranches.find((branch) => branch.id === action.payload);
+            if (!target) {
+                newState = state;
+                break;
+            }
+
+            newState = {
+                ...state,
+                history: target.commands,
+                redoStack: [],
+                folds: target.folds,
+                canvasDimensions: target.canvasDimensions,
+                activeHistoryBranchId: target.id,
+                historyBranches: [
+                    ...state.historyBranches.filter((branch) => branch !== target),
+                    saveActiveHistoryBranch(state),
+                ],
+                selectedHistoryItemId: null,
+                selectedHistoryItemIds: [],
+                selectionMarquee: null,
+                selectionDragDelta: null,
+                selectionRotationPreview: null,
+                selectionScalePreview: null,
+                selectedPathAnchorIds: [],
+                selectedPathHandle: null,
+                pathEditPreview: null,
+            };
+            break;
+        }
         case ActionType.SET_SELECTED_HISTORY_ITEM_ID:
             newState = {
                 ...state,
                 selectedHistoryItemId: action.payload,
+                selectedHistoryItemIds: action.payload ? [action.payload] : [],
                 selectionDragDelta: null,
-                selectionRotationPreview: null
+                selectionRotationPreview: null,
+                selectionScalePreview: null
             };
             break;
+        case ActionType.SET_SELECTED_HISTORY_ITEM_IDS: {
+            const ids = [...new Set(action.payload)];
+            newState = {
+                ...state,
+                selectedHistoryItemId: ids[ids.length - 1] ?? null,
+                selectedHistoryItemIds: ids,
+                selectionDragDelta: null,
+                selectionRotationPreview: null,
+                selectionScalePreview: null,
+                selectedPathAnchorIds: [],
+                selectedPathHandle: null,
+            };
+            break;
+        }
+        case ActionType.SET_SELECTION_MARQUEE:
+            newState = { ...state, selectionMarquee: action.payload };
+            break;
         case ActionType.SET_SELECTION_DRAG_DELTA:
             newState = {
                 ...state,
                 selectionDragDelta: action.payload,
-                selectionRotationPreview: null
+                selectionRotationPreview: null,
+                selectionScalePreview: null
             };
             break;
         case ActionType.SET_SELECTION_ROTATION_PREVIEW:
             newState = {
                 ...state,
                 selectionDragDelta: null,
-                selectionRotationPreview: action.payload
+                selectionRotationPreview: action.payload,
+                selectionScalePreview: null
+            };
+            break;
+        case ActionType.SET_SELECTION_SCALE_PREVIEW:
+            newState = {
+                ...state,
+                selectionDragDelta: null,
+                selectionRotationPreview: null,
+                selectionScalePreview: action.payload
             };
             break;
         case ActionType.SET_SELECTED_PATH_ANCHOR_IDS:
@@ -350,24 +739,39 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
             newState = {
                 ...state,
                 selectedHistoryItemId: null,
+                selectedHistoryItemIds: [],
+                selectionMarquee: null,
                 selectionDragDelta: null,
                 selectionRotationPreview: null,
+                selectionScalePreview: null,
                 selectedPathAnchorIds: [],
                 selectedPathHandle: null,
                 pathEditPreview: null,
             };
             break;
-        case ActionType.LOAD_STATE_FROM_URL: {
-            const loadedState = normalizeSerializableStateFromUnknown(action.payload);
+        case ActionType.SET_ACTIVE_LAYER:
+            newState = resolveLayers(state.history).some((layer) => layer.id === action.payload)
+                ? { ...state, activeLayerId: action.payload }
+                : state;
+            break;
+        // Library documents are stored in the share schema, so both loads
+        // cross the same validation boundary; only links are held to the
+        // share size caps.
+        case ActionType.LOAD_STATE_FROM_URL:
+        case ActionType.LOAD_DOCUMENT: {
+            const loadedState = normalizeSerializableStateFromUnknown(
+                action.payload,
+                action.type === ActionType.LOAD_DOCUMENT ? STORED_DOCUMENT_LIMITS : SHARE_DOCUMENT_LIMITS
+            );
             if (!loadedState) {
-                logger.warn('Rejected invalid shared state at Redux boundary', {
+                logger.warn('Rejected invalid document state at Redux boundary', {
                     component: 'Reducer',
                     data: { action: action.type }
                 });
                 return state;
             }
 
-            logger.redux.action('LOAD_STATE_FROM_URL', {
+            logger.redux.action(action.type, {
                 historyLength: loadedState.history.length,
                 firstHistoryItem: loadedState.history[0] || null,
                 folds: loadedState.folds,
@@ -377,21 +781,29 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
             newState = {
                 ...state,
                 history: ensureHistoryItemIds(loadedState.history),
+                redoStack: [],
+                activeHistoryBranchId: initialState.activeHistoryBranchId,
+                historyBranches: [],
                 folds: loadedState.folds,
                 canvasDimensions: loadedState.canvasDimensions,
                 circleRadius: loadedState.circleRadius,
                 lineThickness: loadedState.lineThickness,
                 shapeFillMode: loadedState.shapeFillMode,
+                drawingColor: loadedState.drawingColor ?? state.drawingColor,
+                backgroundColor: loadedState.backgroundColor ?? DEFAULT_BACKGROUND_COLOR,
                 currentTool: loadedState.currentTool,
                 selectedHistoryItemId: null,
+                selectedHistoryItemIds: [],
+                selectionMarquee: null,
                 selectionDragDelta: null,
                 selectionRotationPreview: null,
+                selectionScalePreview: null,
                 selectedPathAnchorIds: [],
                 selectedPathHandle: null,
                 pathEditPreview: null,
             };
             
-            logger.redux.action('LOAD_STATE_FROM_URL result', {
+            logger.redux.action(`${action.type} result`, {
                 resultHistoryLength: newState.history.length
             });
             break;
@@ -406,22 +818,37 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
             break;
     }
 
-    // Structural changes atomically discard commands that were authored in a
-    // different fold/dimension coordinate system. URL loading is intentionally
-    // excluded because its structure and history arrive as one validated unit.
+    // Fold and canvas-size changes keep the drawing: an undoable reprojection
+    // command maps earlier drawables into the new folded canvas. URL loading is
+    // intentionally excluded because its structure and history arrive as one
+    // validated unit.
     if (isStructuralAction(action) && hasStructuralChange(state, newState)) {
         newState = {
             ...newState,
-            history: [],
-            selectedHistoryItemId: null,
+            history: appendReprojection(state, newState, action),
+            ...forkHistoryBranch(state),
+            redoStack: [],
             selectionDragDelta: null,
             selectionRotationPreview: null,
+            selectionScalePreview: null,
             selectedPathAnchorIds: [],
             selectedPathHandle: null,
             pathEditPreview: null,
         };
     }
 
+    if (newState.historyPreviewLength !== null && newState.history !== state.history) {
+        newState = { ...newState, historyPreviewLength: null };
+    }
+
+    // Undoing, loading, or deleting a layer can remove the active one
+    if (newState.history !== state.history) {
+        const layers = resolveLayers(newState.history);
+        if (!layers.some((layer) => layer.id === newState.activeLayerId)) {
+            newState = { ...newState, activeLayerId: layers[layers.length - 1].id };
+        }
+    }
+
     // Log state changes in development
     if (process.env.NODE_ENV === 'development' && newState !== state) {
         logger.redux.stateChange('State updated', {
@@ -433,23 +860,156 @@ export function reducer(state: State = initialState, reduxAction: Action | Unkno
     return newState;
 }
 
+/** New drawables join the active layer; the base layer is left implicit. */
+function placeOnLayer(item: UndoableHistoryItem, layerId: string): UndoableHistoryItem {
+    if (layerId === DEFAULT_LAYER_ID) return item;
+    if (isDrawableCommand(item)) return item.layerId === undefined ? { ...item, layerId } : item;
+    if (item.action !== HistoryAction.Batch) return item;
+    return {
+        ...item,
+        commands: item.commands.map((command) =>
+            isDrawableCommand(command) && command.layerId === undefined ? { ...command, layerId } : command
+        ),
+    };
+}
+
+function undoLastCommand(state: State): State {
+    const lastItem = state.history[state.history.length - 1];
+    if (!lastItem) return state;
+
+    // Undoing a reprojection also restores the layout it was made from
+    const restoredLayout = lastItem.action === HistoryAction.Reproject
+        ? { folds: lastItem.fromFolds, canvasDimensions: lastItem.fromCanvasDimensions }
+        : {};
+    return {
+        ...state,
+        ...restoredLayout,
+        history: state.history.slice(0, -1),
+        redoStack: [...state.redoStack, lastItem],
+        selectionDragDelta: null,
+        selectionRotationPreview: null,
+        selectionScalePreview: null,
+        selectedPathAnchorIds: [],
+        selectedPathHandle: null,
+        pathEditPreview: null,
+    };
+}
+
+/**
+ * Clearing, deleting, or editing layers (which can hide, lock, or remove the
+ * selected drawables) ends the selection.
+ */
+function removesSelection(item: UndoableHistoryItem): boolean {
+    return item.action === HistoryAction.Clear ||
+        item.action === HistoryAction.Delete ||
+        item.action === HistoryAction.UpdateLayers ||
+        (item.action === HistoryAction.Batch &&
+            item.commands.some((command) => command.action === HistoryAction.Delete));
+}
+
+/**
+ * A new command after an undo starts a branch. The undone commands stay
+ * reachable through the branch they were part of.
+ */
+function forkHistoryBranch(state: State): Pick<State, 'activeHistoryBranchId' | 'historyBranches'> {
+    if (state.redoStack.length === 0) {
+        return { activeHistoryBranchId: state.activeHistoryBranchId, historyBranches: state.historyBranches };
+    }
+
+    const branches = [...state.historyBranches, saveActiveHistoryBranch(state)];
+    const highest = Math.max(...branches.map((branch) => Number(branch.id.replace('branch-', '')) || 0));
+    return { activeHistoryBranchId: `branch-${highest + 1}`, historyBranches: branches };
+}
+
+function saveActiveHistoryBranch(state: State): HistoryBranch {
+    const undone = [...state.redoStack].reverse();
+    // A redoable reprojection moves the branch tip to the layout it made
+    const tipReprojection = state.redoStack.find(
+        (item): item is ReprojectHistoryItem => item.action === HistoryAction.Reproject
+    );
+    return {
+        id: state.activeHistoryBranchId,
+        commands: [...state.history, ...undone],
+        folds: tipReprojection?.toFolds ?? state.folds,
+        canvasDimensions: tipReprojection?.toCanvasDimensions ?? state.canvasDimensions,
+    };
+}
+
 function isStructuralAction(action: Action): boolean {
     return action.type === ActionType.UPDATE_FOLD
         || action.type === ActionType.TOGGLE_DIAGONAL_FOLD
         || action.type === ActionType.UPDATE_DIAGONAL_FOLD_COUNT
         || action.type === ActionType.UPDATE_DIAGONAL_FOLD_DIRECTION
+        || action.type === ActionType.SET_FOLD_SYSTEM
+        || action.type === ActionType.SET_ACCORDION_MODE
+        || action.type === ActionType.UPDATE_ACCORDION_PANELS
         || action.type === ActionType.RESET_FOLDS
         || action.type === ActionType.SET_CANVAS_DIMENSIONS;
 }
 
+/**
+ * Successive size edits (typing a width digit by digit) collapse into the
+ * reprojection before them so they undo as one step. An empty history has
+ * nothing to reproject.
+ */
+function appendReprojection(previous: State, next: State, action: Action): UndoableHistoryItem[] {
+    if (previous.history.length === 0) return previous.history;
+
+    const lastItem = previous.history[previous.history.length - 1];
+    // Consecutive resizes undo as one step; a resize after a fold change does not.
+    if (
+        action.type === ActionType.SET_CANVAS_DIMENSIONS &&
+        lastItem.action === HistoryAction.Reproject &&
+        !hasFoldChange(lastItem.fromFolds, lastItem.toFolds)
+    ) {
+        return [
+            ...previous.history.slice(0, -1),
+            createReprojectHistoryItem(
+                lastItem.fromFolds,
+                lastItem.fromCanvasDimensions,
+                next.folds,
+                next.canvasDimensions
+            ),
+        ];
+    }
+
+    return [
+        ...previous.history,
+        createReprojectHistoryItem(previous.folds, previous.canvasDimensions, next.folds, next.canvasDimensions),
+    ];
+}
+
 function hasStructuralChange(previous: State, next: State): boolean {
     return previous.canvasDimensions.width !== next.canvasDimensions.width
         || previous.canvasDimensions.height !== next.canvasDimensions.height
-        || previous.folds.vertical !== next.folds.vertical
-        || previous.folds.horizontal !== next.folds.horizontal
-        || previous.folds.diagonal.enabled !== next.folds.diagonal.enabled
-        || previous.folds.diagonal.count !== next.folds.diagonal.count
-        || previous.folds.diagonal.direction !== next.folds.diagonal.direction;
+        || hasFoldChange(previous.folds, next.folds);
+}
+
+function hasFoldChange(previous: FoldState, next: FoldState): boolean {
+    const previousGrid = getFoldGrid(previous);
+    const nextGrid = getFoldGrid(next);
+    return previousGrid.columns !== nextGrid.columns
+        || previousGrid.rows !== nextGrid.rows
+        || previous.diagonal.enabled !== next.diagonal.enabled
+        || previous.diagonal.count !== next.diagonal.count
+        || previous.diagonal.direction !== next.diagonal.direction
+        || getFoldSystem(previous) !== getFoldSystem(next);
+}
+
+/**
+ * Diagonal folds only exist on square crease grids: disable them when the grid
+ * stops being square and restore the default single diagonal when it is.
+ */
+function syncDiagonalFoldWithGrid(folds: FoldState): FoldState {
+    const isSquare = hasSquareFoldGrid(folds);
+
+    if (!isSquare) {
+        return { ...folds, diagonal: { ...folds.diagonal, enabled: false, count: 0 } };
+    }
+    if (!folds.diagonal.enabled) {
+        return { ...folds, diagonal: { ...folds.diagonal, enabled: true, count: 1 } };
+    }
+    return folds;
 }
 
 function clampFinite(value: number, min: number, max: number, fallback: number): number {
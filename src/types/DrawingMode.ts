@@ -1,5 +1,5 @@
 import { State } from '../store/shiboriCanvasState';
-import { DrawingTool, HistoryAction, ShapeFillMode } from '../types';
+import { DrawingTool, FoldState, HistoryAction, ResistBlockShape, ShapeFillMode } from '../types';
 export interface Point {
     x: number;
     y: number;
@@ -26,6 +26,18 @@ export interface DrawingModeGeometry {
     hitTest: (item: DrawableHistoryItem, point: Point, options: GeometryOptions) => boolean;
     getBounds: (item: DrawableHistoryItem, options: GeometryOptions) => Bounds | null;
     translate: (item: DrawableHistoryItem, delta: Point) => DrawableHistoryItem;
+    /** Scale about `origin` in canvas axes; negative factors flip the drawable. */
+    scale: (item: DrawableHistoryItem, origin: Point, scale: Point) => DrawableHistoryItem;
+}
+
+/**
+ * A resize or flip of a selection frame. `scale` applies about `origin` along
+ * the frame's axes, which are turned by `rotation` for a single rotated shape.
+ */
+export interface SelectionScale {
+    origin: Point;
+    scale: Point;
+    rotation: number;
 }
 
 export interface DrawingModeContext {
@@ -79,13 +91,39 @@ export interface DrawingStyle {
     shapeFillMode?: ShapeFillMode;
 }
 
+/**
+ * A named layer of the document. Layers render bottom first; within a layer,
+ * drawables keep their scene order.
+ */
+export interface Layer {
+    id: string;
+    name: string;
+    visible: boolean;
+    /** Locked layers still render but cannot be selected or drawn on. */
+    locked: boolean;
+    /** From 0 to 1, applied to each drawable of the layer. */
+    opacity: number;
+}
+
 interface DrawableHistoryBase {
     id?: string;
+    /** Absent for drawables on the base layer. */
+    layerId?: string;
+    /** Drawables sharing a group are selected and edited together. */
+    groupId?: string;
     style?: DrawingStyle;
     /** @deprecated Read only for legacy, unversioned history. Use style.shapeFillMode. */
     shapeFillMode?: ShapeFillMode;
     rotation?: number;
     rotationCenter?: Point;
+    /** Corners of a polygon or points of a star. */
+    sides?: number;
+    /** A star's inner radius as a fraction of its outer radius. */
+    innerRadiusRatio?: number;
+    /** Stylus readings for each of `points`, on brush strokes drawn with a pen. */
+    penSamples?: PenSample[];
+    /** The outline of a resist block. */
+    blockShape?: ResistBlockShape;
 }
 
 export interface PointDrawableHistoryItem extends DrawableHistoryBase {
@@ -119,7 +157,7 @@ export interface ClearHistoryItem {
 
 export interface TransformHistoryItem {
     id?: never;
-    action: HistoryAction.Move | HistoryAction.Rotate;
+    action: HistoryAction.Move | HistoryAction.Rotate | HistoryAction.Scale | HistoryAction.Flip;
     points: [];
     itemId: string;
     fromPoints: Point[];
@@ -146,6 +184,85 @@ export interface UpdatePathHistoryItem {
     toPath: BezierPath;
 }
 
+/**
+ * A fold or canvas-size change made after drawing. Replay scales the drawables
+ * before it from the previous folded canvas into the new one, and undoing it
+ * restores the previous folds and dimensions.
+ */
+export interface ReprojectHistoryItem {
+    id?: never;
+    action: HistoryAction.Reproject;
+    points: [];
+    fromFolds: FoldState;
+    toFolds: FoldState;
+    fromCanvasDimensions: CanvasDimensions;
+    toCanvasDimensions: CanvasDimensions;
+}
+
+/**
+ * Every layer, bottom first, before and after adding, removing, reordering, or
+ * changing one. Replay drops the drawables of removed layers.
+ */
+export interface UpdateLayersHistoryItem {
+    id?: never;
+    action: HistoryAction.UpdateLayers;
+    points: [];
+    fromLayers: Layer[];
+    toLayers: Layer[];
+}
+
+export type ArrangeDirection = 'forward' | 'backward';
+
+/** Bring a drawable forward past, or send it back behind, its neighbor on the same layer. */
+export interface ArrangeHistoryItem {
+    id?: never;
+    action: HistoryAction.Arrange;
+    points: [];
+    itemId: string;
+    direction: ArrangeDirection;
+}
+
+export interface SetLayerHistoryItem {
+    id?: never;
+    action: HistoryAction.SetLayer;
+    points: [];
+    itemId: string;
+    fromLayerId: string;
+    toLayerId: string;
+}
+
+/** Put a drawable in a group, or take it out when `toGroupId` is absent. */
+export interface GroupHistoryItem {
+    id?: never;
+    action: HistoryAction.Group;
+    points: [];
+    itemId: string;
+    fromGroupId?: string;
+    toGroupId?: string;
+}
+
+/** Commands that add or target one drawable and may be grouped in a batch. */
+export type BatchableHistoryItem =
+    | DrawableHistoryItem
+    | TransformHistoryItem
+    | DeleteHistoryItem
+    | UpdatePathHistoryItem
+    | ArrangeHistoryItem
+    | SetLayerHistoryItem
+    | GroupHistoryItem;
+
+/**
+ * A group move, rotate, scale, flip, delete, reorder, or regroup over a
+ * multi-selection, or the drawables added by one paste. Replay applies the commands in order, and the
+ * group undoes and redoes as one step.
+ */
+export interface BatchHistoryItem {
+    id?: never;
+    action: HistoryAction.Batch;
+    points: [];
+    commands: BatchableHistoryItem[];
+}
+
 /**
  * The persisted operation log. Each action now exposes only the fields that are
  * meaningful for that command, while retaining the historical `points: []`
@@ -156,12 +273,35 @@ export type UndoableHistoryItem =
     | ClearHistoryItem
     | TransformHistoryItem
     | DeleteHistoryItem
-    | UpdatePathHistoryItem;
+    | UpdatePathHistoryItem
+    | ReprojectHistoryItem
+    | UpdateLayersHistoryItem
+    | ArrangeHistoryItem
+    | SetLayerHistoryItem
+    | GroupHistoryItem
+    | BatchHistoryItem;
+
+/** Stylus readings for one point of a stroke, as reported by Pointer Events. */
+export interface PenSample {
+    /** From 0 to 1. */
+    pressure: number;
+    /** Degrees from -90 to 90 on each axis; 0 is upright. */
+    tiltX: number;
+    tiltY: number;
+}
+
+/** Keys held, and pen readings taken, during a pointer event. */
+export interface PointerModifiers {
+    shiftKey?: boolean;
+    altKey?: boolean;
+    /** Only pens report it; mouse and touch strokes keep simulated pressure. */
+    pen?: PenSample;
+}
 
 export interface DrawingMode {
-    start: (point: Point, context: DrawingModeContext) => void;
-    continue: (point: Point, context: DrawingModeContext) => boolean;
-    end: (point: Point | null, context: DrawingModeContext) => DrawingModeResult;
+    start: (point: Point, context: DrawingModeContext, modifiers?: PointerModifiers) => void;
+    continue: (point: Point, context: DrawingModeContext, modifiers?: PointerModifiers) => boolean;
+    end: (point: Point | null, context: DrawingModeContext, modifiers?: PointerModifiers) => DrawingModeResult;
     cancel: (context: DrawingModeContext) => void;
     hover?: (point: Point, context: DrawingModeContext) => boolean;
     finish?: (context: DrawingModeContext) => DrawingModeResult;
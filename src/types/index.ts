@@ -7,7 +7,28 @@ export interface AppConfig {
 }
 
 export enum DiagonalDirection {
-    TopRightToBottomLeft = 'topRightToBottomLeft'
+    TopRightToBottomLeft = 'topRightToBottomLeft',
+    TopLeftToBottomRight = 'topLeftToBottomRight'
+}
+
+/**
+ * Symmetry used to unfold the folded canvas. Rectangular is the original
+ * power-of-two crease grid; the others are wallpaper groups built from
+ * triangle, rhombus, or square wedges.
+ */
+export enum FoldSystem {
+    Rectangular = 'rectangular',
+    P3 = 'p3',
+    P3m1 = 'p3m1',
+    P4 = 'p4',
+    P6 = 'p6',
+    P6m = 'p6m'
+}
+
+/** Accordion panel counts across (columns) and down (rows) the cloth. */
+export interface AccordionPanels {
+    columns: number;
+    rows: number;
 }
 
 export interface FoldState {
@@ -18,15 +39,24 @@ export interface FoldState {
         count: number;
         direction: DiagonalDirection;
     };
+    /** Absent in documents created before fold systems; treated as rectangular. */
+    system?: FoldSystem;
+    /** When present, replaces the power-of-two crease grid with these panels. */
+    accordion?: AccordionPanels;
 }
 
 export enum DrawingTool {
     Line = 'line',
     Paintbrush = 'paintbrush',
+    Eraser = 'eraser',
     Rectangle = 'rectangle',
     Square = 'square',
     Circle = 'circle',
+    Ellipse = 'ellipse',
+    Polygon = 'polygon',
+    Star = 'star',
     Bezier = 'bezier',
+    ResistBlock = 'resistBlock',
     SelectMove = 'selectMove',
     DirectSelect = 'directSelect'
 } 
@@ -35,11 +65,27 @@ export enum HistoryAction {
     Clear = 'clear',
     Move = 'move',
     Rotate = 'rotate',
+    Scale = 'scale',
+    Flip = 'flip',
     Delete = 'delete',
-    UpdatePath = 'updatePath'
+    UpdatePath = 'updatePath',
+    Reproject = 'reproject',
+    UpdateLayers = 'updateLayers',
+    Arrange = 'arrange',
+    SetLayer = 'setLayer',
+    Group = 'group',
+    Batch = 'batch'
 }
 
 export enum ShapeFillMode {
     Filled = 'filled',
     Outline = 'outline'
 }
+
+/** Outline of an itajime block clamped through the folded cloth. */
+export enum ResistBlockShape {
+    Rectangle = 'rectangle',
+    Circle = 'circle',
+    Triangle = 'triangle',
+    Hexagon = 'hexagon'
+}
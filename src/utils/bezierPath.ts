@@ -4,7 +4,7 @@ import {
   Bounds,
   Point,
 } from '../types/DrawingMode';
-import { rotatePoint, translatePoint } from './geometryMath';
+import { rotatePoint, scalePoint, translatePoint } from './geometryMath';
 
 export interface BezierSegment {
   index: number;
@@ -197,6 +197,16 @@ export function rotateBezierPath(path: BezierPath, center: Point, angle: number)
   return next;
 }
 
+export function scaleBezierPath(path: BezierPath, origin: Point, scale: Point): BezierPath {
+  const next = cloneBezierPath(path);
+  for (const anchor of next.anchors) {
+    anchor.point = scalePoint(anchor.point, origin, scale);
+    if (anchor.inHandle) anchor.inHandle = scalePoint(anchor.inHandle, origin, scale);
+    if (anchor.outHandle) anchor.outHandle = scalePoint(anchor.outHandle, origin, scale);
+  }
+  return next;
+}
+
 export function moveBezierAnchors(path: BezierPath, anchorIds: ReadonlySet<string>, delta: Point): BezierPath {
   const next = cloneBezierPath(path);
   for (const anchor of next.anchors) {
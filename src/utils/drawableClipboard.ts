@@ -0,0 +1,52 @@
+import { DrawableHistoryItem } from "./historyOperations";
+import { MAX_SHARE_HISTORY_ITEMS, normalizeDrawableFromUnknown } from "./urlStateUtils";
+
+/** Marks the clipboard text as drawables copied from this app. */
+export const DRAWABLE_CLIPBOARD_FORMAT = "shibori-drawables";
+export const DRAWABLE_CLIPBOARD_VERSION = 1;
+
+export interface DrawableClipboard {
+  format: typeof DRAWABLE_CLIPBOARD_FORMAT;
+  version: typeof DRAWABLE_CLIPBOARD_VERSION;
+  /** v2 drawables with their captured style, as they appear in a share document. */
+  drawables: DrawableHistoryItem[];
+}
+
+/**
+ * Plain JSON text, so marks can be pasted into another tab or document. The
+ * IDs are kept only to describe the copy; pasting always assigns fresh ones.
+ */
+export function encodeDrawableClipboard(drawables: DrawableHistoryItem[]): string {
+  const clipboard: DrawableClipboard = {
+    format: DRAWABLE_CLIPBOARD_FORMAT,
+    version: DRAWABLE_CLIPBOARD_VERSION,
+    drawables,
+  };
+  return JSON.stringify(clipboard);
+}
+
+/**
+ * The drawables in pasted text, or null for any other text. Every drawable is
+ * validated like a share link, since the clipboard may hold anything.
+ */
+export function decodeDrawableClipboard(text: string): DrawableHistoryItem[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (typeof value !== "object" || value === null) return null;
+  const clipboard = value as Record<string, unknown>;
+  if (clipboard.format !== DRAWABLE_CLIPBOARD_FORMAT || clipboard.version !== DRAWABLE_CLIPBOARD_VERSION) {
+    return null;
+  }
+  if (!Array.isArray(clipboard.drawables) || clipboard.drawables.length === 0 ||
+      clipboard.drawables.length > MAX_SHARE_HISTORY_ITEMS) {
+    return null;
+  }
+
+  const drawables = clipboard.drawables.map(normalizeDrawableFromUnknown);
+  return drawables.every((item): item is DrawableHistoryItem => item !== null) ? drawables : null;
+}
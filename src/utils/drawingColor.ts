@@ -0,0 +1,61 @@
+export const MAX_RECENT_COLORS = 8;
+export const MAX_PALETTE_COLORS = 16;
+export const DEFAULT_DRAWING_COLOR = '#ffffff';
+/** The historical `navy` cloth, expressed as hex so it survives normalization. */
+export const DEFAULT_BACKGROUND_COLOR = '#000080';
+export const TRANSPARENT_BACKGROUND = 'transparent';
+
+/** Starter swatches covering common dye and resist colors. */
+export const DEFAULT_COLOR_PALETTE: readonly string[] = [
+    '#ffffff',
+    '#f3ead8',
+    '#1d2a5b',
+    '#3f5fa8',
+    '#7fa7d9',
+    '#111111',
+    '#8e2c48',
+    '#c8642d',
+];
+
+/** Cloth presets for the background picker. */
+export const BACKGROUND_PRESETS: readonly { label: string; color: string }[] = [
+    { label: 'Navy', color: DEFAULT_BACKGROUND_COLOR },
+    { label: 'Indigo', color: '#1d2a5b' },
+    { label: 'Black', color: '#111111' },
+    { label: 'Undyed cotton', color: '#f3ead8' },
+];
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const NAMED_COLOR_PATTERN = /^[a-z]{3,32}$/i;
+
+/**
+ * Canonicalize a picker or swatch value to lowercase `#rrggbb`. Only hex input
+ * is accepted, so stored colors compare reliably for recents and the palette.
+ */
+export function normalizeHexColor(value: unknown): string | null {
+    if (typeof value !== 'string' || !HEX_COLOR_PATTERN.test(value)) return null;
+    const hex = value.slice(1).toLowerCase();
+    return hex.length === 3
+        ? `#${hex.split('').map((digit) => digit + digit).join('')}`
+        : `#${hex}`;
+}
+
+/**
+ * Colors accepted on committed drawables: hex colors plus the bare CSS color
+ * keywords written by legacy documents (for example `white`). Anything with
+ * punctuation is rejected so a shared color cannot smuggle other CSS syntax.
+ */
+export function isDrawingColor(value: unknown): value is string {
+    return typeof value === 'string' &&
+        (HEX_COLOR_PATTERN.test(value) || NAMED_COLOR_PATTERN.test(value));
+}
+
+/** Canonicalize a document background: a hex cloth color or `transparent`. */
+export function normalizeBackgroundColor(value: unknown): string | null {
+    return value === TRANSPARENT_BACKGROUND ? TRANSPARENT_BACKGROUND : normalizeHexColor(value);
+}
+
+/** Move a color to the front of a bounded, de-duplicated swatch list. */
+export function pushRecentColor(colors: readonly string[], color: string, limit = MAX_RECENT_COLORS): string[] {
+    return [color, ...colors.filter((candidate) => candidate !== color)].slice(0, limit);
+}
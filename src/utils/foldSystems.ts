@@ -0,0 +1,267 @@
+import { AccordionPanels, FoldState, FoldSystem } from '../types';
+import type { Bounds, CanvasDimensions, Point } from '../types/DrawingMode';
+
+/**
+ * A linear map stored in Canvas `setTransform` order: a point (x, y) maps to
+ * (a * x + c * y, b * x + d * y).
+ */
+export type LinearTransform = [a: number, b: number, c: number, d: number];
+
+/**
+ * A kaleidoscope fold system in unit cell space: cells have a circumradius of
+ * one and are centred on the lattice points. The wedge is the folded canvas;
+ * its transformed copies exactly fill one cell.
+ */
+export interface KaleidoscopeSystem {
+  wedge: Point[];
+  transforms: LinearTransform[];
+  lattice: [Point, Point];
+}
+
+export const FOLD_SYSTEM_OPTIONS: readonly { value: FoldSystem; label: string }[] = [
+  { value: FoldSystem.Rectangular, label: 'Rectangular folds' },
+  { value: FoldSystem.P3, label: 'p3 · 3-fold rotation' },
+  { value: FoldSystem.P3m1, label: 'p3m1 · triangle kaleidoscope' },
+  { value: FoldSystem.P4, label: 'p4 · 4-fold rotation' },
+  { value: FoldSystem.P6, label: 'p6 · 6-fold rotation' },
+  { value: FoldSystem.P6m, label: 'p6m · hexagon kaleidoscope' },
+];
+
+/**
+ * Overlap, in unit cell space, added to the folded drawable region. The mirror
+ * expands each wedge clip by half of it so antialiased wedge edges do not leave
+ * background seams between neighbouring copies.
+ */
+export const KALEIDOSCOPE_WEDGE_OVERLAP = 0.01;
+
+const HALF_SQRT3 = Math.sqrt(3) / 2;
+const HEX_LATTICE: [Point, Point] = [{ x: 1.5, y: HALF_SQRT3 }, { x: 0, y: 2 * HALF_SQRT3 }];
+const ORIGIN: Point = { x: 0, y: 0 };
+const HEX_VERTICES: Point[] = Array.from({ length: 3 }, (_, index) => ({
+  x: Math.cos((index * Math.PI) / 3),
+  y: Math.sin((index * Math.PI) / 3),
+}));
+
+const KALEIDOSCOPE_SYSTEMS: Record<Exclude<FoldSystem, FoldSystem.Rectangular>, KaleidoscopeSystem> = {
+  [FoldSystem.P3]: {
+    wedge: [ORIGIN, ...HEX_VERTICES],
+    transforms: [0, 1, 2].map((index) => rotation(index * 120)),
+    lattice: HEX_LATTICE,
+  },
+  [FoldSystem.P3m1]: {
+    wedge: [ORIGIN, HEX_VERTICES[0], HEX_VERTICES[1]],
+    transforms: dihedralTransforms(60),
+    lattice: HEX_LATTICE,
+  },
+  [FoldSystem.P4]: {
+    wedge: [ORIGIN, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    transforms: [0, 1, 2, 3].map((index) => rotation(index * 90)),
+    lattice: [{ x: 2, y: 0 }, { x: 0, y: 2 }],
+  },
+  [FoldSystem.P6]: {
+    wedge: [ORIGIN, HEX_VERTICES[0], HEX_VERTICES[1]],
+    transforms: [0, 1, 2, 3, 4, 5].map((index) => rotation(index * 60)),
+    lattice: HEX_LATTICE,
+  },
+  [FoldSystem.P6m]: {
+    wedge: [ORIGIN, HEX_VERTICES[0], { x: 0.75, y: HALF_SQRT3 / 2 }],
+    transforms: dihedralTransforms(30),
+    lattice: HEX_LATTICE,
+  },
+};
+
+export const MIN_ACCORDION_PANELS = 2;
+export const MAX_ACCORDION_PANELS = 12;
+
+/**
+ * Panels across and down the unfolded cloth for rectangular folds: accordion
+ * panel counts when set, otherwise two panels per power-of-two fold.
+ */
+export function getFoldGrid(
+  folds: Pick<FoldState, 'vertical' | 'horizontal' | 'accordion'>
+): AccordionPanels {
+  return folds.accordion
+    ? { columns: folds.accordion.columns, rows: folds.accordion.rows }
+    : { columns: Math.pow(2, folds.vertical), rows: Math.pow(2, folds.horizontal) };
+}
+
+/** Pixel edge of a panel; rounded so uneven panel counts still cover `size`. */
+export function getPanelEdge(size: number, panels: number, index: number): number {
+  return Math.round((size * index) / panels);
+}
+
+/**
+ * How deep each panel of a rectangular fold sits once the cloth is folded,
+ * indexed `[row][col]`: 0 is the top panel drawn on the folded canvas, and the
+ * deepest is `columns * rows - 1`. Accordion panels zig-zag straight down;
+ * repeated half folds tuck the far half under the near one. Columns are
+ * folded first, so a mirrored row carries its column stack upside down.
+ */
+export function getPanelFoldDepths(
+  folds: Pick<FoldState, 'vertical' | 'horizontal' | 'accordion'>
+): number[][] {
+  const { columns, rows } = getFoldGrid(folds);
+  const accordion = Boolean(folds.accordion);
+  const columnStack = getAxisFoldStack(columns, accordion);
+  const depths = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+
+  getAxisFoldStack(rows, accordion).forEach((row, rowLayer) => {
+    const stack = row % 2 === 1 ? [...columnStack].reverse() : columnStack;
+    stack.forEach((col, colLayer) => {
+      depths[row][col] = rowLayer * columns + colLayer;
+    });
+  });
+  return depths;
+}
+
+/** Diagonal folds need the same number of panels on both axes. */
+export function hasSquareFoldGrid(
+  folds: Pick<FoldState, 'vertical' | 'horizontal' | 'accordion'>
+): boolean {
+  const { columns, rows } = getFoldGrid(folds);
+  return columns === rows;
+}
+
+export function getFoldSystem(folds: Pick<FoldState, 'system'>): FoldSystem {
+  return folds.system ?? FoldSystem.Rectangular;
+}
+
+/** The kaleidoscope geometry for non-rectangular systems, otherwise null. */
+export function getKaleidoscopeSystem(folds: Pick<FoldState, 'system'>): KaleidoscopeSystem | null {
+  const system = getFoldSystem(folds);
+  return system === FoldSystem.Rectangular ? null : KALEIDOSCOPE_SYSTEMS[system];
+}
+
+/** Cells are sized from the shorter canvas side so every system shows repeats. */
+export function getKaleidoscopeCellRadius(dimensions: CanvasDimensions): number {
+  return Math.max(1, Math.min(dimensions.width, dimensions.height) / 4);
+}
+
+export function getWedgeBounds(system: KaleidoscopeSystem): Bounds {
+  return {
+    minX: Math.min(...system.wedge.map((point) => point.x)),
+    minY: Math.min(...system.wedge.map((point) => point.y)),
+    maxX: Math.max(...system.wedge.map((point) => point.x)),
+    maxY: Math.max(...system.wedge.map((point) => point.y)),
+  };
+}
+
+/** The wedge in folded-canvas pixels, optionally grown by a unit-space overlap. */
+export function getFoldedWedgePolygon(
+  system: KaleidoscopeSystem,
+  dimensions: CanvasDimensions,
+  overlap = 0
+): Point[] {
+  const bounds = getWedgeBounds(system);
+  const scaleX = dimensions.width / (bounds.maxX - bounds.minX);
+  const scaleY = dimensions.height / (bounds.maxY - bounds.minY);
+
+  return expandPolygon(system.wedge, overlap).map((point) => ({
+    x: (point.x - bounds.minX) * scaleX,
+    y: (point.y - bounds.minY) * scaleY,
+  }));
+}
+
+/** Push each vertex away from the centroid by `amount`. */
+export function expandPolygon(points: Point[], amount: number): Point[] {
+  if (amount === 0) return points;
+  const center = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+
+  return points.map((point) => {
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return point;
+    const scale = 1 + amount / distance;
+    return { x: center.x + dx * scale, y: center.y + dy * scale };
+  });
+}
+
+export function applyLinearTransform(transform: LinearTransform, point: Point): Point {
+  const [a, b, c, d] = transform;
+  return { x: a * point.x + c * point.y, y: b * point.x + d * point.y };
+}
+
+/**
+ * Lattice cell centres, in canvas pixels, for every cell that touches the
+ * canvas. One cell is centred on the canvas so patterns stay symmetric.
+ */
+export function getKaleidoscopeCellCenters(
+  dimensions: CanvasDimensions,
+  system: KaleidoscopeSystem,
+  radius: number
+): Point[] {
+  const extent = radius * Math.max(...system.wedge.map((point) => Math.hypot(point.x, point.y)));
+  const [first, second] = system.lattice;
+  const shortestStep = radius * Math.min(Math.hypot(first.x, first.y), Math.hypot(second.x, second.y));
+  const range = Math.ceil((2 * (dimensions.width + dimensions.height)) / shortestStep) + 1;
+  const origin = { x: dimensions.width / 2, y: dimensions.height / 2 };
+  const centers: Point[] = [];
+
+  for (let i = -range; i <= range; i++) {
+    for (let j = -range; j <= range; j++) {
+      const center = {
+        x: origin.x + radius * (i * first.x + j * second.x),
+        y: origin.y + radius * (i * first.y + j * second.y),
+      };
+      if (center.x < -extent || center.x > dimensions.width + extent) continue;
+      if (center.y < -extent || center.y > dimensions.height + extent) continue;
+      centers.push(center);
+    }
+  }
+
+  return centers;
+}
+
+/** Closed SVG path data for a polygon. */
+export function getPolygonPathData(points: Point[]): string {
+  return points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${round(point.x)} ${round(point.y)}`)
+    .join(' ') + ' Z';
+}
+
+/** Panel indices along one axis from the top of the folded stack down. */
+function getAxisFoldStack(panels: number, accordion: boolean): number[] {
+  if (accordion) return Array.from({ length: panels }, (_, index) => index);
+
+  let stacks = Array.from({ length: panels }, (_, index) => [index]);
+  while (stacks.length > 1) {
+    const folded = stacks;
+    stacks = folded
+      .slice(0, folded.length / 2)
+      .map((stack, index) => [...stack, ...[...folded[folded.length - 1 - index]].reverse()]);
+  }
+  return stacks[0];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function rotation(degrees: number): LinearTransform {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cos, sin, -sin, cos];
+}
+
+function reflection(lineDegrees: number): LinearTransform {
+  const radians = (2 * lineDegrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [cos, sin, sin, -cos];
+}
+
+/**
+ * Copies of a wedge with the given angle under the dihedral group generated by
+ * reflections in its two edges: even slots rotate, odd slots reflect.
+ */
+function dihedralTransforms(wedgeDegrees: number): LinearTransform[] {
+  const count = Math.round(360 / wedgeDegrees);
+  return Array.from({ length: count }, (_, index) => index % 2 === 0
+    ? rotation(index * wedgeDegrees)
+    : reflection(((index + 1) * wedgeDegrees) / 2));
+}
@@ -1,4 +1,5 @@
 import type { FoldState } from '../types';
+import { getFoldGrid, getKaleidoscopeSystem, getWedgeBounds } from './foldSystems';
 
 export interface CanvasDimensions {
   width: number;
@@ -7,24 +8,38 @@ export interface CanvasDimensions {
 
 /**
  * Size the folded canvas to the shape of one folded cell, while retaining the
- * original backing resolution whenever the horizontal and vertical fold counts
- * match. Shared folds are represented by the mirror downsampling step; only
- * the unmatched folds change the folded canvas aspect ratio.
+ * original backing resolution whenever the horizontal and vertical panel counts
+ * match. Shared panels are represented by the mirror downsampling step; only
+ * the unmatched panels change the folded canvas aspect ratio.
+ *
+ * Kaleidoscope systems instead use the bounding box of their wedge, fitted to
+ * the unfolded resolution.
  */
 export function getFoldedCanvasDimensions(
   dimensions: CanvasDimensions,
-  folds: Pick<FoldState, 'vertical' | 'horizontal'>
+  folds: Pick<FoldState, 'vertical' | 'horizontal' | 'system' | 'accordion'>
 ): CanvasDimensions {
-  const sharedFolds = Math.min(folds.vertical, folds.horizontal);
-  const horizontalOnlyFolds = folds.horizontal - sharedFolds;
-  const verticalOnlyFolds = folds.vertical - sharedFolds;
+  const kaleidoscope = getKaleidoscopeSystem(folds);
+  if (kaleidoscope) {
+    const bounds = getWedgeBounds(kaleidoscope);
+    const wedgeWidth = bounds.maxX - bounds.minX;
+    const wedgeHeight = bounds.maxY - bounds.minY;
+    const scale = Math.min(dimensions.width / wedgeWidth, dimensions.height / wedgeHeight);
+    return {
+      width: Math.max(1, Math.round(wedgeWidth * scale)),
+      height: Math.max(1, Math.round(wedgeHeight * scale)),
+    };
+  }
+
+  const { columns, rows } = getFoldGrid(folds);
+  const sharedPanels = Math.min(columns, rows);
 
   return {
-    width: scaleDimension(dimensions.width, verticalOnlyFolds),
-    height: scaleDimension(dimensions.height, horizontalOnlyFolds),
+    width: scaleDimension(dimensions.width, sharedPanels, columns),
+    height: scaleDimension(dimensions.height, sharedPanels, rows),
   };
 }
 
-function scaleDimension(dimension: number, folds: number): number {
-  return Math.max(1, Math.floor(dimension / Math.pow(2, folds)));
+function scaleDimension(dimension: number, sharedPanels: number, panels: number): number {
+  return Math.max(1, Math.floor((dimension * sharedPanels) / panels));
 }
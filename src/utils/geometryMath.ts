@@ -1,4 +1,4 @@
-import { Bounds, Point } from "../types/DrawingMode";
+import { Bounds, DrawableHistoryItem, Point } from "../types/DrawingMode";
 
 export function translatePoints(points: Point[], delta: Point): Point[] {
   return points.map((point) => ({
@@ -26,10 +26,68 @@ export function rotatePoint(point: Point, center: Point, angleRadians: number):
   };
 }
 
+/**
+ * Where a circle is drawn. Circles turn by moving their points, but ones
+ * rotated as part of a group in older links still carry a rotation about the
+ * group's center.
+ */
+export function getCircleCenter(item: Pick<DrawableHistoryItem, "points" | "rotation" | "rotationCenter">): Point {
+  const [center] = item.points;
+  return item.rotation ? rotatePoint(center, item.rotationCenter ?? center, item.rotation) : center;
+}
+
 export function rotatePoints(points: Point[], center: Point, angleRadians: number): Point[] {
   return points.map((point) => rotatePoint(point, center, angleRadians));
 }
 
+/** Scale a point away from `origin` by independent horizontal and vertical factors. */
+export function scalePoint(point: Point, origin: Point, scale: Point): Point {
+  return {
+    x: origin.x + (point.x - origin.x) * scale.x,
+    y: origin.y + (point.y - origin.y) * scale.y,
+  };
+}
+
+export function scalePoints(points: Point[], origin: Point, scale: Point): Point[] {
+  return points.map((point) => scalePoint(point, origin, scale));
+}
+
+/**
+ * Scale a shape that is drawn turned by `rotation` about `pivot`. A rotated
+ * rectangle cannot shear, so its center follows the scale exactly and each of
+ * its sides stretches by as much as the scale lengthens that side. The
+ * returned points are drawn turned about the returned center.
+ */
+export function scaleRotatedShape(
+  points: Point[],
+  shapeCenter: Point,
+  pivot: Point,
+  rotation: number,
+  origin: Point,
+  scale: Point
+): { points: Point[]; center: Point } {
+  const center = scalePoint(rotatePoint(shapeCenter, pivot, rotation), origin, scale);
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const sideScale = {
+    x: Math.sign(scale.x) * Math.hypot(scale.x * cos, scale.y * sin),
+    y: Math.sign(scale.y) * Math.hypot(scale.x * sin, scale.y * cos),
+  };
+
+  return {
+    points: points.map((point) => ({
+      x: center.x + (point.x - shapeCenter.x) * sideScale.x,
+      y: center.y + (point.y - shapeCenter.y) * sideScale.y,
+    })),
+    center,
+  };
+}
+
+/** Whether a scale mirrors what it is applied to. */
+export function isMirroringScale(scale: Point): boolean {
+  return scale.x * scale.y < 0;
+}
+
 export function getBoundsFromPoints(points: Point[]): Bounds | null {
   if (points.length === 0) return null;
 
@@ -49,6 +107,25 @@ export function getBoundsFromPoints(points: Point[]): Bounds | null {
   );
 }
 
+/** The smallest bounds enclosing all of them, or null for none. */
+export function getUnionBounds(bounds: Bounds[]): Bounds | null {
+  if (bounds.length === 0) return null;
+
+  return bounds.reduce((union, next) => ({
+    minX: Math.min(union.minX, next.minX),
+    minY: Math.min(union.minY, next.minY),
+    maxX: Math.max(union.maxX, next.maxX),
+    maxY: Math.max(union.maxY, next.maxY),
+  }));
+}
+
+export function isBoundsInside(inner: Bounds, outer: Bounds): boolean {
+  return inner.minX >= outer.minX &&
+    inner.minY >= outer.minY &&
+    inner.maxX <= outer.maxX &&
+    inner.maxY <= outer.maxY;
+}
+
 export function expandBounds(bounds: Bounds, amount: number): Bounds {
   return {
     minX: bounds.minX - amount,
@@ -168,3 +245,39 @@ export function isPointNearCircleOutline(
 ): boolean {
   return Math.abs(Math.hypot(point.x - center.x, point.y - center.y) - radius) <= tolerance;
 }
+
+/** Even-odd test, so the overlapping points of a self-crossing outline count as outside. */
+export function isPointInPolygon(point: Point, vertices: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isPointInEllipse(point: Point, center: Point, radiusX: number, radiusY: number): boolean {
+  if (radiusX <= 0 || radiusY <= 0) return false;
+  const dx = (point.x - center.x) / radiusX;
+  const dy = (point.y - center.y) / radiusY;
+  return (dx * dx) + (dy * dy) <= 1;
+}
+
+/**
+ * Whether `point` lies in the band `tolerance` wide either side of an axis-aligned
+ * ellipse's outline. With one radius this matches `isPointNearCircleOutline`.
+ */
+export function isPointNearEllipseOutline(
+  point: Point,
+  center: Point,
+  radiusX: number,
+  radiusY: number,
+  tolerance: number
+): boolean {
+  return isPointInEllipse(point, center, radiusX + tolerance, radiusY + tolerance) &&
+    !isPointInEllipse(point, center, radiusX - tolerance, radiusY - tolerance);
+}
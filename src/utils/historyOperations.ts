@@ -1,17 +1,47 @@
-import { DrawingTool, HistoryAction } from "../types";
+import { DrawingModeFactory } from "../drawingModes/DrawingModeFactory";
+import { DrawingTool, FoldState, HistoryAction } from "../types";
 import {
+  ArrangeDirection,
+  ArrangeHistoryItem,
+  BatchableHistoryItem,
+  BatchHistoryItem,
   DrawableDrawingTool,
   DrawableHistoryItem as DrawableCommand,
   DrawingStyle,
   BezierPath,
   BezierPathHistoryItem,
+  CanvasDimensions,
+  DeleteHistoryItem,
+  GroupHistoryItem,
+  Layer,
   Point,
+  ReprojectHistoryItem,
+  SelectionScale,
+  SetLayerHistoryItem,
   TransformHistoryItem,
+  UpdateLayersHistoryItem,
   UpdatePathHistoryItem,
   UndoableHistoryItem,
 } from "../types/DrawingMode";
-import { rotatePoints, translatePoint, translatePoints } from "./geometryMath";
-import { cloneBezierPath, legacyPointsToPath, rotateBezierPath, translateBezierPath } from "./bezierPath";
+import {
+  getBoundsCenter,
+  getRectBounds,
+  getSquareEndPoint,
+  rotatePoint,
+  rotatePoints,
+  translatePoint,
+  translatePoints,
+} from "./geometryMath";
+import {
+  cloneBezierPath,
+  legacyPointsToPath,
+  rotateBezierPath,
+  translateBezierPath,
+} from "./bezierPath";
+import { getFoldedCanvasDimensions } from "./foldedCanvasDimensions";
+import { DEFAULT_LAYER_ID, getLayerId } from "./layers";
+
+const ORIGIN: Point = { x: 0, y: 0 };
 
 export type DrawableHistoryItem = DrawableCommand & {
   id: string;
@@ -31,11 +61,16 @@ export function isDrawableHistoryItem(item: UndoableHistoryItem): item is Drawab
 
 export function isDrawableAction(action: UndoableHistoryItem["action"]): action is DrawableDrawingTool {
   return action === DrawingTool.Paintbrush ||
+    action === DrawingTool.Eraser ||
     action === DrawingTool.Line ||
     action === DrawingTool.Rectangle ||
     action === DrawingTool.Square ||
     action === DrawingTool.Circle ||
-    action === DrawingTool.Bezier;
+    action === DrawingTool.Ellipse ||
+    action === DrawingTool.Polygon ||
+    action === DrawingTool.Star ||
+    action === DrawingTool.Bezier ||
+    action === DrawingTool.ResistBlock;
 }
 
 export function isDrawableCommand(item: UndoableHistoryItem): item is DrawableCommand {
@@ -46,11 +81,7 @@ export function ensureHistoryItemIds(history: UndoableHistoryItem[]): UndoableHi
   const usedIds = new Set<string>();
   let changed = false;
 
-  const normalizedHistory = history.map((item, index) => {
-    if (!isDrawableCommand(item)) {
-      return item;
-    }
-
+  const normalizeDrawable = (item: DrawableCommand, index: number): DrawableCommand => {
     const existingId = typeof item.id === "string" && item.id.length > 0 ? item.id : null;
     if (existingId && !usedIds.has(existingId)) {
       usedIds.add(existingId);
@@ -66,30 +97,44 @@ export function ensureHistoryItemIds(history: UndoableHistoryItem[]): UndoableHi
       ...item,
       id,
     }, id);
+  };
+
+  const normalizedHistory = history.map((item, index) => {
+    if (item.action === HistoryAction.Batch) {
+      return mapBatchDrawables(item, (command) => normalizeDrawable(command, index));
+    }
+    return isDrawableCommand(item) ? normalizeDrawable(item, index) : item;
   });
 
   return changed ? normalizedHistory : history;
 }
 
+/**
+ * Give a new drawable, or each drawable added by a batch, an ID not yet used
+ * anywhere in `history`.
+ */
 export function assignHistoryItemId(
   item: UndoableHistoryItem,
   history: UndoableHistoryItem[]
 ): UndoableHistoryItem {
-  if (!isDrawableCommand(item) || item.id) {
-    return item;
-  }
-
   const usedIds = new Set(
     history
+      .flatMap((historyItem) => historyItem.action === HistoryAction.Batch ? historyItem.commands : [historyItem])
       .map((historyItem) => isDrawableCommand(historyItem) ? historyItem.id : undefined)
       .filter((id): id is string => typeof id === "string" && id.length > 0)
   );
-  const id = createHistoryItemId(usedIds, history.length);
+  const assign = (drawable: DrawableCommand): DrawableCommand => {
+    if (drawable.id) return drawable;
+    const id = createHistoryItemId(usedIds, history.length);
+    usedIds.add(id);
+    return normalizeBezierCommand({
+      ...drawable,
+      id,
+    }, id);
+  };
 
-  return normalizeBezierCommand({
-    ...item,
-    id,
-  }, id);
+  if (item.action === HistoryAction.Batch) return mapBatchDrawables(item, assign);
+  return isDrawableCommand(item) ? assign(item) : item;
 }
 
 /**
@@ -100,9 +145,7 @@ export function materializeDrawableStyles(
   history: UndoableHistoryItem[],
   defaults: DrawingStyleDefaults
 ): UndoableHistoryItem[] {
-  return ensureHistoryItemIds(history).map((item) => {
-    if (!isDrawableHistoryItem(item)) return item;
-
+  const materialize = <T extends DrawableCommand>(item: T): T => {
     const shapeFillMode = isShapeAction(item.action)
       ? item.style?.shapeFillMode ?? item.shapeFillMode ?? defaults.shapeFillMode
       : undefined;
@@ -115,6 +158,11 @@ export function materializeDrawableStyles(
         ...(shapeFillMode === undefined ? {} : { shapeFillMode }),
       },
     };
+  };
+
+  return ensureHistoryItemIds(history).map((item) => {
+    if (item.action === HistoryAction.Batch) return mapBatchDrawables(item, materialize);
+    return isDrawableHistoryItem(item) ? materialize(item) : item;
   });
 }
 
@@ -128,7 +176,7 @@ export function resolveScene(history: UndoableHistoryItem[]): DrawableHistoryIte
       continue;
     }
 
-    if (item.action === HistoryAction.Move || item.action === HistoryAction.Rotate) {
+    if (isTransformCommand(item)) {
       applyTransformOperation(drawables, item);
       continue;
     }
@@ -143,9 +191,22 @@ export function resolveScene(history: UndoableHistoryItem[]): DrawableHistoryIte
       continue;
     }
 
-    if (isDrawableHistoryItem(item)) {
-      drawables.push(cloneDrawable(item));
+    if (item.action === HistoryAction.Reproject) {
+      applyReprojectOperation(drawables, item);
+      continue;
     }
+
+    if (item.action === HistoryAction.UpdateLayers) {
+      applyUpdateLayersOperation(drawables, item);
+      continue;
+    }
+
+    if (item.action === HistoryAction.Batch) {
+      for (const command of item.commands) applyBatchableOperation(drawables, command);
+      continue;
+    }
+
+    applyBatchableOperation(drawables, item);
   }
 
   return drawables;
@@ -186,26 +247,176 @@ export function createRotateHistoryItem(
   angleRadians: number,
   center: Point
 ): TransformHistoryItem | UpdatePathHistoryItem {
-  const rotatedItem = getRotatedHistoryItemPreview(item, angleRadians, center);
+  return createTransformHistoryItem(
+    HistoryAction.Rotate,
+    item,
+    getRotatedHistoryItemPreview(item, angleRadians, center)
+  );
+}
+
+export function createScaleHistoryItem(
+  item: DrawableHistoryItem,
+  selectionScale: SelectionScale
+): TransformHistoryItem | UpdatePathHistoryItem {
+  return createTransformHistoryItem(
+    HistoryAction.Scale,
+    item,
+    getScaledHistoryItemPreview(item, selectionScale)
+  );
+}
+
+/** Mirror a drawable across the vertical (horizontal flip) or horizontal line through `center`. */
+export function createFlipHistoryItem(
+  item: DrawableHistoryItem,
+  axis: "horizontal" | "vertical",
+  center: Point
+): TransformHistoryItem | UpdatePathHistoryItem {
+  return createTransformHistoryItem(
+    HistoryAction.Flip,
+    item,
+    getScaledHistoryItemPreview(item, {
+      origin: center,
+      scale: axis === "horizontal" ? { x: -1, y: 1 } : { x: 1, y: -1 },
+      rotation: 0,
+    })
+  );
+}
+
+export function createTranslateHistoryItem(
+  item: DrawableHistoryItem,
+  delta: Point
+): TransformHistoryItem | UpdatePathHistoryItem {
+  const movedItem = getTranslatedHistoryItemPreview(item, delta);
 
-  if (item.action === DrawingTool.Bezier && rotatedItem.action === DrawingTool.Bezier && item.path && rotatedItem.path) {
-    return createUpdatePathHistoryItem(item.id, item.path, rotatedItem.path);
+  if (item.action === DrawingTool.Bezier && movedItem.action === DrawingTool.Bezier && item.path && movedItem.path) {
+    return createUpdatePathHistoryItem(item.id, item.path, movedItem.path);
   }
 
+  return createMoveHistoryItem(
+    item.id,
+    item.points,
+    movedItem.points,
+    item.rotation,
+    movedItem.rotation,
+    item.rotationCenter,
+    movedItem.rotationCenter
+  );
+}
+
+/**
+ * One undo step for an edit made to every item of a multi-selection. A single
+ * command is recorded as itself, so single-item edits keep their usual form.
+ */
+export function createBatchHistoryItem(
+  commands: BatchableHistoryItem[]
+): BatchableHistoryItem | BatchHistoryItem {
+  if (commands.length === 1) return commands[0];
   return {
-    action: HistoryAction.Rotate,
+    action: HistoryAction.Batch,
+    points: [],
+    commands,
+  };
+}
+
+/**
+ * Copies of `items` moved by `offset`, added as one command. Each copy gets a
+ * fresh ID, so the originals and any earlier copies stay independent.
+ */
+export function createPasteHistoryItem(
+  items: DrawableHistoryItem[],
+  offset: Point,
+  history: UndoableHistoryItem[]
+): UndoableHistoryItem {
+  // Copies land on the active layer, and copied groups become new groups.
+  const groupIds = new Map<string, string>();
+  const usedGroupIds = getUsedGroupIds(history);
+  const copies = items.map((item): DrawableCommand => {
+    let groupId: string | undefined;
+    if (item.groupId) {
+      groupId = groupIds.get(item.groupId) ?? createGroupId(usedGroupIds);
+      groupIds.set(item.groupId, groupId);
+      usedGroupIds.add(groupId);
+    }
+    return {
+      ...getTranslatedHistoryItemPreview(item, offset),
+      id: undefined,
+      layerId: undefined,
+      groupId,
+    };
+  });
+  return assignHistoryItemId(createBatchHistoryItem(copies), history);
+}
+
+/** IDs of the drawables a command adds to the scene. */
+export function getAddedDrawableIds(item: UndoableHistoryItem): string[] {
+  const commands = item.action === HistoryAction.Batch ? item.commands : [item];
+  return commands
+    .filter(isDrawableHistoryItem)
+    .map((command) => command.id);
+}
+
+export function createUpdateLayersHistoryItem(fromLayers: Layer[], toLayers: Layer[]): UpdateLayersHistoryItem {
+  return {
+    action: HistoryAction.UpdateLayers,
+    points: [],
+    fromLayers: fromLayers.map(cloneLayer),
+    toLayers: toLayers.map(cloneLayer),
+  };
+}
+
+/**
+ * Commands that bring `itemIds` forward, or send them backward, one step
+ * within their layers. Selected drawables keep their order among themselves,
+ * and drawables already at the end of their layer are left out.
+ */
+export function createArrangeHistoryItems(
+  scene: DrawableHistoryItem[],
+  itemIds: string[],
+  direction: ArrangeDirection
+): ArrangeHistoryItem[] {
+  const selected = new Set(itemIds);
+  const drawables = [...scene];
+  const order = scene.filter((item) => selected.has(item.id)).map((item) => item.id);
+  if (direction === "forward") order.reverse();
+
+  const commands: ArrangeHistoryItem[] = [];
+  for (const itemId of order) {
+    const neighbor = findArrangeNeighbor(drawables, itemId, direction);
+    if (neighbor === -1 || selected.has(drawables[neighbor].id)) continue;
+    const command: ArrangeHistoryItem = { action: HistoryAction.Arrange, points: [], itemId, direction };
+    applyArrangeOperation(drawables, command);
+    commands.push(command);
+  }
+  return commands;
+}
+
+export function createSetLayerHistoryItem(item: DrawableHistoryItem, toLayerId: string): SetLayerHistoryItem {
+  return {
+    action: HistoryAction.SetLayer,
+    points: [],
     itemId: item.id,
+    fromLayerId: getLayerId(item),
+    toLayerId,
+  };
+}
+
+/** Put `item` in `toGroupId`, or ungroup it when no group is given. */
+export function createGroupHistoryItem(item: DrawableHistoryItem, toGroupId?: string): GroupHistoryItem {
+  return {
+    action: HistoryAction.Group,
     points: [],
-    fromPoints: item.points,
-    toPoints: rotatedItem.points,
-    fromRotation: item.rotation,
-    toRotation: rotatedItem.rotation,
-    fromRotationCenter: item.rotationCenter,
-    toRotationCenter: rotatedItem.rotationCenter,
+    itemId: item.id,
+    ...(item.groupId === undefined ? {} : { fromGroupId: item.groupId }),
+    ...(toGroupId === undefined ? {} : { toGroupId }),
   };
 }
 
-export function createDeleteHistoryItem(itemId: string): UndoableHistoryItem {
+/** A group ID not used anywhere in `history`. */
+export function createGroupIdForHistory(history: UndoableHistoryItem[]): string {
+  return createGroupId(getUsedGroupIds(history));
+}
+
+export function createDeleteHistoryItem(itemId: string): DeleteHistoryItem {
   return {
     action: HistoryAction.Delete,
     itemId,
@@ -237,11 +448,34 @@ export function getRotatedHistoryItemPreview(
   if (item.action === DrawingTool.Bezier && item.path) {
     return { ...item, points: [], path: rotateBezierPath(item.path, center, angleRadians) };
   }
+  if (item.action === DrawingTool.Circle) {
+    // A circle looks the same at any angle, so turning it only moves its
+    // points. Rotation from older links is folded into the points first.
+    const points = item.rotation
+      ? rotatePoints(item.points, getRotationPivot(item), item.rotation)
+      : item.points;
+    return {
+      ...item,
+      points: rotatePoints(points, center, angleRadians),
+      ...(item.rotation ? { rotation: 0, rotationCenter: undefined } : {}),
+    };
+  }
   if (usesRotationMetadata(item.action)) {
+    if (!item.rotation) {
+      return { ...item, rotation: angleRadians, rotationCenter: center };
+    }
+    // An already rotated shape keeps turning about its own center; rotating
+    // about another point (a group's center) also carries that center along.
+    const ownCenter = getRotationPivot(item);
+    const movedCenter = rotatePoint(ownCenter, center, angleRadians);
     return {
       ...item,
-      rotation: (item.rotation ?? 0) + angleRadians,
-      rotationCenter: center,
+      points: translatePoints(item.points, {
+        x: movedCenter.x - ownCenter.x,
+        y: movedCenter.y - ownCenter.y,
+      }),
+      rotation: item.rotation + angleRadians,
+      rotationCenter: movedCenter,
     };
   }
 
@@ -251,6 +485,21 @@ export function getRotatedHistoryItemPreview(
   };
 }
 
+export function getScaledHistoryItemPreview(
+  item: DrawableHistoryItem,
+  { origin, scale, rotation }: SelectionScale
+): DrawableHistoryItem {
+  const geometry = DrawingModeFactory.getGeometry(item.action);
+  if (!rotation) {
+    return { ...geometry.scale(item, origin, scale), id: item.id } as DrawableHistoryItem;
+  }
+  // A rotated frame scales along its own sides: turn the drawable square to
+  // the canvas, scale it there, and turn it back.
+  const aligned = getRotatedHistoryItemPreview(item, -rotation, origin);
+  const scaled = { ...geometry.scale(aligned, origin, scale), id: item.id } as DrawableHistoryItem;
+  return getRotatedHistoryItemPreview(scaled, rotation, origin);
+}
+
 export function createUpdatePathHistoryItem(
   itemId: string,
   fromPath: BezierPath,
@@ -265,6 +514,103 @@ export function createUpdatePathHistoryItem(
   };
 }
 
+export function createReprojectHistoryItem(
+  fromFolds: FoldState,
+  fromCanvasDimensions: CanvasDimensions,
+  toFolds: FoldState,
+  toCanvasDimensions: CanvasDimensions
+): ReprojectHistoryItem {
+  return {
+    action: HistoryAction.Reproject,
+    points: [],
+    fromFolds: cloneFoldState(fromFolds),
+    toFolds: cloneFoldState(toFolds),
+    fromCanvasDimensions: { ...fromCanvasDimensions },
+    toCanvasDimensions: { ...toCanvasDimensions },
+  };
+}
+
+export interface HistoryLayout {
+  folds: FoldState;
+  canvasDimensions: CanvasDimensions;
+}
+
+/**
+ * The fold layout in effect after the first `length` commands. A later
+ * reprojection records the layout it was made from; without one the current
+ * layout has applied throughout.
+ */
+export function getHistoryLayoutAt(
+  history: UndoableHistoryItem[],
+  length: number,
+  current: HistoryLayout
+): HistoryLayout {
+  const reprojection = history
+    .slice(length)
+    .find((item): item is ReprojectHistoryItem => item.action === HistoryAction.Reproject);
+  return reprojection
+    ? { folds: reprojection.fromFolds, canvasDimensions: reprojection.fromCanvasDimensions }
+    : current;
+}
+
+/**
+ * The first `length` commands, reprojected onto the current layout when a
+ * later command changed it, so a past scene can be shown on the live canvases.
+ */
+export function getHistoryPrefix(
+  history: UndoableHistoryItem[],
+  length: number,
+  current: HistoryLayout
+): UndoableHistoryItem[] {
+  const prefix = history.slice(0, length);
+  const layout = getHistoryLayoutAt(history, length, current);
+  if (layout === current) return prefix;
+  return [
+    ...prefix,
+    createReprojectHistoryItem(layout.folds, layout.canvasDimensions, current.folds, current.canvasDimensions),
+  ];
+}
+
+/**
+ * Drawables are stored in folded-canvas pixels, so a new fold layout maps each
+ * one proportionally from the old folded canvas onto the new one.
+ */
+export function getReprojectionScale(item: ReprojectHistoryItem): Point {
+  const from = getFoldedCanvasDimensions(item.fromCanvasDimensions, item.fromFolds);
+  const to = getFoldedCanvasDimensions(item.toCanvasDimensions, item.toFolds);
+  return { x: to.width / from.width, y: to.height / from.height };
+}
+
+/** Moves, rotations, scales, and flips record the drawable before and after. */
+function createTransformHistoryItem(
+  action: TransformHistoryItem["action"],
+  item: DrawableHistoryItem,
+  transformedItem: DrawableHistoryItem
+): TransformHistoryItem | UpdatePathHistoryItem {
+  if (item.action === DrawingTool.Bezier && transformedItem.action === DrawingTool.Bezier && item.path && transformedItem.path) {
+    return createUpdatePathHistoryItem(item.id, item.path, transformedItem.path);
+  }
+
+  return {
+    action,
+    itemId: item.id,
+    points: [],
+    fromPoints: item.points,
+    toPoints: transformedItem.points,
+    fromRotation: item.rotation,
+    toRotation: transformedItem.rotation,
+    fromRotationCenter: item.rotationCenter,
+    toRotationCenter: transformedItem.rotationCenter,
+  };
+}
+
+function isTransformCommand(item: UndoableHistoryItem): item is TransformHistoryItem {
+  return item.action === HistoryAction.Move ||
+    item.action === HistoryAction.Rotate ||
+    item.action === HistoryAction.Scale ||
+    item.action === HistoryAction.Flip;
+}
+
 function applyTransformOperation(drawables: DrawableHistoryItem[], operation: TransformHistoryItem): void {
   const index = drawables.findIndex((item) => item.id === operation.itemId);
   if (index === -1) return;
@@ -288,6 +634,63 @@ function applyTransformOperation(drawables: DrawableHistoryItem[], operation: Tr
   };
 }
 
+function applyBatchableOperation(drawables: DrawableHistoryItem[], operation: BatchableHistoryItem): void {
+  if (isDrawableCommand(operation)) {
+    if (isDrawableHistoryItem(operation)) drawables.push(cloneDrawable(operation));
+  } else if (operation.action === HistoryAction.Delete) {
+    applyDeleteOperation(drawables, operation.itemId);
+  } else if (operation.action === HistoryAction.UpdatePath) {
+    applyUpdatePathOperation(drawables, operation);
+  } else if (operation.action === HistoryAction.Arrange) {
+    applyArrangeOperation(drawables, operation);
+  } else if (operation.action === HistoryAction.SetLayer) {
+    applyToDrawable(drawables, operation.itemId, (item) => ({
+      ...item,
+      layerId: operation.toLayerId === DEFAULT_LAYER_ID ? undefined : operation.toLayerId,
+    }));
+  } else if (operation.action === HistoryAction.Group) {
+    applyToDrawable(drawables, operation.itemId, (item) => ({ ...item, groupId: operation.toGroupId }));
+  } else {
+    applyTransformOperation(drawables, operation);
+  }
+}
+
+function applyToDrawable(
+  drawables: DrawableHistoryItem[],
+  itemId: string,
+  update: (item: DrawableHistoryItem) => DrawableHistoryItem
+): void {
+  const index = drawables.findIndex((item) => item.id === itemId);
+  if (index !== -1) drawables[index] = update(drawables[index]);
+}
+
+/** Index of the next drawable on the same layer in `direction`, or -1 at the end of the layer. */
+function findArrangeNeighbor(drawables: DrawableHistoryItem[], itemId: string, direction: ArrangeDirection): number {
+  const index = drawables.findIndex((item) => item.id === itemId);
+  if (index === -1) return -1;
+  const layerId = getLayerId(drawables[index]);
+  const step = direction === "forward" ? 1 : -1;
+  for (let neighbor = index + step; neighbor >= 0 && neighbor < drawables.length; neighbor += step) {
+    if (getLayerId(drawables[neighbor]) === layerId) return neighbor;
+  }
+  return -1;
+}
+
+function applyArrangeOperation(drawables: DrawableHistoryItem[], operation: ArrangeHistoryItem): void {
+  const neighbor = findArrangeNeighbor(drawables, operation.itemId, operation.direction);
+  if (neighbor === -1) return;
+  const index = drawables.findIndex((item) => item.id === operation.itemId);
+  const [item] = drawables.splice(index, 1);
+  drawables.splice(neighbor, 0, item);
+}
+
+/** Removing a layer removes its drawables; undoing the change brings them back. */
+function applyUpdateLayersOperation(drawables: DrawableHistoryItem[], operation: UpdateLayersHistoryItem): void {
+  const layerIds = new Set(operation.toLayers.map((layer) => layer.id));
+  const kept = drawables.filter((item) => layerIds.has(getLayerId(item)));
+  drawables.splice(0, drawables.length, ...kept);
+}
+
 function applyDeleteOperation(drawables: DrawableHistoryItem[], itemId: string): void {
   const index = drawables.findIndex((item) => item.id === itemId);
   if (index !== -1) {
@@ -302,19 +705,96 @@ function applyUpdatePathOperation(drawables: DrawableHistoryItem[], operation: U
   drawables[index] = { ...item, points: [], path: cloneBezierPath(operation.toPath) };
 }
 
+/**
+ * Stretch every drawable onto the new folded canvas the way the selection
+ * handles would, so rotated shapes keep their right angles and regular shapes
+ * stay regular. Strokes thicken by the mean of the two stretches, kept within
+ * the range the thickness control accepts.
+ */
+function applyReprojectOperation(drawables: DrawableHistoryItem[], operation: ReprojectHistoryItem): void {
+  const scale = getReprojectionScale(operation);
+  if (scale.x === 1 && scale.y === 1) return;
+
+  const thicknessScale = Math.sqrt(scale.x * scale.y);
+  for (let index = 0; index < drawables.length; index++) {
+    const item = drawables[index];
+    const scaled = DrawingModeFactory.getGeometry(item.action).scale(item, ORIGIN, scale);
+    drawables[index] = {
+      ...scaled,
+      id: item.id,
+      ...(item.style
+        ? {
+          style: {
+            ...item.style,
+            lineThickness: Math.min(100, Math.max(1, item.style.lineThickness * thicknessScale)),
+          },
+        }
+        : {}),
+    } as DrawableHistoryItem;
+  }
+}
+
 function usesRotationMetadata(action: DrawableHistoryItem["action"]): boolean {
   return action === DrawingTool.Rectangle ||
     action === DrawingTool.Square ||
-    action === DrawingTool.Circle;
+    action === DrawingTool.Ellipse ||
+    action === DrawingTool.ResistBlock;
+}
+
+/** The point a rotated shape turns about; shapes from older links may omit it. */
+function getRotationPivot(item: DrawableHistoryItem): Point {
+  if (item.rotationCenter) return item.rotationCenter;
+  if (
+    item.action === DrawingTool.Circle ||
+    item.action === DrawingTool.Ellipse ||
+    item.action === DrawingTool.ResistBlock
+  ) return item.points[0];
+  const end = item.action === DrawingTool.Square
+    ? getSquareEndPoint(item.points[0], item.points[1])
+    : item.points[1];
+  return getBoundsCenter(getRectBounds(item.points[0], end));
 }
 
 function isShapeAction(action: DrawableHistoryItem["action"]): boolean {
   return action === DrawingTool.Rectangle ||
     action === DrawingTool.Square ||
     action === DrawingTool.Circle ||
+    action === DrawingTool.Ellipse ||
+    action === DrawingTool.Polygon ||
+    action === DrawingTool.Star ||
     action === DrawingTool.Bezier;
 }
 
+/** The batch with each drawable it adds replaced; unchanged batches are returned as is. */
+function mapBatchDrawables(
+  batch: BatchHistoryItem,
+  mapDrawable: (item: DrawableCommand) => DrawableCommand
+): BatchHistoryItem {
+  let changed = false;
+  const commands = batch.commands.map((command) => {
+    if (!isDrawableCommand(command)) return command;
+    const mapped = mapDrawable(command);
+    if (mapped !== command) changed = true;
+    return mapped;
+  });
+  return changed ? { ...batch, commands } : batch;
+}
+
+function getUsedGroupIds(history: UndoableHistoryItem[]): Set<string> {
+  const used = new Set<string>();
+  for (const item of history.flatMap((entry) => entry.action === HistoryAction.Batch ? entry.commands : [entry])) {
+    if (isDrawableCommand(item) && item.groupId) used.add(item.groupId);
+    if (item.action === HistoryAction.Group && item.toGroupId) used.add(item.toGroupId);
+  }
+  return used;
+}
+
+function createGroupId(used: Set<string>): string {
+  let index = used.size + 1;
+  while (used.has(`group-${index}`)) index++;
+  return `group-${index}`;
+}
+
 function createHistoryItemId(usedIds: Set<string>, preferredIndex: number): string {
   let id = `history-item-${preferredIndex + 1}`;
   let suffix = 1;
@@ -342,6 +822,7 @@ function cloneDrawable(item: DrawableHistoryItem): DrawableHistoryItem {
     points: item.points.map(clonePoint),
     style: item.style ? { ...item.style } : undefined,
     rotationCenter: item.rotationCenter ? clonePoint(item.rotationCenter) : undefined,
+    penSamples: item.penSamples?.map((sample) => ({ ...sample })),
   };
 }
 
@@ -352,6 +833,18 @@ function normalizeBezierCommand(item: DrawableCommand, id: string): DrawableComm
   return { ...item, points: [], path } as BezierPathHistoryItem;
 }
 
+function cloneLayer(layer: Layer): Layer {
+  return { ...layer };
+}
+
+function cloneFoldState(folds: FoldState): FoldState {
+  return {
+    ...folds,
+    diagonal: { ...folds.diagonal },
+    ...(folds.accordion ? { accordion: { ...folds.accordion } } : {}),
+  };
+}
+
 function clonePoint(point: Point): Point {
   return { x: point.x, y: point.y };
 }
@@ -1,29 +1,38 @@
 import { getStroke } from "perfect-freehand";
 import { CanvasService } from "../services/CanvasService";
 import { AppConfig, DrawingTool, FoldState, ShapeFillMode } from "../types";
+import { TRANSPARENT_BACKGROUND } from "./drawingColor";
+import { CanvasDimensions, Layer, PenSample, Point } from "../types/DrawingMode";
 import { DrawableHistoryItem } from "./historyOperations";
-import { getBoundsCenter, getRectBounds, getSquareEndPoint } from "./geometryMath";
+import { getBoundsCenter, getCircleCenter, getRectBounds, getSquareEndPoint, rotatePoint } from "./geometryMath";
 import { legacyPointsToPath, traceBezierPath } from "./bezierPath";
+import { getLayerId, getVisibleScene } from "./layers";
+import { getPolygonShapeVertices } from "./polygonShapes";
+import { getPenStrokePressure } from "./penInput";
+import { getResistBlockItemOutline, traceResistBlockOutline, withResistBlocksOnTop } from "./resistBlocks";
 
 export interface HistoryRenderOptions {
   config: AppConfig;
   folds: FoldState;
   lineThickness: number;
   shapeFillMode: ShapeFillMode;
+  /** When given, drawables render layer by layer and hidden layers are skipped. */
+  layers?: Layer[];
+  /** The cloth shown through eraser strokes and resist blocks; without it they leave the canvas transparent. */
+  backgroundColor?: string;
 }
 
 export function clearFoldedCanvas(
   ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement
+  canvas: HTMLCanvasElement,
+  backgroundColor?: string
 ): void {
-  ctx.clearRect(0, 0, canvas.width, canvas.height);
-  ctx.fillStyle = "navy";
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  CanvasService.fillBackground(ctx, canvas, backgroundColor);
 }
 
 export function renderDrawableHistoryItem(
   ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement,
+  canvas: CanvasDimensions,
   item: DrawableHistoryItem,
   options: HistoryRenderOptions
 ): void {
@@ -34,6 +43,10 @@ export function renderDrawableHistoryItem(
     case DrawingTool.Paintbrush:
       renderPaintbrush(ctx, item, options);
       break;
+    case DrawingTool.Eraser:
+      ctx.globalCompositeOperation = "destination-out";
+      renderPaintbrush(ctx, item, options);
+      break;
     case DrawingTool.Line:
       renderLine(ctx, item, options);
       break;
@@ -46,9 +59,20 @@ export function renderDrawableHistoryItem(
     case DrawingTool.Circle:
       renderCircle(ctx, item, options);
       break;
+    case DrawingTool.Ellipse:
+      renderEllipse(ctx, item, options);
+      break;
+    case DrawingTool.Polygon:
+    case DrawingTool.Star:
+      renderPolygonShape(ctx, item, options);
+      break;
     case DrawingTool.Bezier:
       renderBezier(ctx, item, options);
       break;
+    case DrawingTool.ResistBlock:
+      ctx.globalCompositeOperation = "destination-out";
+      renderResistBlock(ctx, item);
+      break;
   }
 
   ctx.restore();
@@ -56,13 +80,67 @@ export function renderDrawableHistoryItem(
 
 export function renderDrawableHistoryItems(
   ctx: CanvasRenderingContext2D,
-  canvas: HTMLCanvasElement,
+  canvas: CanvasDimensions,
   items: DrawableHistoryItem[],
   options: HistoryRenderOptions
 ): void {
-  for (const item of items) {
-    renderDrawableHistoryItem(ctx, canvas, item, options);
+  if (!options.layers) {
+    for (const item of withResistBlocksOnTop(items)) {
+      renderDrawableHistoryItem(ctx, canvas, item, options);
+    }
+  } else {
+    // Each mark is drawn at its layer's opacity, matching the SVG export
+    const opacities = new Map(options.layers.map((layer) => [layer.id, layer.opacity]));
+    for (const item of withResistBlocksOnTop(getVisibleScene(items, options.layers))) {
+      const opacity = opacities.get(getLayerId(item)) ?? 1;
+      if (opacity <= 0) continue;
+      ctx.save();
+      ctx.globalAlpha *= opacity;
+      renderDrawableHistoryItem(ctx, canvas, item, options);
+      ctx.restore();
+    }
   }
+
+  if (items.some((item) => item.action === DrawingTool.Eraser || item.action === DrawingTool.ResistBlock)) {
+    fillErasedBackground(ctx, canvas, options.backgroundColor);
+  }
+}
+
+/**
+ * Eraser strokes and resist blocks knock out everything beneath them,
+ * background included, so the cloth is laid back under the cut-out pixels
+ * once the scene is drawn.
+ */
+function fillErasedBackground(
+  ctx: CanvasRenderingContext2D,
+  canvas: CanvasDimensions,
+  backgroundColor: string | undefined
+): void {
+  if (!backgroundColor || backgroundColor === TRANSPARENT_BACKGROUND) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.restore();
+}
+
+/**
+ * The filled perfect-freehand outline for a paintbrush stroke. Pen samples,
+ * one per point, supply real pressure; without them it is simulated from speed.
+ */
+export function getPaintbrushOutline(points: Point[], lineThickness: number, penSamples?: PenSample[]): number[][] {
+  const hasPen = penSamples !== undefined && penSamples.length === points.length;
+  return getStroke(
+    hasPen ? points.map((point, index) => [point.x, point.y, getPenStrokePressure(penSamples[index])]) : points,
+    {
+      size: lineThickness * 2,
+      thinning: 0.5,
+      smoothing: 0.5,
+      streamline: 0.5,
+      simulatePressure: !hasPen,
+    }
+  );
 }
 
 function renderPaintbrush(
@@ -72,12 +150,7 @@ function renderPaintbrush(
 ): void {
   if (item.points.length === 0) return;
 
-  const stroke = getStroke(item.points, {
-    size: getLineThickness(item, options) * 2,
-    thinning: 0.5,
-    smoothing: 0.5,
-    streamline: 0.5,
-  });
+  const stroke = getPaintbrushOutline(item.points, getLineThickness(item, options), item.penSamples);
 
   if (!stroke.length) return;
 
@@ -195,7 +268,8 @@ function renderCircle(
   ctx.lineJoin = "round";
   ctx.fillStyle = getColor(item, options);
   ctx.beginPath();
-  ctx.arc(item.points[0].x, item.points[0].y, radius, 0, Math.PI * 2);
+  const center = getCircleCenter(item);
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
 
   if (fillMode === ShapeFillMode.Filled) {
     ctx.fill();
@@ -205,6 +279,73 @@ function renderCircle(
   ctx.stroke();
 }
 
+function renderEllipse(
+  ctx: CanvasRenderingContext2D,
+  item: DrawableHistoryItem,
+  options: HistoryRenderOptions
+): void {
+  if (item.points.length < 2) return;
+
+  const [center, corner] = item.points;
+  const radiusX = Math.abs(corner.x - center.x);
+  const radiusY = Math.abs(corner.y - center.y);
+  if (radiusX <= 0 || radiusY <= 0) return;
+
+  const rotation = item.rotation ?? 0;
+  const drawnCenter = rotation ? rotatePoint(center, item.rotationCenter ?? center, rotation) : center;
+  ctx.strokeStyle = getColor(item, options);
+  ctx.lineWidth = getLineThickness(item, options);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.fillStyle = getColor(item, options);
+  ctx.beginPath();
+  ctx.ellipse(drawnCenter.x, drawnCenter.y, radiusX, radiusY, rotation, 0, Math.PI * 2);
+
+  if (getShapeFillMode(item, options) === ShapeFillMode.Filled) {
+    ctx.fill();
+    return;
+  }
+
+  ctx.stroke();
+}
+
+function renderPolygonShape(
+  ctx: CanvasRenderingContext2D,
+  item: DrawableHistoryItem,
+  options: HistoryRenderOptions
+): void {
+  const vertices = getPolygonShapeVertices(item);
+  if (vertices.length < 3) return;
+
+  ctx.strokeStyle = getColor(item, options);
+  ctx.lineWidth = getLineThickness(item, options);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.fillStyle = getColor(item, options);
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  for (let i = 1; i < vertices.length; i++) {
+    ctx.lineTo(vertices[i].x, vertices[i].y);
+  }
+  ctx.closePath();
+
+  if (getShapeFillMode(item, options) === ShapeFillMode.Filled) {
+    ctx.fill();
+    return;
+  }
+
+  ctx.stroke();
+}
+
+function renderResistBlock(ctx: CanvasRenderingContext2D, item: DrawableHistoryItem): void {
+  const outline = getResistBlockItemOutline(item);
+  if (!outline) return;
+
+  traceResistBlockOutline(ctx, outline);
+  ctx.fillStyle = "#000";
+  ctx.fill();
+}
+
 function renderBezier(
   ctx: CanvasRenderingContext2D,
   item: DrawableHistoryItem,
@@ -0,0 +1,59 @@
+import { HistoryAction } from "../types";
+import { Layer, UndoableHistoryItem } from "../types/DrawingMode";
+import type { DrawableHistoryItem } from "./historyOperations";
+
+/** The layer of drawables that carry no `layerId`, such as everything drawn before layers. */
+export const DEFAULT_LAYER_ID = "layer-1";
+export const DEFAULT_LAYERS: Layer[] = [
+  { id: DEFAULT_LAYER_ID, name: "Layer 1", visible: true, locked: false, opacity: 1 },
+];
+export const MAX_LAYERS = 32;
+export const MAX_LAYER_NAME_LENGTH = 80;
+
+export function getLayerId(item: { layerId?: string }): string {
+  return item.layerId ?? DEFAULT_LAYER_ID;
+}
+
+/** The layers in effect after `history`, bottom first. */
+export function resolveLayers(history: UndoableHistoryItem[]): Layer[] {
+  for (let index = history.length - 1; index >= 0; index--) {
+    const item = history[index];
+    if (item.action === HistoryAction.UpdateLayers) return item.toLayers;
+  }
+  return DEFAULT_LAYERS;
+}
+
+/**
+ * Drawables in the order they render: layer by layer from the bottom, keeping
+ * scene order within a layer. Hidden layers are left out.
+ */
+export function getVisibleScene(drawables: DrawableHistoryItem[], layers: Layer[]): DrawableHistoryItem[] {
+  return layers
+    .filter((layer) => layer.visible)
+    .flatMap((layer) => drawables.filter((item) => getLayerId(item) === layer.id));
+}
+
+/** Drawables that can be selected: visible, on an unlocked layer, topmost last. */
+export function getEditableScene(drawables: DrawableHistoryItem[], layers: Layer[]): DrawableHistoryItem[] {
+  return getVisibleScene(drawables, layers.filter((layer) => !layer.locked));
+}
+
+export function canDrawOnLayer(layers: Layer[], layerId: string): boolean {
+  const layer = layers.find((candidate) => candidate.id === layerId);
+  return layer !== undefined && layer.visible && !layer.locked;
+}
+
+export function createLayerId(layers: Layer[]): string {
+  const used = new Set(layers.map((layer) => layer.id));
+  let index = layers.length + 1;
+  while (used.has(`layer-${index}`)) index++;
+  return `layer-${index}`;
+}
+
+/** The next unused "Layer N" name. */
+export function createLayerName(layers: Layer[]): string {
+  const used = new Set(layers.map((layer) => layer.name));
+  let index = layers.length + 1;
+  while (used.has(`Layer ${index}`)) index++;
+  return `Layer ${index}`;
+}
@@ -0,0 +1,69 @@
+import { PenSample } from "../types/DrawingMode";
+
+export const MAX_PEN_TILT = 90;
+/** How much of the remaining pressure a fully tilted pen adds, broadening the mark. */
+const TILT_SPREAD = 0.5;
+
+const PACKED_DIGITS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const PACKED_LEVELS = PACKED_DIGITS.length - 1;
+const PACKED_SAMPLE_LENGTH = 3;
+
+export function isValidPenSample(value: unknown): value is PenSample {
+  if (typeof value !== "object" || value === null) return false;
+  const sample = value as Record<string, unknown>;
+  return isFiniteInRange(sample.pressure, 0, 1) &&
+    isFiniteInRange(sample.tiltX, -MAX_PEN_TILT, MAX_PEN_TILT) &&
+    isFiniteInRange(sample.tiltY, -MAX_PEN_TILT, MAX_PEN_TILT);
+}
+
+/**
+ * The pressure perfect-freehand should see for a sample. A pen laid towards
+ * the paper broadens the stroke, the way a brush does on its side.
+ */
+export function getPenStrokePressure(sample: PenSample): number {
+  const tilt = Math.min(1, Math.hypot(sample.tiltX, sample.tiltY) / MAX_PEN_TILT);
+  return sample.pressure + (1 - sample.pressure) * tilt * TILT_SPREAD;
+}
+
+/**
+ * Three URL-safe characters per sample: pressure, then tilt on each axis, each
+ * quantized to 64 levels. Share links use this instead of JSON objects.
+ */
+export function packPenSamples(samples: PenSample[]): string {
+  return samples.map((sample) =>
+    packLevel(sample.pressure, 0, 1) +
+    packLevel(sample.tiltX, -MAX_PEN_TILT, MAX_PEN_TILT) +
+    packLevel(sample.tiltY, -MAX_PEN_TILT, MAX_PEN_TILT)
+  ).join("");
+}
+
+/** The samples in a packed string, or null if it is not one. */
+export function unpackPenSamples(packed: string): PenSample[] | null {
+  if (packed.length % PACKED_SAMPLE_LENGTH !== 0) return null;
+
+  const samples: PenSample[] = [];
+  for (let index = 0; index < packed.length; index += PACKED_SAMPLE_LENGTH) {
+    const levels = [...packed.slice(index, index + PACKED_SAMPLE_LENGTH)].map((digit) => PACKED_DIGITS.indexOf(digit));
+    if (levels.some((level) => level === -1)) return null;
+    const [pressure, tiltX, tiltY] = levels;
+    samples.push({
+      pressure: unpackLevel(pressure, 0, 1),
+      tiltX: unpackLevel(tiltX, -MAX_PEN_TILT, MAX_PEN_TILT),
+      tiltY: unpackLevel(tiltY, -MAX_PEN_TILT, MAX_PEN_TILT),
+    });
+  }
+  return samples;
+}
+
+function packLevel(value: number, min: number, max: number): string {
+  const level = Math.round(((value - min) / (max - min)) * PACKED_LEVELS);
+  return PACKED_DIGITS[Math.min(PACKED_LEVELS, Math.max(0, level))];
+}
+
+function unpackLevel(level: number, min: number, max: number): number {
+  return min + (level / PACKED_LEVELS) * (max - min);
+}
+
+function isFiniteInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
@@ -0,0 +1,123 @@
+import { Zlib } from 'fflate';
+
+export interface PngEncoderOptions {
+  /** Written as a pHYs chunk so print software picks up the physical size. */
+  dpi?: number;
+}
+
+/**
+ * Incremental RGBA PNG writer. Rows are filtered and deflated as they arrive,
+ * so images larger than any single canvas can be assembled band by band.
+ */
+export interface PngEncoder {
+  writeRows(rgba: Uint8Array | Uint8ClampedArray): void;
+  finish(): Uint8Array<ArrayBuffer>[];
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+const METRES_PER_INCH = 0.0254;
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+export function createPngEncoder(
+  width: number,
+  height: number,
+  options: PngEncoderOptions = {}
+): PngEncoder {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid PNG dimensions ${width}x${height}`);
+  }
+
+  const rowLength = width * 4;
+  const chunks: Uint8Array<ArrayBuffer>[] = [PNG_SIGNATURE, createChunk('IHDR', createHeader(width, height))];
+  if (options.dpi) chunks.push(createChunk('pHYs', createPhysicalSize(options.dpi)));
+
+  const zlib = new Zlib({ level: 6 }, (data) => {
+    if (data.length > 0) chunks.push(createChunk('IDAT', data));
+  });
+  let rowsWritten = 0;
+  let finished = false;
+
+  return {
+    writeRows(rgba) {
+      if (finished) throw new Error('PNG encoder is already finished');
+      if (rgba.length % rowLength !== 0) throw new Error('PNG rows must be whole RGBA scanlines');
+      const rows = rgba.length / rowLength;
+      if (rowsWritten + rows > height) throw new Error('PNG rows exceed the image height');
+
+      const filtered = new Uint8Array(rows * (rowLength + 1));
+      for (let row = 0; row < rows; row++) {
+        filterRow(rgba, row * rowLength, rowLength, filtered, row * (rowLength + 1));
+      }
+      zlib.push(filtered);
+      rowsWritten += rows;
+    },
+    finish() {
+      if (rowsWritten !== height) throw new Error(`PNG expected ${height} rows, received ${rowsWritten}`);
+      if (!finished) {
+        zlib.push(new Uint8Array(0), true);
+        chunks.push(createChunk('IEND', new Uint8Array(0)));
+        finished = true;
+      }
+      return chunks;
+    },
+  };
+}
+
+/** Sub filter: each byte minus the same channel of the previous pixel. */
+function filterRow(
+  source: Uint8Array | Uint8ClampedArray,
+  sourceOffset: number,
+  rowLength: number,
+  target: Uint8Array,
+  targetOffset: number
+): void {
+  target[targetOffset] = 1;
+  for (let index = 0; index < rowLength; index++) {
+    const left = index < 4 ? 0 : source[sourceOffset + index - 4];
+    target[targetOffset + 1 + index] = (source[sourceOffset + index] - left) & 0xff;
+  }
+}
+
+function createHeader(width: number, height: number): Uint8Array {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return header;
+}
+
+function createPhysicalSize(dpi: number): Uint8Array {
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  const pixelsPerMetre = Math.round(dpi / METRES_PER_INCH);
+  view.setUint32(0, pixelsPerMetre);
+  view.setUint32(4, pixelsPerMetre);
+  data[8] = 1; // metres
+  return data;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let index = 0; index < 4; index++) chunk[4 + index] = type.charCodeAt(index);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
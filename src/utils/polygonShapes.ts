@@ -0,0 +1,62 @@
+import { DrawingTool } from "../types";
+import { DrawableHistoryItem, Point } from "../types/DrawingMode";
+import { rotatePoints } from "./geometryMath";
+
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 12;
+export const DEFAULT_POLYGON_SIDES = 6;
+export const DEFAULT_STAR_POINTS = 5;
+export const MIN_STAR_INNER_RADIUS_RATIO = 0.1;
+export const MAX_STAR_INNER_RADIUS_RATIO = 0.9;
+export const DEFAULT_STAR_INNER_RADIUS_RATIO = 0.5;
+
+export function isPolygonAction(action: DrawableHistoryItem["action"]): boolean {
+  return action === DrawingTool.Polygon || action === DrawingTool.Star;
+}
+
+/**
+ * The corners of a regular polygon centered on `center` with one corner at
+ * `vertex`. A star alternates between the outer radius and the inner one.
+ */
+export function getRegularPolygonVertices(
+  center: Point,
+  vertex: Point,
+  sides: number,
+  innerRadiusRatio?: number
+): Point[] {
+  const radius = Math.hypot(vertex.x - center.x, vertex.y - center.y);
+  const startAngle = Math.atan2(vertex.y - center.y, vertex.x - center.x);
+  const count = innerRadiusRatio === undefined ? sides : sides * 2;
+
+  return Array.from({ length: count }, (_, index) => {
+    const angle = startAngle + (index * Math.PI * 2) / count;
+    const pointRadius = innerRadiusRatio !== undefined && index % 2 === 1
+      ? radius * innerRadiusRatio
+      : radius;
+    return {
+      x: center.x + Math.cos(angle) * pointRadius,
+      y: center.y + Math.sin(angle) * pointRadius,
+    };
+  });
+}
+
+/**
+ * The outline of a polygon or star drawable as drawn, or an empty list for
+ * other drawables. Drawables saved without a side count use the defaults.
+ */
+export function getPolygonShapeVertices(item: DrawableHistoryItem): Point[] {
+  if (!isPolygonAction(item.action) || item.points.length < 2) return [];
+  const [center, vertex] = item.points;
+  const vertices = item.action === DrawingTool.Star
+    ? getRegularPolygonVertices(
+      center,
+      vertex,
+      item.sides ?? DEFAULT_STAR_POINTS,
+      item.innerRadiusRatio ?? DEFAULT_STAR_INNER_RADIUS_RATIO
+    )
+    : getRegularPolygonVertices(center, vertex, item.sides ?? DEFAULT_POLYGON_SIDES);
+
+  return item.rotation
+    ? rotatePoints(vertices, item.rotationCenter ?? center, item.rotation)
+    : vertices;
+}
@@ -0,0 +1,100 @@
+import { DrawingTool, ResistBlockShape } from "../types";
+import { DrawableHistoryItem, Point } from "../types/DrawingMode";
+import { rotatePoint, rotatePoints } from "./geometryMath";
+import { getRegularPolygonVertices } from "./polygonShapes";
+
+export const DEFAULT_RESIST_BLOCK_SHAPE = ResistBlockShape.Rectangle;
+
+export const RESIST_BLOCK_SHAPE_OPTIONS: readonly { value: ResistBlockShape; label: string }[] = [
+  { value: ResistBlockShape.Rectangle, label: "Rectangle" },
+  { value: ResistBlockShape.Circle, label: "Circle" },
+  { value: ResistBlockShape.Triangle, label: "Triangle" },
+  { value: ResistBlockShape.Hexagon, label: "Hexagon" },
+];
+
+/** A resist block as drawn: a circle, or the corners of any other shape. */
+export type ResistBlockOutline =
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "polygon"; vertices: Point[] };
+
+export function isResistBlockShape(value: unknown): value is ResistBlockShape {
+  return Object.values(ResistBlockShape).includes(value as ResistBlockShape);
+}
+
+/**
+ * The outline of a block dragged from `center` out to `corner`. A rectangle
+ * mirrors the corner about the center; a triangle or hexagon puts one corner
+ * there. The shape is then turned by `rotation` about `pivot`.
+ */
+export function getResistBlockOutline(
+  shape: ResistBlockShape,
+  center: Point,
+  corner: Point,
+  rotation = 0,
+  pivot: Point = center
+): ResistBlockOutline | null {
+  const offsetX = corner.x - center.x;
+  const offsetY = corner.y - center.y;
+
+  if (shape === ResistBlockShape.Circle) {
+    const radius = Math.hypot(offsetX, offsetY);
+    if (radius <= 0) return null;
+    return { kind: "circle", center: rotation ? rotatePoint(center, pivot, rotation) : center, radius };
+  }
+
+  let vertices: Point[];
+  if (shape === ResistBlockShape.Rectangle) {
+    if (offsetX === 0 || offsetY === 0) return null;
+    vertices = [
+      { x: center.x - offsetX, y: center.y - offsetY },
+      { x: center.x + offsetX, y: center.y - offsetY },
+      { x: center.x + offsetX, y: center.y + offsetY },
+      { x: center.x - offsetX, y: center.y + offsetY },
+    ];
+  } else {
+    if (offsetX === 0 && offsetY === 0) return null;
+    vertices = getRegularPolygonVertices(center, corner, shape === ResistBlockShape.Triangle ? 3 : 6);
+  }
+
+  return { kind: "polygon", vertices: rotation ? rotatePoints(vertices, pivot, rotation) : vertices };
+}
+
+/** The outline of a resist block drawable, or null for other drawables. */
+export function getResistBlockItemOutline(item: DrawableHistoryItem): ResistBlockOutline | null {
+  if (item.action !== DrawingTool.ResistBlock || item.points.length < 2) return null;
+  const [center, corner] = item.points;
+  return getResistBlockOutline(
+    item.blockShape ?? DEFAULT_RESIST_BLOCK_SHAPE,
+    center,
+    corner,
+    item.rotation,
+    item.rotationCenter ?? center
+  );
+}
+
+/** Traces a block outline as the current path. */
+export function traceResistBlockOutline(ctx: CanvasRenderingContext2D, outline: ResistBlockOutline): void {
+  ctx.beginPath();
+  if (outline.kind === "circle") {
+    ctx.arc(outline.center.x, outline.center.y, outline.radius, 0, Math.PI * 2);
+    return;
+  }
+  ctx.moveTo(outline.vertices[0].x, outline.vertices[0].y);
+  for (let i = 1; i < outline.vertices.length; i++) {
+    ctx.lineTo(outline.vertices[i].x, outline.vertices[i].y);
+  }
+  ctx.closePath();
+}
+
+/**
+ * The scene with resist blocks moved after every other mark, each group in its
+ * own order. A clamped block keeps dye off the cloth however the marks around
+ * it were made, so it is always drawn on top.
+ */
+export function withResistBlocksOnTop<T extends { action: DrawableHistoryItem["action"] }>(items: T[]): T[] {
+  if (!items.some((item) => item.action === DrawingTool.ResistBlock)) return items;
+  return [
+    ...items.filter((item) => item.action !== DrawingTool.ResistBlock),
+    ...items.filter((item) => item.action === DrawingTool.ResistBlock),
+  ];
+}
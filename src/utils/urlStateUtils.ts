@@ -3,24 +3,42 @@ import {
     DiagonalDirection,
     DrawingTool,
     FoldState,
+    FoldSystem,
     HistoryAction,
     ShapeFillMode,
 } from '../types';
 import {
+    BatchableHistoryItem,
     BezierPath,
     DrawingStyle,
+    Layer,
     Point,
     UndoableHistoryItem,
 } from '../types/DrawingMode';
 import {
+    DrawableHistoryItem,
     isDrawableAction,
     isDrawableCommand,
+    createUpdateLayersHistoryItem,
     materializeDrawableStyles,
     resolveScene,
 } from './historyOperations';
+import { DEFAULT_LAYERS, MAX_LAYER_NAME_LENGTH, MAX_LAYERS, resolveLayers } from './layers';
+import {
+    MAX_POLYGON_SIDES,
+    MAX_STAR_INNER_RADIUS_RATIO,
+    MIN_POLYGON_SIDES,
+    MIN_STAR_INNER_RADIUS_RATIO,
+    isPolygonAction,
+} from './polygonShapes';
+import { isDrawingColor, normalizeBackgroundColor, normalizeHexColor } from './drawingColor';
+import { isValidPenSample, packPenSamples, unpackPenSamples } from './penInput';
+import { isResistBlockShape } from './resistBlocks';
 import { deflateSync, Inflate, strFromU8, strToU8 } from 'fflate';
 
-export const SHARE_SCHEMA_VERSION = 2 as const;
+/** v3 adds layers and groups; v2 documents, which have neither, still load. */
+export const SHARE_SCHEMA_VERSION = 3 as const;
+const PREVIOUS_SHARE_SCHEMA_VERSION = 2;
 export const SHARE_ENCODING_PREFIX = 'z3.';
 export const MAX_SHARE_PARAMETER_LENGTH = 6 * 1024;
 export const MAX_LEGACY_SHARE_PARAMETER_LENGTH = 100_000;
@@ -31,11 +49,35 @@ export const MAX_SHARE_TOTAL_POINTS = 50_000;
 export const MAX_SHARE_CANVAS_DIMENSION = 3_200;
 export const MIN_SHARE_CANVAS_DIMENSION = 100;
 
+/** How much drawing a document may carry, counted across its whole history. */
+export interface DocumentSizeLimits {
+    historyItems: number;
+    totalPoints: number;
+}
+
+/** Share links travel in a URL, so their documents are kept small. */
+export const SHARE_DOCUMENT_LIMITS: DocumentSizeLimits = {
+    historyItems: MAX_SHARE_HISTORY_ITEMS,
+    totalPoints: MAX_SHARE_TOTAL_POINTS,
+};
+
+/**
+ * Library documents hold the full command log and never leave the browser,
+ * so only their schema is checked; storage quota is their real bound.
+ */
+export const STORED_DOCUMENT_LIMITS: DocumentSizeLimits = {
+    historyItems: Infinity,
+    totalPoints: Infinity,
+};
+
 const MAX_COLOR_LENGTH = 64;
 const MAX_ID_LENGTH = 128;
 const MAX_LINE_THICKNESS = 100;
 const MAX_CIRCLE_RADIUS = 200;
 const MAX_FOLDS = 3;
+const MAX_DIAGONAL_FOLDS = 2;
+const MIN_ACCORDION_PANELS = 2;
+const MAX_ACCORDION_PANELS = 12;
 const LEGACY_DRAWING_COLOR = 'white';
 
 /** The normalized, current share document returned to the application. */
@@ -50,10 +92,14 @@ export interface SerializableState {
     circleRadius: number;
     lineThickness: number;
     shapeFillMode: ShapeFillMode;
+    /** Optional since v2 so earlier links, which never carried it, stay valid. */
+    drawingColor?: string;
+    /** Cloth color (hex or `transparent`); links without it render the original navy. */
+    backgroundColor?: string;
     currentTool: DrawingTool;
 }
 
-/** Allows existing callers to omit the version; encoding always writes v2. */
+/** Allows existing callers to omit the version; encoding always writes the current version. */
 export type SerializableStateInput = Omit<SerializableState, 'version'> & {
     version?: typeof SHARE_SCHEMA_VERSION;
 };
@@ -102,17 +148,22 @@ export function extractSerializableState(state: State): SerializableState {
         circleRadius: state.circleRadius,
         lineThickness: state.lineThickness,
         shapeFillMode: state.shapeFillMode,
+        drawingColor: state.drawingColor,
+        backgroundColor: state.backgroundColor,
         currentTool: state.currentTool,
     });
 }
 
-/** Encode a normalized v2 document using the compressed z3 wire format. */
+/** Encode a normalized document using the compressed z3 wire format. */
 export function encodeStateToUrl(state: SerializableStateInput): ShareEncodingResult {
     try {
         const normalized = normalizeSerializableState(state);
-        if (!isValidSerializableStateV2(normalized)) return { kind: 'invalid-state' };
+        if (!isValidSerializableState(normalized)) return { kind: 'invalid-state' };
 
-        const compressed = deflateSync(strToU8(JSON.stringify(normalized)), { level: 9 });
+        const compressed = deflateSync(strToU8(JSON.stringify({
+            ...normalized,
+            history: normalized.history.map(packItemPenSamples),
+        })), { level: 9 });
         const encodedState = `${SHARE_ENCODING_PREFIX}${encodeBase64Url(compressed)}`;
 
         if (encodedState.length > MAX_SHARE_PARAMETER_LENGTH) {
@@ -134,7 +185,7 @@ export function encodeStateToUrl(state: SerializableStateInput): ShareEncodingRe
     }
 }
 
-/** Decode compressed z3/v2 documents and migrate original unversioned links to v2. */
+/** Decode compressed z3 documents and migrate original unversioned links to the current schema. */
 export function decodeStateFromUrl(encodedState: string): SerializableState | null {
     try {
         if (encodedState.startsWith(SHARE_ENCODING_PREFIX)) {
@@ -144,7 +195,7 @@ export function decodeStateFromUrl(encodedState: string): SerializableState | nu
         if (!isPlausibleBase64Url(encodedState)) return null;
 
         const parsed: unknown = JSON.parse(decodeBase64UrlToString(encodedState));
-        if (isRecord(parsed) && parsed.version === SHARE_SCHEMA_VERSION) {
+        if (isRecord(parsed) && isSupportedVersion(parsed.version)) {
             return normalizeSerializableStateFromUnknown(parsed);
         }
 
@@ -157,15 +208,28 @@ export function decodeStateFromUrl(encodedState: string): SerializableState | nu
 }
 
 /**
- * Validate and defensively clone an untrusted current-version share document.
- * URL decoding and Redux loading both use this boundary so their accepted
- * schema cannot drift apart.
+ * Validate and defensively clone an untrusted v2 or current-version share
+ * document, upgrading it to the current version. URL decoding and Redux
+ * loading both use this boundary so their accepted schema cannot drift apart;
+ * only the size `limits` differ between share links and stored documents.
  */
 export function normalizeSerializableStateFromUnknown(
-    value: unknown
+    value: unknown,
+    limits: DocumentSizeLimits = SHARE_DOCUMENT_LIMITS
 ): SerializableState | null {
-    return isValidSerializableStateV2(value)
-        ? canonicalizeV2State(value)
+    return isValidSerializableState(value, limits)
+        ? canonicalizeState(value)
+        : null;
+}
+
+/**
+ * Validate and clone one untrusted drawable, such as a pasted mark, against
+ * the same v2 rules as a drawable in a share document.
+ */
+export function normalizeDrawableFromUnknown(value: unknown): DrawableHistoryItem | null {
+    if (!isRecord(value) || !isDrawableAction(value.action as UndoableHistoryItem['action'])) return null;
+    return isValidHistoryItem(value, true)
+        ? canonicalizeHistoryItem(value) as DrawableHistoryItem
         : null;
 }
 
@@ -206,12 +270,17 @@ export function encodeShareableState(state: SerializableStateInput): ShareEncodi
 
 function createShareSnapshot(state: SerializableStateInput): SerializableState {
     const normalized = normalizeSerializableState(state);
+    const layers = resolveLayers(normalized.history);
     return {
         ...normalized,
         // Shared links are editable snapshots of the visible scene. Resolving
         // here removes superseded transforms, deletions, and clear boundaries
         // without altering the pattern that will be replayed after loading.
-        history: resolveScene(normalized.history),
+        // The layers in effect lead the snapshot so its drawables land on them.
+        history: [
+            ...(layers === DEFAULT_LAYERS ? [] : [createUpdateLayersHistoryItem(DEFAULT_LAYERS, layers)]),
+            ...resolveScene(normalized.history),
+        ],
     };
 }
 
@@ -242,7 +311,7 @@ function migrateLegacySerializableState(value: unknown): SerializableState | nul
         }),
     });
 
-    return isValidSerializableStateV2(migrated) ? migrated : null;
+    return isValidSerializableState(migrated) ? migrated : null;
 }
 
 function decodeCompressedState(encodedState: string): SerializableState | null {
@@ -253,9 +322,31 @@ function decodeCompressedState(encodedState: string): SerializableState | null {
     if (json === null) return null;
 
     const parsed: unknown = JSON.parse(json);
-    return isRecord(parsed) && parsed.version === SHARE_SCHEMA_VERSION
-        ? normalizeSerializableStateFromUnknown(parsed)
-        : null;
+    if (!isRecord(parsed) || !isSupportedVersion(parsed.version)) return null;
+    return normalizeSerializableStateFromUnknown(Array.isArray(parsed.history)
+        ? { ...parsed, history: parsed.history.map(unpackItemPenSamples) }
+        : parsed);
+}
+
+/** In compressed links, a stroke's pen samples travel packed into a `pen` string. */
+function packItemPenSamples(item: UndoableHistoryItem): unknown {
+    if (item.action === HistoryAction.Batch) {
+        return { ...item, commands: item.commands.map(packItemPenSamples) };
+    }
+    if (!isDrawableCommand(item) || !item.penSamples) return item;
+    const { penSamples, ...rest } = item;
+    return { ...rest, pen: packPenSamples(penSamples) };
+}
+
+function unpackItemPenSamples(value: unknown): unknown {
+    if (!isRecord(value)) return value;
+    if (Array.isArray(value.commands)) {
+        return { ...value, commands: value.commands.map(unpackItemPenSamples) };
+    }
+    if (value.pen === undefined) return value;
+    const { pen, ...rest } = value;
+    // Anything unreadable is left for validation to reject
+    return { ...rest, penSamples: typeof pen === 'string' ? unpackPenSamples(pen) : null };
 }
 
 function isPlausibleCompressedShare(param: unknown): param is string {
@@ -335,11 +426,13 @@ function normalizeSerializableState(state: SerializableStateInput): Serializable
         circleRadius: state.circleRadius,
         lineThickness: state.lineThickness,
         shapeFillMode: state.shapeFillMode,
+        ...(state.drawingColor === undefined ? {} : { drawingColor: state.drawingColor }),
+        ...(state.backgroundColor === undefined ? {} : { backgroundColor: state.backgroundColor }),
         currentTool: state.currentTool,
     };
 }
 
-function canonicalizeV2State(state: SerializableState): SerializableState {
+function canonicalizeState(state: SerializableState): SerializableState {
     return {
         version: SHARE_SCHEMA_VERSION,
         history: materializeDrawableStyles(state.history, {
@@ -352,6 +445,8 @@ function canonicalizeV2State(state: SerializableState): SerializableState {
         circleRadius: state.circleRadius,
         lineThickness: state.lineThickness,
         shapeFillMode: state.shapeFillMode,
+        ...(state.drawingColor === undefined ? {} : { drawingColor: state.drawingColor }),
+        ...(state.backgroundColor === undefined ? {} : { backgroundColor: state.backgroundColor }),
         currentTool: state.currentTool,
     };
 }
@@ -365,6 +460,7 @@ function canonicalizeHistoryItem(item: UndoableHistoryItem): UndoableHistoryItem
                 points: [],
                 path: cloneBezierPathValue(item.path),
                 style: item.style ? cloneStyle(item.style) : undefined,
+                ...canonicalizeMembership(item),
             };
         }
         return {
@@ -376,6 +472,13 @@ function canonicalizeHistoryItem(item: UndoableHistoryItem): UndoableHistoryItem
             ...(item.rotationCenter === undefined
                 ? {}
                 : { rotationCenter: clonePoint(item.rotationCenter) }),
+            ...(item.sides === undefined ? {} : { sides: item.sides }),
+            ...(item.innerRadiusRatio === undefined ? {} : { innerRadiusRatio: item.innerRadiusRatio }),
+            ...(item.penSamples === undefined
+                ? {}
+                : { penSamples: item.penSamples.map((sample) => ({ ...sample })) }),
+            ...(item.blockShape === undefined ? {} : { blockShape: item.blockShape }),
+            ...canonicalizeMembership(item),
         } as UndoableHistoryItem;
     }
 
@@ -397,6 +500,58 @@ function canonicalizeHistoryItem(item: UndoableHistoryItem): UndoableHistoryItem
         };
     }
 
+    if (item.action === HistoryAction.Reproject) {
+        return {
+            action: HistoryAction.Reproject,
+            points: [],
+            fromFolds: cloneFolds(item.fromFolds),
+            toFolds: cloneFolds(item.toFolds),
+            fromCanvasDimensions: { ...item.fromCanvasDimensions },
+            toCanvasDimensions: { ...item.toCanvasDimensions },
+        };
+    }
+
+    if (item.action === HistoryAction.UpdateLayers) {
+        return {
+            action: HistoryAction.UpdateLayers,
+            points: [],
+            fromLayers: item.fromLayers.map(cloneLayer),
+            toLayers: item.toLayers.map(cloneLayer),
+        };
+    }
+
+    if (item.action === HistoryAction.Arrange) {
+        return { action: HistoryAction.Arrange, points: [], itemId: item.itemId, direction: item.direction };
+    }
+
+    if (item.action === HistoryAction.SetLayer) {
+        return {
+            action: HistoryAction.SetLayer,
+            points: [],
+            itemId: item.itemId,
+            fromLayerId: item.fromLayerId,
+            toLayerId: item.toLayerId,
+        };
+    }
+
+    if (item.action === HistoryAction.Group) {
+        return {
+            action: HistoryAction.Group,
+            points: [],
+            itemId: item.itemId,
+            ...(item.fromGroupId === undefined ? {} : { fromGroupId: item.fromGroupId }),
+            ...(item.toGroupId === undefined ? {} : { toGroupId: item.toGroupId }),
+        };
+    }
+
+    if (item.action === HistoryAction.Batch) {
+        return {
+            action: HistoryAction.Batch,
+            points: [],
+            commands: item.commands.map((command) => canonicalizeHistoryItem(command) as BatchableHistoryItem),
+        };
+    }
+
     return {
         action: item.action,
         points: [],
@@ -414,53 +569,81 @@ function canonicalizeHistoryItem(item: UndoableHistoryItem): UndoableHistoryItem
     };
 }
 
-function isValidSerializableStateV2(value: unknown): value is SerializableState {
-    if (!isRecord(value) || value.version !== SHARE_SCHEMA_VERSION) return false;
-    if (!isValidSharedStateFields(value, true)) return false;
-    if (!value.history.every((item) => isValidHistoryItem(item, true))) return false;
+function isValidSerializableState(
+    value: unknown,
+    limits: DocumentSizeLimits = SHARE_DOCUMENT_LIMITS
+): value is SerializableState {
+    if (!isRecord(value) || !isSupportedVersion(value.version)) return false;
+    if (!isValidSharedStateFields(value, true, limits)) return false;
+    if (!value.history.every((item) => isValidHistoryItem(item, true, limits))) return false;
 
     const ids = value.history
+        .flatMap((item) => item.action === HistoryAction.Batch ? item.commands : [item])
         .filter(isDrawableCommand)
         .map((item) => item.id);
     return new Set(ids).size === ids.length;
 }
 
 function isValidLegacySerializableState(value: unknown): value is LegacySerializableState {
-    if (!isRecord(value) || !isValidSharedStateFields(value, false)) return false;
+    if (!isRecord(value) || !isValidSharedStateFields(value, false, SHARE_DOCUMENT_LIMITS)) return false;
     return value.history.every((item) => isValidHistoryItem(item, false));
 }
 
 function isValidSharedStateFields(
     value: Record<string, unknown>,
-    requireShapeFillMode: boolean
+    requireShapeFillMode: boolean,
+    limits: DocumentSizeLimits
 ): value is Record<string, unknown> & LegacySerializableState {
-    if (!Array.isArray(value.history) || value.history.length > MAX_SHARE_HISTORY_ITEMS) return false;
+    if (!Array.isArray(value.history) || value.history.length > limits.historyItems) return false;
     if (!isValidFolds(value.folds) || !isValidCanvasDimensions(value.canvasDimensions)) return false;
     if (!isFiniteInRange(value.circleRadius, 1, MAX_CIRCLE_RADIUS)) return false;
     if (!isFiniteInRange(value.lineThickness, 1, MAX_LINE_THICKNESS)) return false;
     if (requireShapeFillMode && !isShapeFillMode(value.shapeFillMode)) return false;
     if (value.shapeFillMode !== undefined && !isShapeFillMode(value.shapeFillMode)) return false;
+    if (value.drawingColor !== undefined && normalizeHexColor(value.drawingColor) !== value.drawingColor) {
+        return false;
+    }
+    if (value.backgroundColor !== undefined &&
+        normalizeBackgroundColor(value.backgroundColor) !== value.backgroundColor) {
+        return false;
+    }
     if (!Object.values(DrawingTool).includes(value.currentTool as DrawingTool)) return false;
 
     let totalPoints = 0;
     for (const item of value.history) {
         if (!isRecord(item)) return false;
-        for (const field of ['points', 'fromPoints', 'toPoints']) {
-            const points = item[field];
-            if (Array.isArray(points)) totalPoints += points.length;
-        }
-        for (const field of ['path', 'fromPath', 'toPath']) {
-            const path = item[field];
-            if (isRecord(path) && Array.isArray(path.anchors)) {
-                totalPoints += path.anchors.length * 3;
+        totalPoints += countItemPoints(item);
+        if (Array.isArray(item.commands)) {
+            for (const command of item.commands) {
+                if (isRecord(command)) totalPoints += countItemPoints(command);
             }
         }
-        if (totalPoints > MAX_SHARE_TOTAL_POINTS) return false;
+        if (totalPoints > limits.totalPoints) return false;
     }
     return true;
 }
 
-function isValidHistoryItem(value: unknown, requireV2Style: boolean): value is UndoableHistoryItem {
+/** Points an item carries directly; a path anchor counts with its two handles. */
+function countItemPoints(item: Record<string, unknown>): number {
+    let total = 0;
+    for (const field of ['points', 'fromPoints', 'toPoints']) {
+        const points = item[field];
+        if (Array.isArray(points)) total += points.length;
+    }
+    for (const field of ['path', 'fromPath', 'toPath']) {
+        const path = item[field];
+        if (isRecord(path) && Array.isArray(path.anchors)) {
+            total += path.anchors.length * 3;
+        }
+    }
+    return total;
+}
+
+function isValidHistoryItem(
+    value: unknown,
+    requireV2Style: boolean,
+    limits: DocumentSizeLimits = SHARE_DOCUMENT_LIMITS
+): value is UndoableHistoryItem {
     if (!isRecord(value) || !Array.isArray(value.points)) return false;
     if (value.points.length > MAX_SHARE_POINTS_PER_ITEM || !areValidPoints(value.points)) return false;
 
@@ -473,14 +656,20 @@ function isValidHistoryItem(value: unknown, requireV2Style: boolean): value is U
             'style',
             'rotation',
             'rotationCenter',
+            'layerId',
+            'groupId',
             ...(action === DrawingTool.Bezier ? ['path'] : []),
+            ...(isPolygonAction(action) ? ['sides'] : []),
+            ...(action === DrawingTool.Star ? ['innerRadiusRatio'] : []),
+            ...(isBrushAction(action) ? ['penSamples'] : []),
+            ...(action === DrawingTool.ResistBlock ? ['blockShape'] : []),
         ])) return false;
         if (action === DrawingTool.Bezier) {
             const validLegacy = value.points.length === 4 && value.path === undefined;
             const validPath = value.points.length === 0 && isValidBezierPath(value.path);
             if (!validLegacy && !validPath) return false;
         } else {
-            const minimumPoints = action === DrawingTool.Paintbrush ? 1 : 2;
+            const minimumPoints = isBrushAction(action) ? 1 : 2;
             if (value.points.length < minimumPoints || value.path !== undefined) return false;
         }
         if (requireV2Style && !isValidId(value.id)) return false;
@@ -493,7 +682,25 @@ function isValidHistoryItem(value: unknown, requireV2Style: boolean): value is U
         if (value.shapeFillMode !== undefined && !isShapeFillMode(value.shapeFillMode)) return false;
         if (value.rotation !== undefined && !Number.isFinite(value.rotation)) return false;
         if (value.rotationCenter !== undefined && !isValidPoint(value.rotationCenter)) return false;
-        return true;
+        if (value.sides !== undefined && !(isPolygonAction(action) && isValidPolygonSides(value.sides))) {
+            return false;
+        }
+        if (value.innerRadiusRatio !== undefined &&
+            !(action === DrawingTool.Star && isValidStarInnerRadiusRatio(value.innerRadiusRatio))) {
+            return false;
+        }
+        if (value.penSamples !== undefined && !(isBrushAction(action) &&
+            Array.isArray(value.penSamples) && value.penSamples.length === value.points.length &&
+            value.penSamples.every(isValidPenSample))) {
+            return false;
+        }
+        if (action === DrawingTool.ResistBlock
+            ? !isResistBlockShape(value.blockShape)
+            : value.blockShape !== undefined) {
+            return false;
+        }
+        if (value.layerId !== undefined && !isValidId(value.layerId)) return false;
+        return value.groupId === undefined || isValidId(value.groupId);
     }
 
     if (action === HistoryAction.Clear) {
@@ -507,7 +714,7 @@ function isValidHistoryItem(value: unknown, requireV2Style: boolean): value is U
             !hasAny(value, ['fromPoints', 'toPoints', 'style']);
     }
 
-    if (action === HistoryAction.Move || action === HistoryAction.Rotate) {
+    if (isTransformAction(action)) {
         if (requireV2Style && !hasOnlyKeys(value, [
             'action',
             'points',
@@ -539,6 +746,55 @@ function isValidHistoryItem(value: unknown, requireV2Style: boolean): value is U
             !hasAny(value, ['style', 'shapeFillMode', 'rotation', 'rotationCenter']);
     }
 
+    if (action === HistoryAction.Reproject) {
+        if (requireV2Style && !hasOnlyKeys(value, [
+            'action', 'points', 'fromFolds', 'toFolds', 'fromCanvasDimensions', 'toCanvasDimensions',
+        ])) return false;
+        return value.points.length === 0 &&
+            isValidFolds(value.fromFolds) && isValidFolds(value.toFolds) &&
+            isValidCanvasDimensions(value.fromCanvasDimensions) &&
+            isValidCanvasDimensions(value.toCanvasDimensions) &&
+            !hasAny(value, ['itemId', 'style']);
+    }
+
+    if (action === HistoryAction.UpdateLayers) {
+        if (requireV2Style && !hasOnlyKeys(value, ['action', 'points', 'fromLayers', 'toLayers'])) return false;
+        return value.points.length === 0 && isValidLayers(value.fromLayers) && isValidLayers(value.toLayers);
+    }
+
+    if (action === HistoryAction.Arrange) {
+        if (requireV2Style && !hasOnlyKeys(value, ['action', 'points', 'itemId', 'direction'])) return false;
+        return value.points.length === 0 && isValidId(value.itemId) &&
+            (value.direction === 'forward' || value.direction === 'backward');
+    }
+
+    if (action === HistoryAction.SetLayer) {
+        if (requireV2Style && !hasOnlyKeys(value, ['action', 'points', 'itemId', 'fromLayerId', 'toLayerId'])) {
+            return false;
+        }
+        return value.points.length === 0 && isValidId(value.itemId) &&
+            isValidId(value.fromLayerId) && isValidId(value.toLayerId);
+    }
+
+    if (action === HistoryAction.Group) {
+        if (requireV2Style && !hasOnlyKeys(value, ['action', 'points', 'itemId', 'fromGroupId', 'toGroupId'])) {
+            return false;
+        }
+        return value.points.length === 0 && isValidId(value.itemId) &&
+            (value.fromGroupId === undefined || isValidId(value.fromGroupId)) &&
+            (value.toGroupId === undefined || isValidId(value.toGroupId));
+    }
+
+    // Batches hold single-item commands and added drawables only; they never nest.
+    if (action === HistoryAction.Batch) {
+        if (requireV2Style && !hasOnlyKeys(value, ['action', 'points', 'commands'])) return false;
+        return value.points.length === 0 && Array.isArray(value.commands) &&
+            value.commands.length > 0 && value.commands.length <= limits.historyItems &&
+            value.commands.every((command) => isBatchableAction(isRecord(command) ? command.action : undefined) &&
+                isValidHistoryItem(command, requireV2Style, limits)) &&
+            !hasAny(value, ['itemId', 'style']);
+    }
+
     return false;
 }
 
@@ -554,23 +810,44 @@ function isValidDrawingStyle(
         ...(requireFillMode ? ['shapeFillMode'] : []),
     ])) return false;
     if (!isFiniteInRange(value.lineThickness, 1, MAX_LINE_THICKNESS)) return false;
-    if (typeof value.color !== 'string' || value.color.length === 0 || value.color.length > MAX_COLOR_LENGTH) {
-        return false;
-    }
+    if (!isDrawingColor(value.color) || value.color.length > MAX_COLOR_LENGTH) return false;
     if (requireFillMode && !isShapeFillMode(value.shapeFillMode)) return false;
     if (requireExactShape && !requireFillMode && value.shapeFillMode !== undefined) return false;
     return value.shapeFillMode === undefined || isShapeFillMode(value.shapeFillMode);
 }
 
+/** At least one layer, each with a unique ID. */
+function isValidLayers(value: unknown): value is Layer[] {
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_LAYERS) return false;
+    const ids = new Set<string>();
+    for (const layer of value) {
+        if (!isRecord(layer) || !hasOnlyKeys(layer, ['id', 'name', 'visible', 'locked', 'opacity'])) return false;
+        if (!isValidId(layer.id) || ids.has(layer.id)) return false;
+        ids.add(layer.id);
+        if (typeof layer.name !== 'string' || layer.name.length > MAX_LAYER_NAME_LENGTH) return false;
+        if (typeof layer.visible !== 'boolean' || typeof layer.locked !== 'boolean') return false;
+        if (!isFiniteInRange(layer.opacity, 0, 1)) return false;
+    }
+    return true;
+}
+
 function isValidFolds(value: unknown): value is FoldState {
     if (!isRecord(value) || !isRecord(value.diagonal)) return false;
     return isIntegerInRange(value.vertical, 0, MAX_FOLDS) &&
         isIntegerInRange(value.horizontal, 0, MAX_FOLDS) &&
         typeof value.diagonal.enabled === 'boolean' &&
-        isIntegerInRange(value.diagonal.count, 0, 1) &&
+        isIntegerInRange(value.diagonal.count, 0, MAX_DIAGONAL_FOLDS) &&
         Object.values(DiagonalDirection).includes(
             value.diagonal.direction as DiagonalDirection
-        );
+        ) &&
+        (value.system === undefined || Object.values(FoldSystem).includes(value.system as FoldSystem)) &&
+        (value.accordion === undefined || isValidAccordionPanels(value.accordion));
+}
+
+function isValidAccordionPanels(value: unknown): boolean {
+    return isRecord(value) &&
+        isIntegerInRange(value.columns, MIN_ACCORDION_PANELS, MAX_ACCORDION_PANELS) &&
+        isIntegerInRange(value.rows, MIN_ACCORDION_PANELS, MAX_ACCORDION_PANELS);
 }
 
 function isValidCanvasDimensions(value: unknown): value is SerializableState['canvasDimensions'] {
@@ -587,13 +864,53 @@ function isValidPoint(value: unknown): value is Point {
     return isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
 }
 
+function isTransformAction(action: unknown): boolean {
+    return action === HistoryAction.Move ||
+        action === HistoryAction.Rotate ||
+        action === HistoryAction.Scale ||
+        action === HistoryAction.Flip;
+}
+
+function isBatchableAction(action: unknown): boolean {
+    return isDrawableAction(action as UndoableHistoryItem['action']) ||
+        isTransformAction(action) ||
+        action === HistoryAction.Delete ||
+        action === HistoryAction.UpdatePath ||
+        action === HistoryAction.Arrange ||
+        action === HistoryAction.SetLayer ||
+        action === HistoryAction.Group;
+}
+
+function isSupportedVersion(version: unknown): boolean {
+    return version === SHARE_SCHEMA_VERSION || version === PREVIOUS_SHARE_SCHEMA_VERSION;
+}
+
+function isBrushAction(action: UndoableHistoryItem['action']): boolean {
+    return action === DrawingTool.Paintbrush || action === DrawingTool.Eraser;
+}
+
 function isShapeAction(action: UndoableHistoryItem['action']): boolean {
     return action === DrawingTool.Rectangle ||
         action === DrawingTool.Square ||
         action === DrawingTool.Circle ||
+        action === DrawingTool.Ellipse ||
+        action === DrawingTool.Polygon ||
+        action === DrawingTool.Star ||
         action === DrawingTool.Bezier;
 }
 
+function isValidPolygonSides(value: unknown): boolean {
+    return Number.isInteger(value) &&
+        (value as number) >= MIN_POLYGON_SIDES &&
+        (value as number) <= MAX_POLYGON_SIDES;
+}
+
+function isValidStarInnerRadiusRatio(value: unknown): boolean {
+    return typeof value === 'number' &&
+        value >= MIN_STAR_INNER_RADIUS_RATIO &&
+        value <= MAX_STAR_INNER_RADIUS_RATIO;
+}
+
 function isValidBezierPath(value: unknown): value is BezierPath {
     if (!isRecord(value) || typeof value.closed !== 'boolean' || !Array.isArray(value.anchors)) return false;
     if (value.anchors.length < 2 || value.anchors.length > MAX_SHARE_POINTS_PER_ITEM) return false;
@@ -658,6 +975,23 @@ function clonePoint(point: Point): Point {
     return { x: point.x, y: point.y };
 }
 
+function canonicalizeMembership(item: { layerId?: string; groupId?: string }): { layerId?: string; groupId?: string } {
+    return {
+        ...(item.layerId === undefined ? {} : { layerId: item.layerId }),
+        ...(item.groupId === undefined ? {} : { groupId: item.groupId }),
+    };
+}
+
+function cloneLayer(layer: Layer): Layer {
+    return {
+        id: layer.id,
+        name: layer.name,
+        visible: layer.visible,
+        locked: layer.locked,
+        opacity: layer.opacity,
+    };
+}
+
 function cloneStyle(style: DrawingStyle): DrawingStyle {
     return {
         lineThickness: style.lineThickness,
@@ -671,5 +1005,7 @@ function cloneFolds(folds: FoldState): FoldState {
         vertical: folds.vertical,
         horizontal: folds.horizontal,
         diagonal: { ...folds.diagonal },
+        ...(folds.system === undefined ? {} : { system: folds.system }),
+        ...(folds.accordion === undefined ? {} : { accordion: { ...folds.accordion } }),
     };
 }
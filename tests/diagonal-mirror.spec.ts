@@ -3,14 +3,16 @@ import { expect, test } from '@playwright/test';
 type DiagonalDirection = 'topRightToBottomLeft' | 'topLeftToBottomRight';
 
 test.describe('diagonal mirror boundary', () => {
-  for (const direction of [
-    'topRightToBottomLeft',
-    'topLeftToBottomRight',
-  ] as const satisfies readonly DiagonalDirection[]) {
-    test(`joins both sides without a one-pixel seam for ${direction}`, async ({ page }) => {
+  for (const { direction, count } of [
+    { direction: 'topRightToBottomLeft', count: 1 },
+    { direction: 'topLeftToBottomRight', count: 1 },
+    { direction: 'topRightToBottomLeft', count: 2 },
+    { direction: 'topLeftToBottomRight', count: 2 },
+  ] as const satisfies readonly { direction: DiagonalDirection; count: number }[]) {
+    test(`joins every side without a one-pixel seam for ${count} ${direction} fold(s)`, async ({ page }) => {
       await page.goto('/');
 
-      const boundary = await page.evaluate(async (diagonalDirection) => {
+      const boundary = await page.evaluate(async ({ diagonalDirection, diagonalCount }) => {
         const moduleUrl = '/src/rendering/CanvasMirror.ts';
         const canvasServiceModuleUrl = '/src/services/CanvasService.ts';
         const { renderUnfoldedCanvas } = await import(/* @vite-ignore */ moduleUrl) as typeof import('../src/rendering/CanvasMirror');
@@ -35,7 +37,7 @@ test.describe('diagonal mirror boundary', () => {
           horizontal: foldCount,
           diagonal: {
             enabled: true,
-            count: 1,
+            count: diagonalCount,
             direction: diagonalDirection,
           },
         });
@@ -52,7 +54,7 @@ test.describe('diagonal mirror boundary', () => {
           horizontal: foldCount,
           diagonal: {
             enabled: true,
-            count: 1,
+            count: diagonalCount,
             direction: diagonalDirection,
           },
         });
@@ -70,7 +72,7 @@ test.describe('diagonal mirror boundary', () => {
         }
 
         return { darkestInteriorChannel, interiorPixelsBelowWhite };
-      }, direction);
+      }, { diagonalDirection: direction, diagonalCount: count });
 
       expect(boundary.darkestInteriorChannel).toBeGreaterThanOrEqual(250);
       expect(boundary.interiorPixelsBelowWhite).toBe(0);